@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server"
+import { errorResponse, readJsonObject } from "@/src/server/api"
+import { clearSessionCookie, resolveSession, setSessionCookie, signIn, signOutEverywhere } from "@/src/server/auth"
+import { getStorage, withLock } from "@/src/server/storage"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+/** The signed-in staff member, or 401 when the session is missing, expired or disabled. */
+export async function GET(request: NextRequest) {
+  return withLock(async () => {
+    try {
+      const session = await resolveSession(request.headers)
+      if (!session) {
+        return NextResponse.json({ success: false, message: "Not signed in" }, { status: 401 })
+      }
+      return NextResponse.json({ success: true, data: session })
+    } catch (error) {
+      return errorResponse(error)
+    }
+  })
+}
+
+/** Signs in with `{ email, password }` and sets the session cookie. */
+export async function POST(request: NextRequest) {
+  return withLock(async () => {
+    try {
+      const body = await readJsonObject(request)
+      const { token, session } = await signIn(getStorage(), { email: body.email, password: body.password })
+      const response = NextResponse.json({ success: true, data: session })
+      setSessionCookie(response, token, session)
+      return response
+    } catch (error) {
+      return errorResponse(error)
+    }
+  })
+}
+
+/**
+ * Signs out by clearing the cookie. With `?everywhere=true` it also ends the
+ * account's sessions on every other device.
+ */
+export async function DELETE(request: NextRequest) {
+  return withLock(async () => {
+    try {
+      if (request.nextUrl.searchParams.get("everywhere") === "true") {
+        await signOutEverywhere(getStorage(), request.headers)
+      }
+      const response = NextResponse.json({ success: true })
+      clearSessionCookie(response)
+      return response
+    } catch (error) {
+      return errorResponse(error)
+    }
+  })
+}
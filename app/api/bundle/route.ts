@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server"
+import { errorResponse } from "@/src/server/api"
+import { requirePermission } from "@/src/server/auth"
+import {
+  StorageError,
+  createBackup,
+  databasePath,
+  exportBundle,
+  getStorage,
+  importBundle,
+  publishChanges,
+  withLock,
+} from "@/src/server/storage"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+/** The whole database as a zip bundle; see `exportBundle`. */
+export async function GET(request: NextRequest) {
+  return withLock(async () => {
+    try {
+      await requirePermission(request.headers, "admin.tools")
+      const bundle = await exportBundle(getStorage())
+      return new NextResponse(new Uint8Array(bundle.content), {
+        headers: {
+          "Content-Type": "application/zip",
+          "Content-Disposition": `attachment; filename="${bundle.fileName}"`,
+        },
+      })
+    } catch (error) {
+      return errorResponse(error)
+    }
+  })
+}
+
+/**
+ * Restores a bundle sent as the request body. `?mode=merge|replace` picks how
+ * existing rows are treated; `?dryRun=false` applies it, otherwise only the
+ * report comes back. The local workbook is backed up before anything changes.
+ */
+export async function POST(request: NextRequest) {
+  return withLock(async () => {
+    try {
+      await requirePermission(request.headers, "admin.tools")
+      const params = request.nextUrl.searchParams
+      const mode = params.get("mode") || "merge"
+      if (mode !== "merge" && mode !== "replace") {
+        throw new StorageError('mode must be "merge" or "replace"', 400)
+      }
+      const dryRun = params.get("dryRun") !== "false"
+      const content = Buffer.from(await request.arrayBuffer())
+      if (!content.length) throw new StorageError("Choose a bundle file to import", 400)
+
+      const storage = getStorage()
+      if (!dryRun) createBackup(databasePath, "pre-restore")
+      const data = await importBundle(storage, content, { mode, dryRun })
+      if (!dryRun) {
+        publishChanges(
+          data.tables
+            .filter((report) => report.inserted + report.updated + report.deleted > 0)
+            .map((report) => ({ table: report.table, action: "restore" })),
+          request.headers.get("x-client-id"),
+        )
+      }
+      return NextResponse.json({ success: true, data, source: storage.source })
+    } catch (error) {
+      return errorResponse(error)
+    }
+  })
+}
@@ -0,0 +1,66 @@
+import { NextRequest } from "next/server"
+import { errorResponse } from "@/src/server/api"
+import { requireSession } from "@/src/server/auth"
+import { subscribeToChanges, withLock, type ChangeEvent } from "@/src/server/storage"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+const heartbeatMs = 25_000
+
+/**
+ * Server-sent events stream of table changes made through /api/excel-db.
+ * Each `change` event carries the tables and actions touched by one request.
+ * Like the rest of the API it needs a staff session or API key.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    await withLock(() => requireSession(request.headers))
+  } catch (error) {
+    return errorResponse(error)
+  }
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          cleanup()
+        }
+      }
+
+      const unsubscribe = subscribeToChanges((event: ChangeEvent) => {
+        send(`id: ${event.id}\nevent: change\ndata: ${JSON.stringify(event)}\n\n`)
+      })
+      // Comments keep proxies from closing an idle connection.
+      const heartbeat = setInterval(() => send(": ping\n\n"), heartbeatMs)
+
+      cleanup = () => {
+        clearInterval(heartbeat)
+        unsubscribe()
+        try {
+          controller.close()
+        } catch {}
+      }
+      request.signal.addEventListener("abort", () => cleanup())
+
+      send("retry: 3000\n\n")
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  })
+}
@@ -1,445 +1,293 @@
 import { NextRequest, NextResponse } from "next/server"
-import fs from "fs"
-import path from "path"
-import * as XLSX from "xlsx"
+import { errorResponse } from "@/src/server/api"
+import { tablePermission, type Permission, type TableAccess } from "@/src/lib/permissions"
+import {
+  assertColumnPermissions,
+  assertPermissions,
+  assertPublicTables,
+  auditActor,
+  isPrivateTable,
+  requireSession,
+  type StaffSession,
+} from "@/src/server/auth"
+import {
+  StorageError,
+  archiveMember,
+  archiveOldRecords,
+  archiveSummary,
+  asTableName,
+  asTableNames,
+  checkIntegrity,
+  checkPreconditions,
+  createBackup,
+  databasePath,
+  getLocalStorage,
+  getStorage,
+  importLegacyDump,
+  isArchivedTable,
+  isSyncedAdapter,
+  listBackups,
+  listWithArchive,
+  memberTables,
+  parseExpected,
+  parseOperations,
+  parseQueryOptions,
+  previewRestore,
+  publishChanges,
+  publishWrites,
+  purgeMember,
+  queryWithArchive,
+  readWithFallback,
+  repairIntegrity,
+  reserveMemberIds,
+  restoreBackup,
+  restoreMember,
+  runAudited,
+  tableNames,
+  validateOperations,
+  withLock,
+  type Row,
+  type StorageAdapter,
+  type TableName,
+} from "@/src/server/storage"
 
 export const runtime = "nodejs"
 export const dynamic = "force-dynamic"
 
-type Row = Record<string, unknown>
-
-type TableName =
-  | "users"
-  | "subscriptions"
-  | "medical_history"
-  | "emergency_contacts"
-  | "liability_waivers"
-  | "scan_logs"
-  | "active_sessions"
-  | "subscription_history"
-  | "user_id_counter"
-  | "payment"
-
-const tableNames = [
-  "users",
-  "subscriptions",
-  "medical_history",
-  "emergency_contacts",
-  "liability_waivers",
-  "scan_logs",
-  "active_sessions",
-  "subscription_history",
-  "user_id_counter",
-  "payment",
-] as const
-
-interface TableConfig {
-  sheetName: string
-  primaryKey: string
-  columns: string[]
-  seedRows?: Row[]
-}
-
-const tableConfigs: Record<TableName, TableConfig> = {
-  users: {
-    sheetName: "Users",
-    primaryKey: "user_id",
-    columns: [
-      "user_id",
-      "name",
-      "email",
-      "phone",
-      "birthday",
-      "age",
-      "address",
-      "goal",
-      "program_type",
-      "height_cm",
-      "weight_kg",
-      "created_at",
-      "updated_at",
-    ],
-  },
-  subscriptions: {
-    sheetName: "Subscriptions",
-    primaryKey: "user_id",
-    columns: [
-      "user_id",
-      "start_date",
-      "end_date",
-      "status",
-      "plan_duration",
-      "membership_type",
-      "coaching_preference",
-      "payment_status",
-      "payment_date",
-      "created_at",
-    ],
-  },
-  medical_history: {
-    sheetName: "Medical History",
-    primaryKey: "user_id",
-    columns: [
-      "user_id",
-      "heart_problems",
-      "blood_pressure_problems",
-      "chest_pain_exercising",
-      "asthma_breathing_problems",
-      "joint_problems",
-      "neck_back_problems",
-      "pregnant_recent_birth",
-      "other_medical_conditions",
-      "other_medical_details",
-      "smoking",
-      "medication",
-      "medication_details",
-      "created_at",
-      "updated_at",
-    ],
-  },
-  emergency_contacts: {
-    sheetName: "Emergency Contacts",
-    primaryKey: "user_id",
-    columns: ["user_id", "contact_name", "contact_number", "created_at", "updated_at"],
-  },
-  liability_waivers: {
-    sheetName: "Liability Waivers",
-    primaryKey: "user_id",
-    columns: ["user_id", "signature_name", "signed_date", "waiver_accepted", "created_at"],
-  },
-  scan_logs: {
-    sheetName: "Scan Logs",
-    primaryKey: "id",
-    columns: ["id", "user_id", "user_name", "timestamp", "action", "status"],
-  },
-  active_sessions: {
-    sheetName: "Active Sessions",
-    primaryKey: "user_id",
-    columns: ["user_id", "user_name", "check_in_time"],
-  },
-  subscription_history: {
-    sheetName: "Subscription History",
-    primaryKey: "id",
-    columns: ["id", "user_id", "start_date", "end_date", "status", "created_at", "updated_at"],
-  },
-  user_id_counter: {
-    sheetName: "User ID Counter",
-    primaryKey: "id",
-    columns: ["id", "last_number"],
-    seedRows: [{ id: 1, last_number: 1000 }],
-  },
-  payment: {
-    sheetName: "Payments",
-    primaryKey: "payment_id",
-    columns: [
-      "payment_id",
-      "user_id",
-      "amount",
-      "payment_method",
-      "payment_date",
-      "reference_number",
-      "notes",
-      "payment_for",
-      "created_at",
-      "updated_at",
-    ],
-  },
-}
-
-const databasePath =
-  process.env.EXCEL_DATABASE_PATH ||
-  path.join(process.cwd(), "data", "bacas-database.xlsx")
-const googleSheetsDbUrl =
-  process.env.GOOGLE_SHEETS_DB_URL ||
-  process.env.NEXT_PUBLIC_GOOGLE_SHEETS_DB_URL ||
-  "https://script.google.com/macros/s/AKfycbzuEZSHMlQnaV8NU2rQRCDZyEEB_pQSno-sNj6w20vFg4GoG6eNZF6hSOYv3fpDXzFF/exec"
-const remoteReadCacheTtlMs = Number(process.env.GOOGLE_SHEETS_CACHE_TTL_MS || 30_000)
-
-let operationLock = Promise.resolve()
-const remoteReadCache = new Map<string, { expiresAt: number; data: unknown }>()
-
-function withLock<T>(operation: () => Promise<T>): Promise<T> {
-  const run = operationLock.then(operation, operation)
-  operationLock = run.then(
-    () => undefined,
-    () => undefined,
-  )
-  return run
-}
-
-function ensureWorkbook(): XLSX.WorkBook {
-  fs.mkdirSync(path.dirname(databasePath), { recursive: true })
-
-  if (fs.existsSync(databasePath)) {
-    const workbook = XLSX.read(fs.readFileSync(databasePath), {
-      cellDates: false,
-      type: "buffer",
-    })
-    let changed = false
-
-    for (const table of Object.values(tableConfigs)) {
-      if (!workbook.Sheets[table.sheetName]) {
-        const rows = table.seedRows || []
-        workbook.Sheets[table.sheetName] = rowsToSheet(table, rows)
-        workbook.SheetNames.push(table.sheetName)
-        changed = true
-      }
-    }
-
-    if (changed) writeWorkbook(workbook)
-    return workbook
-  }
-
-  const workbook = XLSX.utils.book_new()
-  for (const table of Object.values(tableConfigs)) {
-    XLSX.utils.book_append_sheet(
-      workbook,
-      rowsToSheet(table, table.seedRows || []),
-      table.sheetName,
-    )
-  }
-  writeWorkbook(workbook)
-  return workbook
-}
+const rowActions = ["list", "get", "query", "insert", "update", "delete"] as const
+type RowAction = (typeof rowActions)[number]
 
-function writeWorkbook(workbook: XLSX.WorkBook): void {
-  const buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer
-  fs.writeFileSync(databasePath, buffer)
+function isRowAction(value: unknown): value is RowAction {
+  return rowActions.includes(value as RowAction)
 }
 
-function rowsToSheet(table: TableConfig, rows: Row[]): XLSX.WorkSheet {
-  const extraColumns = rows.flatMap((row) =>
-    Object.keys(row).filter((key) => !table.columns.includes(key)),
+// What each non-table action needs. Table reads and writes are checked per
+// table through `tablePermission`.
+const actionPermissions = new Map<string, Permission>([
+  ["archiveMember", "members.delete"],
+  ["restoreMember", "members.delete"],
+  ["purgeMember", "members.delete"],
+  ["nextId", "members.edit"],
+  ["listBackups", "admin.tools"],
+  ["createBackup", "admin.tools"],
+  ["previewRestore", "admin.tools"],
+  ["restoreBackup", "admin.tools"],
+  ["importLegacy", "admin.tools"],
+  ["checkIntegrity", "admin.tools"],
+  ["repairIntegrity", "admin.tools"],
+  ["archiveSummary", "admin.tools"],
+  ["archiveOldRecords", "admin.tools"],
+  ["syncStatus", "admin.tools"],
+  ["reconcile", "admin.tools"],
+  ["resolveConflict", "admin.tools"],
+])
+
+function assertTableAccess(session: StaffSession, accesses: [TableName, TableAccess][]): void {
+  assertPublicTables(accesses.map(([table]) => table))
+  assertPermissions(
+    session,
+    accesses.map(([table, access]) => tablePermission(table, access)),
   )
-  const headers = [...table.columns, ...Array.from(new Set(extraColumns))]
-  const values = rows.map((row) => headers.map((header) => row[header] ?? null))
-  return XLSX.utils.aoa_to_sheet([headers, ...values])
 }
 
-function getRows(workbook: XLSX.WorkBook, table: TableConfig): Row[] {
-  const sheet = workbook.Sheets[table.sheetName]
-  if (!sheet) return table.seedRows || []
-
-  return XLSX.utils.sheet_to_json<Row>(sheet, {
-    defval: null,
-    raw: false,
+function success(adapter: StorageAdapter, payload: Record<string, unknown>) {
+  return NextResponse.json({
+    success: true,
+    ...payload,
+    ...adapter.details,
+    source: adapter.source,
   })
 }
 
-function saveRows(workbook: XLSX.WorkBook, table: TableConfig, rows: Row[]): void {
-  workbook.Sheets[table.sheetName] = rowsToSheet(table, rows)
-  writeWorkbook(workbook)
-}
-
-function sameValue(left: unknown, right: unknown): boolean {
-  return String(left ?? "") === String(right ?? "")
-}
-
-function createId(): string {
-  return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`
-}
-
-function asTableName(value: unknown): TableName | null {
-  if (typeof value !== "string") return null
-  return value in tableConfigs ? (value as TableName) : null
-}
-
-function asTableNames(value: unknown): TableName[] {
-  if (!Array.isArray(value)) return [...tableNames]
-  const names = value.map(asTableName).filter((name): name is TableName => !!name)
-  return names.length ? names : [...tableNames]
-}
-
-function canUseGoogleSheets(): boolean {
-  return !!googleSheetsDbUrl
-}
+export async function POST(request: NextRequest) {
+  return withLock(async () => {
+    try {
+      // Every action needs a staff session or API key; the role decides the rest.
+      const session = await requireSession(request.headers)
+      const body = await request.json()
+      const tableName = asTableName(body.table)
+      const action = body.action as string | undefined
+      const preferLocal = body.preferLocal === true
+      const origin = request.headers.get("x-client-id")
+      const actor = auditActor(session, request.headers)
+      assertPermissions(session, [actionPermissions.get(action ?? "") ?? null])
 
-function normalizeRemoteRows(data: unknown): Row[] | null {
-  if (!Array.isArray(data)) return null
-  return data.filter((row): row is Row => !!row && typeof row === "object" && !Array.isArray(row))
-}
+      if (action === "batchList") {
+        // Asking for every table means every table this API serves.
+        const requestedTables = asTableNames(body.tables).filter(
+          (table) => Array.isArray(body.tables) || !isPrivateTable(table),
+        )
+        assertTableAccess(
+          session,
+          requestedTables.map((table) => [table, "read"]),
+        )
+        const { adapter, data } = await readWithFallback(preferLocal, (storage) =>
+          storage.batchList(requestedTables),
+        )
+        return success(adapter, { data })
+      }
 
-function normalizeRemoteRow(data: unknown): Row | null {
-  if (!data || typeof data !== "object" || Array.isArray(data)) return null
-  return data as Row
-}
+      if (action === "transaction") {
+        const operations = parseOperations(body.operations)
+        assertTableAccess(
+          session,
+          operations.map((operation) => [operation.table, operation.action]),
+        )
+        assertColumnPermissions(session, operations)
+        validateOperations(operations)
+        const storage = preferLocal ? getLocalStorage() : getStorage()
+        await checkPreconditions(storage, operations)
+        const data = await runAudited(storage, operations, actor)
+        publishWrites(operations, origin)
+        return success(storage, { data })
+      }
 
-function getCachedRemoteRead<T>(key: string): T | null {
-  const cached = remoteReadCache.get(key)
-  if (!cached || cached.expiresAt < Date.now()) {
-    remoteReadCache.delete(key)
-    return null
-  }
-  return cached.data as T
-}
+      if (action === "archiveMember" || action === "restoreMember") {
+        const storage = preferLocal ? getLocalStorage() : getStorage()
+        const data =
+          action === "archiveMember"
+            ? await archiveMember(storage, body.id, actor)
+            : await restoreMember(storage, body.id, actor)
+        publishWrites(
+          action === "archiveMember"
+            ? [
+                { table: "users", action: "update" },
+                { table: "active_sessions", action: "delete" },
+              ]
+            : [{ table: "users", action: "update" }],
+          origin,
+        )
+        return success(storage, { data })
+      }
 
-function setCachedRemoteRead(key: string, data: unknown): void {
-  if (remoteReadCacheTtlMs <= 0) return
-  remoteReadCache.set(key, {
-    data,
-    expiresAt: Date.now() + remoteReadCacheTtlMs,
-  })
-}
+      if (action === "purgeMember") {
+        const storage = preferLocal ? getLocalStorage() : getStorage()
+        const deleted = await purgeMember(storage, body.id, actor)
+        publishWrites(
+          ["users" as const, ...memberTables].map((table) => ({ table, action: "delete" })),
+          origin,
+        )
+        return success(storage, { deleted })
+      }
 
-function clearRemoteReadCache(): void {
-  remoteReadCache.clear()
-}
+      if (action === "nextId") {
+        const storage = preferLocal ? getLocalStorage() : getStorage()
+        const data = await reserveMemberIds(storage, body.count ?? 1)
+        publishChanges([{ table: "user_id_counter", action: "update" }], origin)
+        return success(storage, { data })
+      }
 
-async function googleSheetsRequest(
-  table: TableName,
-  action: "list" | "get" | "insert" | "update" | "delete",
-  payload: Record<string, unknown> = {},
-): Promise<{ handled: boolean; data?: unknown; deleted?: number; message?: string }> {
-  if (!canUseGoogleSheets()) return { handled: false }
-
-  try {
-    if (action === "list" || action === "get") {
-      const url = new URL(googleSheetsDbUrl)
-      url.searchParams.set("action", action)
-      url.searchParams.set("table", table)
-      if (payload.id !== undefined) url.searchParams.set("id", String(payload.id))
-
-      const cacheKey = url.toString()
-      const cached = getCachedRemoteRead<unknown>(cacheKey)
-      if (cached !== null) return { handled: true, data: cached }
-
-      const response = await fetch(url, { cache: "no-store", redirect: "follow" })
-      const result = await response.json().catch(() => null)
-
-      if (!response.ok || !result?.success) {
-        return {
-          handled: false,
-          message: result?.message || `Google Sheets ${action} failed for ${table}`,
+      if (action === "importLegacy") {
+        const storage = preferLocal ? getLocalStorage() : getStorage()
+        const data = await importLegacyDump(storage, body.files, {
+          dryRun: body.dryRun !== false,
+          actor,
+        })
+        if (!data.dryRun) {
+          publishWrites(
+            [
+              ...data.tables
+                .filter((report) => report.imported > 0)
+                .map((report) => ({ table: report.table, action: "insert" })),
+              ...(data.counterAdvanced ? [{ table: "user_id_counter" as const, action: "update" }] : []),
+            ],
+            origin,
+          )
         }
+        return success(storage, { data })
       }
-      if (action === "list") {
-        const rows = normalizeRemoteRows(result.data)
-        if (!rows) return { handled: false }
-        setCachedRemoteRead(cacheKey, rows)
-        return { handled: true, data: rows, message: result.message }
+
+      if (action === "checkIntegrity") {
+        const storage = preferLocal ? getLocalStorage() : getStorage()
+        return success(storage, { data: await checkIntegrity(storage) })
       }
 
-      const row = normalizeRemoteRow(result.data)
-      setCachedRemoteRead(cacheKey, row)
-      return {
-        handled: true,
-        data: row,
-        message: result.message,
+      if (action === "repairIntegrity") {
+        if (!Array.isArray(body.ids)) throw new StorageError("ids must be a list of issue ids", 400)
+        const storage = preferLocal ? getLocalStorage() : getStorage()
+        const data = await repairIntegrity(storage, body.ids.map(String), actor)
+        publishWrites(
+          data.repaired.flatMap((issue) => issue.repair?.operations || []),
+          origin,
+        )
+        return success(storage, { data })
       }
-    }
 
-    const response = await fetch(googleSheetsDbUrl, {
-      method: "POST",
-      headers: { "Content-Type": "text/plain" },
-      body: JSON.stringify({ table, action, ...payload }),
-      redirect: "follow",
-      cache: "no-store",
-    })
-    const result = await response.json().catch(() => null)
-
-    if (!response.ok || !result?.success) {
-      return {
-        handled: false,
-        message: result?.message || `Google Sheets ${action} failed for ${table}`,
+      if (action === "archiveSummary") {
+        const { adapter, data } = await readWithFallback(preferLocal, archiveSummary)
+        return success(adapter, { data })
       }
-    }
-    clearRemoteReadCache()
-    return {
-      handled: true,
-      data: result.data,
-      deleted: result.deleted,
-      message: result.message,
-    }
-  } catch (error) {
-    console.warn("Google Sheets database request failed, falling back to local Excel:", error)
-    return {
-      handled: false,
-      message: error instanceof Error ? error.message : `Google Sheets ${action} failed for ${table}`,
-    }
-  }
-}
 
-async function googleSheetsBatchRequest(
-  requestedTables: TableName[],
-): Promise<{ handled: boolean; data?: Record<TableName, Row[]>; message?: string }> {
-  if (!canUseGoogleSheets()) return { handled: false }
-
-  const cacheKey = `batch:${requestedTables.join(",")}`
-  const cached = getCachedRemoteRead<Record<TableName, Row[]>>(cacheKey)
-  if (cached) return { handled: true, data: cached }
-
-  try {
-    const url = new URL(googleSheetsDbUrl)
-    url.searchParams.set("action", "batch")
-    url.searchParams.set("tables", requestedTables.join(","))
-
-    const response = await fetch(url, { cache: "no-store", redirect: "follow" })
-    const result = await response.json().catch(() => null)
-
-    if (response.ok && result?.success && result.data && typeof result.data === "object") {
-      const data = {} as Record<TableName, Row[]>
-      for (const table of requestedTables) data[table] = normalizeRemoteRows(result.data[table]) || []
-      setCachedRemoteRead(cacheKey, data)
-      for (const [table, rows] of Object.entries(data)) {
-        setCachedRemoteRead(`${googleSheetsDbUrl}?action=list&table=${table}`, rows)
+      if (action === "archiveOldRecords") {
+        const storage = preferLocal ? getLocalStorage() : getStorage()
+        const data = await archiveOldRecords(storage)
+        publishChanges(
+          data
+            .filter((result) => result.moved > 0)
+            .flatMap((result) => [
+              { table: result.table, action: "archive" },
+              { table: result.archive, action: "archive" },
+            ]),
+          origin,
+        )
+        return success(storage, { data })
       }
-      return { handled: true, data, message: result.message }
-    }
 
-    const entries = await Promise.all(
-      requestedTables.map(async (table) => {
-        const remote = await googleSheetsRequest(table, "list")
-        return [table, normalizeRemoteRows(remote.data) || []] as const
-      }),
-    )
-    const data = Object.fromEntries(entries) as Record<TableName, Row[]>
-    setCachedRemoteRead(cacheKey, data)
-    return { handled: true, data }
-  } catch (error) {
-    console.warn("Google Sheets batch request failed, falling back to local Excel:", error)
-    return { handled: false }
-  }
-}
+      // Backups always cover the local workbook, whatever the primary backend.
+      if (action === "listBackups") {
+        return NextResponse.json({ success: true, data: listBackups(databasePath), databasePath })
+      }
 
-function getLocalBatchRows(workbook: XLSX.WorkBook, requestedTables: TableName[]) {
-  const data = {} as Record<TableName, Row[]>
-  for (const tableName of requestedTables) {
-    data[tableName] = getRows(workbook, tableConfigs[tableName])
-  }
-  return data
-}
+      if (action === "createBackup") {
+        const backup = createBackup(databasePath)
+        if (!backup) throw new StorageError(`No workbook to back up at ${databasePath}`, 404)
+        return NextResponse.json({ success: true, data: backup, databasePath })
+      }
 
-export async function POST(request: NextRequest) {
-  return withLock(async () => {
-    try {
-      const body = await request.json()
-      const tableName = asTableName(body.table)
-      const action = body.action as string | undefined
+      if (action === "previewRestore") {
+        return NextResponse.json({
+          success: true,
+          data: previewRestore(databasePath, body.name),
+          databasePath,
+        })
+      }
 
-      if (action === "batchList") {
-        const requestedTables = asTableNames(body.tables)
-
-        if (body.preferLocal !== true) {
-          const remote = await googleSheetsBatchRequest(requestedTables)
-          if (remote.handled) {
-            return NextResponse.json({
-              success: true,
-              data: remote.data,
-              source: "google-sheets",
-              message: remote.message,
-            })
-          }
-        }
+      if (action === "restoreBackup") {
+        const data = restoreBackup(databasePath, body.name)
+        publishChanges(
+          tableNames.map((table) => ({ table, action: "restore" })),
+          origin,
+        )
+        return NextResponse.json({ success: true, data, databasePath })
+      }
 
-        const workbook = ensureWorkbook()
+      if (action === "syncStatus") {
+        const storage = getStorage()
         return NextResponse.json({
           success: true,
-          data: getLocalBatchRows(workbook, requestedTables),
-          databasePath,
-          source: "local-excel",
+          data: isSyncedAdapter(storage) ? storage.syncStatus() : { enabled: false },
         })
       }
 
+      if (action === "reconcile" || action === "resolveConflict") {
+        const storage = getStorage()
+        if (!isSyncedAdapter(storage)) {
+          throw new StorageError("Sync mode is off. Set STORAGE_BACKEND=google-sheets-sync.", 400)
+        }
+        if (action === "resolveConflict" && body.keep !== "local" && body.keep !== "remote") {
+          throw new StorageError('keep must be "local" or "remote"', 400)
+        }
+        const data =
+          action === "reconcile"
+            ? await storage.reconcile()
+            : await storage.resolveConflict(String(body.id), body.keep)
+        publishChanges(
+          data.pulled.map((table) => ({ table, action: "sync" })),
+          origin,
+        )
+        return success(storage, { data })
+      }
+
       if (!tableName || !action) {
         return NextResponse.json(
           { success: false, message: "Missing or invalid table/action" },
@@ -447,96 +295,80 @@ export async function POST(request: NextRequest) {
         )
       }
 
-      const table = tableConfigs[tableName]
-
-      if (body.preferLocal !== true) {
-        const remote = await googleSheetsRequest(tableName, action as any, {
-          id: body.id,
-          row: body.row,
-          rows: body.rows,
-          updates: body.updates,
-        })
-
-        if (remote.handled) {
-          return NextResponse.json({
-            success: true,
-            data: remote.data,
-            deleted: remote.deleted,
-            source: "google-sheets",
-            message: remote.message,
-          })
-        }
-
-        if (canUseGoogleSheets() && ["insert", "update", "delete"].includes(action)) {
-          return NextResponse.json(
-            {
-              success: false,
-              message: remote.message || `Google Sheets rejected ${tableName}.${action}. Local fallback was skipped to avoid split data.`,
-              source: "google-sheets",
-            },
-            { status: 502 },
-          )
-        }
+      if (!isRowAction(action)) {
+        return NextResponse.json(
+          { success: false, message: `Unsupported action: ${action}` },
+          { status: 400 },
+        )
       }
+      assertTableAccess(session, [
+        [tableName, action === "list" || action === "get" || action === "query" ? "read" : action],
+      ])
 
-      const workbook = ensureWorkbook()
-      const rows = getRows(workbook, table)
+      // `includeArchive` reads a hot table together with its archive.
+      const includeArchive = body.includeArchive === true && isArchivedTable(tableName)
 
       if (action === "list") {
-        return NextResponse.json({ success: true, data: rows, databasePath, source: "local-excel" })
+        const { adapter, data } = await readWithFallback(preferLocal, (storage) =>
+          includeArchive
+            ? listWithArchive(storage, tableName)
+            : storage.list(tableName),
+        )
+        return success(adapter, { data })
       }
 
       if (action === "get") {
-        const row = rows.find((item) => sameValue(item[table.primaryKey], body.id)) || null
-        return NextResponse.json({ success: true, data: row, databasePath, source: "local-excel" })
+        const { adapter, data } = await readWithFallback(preferLocal, (storage) =>
+          storage.get(tableName, body.id),
+        )
+        return success(adapter, { data })
       }
 
-      if (action === "insert") {
-        const incomingRows = Array.isArray(body.rows) ? body.rows : [body.row]
-        const inserted = incomingRows.map((row: Row) => {
-          const nextRow = { ...row }
-          if (!nextRow[table.primaryKey]) nextRow[table.primaryKey] = createId()
-          rows.push(nextRow)
-          return nextRow
-        })
-        saveRows(workbook, table, rows)
-        return NextResponse.json({ success: true, data: inserted, databasePath, source: "local-excel" })
+      if (action === "query") {
+        const options = parseQueryOptions(tableName, body.query)
+        const { adapter, data } = await readWithFallback(preferLocal, (storage) =>
+          includeArchive
+            ? queryWithArchive(storage, tableName, options)
+            : storage.query(tableName, options),
+        )
+        return success(adapter, { data })
       }
 
-      if (action === "update") {
-        const id = body.id
-        let updated: Row | null = null
-        const nextRows = rows.map((row) => {
-          if (!sameValue(row[table.primaryKey], id)) return row
-          updated = { ...row, ...body.updates }
-          return updated as Row
-        })
-        saveRows(workbook, table, nextRows)
-        return NextResponse.json({ success: true, data: updated, databasePath, source: "local-excel" })
+      const storage = preferLocal ? getLocalStorage() : getStorage()
+
+      if (action === "insert") {
+        const incomingRows: Row[] = Array.isArray(body.rows) ? body.rows : [body.row]
+        const rows = incomingRows.filter(Boolean)
+        const operation = { table: tableName, action, rows }
+        assertColumnPermissions(session, [operation])
+        validateOperations([operation])
+        const [result] = await runAudited(storage, [operation], actor)
+        publishWrites([operation], origin)
+        return success(storage, { data: result.data })
       }
 
-      if (action === "delete") {
-        const id = body.id
-        const nextRows = rows.filter((row) => !sameValue(row[table.primaryKey], id))
-        saveRows(workbook, table, nextRows)
-        return NextResponse.json({
-          success: true,
-          deleted: rows.length - nextRows.length,
-          databasePath,
-          source: "local-excel",
-        })
+      if (action === "update") {
+        const operation = {
+          table: tableName,
+          action,
+          id: body.id,
+          updates: body.updates || {},
+          expected: parseExpected(body.expected),
+        }
+        assertColumnPermissions(session, [operation])
+        validateOperations([operation])
+        await checkPreconditions(storage, [operation])
+        const [result] = await runAudited(storage, [operation], actor)
+        publishWrites([operation], origin)
+        return success(storage, { data: result.data })
       }
 
-      return NextResponse.json(
-        { success: false, message: `Unsupported action: ${action}` },
-        { status: 400 },
-      )
+      const operation = { table: tableName, action, id: body.id }
+      const [result] = await runAudited(storage, [operation], actor)
+      publishWrites([operation], origin)
+      return success(storage, { deleted: result.deleted || 0 })
     } catch (error) {
-      const message = error instanceof Error ? error.message : "Unknown error"
-      return NextResponse.json(
-        { success: false, message: `Excel database error: ${message}` },
-        { status: 500 },
-      )
+      return errorResponse(error)
     }
   })
 }
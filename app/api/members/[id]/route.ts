@@ -0,0 +1,87 @@
+import { NextRequest } from "next/server"
+import { userFromRow } from "@/src/lib/row-mappers"
+import {
+  fieldsToRow,
+  readJsonObject,
+  resourceResponse,
+  resourceRoute,
+  writeContext,
+  type IdRouteContext,
+} from "@/src/server/api"
+import { assertColumnPermissions } from "@/src/server/auth"
+import {
+  StorageError,
+  archiveMember,
+  getStorage,
+  memberTables,
+  publishWrites,
+  purgeMember,
+  readWithFallback,
+  requireMember,
+  runAudited,
+  validateRow,
+} from "@/src/server/storage"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+export const GET = resourceRoute("members.view", async (_request: NextRequest, { params }: IdRouteContext) => {
+  const { id } = await params
+  const { data: row } = await readWithFallback(false, (storage) => storage.get("users", id))
+  if (!row) throw new StorageError(`Member not found: ${id}`, 404)
+  return resourceResponse(userFromRow(row))
+})
+
+/**
+ * Updates the given fields; `userId` cannot change. Setting `archivedAt`
+ * archives or restores the member and needs `members.delete`.
+ */
+export const PATCH = resourceRoute("members.edit", async (request: NextRequest, { params }: IdRouteContext, session) => {
+  const { id } = await params
+  const body = await readJsonObject(request)
+  const { actor, origin } = writeContext(request, session)
+  const storage = getStorage()
+
+  const { user_id: userId, ...updates } = fieldsToRow(body)
+  if (userId !== undefined && String(userId) !== id) {
+    throw new StorageError("userId cannot be changed", 400)
+  }
+  const operation = { table: "users" as const, action: "update" as const, id, updates }
+  assertColumnPermissions(session, [operation])
+  await requireMember(storage, id)
+  updates.updated_at = new Date().toISOString()
+  validateRow("users", updates, "update")
+
+  const [result] = await runAudited(storage, [operation], actor)
+  publishWrites([{ table: "users", action: "update" }], origin)
+  return resourceResponse(userFromRow(result.data as Record<string, unknown>))
+})
+
+/**
+ * Archives the member, which keeps their history. `?purge=true` deletes the
+ * member and every row that belongs to them instead.
+ */
+export const DELETE = resourceRoute("members.delete", async (request: NextRequest, { params }: IdRouteContext, session) => {
+  const { id } = await params
+  const { actor, origin } = writeContext(request, session)
+  const storage = getStorage()
+
+  if (request.nextUrl.searchParams.get("purge") === "true") {
+    const deleted = await purgeMember(storage, id, actor)
+    publishWrites(
+      ["users" as const, ...memberTables].map((table) => ({ table, action: "delete" })),
+      origin,
+    )
+    return resourceResponse({ deleted })
+  }
+
+  const member = await archiveMember(storage, id, actor)
+  publishWrites(
+    [
+      { table: "users", action: "update" },
+      { table: "active_sessions", action: "delete" },
+    ],
+    origin,
+  )
+  return resourceResponse(userFromRow(member as Record<string, unknown>))
+})
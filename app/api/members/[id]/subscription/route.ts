@@ -0,0 +1,97 @@
+import { NextRequest } from "next/server"
+import { subscriptionFromRow } from "@/src/lib/row-mappers"
+import {
+  fieldsToRow,
+  readJsonObject,
+  resourceResponse,
+  resourceRoute,
+  writeContext,
+  type IdRouteContext,
+} from "@/src/server/api"
+import {
+  StorageError,
+  getStorage,
+  publishWrites,
+  readWithFallback,
+  requireMember,
+  runAudited,
+  tableConfigs,
+  validateRow,
+  type StorageOperation,
+} from "@/src/server/storage"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+export const GET = resourceRoute("members.view", async (_request: NextRequest, { params }: IdRouteContext) => {
+  const { id } = await params
+  const { data: row } = await readWithFallback(false, async (storage) => {
+    await requireMember(storage, id)
+    return storage.get("subscriptions", id)
+  })
+  if (!row) throw new StorageError(`No subscription for member ${id}`, 404)
+  return resourceResponse(subscriptionFromRow(row))
+})
+
+/**
+ * Sets the member's subscription. A subscription it replaces is moved to
+ * `subscription_history` first, as renewals in the app do.
+ */
+export const PUT = resourceRoute("payments.record", async (request: NextRequest, { params }: IdRouteContext, session) => {
+  const { id } = await params
+  const body = await readJsonObject(request)
+  const { actor, origin } = writeContext(request, session)
+  const storage = getStorage()
+
+  await requireMember(storage, id)
+  const { user_id: userId, ...fields } = fieldsToRow(body)
+  if (userId !== undefined && String(userId) !== id) {
+    throw new StorageError("userId must match the member in the URL", 400)
+  }
+
+  const existing = await storage.get("subscriptions", id)
+  const row = { user_id: id, created_at: existing?.created_at ?? new Date().toISOString(), ...fields }
+  validateRow("subscriptions", row, "insert")
+
+  const operations: StorageOperation[] = []
+  if (existing) {
+    const now = new Date().toISOString()
+    operations.push(
+      {
+        table: "subscription_history",
+        action: "insert",
+        rows: [
+          {
+            id: `${id}-${Date.now()}`,
+            user_id: id,
+            start_date: existing.start_date,
+            end_date: existing.end_date,
+            status: existing.status === "cancelled" ? "cancelled" : "expired",
+            created_at: existing.created_at ?? now,
+            updated_at: now,
+          },
+        ],
+      },
+      // PUT replaces the whole subscription, so omitted fields are cleared.
+      {
+        table: "subscriptions",
+        action: "update",
+        id,
+        updates: {
+          ...Object.fromEntries(tableConfigs.subscriptions.columns.map((column) => [column, null])),
+          ...row,
+        },
+      },
+    )
+  } else {
+    operations.push({ table: "subscriptions", action: "insert", rows: [row] })
+  }
+
+  const results = await runAudited(storage, operations, actor)
+  publishWrites(operations, origin)
+  const saved = results[results.length - 1].data
+  const subscription = Array.isArray(saved) ? saved[0] : saved
+  return resourceResponse(subscriptionFromRow(subscription as Record<string, unknown>), {
+    status: existing ? 200 : 201,
+  })
+})
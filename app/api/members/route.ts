@@ -0,0 +1,67 @@
+import { NextRequest } from "next/server"
+import { userFromRow } from "@/src/lib/row-mappers"
+import {
+  fieldsToRow,
+  readJsonObject,
+  resourceResponse,
+  resourceRoute,
+  writeContext,
+} from "@/src/server/api"
+import { assertColumnPermissions } from "@/src/server/auth"
+import {
+  StorageError,
+  getStorage,
+  memberIdPrefix,
+  publishWrites,
+  readWithFallback,
+  reserveMemberIds,
+  runAudited,
+  validateRow,
+  type Row,
+} from "@/src/server/storage"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+function matchesSearch(row: Record<string, unknown>, search: string): boolean {
+  return ["user_id", "name", "email", "phone"].some((column) =>
+    String(row[column] ?? "").toLowerCase().includes(search),
+  )
+}
+
+/** Members, newest first. `?includeArchived=true` adds archived ones; `?q=` searches. */
+export const GET = resourceRoute("members.view", async (request: NextRequest) => {
+  const params = request.nextUrl.searchParams
+  const includeArchived = params.get("includeArchived") === "true"
+  const search = params.get("q")?.trim().toLowerCase()
+
+  const { data: rows } = await readWithFallback(false, (storage) => storage.list("users"))
+  const members = rows
+    .filter((row) => includeArchived || !row.archived_at)
+    .filter((row) => !search || matchesSearch(row, search))
+    .sort((left, right) => String(right.created_at ?? "").localeCompare(String(left.created_at ?? "")))
+    .map(userFromRow)
+  return resourceResponse(members, { total: members.length })
+})
+
+/** Creates a member. Without `userId` the next member id is allocated. */
+export const POST = resourceRoute("members.edit", async (request: NextRequest, _context, session) => {
+  const body = await readJsonObject(request)
+  const { actor, origin } = writeContext(request, session)
+  const storage = getStorage()
+
+  const now = new Date().toISOString()
+  const row: Row = { created_at: now, updated_at: now, ...fieldsToRow(body) }
+  const operation = { table: "users" as const, action: "insert" as const, rows: [row] }
+  assertColumnPermissions(session, [operation])
+  // Check the fields before allocating, so a rejected body does not use up an id.
+  validateRow("users", { ...row, user_id: row.user_id || memberIdPrefix }, "insert")
+  if (!row.user_id) [row.user_id] = await reserveMemberIds(storage, 1)
+  else if (await storage.get("users", row.user_id)) {
+    throw new StorageError(`Member ${String(row.user_id)} already exists`, 409)
+  }
+
+  const [result] = await runAudited(storage, [operation], actor)
+  publishWrites([{ table: "users", action: "insert" }], origin)
+  return resourceResponse(userFromRow((result.data as Record<string, unknown>[])[0]), { status: 201 })
+})
@@ -0,0 +1,48 @@
+import { NextRequest } from "next/server"
+import { paymentFromRow } from "@/src/lib/row-mappers"
+import {
+  assertMemberExists,
+  fieldsToRow,
+  listQuery,
+  readJsonObject,
+  resourceResponse,
+  resourceRoute,
+  writeContext,
+} from "@/src/server/api"
+import {
+  StorageError,
+  getStorage,
+  publishWrites,
+  readWithFallback,
+  runAudited,
+  validateRow,
+  type Row,
+} from "@/src/server/storage"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+/** Payments, newest first. Filters: `?memberId=&from=&to=&limit=&offset=` on `paymentDate`. */
+export const GET = resourceRoute("payments.view", async (request: NextRequest) => {
+  const query = listQuery(request.nextUrl, "payment_date")
+  const { data } = await readWithFallback(false, (storage) => storage.query("payment", query))
+  return resourceResponse(data.rows.map(paymentFromRow), { total: data.total })
+})
+
+export const POST = resourceRoute("payments.record", async (request: NextRequest, _context, session) => {
+  const body = await readJsonObject(request)
+  const { actor, origin } = writeContext(request, session)
+  const storage = getStorage()
+
+  const now = new Date().toISOString()
+  const row: Row = { created_at: now, updated_at: now, ...fieldsToRow(body) }
+  validateRow("payment", row, "insert")
+  await assertMemberExists(storage, "payment", row.user_id)
+  if (row.payment_id && (await storage.get("payment", row.payment_id))) {
+    throw new StorageError(`Payment ${String(row.payment_id)} already exists`, 409)
+  }
+
+  const [result] = await runAudited(storage, [{ table: "payment", action: "insert", rows: [row] }], actor)
+  publishWrites([{ table: "payment", action: "insert" }], origin)
+  return resourceResponse(paymentFromRow((result.data as Record<string, unknown>[])[0]), { status: 201 })
+})
@@ -0,0 +1,52 @@
+import { NextRequest } from "next/server"
+import { scanLogFromRow } from "@/src/lib/row-mappers"
+import {
+  assertMemberExists,
+  fieldsToRow,
+  listQuery,
+  readJsonObject,
+  resourceResponse,
+  resourceRoute,
+  writeContext,
+} from "@/src/server/api"
+import {
+  getStorage,
+  publishWrites,
+  readWithFallback,
+  runAudited,
+  validateRow,
+  type Row,
+} from "@/src/server/storage"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+/** Scan logs, newest first. Filters: `?memberId=&from=&to=&limit=&offset=` on `timestamp`. */
+export const GET = resourceRoute("members.view", async (request: NextRequest) => {
+  const query = listQuery(request.nextUrl, "timestamp")
+  const { data } = await readWithFallback(false, (storage) => storage.query("scan_logs", query))
+  return resourceResponse(data.rows.map(scanLogFromRow), { total: data.total })
+})
+
+/**
+ * Records a scan. Only the log is written; checking a member in or out is
+ * done through /api/sessions.
+ */
+export const POST = resourceRoute("scans.record", async (request: NextRequest, _context, session) => {
+  const body = await readJsonObject(request)
+  const { actor, origin } = writeContext(request, session)
+  const storage = getStorage()
+
+  const row: Row = {
+    timestamp: new Date().toISOString(),
+    device_id: actor.deviceId,
+    ...fieldsToRow(body),
+  }
+  const member = await assertMemberExists(storage, "scan_logs", row.user_id)
+  row.user_name ??= member.name
+  validateRow("scan_logs", row, "insert")
+
+  const [result] = await runAudited(storage, [{ table: "scan_logs", action: "insert", rows: [row] }], actor)
+  publishWrites([{ table: "scan_logs", action: "insert" }], origin)
+  return resourceResponse(scanLogFromRow((result.data as Record<string, unknown>[])[0]), { status: 201 })
+})
@@ -0,0 +1,21 @@
+import { NextRequest } from "next/server"
+import { activeSessionFromRow } from "@/src/lib/row-mappers"
+import { resourceResponse, resourceRoute, writeContext, type IdRouteContext } from "@/src/server/api"
+import { StorageError, getStorage, publishWrites, runAudited } from "@/src/server/storage"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+/** Checks the member out and returns the session that ended. */
+export const DELETE = resourceRoute("scans.record", async (request: NextRequest, { params }: IdRouteContext, session) => {
+  const { id } = await params
+  const { actor, origin } = writeContext(request, session)
+  const storage = getStorage()
+
+  const activeSession = await storage.get("active_sessions", id)
+  if (!activeSession) throw new StorageError(`Member ${id} is not checked in`, 404)
+
+  await runAudited(storage, [{ table: "active_sessions", action: "delete", id }], actor)
+  publishWrites([{ table: "active_sessions", action: "delete" }], origin)
+  return resourceResponse(activeSessionFromRow(activeSession))
+})
@@ -0,0 +1,56 @@
+import { NextRequest } from "next/server"
+import { activeSessionFromRow } from "@/src/lib/row-mappers"
+import {
+  assertMemberExists,
+  readJsonObject,
+  resourceResponse,
+  resourceRoute,
+  writeContext,
+} from "@/src/server/api"
+import {
+  StorageError,
+  getStorage,
+  publishWrites,
+  readWithFallback,
+  runAudited,
+} from "@/src/server/storage"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+/** Members checked in right now, latest first. */
+export const GET = resourceRoute("members.view", async () => {
+  const { data: rows } = await readWithFallback(false, (storage) => storage.list("active_sessions"))
+  const sessions = rows
+    .sort((left, right) => String(right.check_in_time ?? "").localeCompare(String(left.check_in_time ?? "")))
+    .map(activeSessionFromRow)
+  return resourceResponse(sessions, { total: sessions.length })
+})
+
+/** Checks a member in: `{ userId }`. */
+export const POST = resourceRoute("scans.record", async (request: NextRequest, _context, session) => {
+  const body = await readJsonObject(request)
+  const { actor, origin } = writeContext(request, session)
+  const storage = getStorage()
+
+  const member = await assertMemberExists(storage, "active_sessions", body.userId)
+  if (member.archived_at) throw new StorageError(`Member ${String(body.userId)} is archived`, 409)
+  if (await storage.get("active_sessions", member.user_id)) {
+    throw new StorageError(`Member ${String(member.user_id)} is already checked in`, 409)
+  }
+
+  const row = {
+    user_id: member.user_id,
+    user_name: member.name,
+    check_in_time: new Date().toISOString(),
+  }
+  const [result] = await runAudited(
+    storage,
+    [{ table: "active_sessions", action: "insert", rows: [row] }],
+    actor,
+  )
+  publishWrites([{ table: "active_sessions", action: "insert" }], origin)
+  return resourceResponse(activeSessionFromRow((result.data as Record<string, unknown>[])[0]), {
+    status: 201,
+  })
+})
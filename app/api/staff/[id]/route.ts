@@ -0,0 +1,34 @@
+import { NextRequest } from "next/server"
+import { staffFromRow } from "@/src/lib/row-mappers"
+import {
+  readJsonObject,
+  resourceResponse,
+  resourceRoute,
+  writeContext,
+  type IdRouteContext,
+} from "@/src/server/api"
+import { deleteStaff, updateStaff } from "@/src/server/staff"
+import { getStorage, publishWrites } from "@/src/server/storage"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+/** Updates `email`, `name`, `role`, `password` or `disabled`. Owners only. */
+export const PATCH = resourceRoute("staff.manage", async (request: NextRequest, { params }: IdRouteContext, session) => {
+  const { id } = await params
+  const body = await readJsonObject(request)
+  const { actor, origin } = writeContext(request, session)
+
+  const row = await updateStaff(getStorage(), id, body, actor)
+  publishWrites([{ table: "staff", action: "update" }], origin)
+  return resourceResponse(staffFromRow(row))
+})
+
+export const DELETE = resourceRoute("staff.manage", async (request: NextRequest, { params }: IdRouteContext, session) => {
+  const { id } = await params
+  const { actor, origin } = writeContext(request, session)
+
+  await deleteStaff(getStorage(), id, session.staffId, actor)
+  publishWrites([{ table: "staff", action: "delete" }], origin)
+  return resourceResponse({ deleted: 1 })
+})
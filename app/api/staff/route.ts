@@ -0,0 +1,23 @@
+import { NextRequest } from "next/server"
+import { staffFromRow } from "@/src/lib/row-mappers"
+import { readJsonObject, resourceResponse, resourceRoute, writeContext } from "@/src/server/api"
+import { createStaff, listStaff } from "@/src/server/staff"
+import { getStorage, publishWrites } from "@/src/server/storage"
+
+export const runtime = "nodejs"
+export const dynamic = "force-dynamic"
+
+/** Every staff account, by name. Owners only. */
+export const GET = resourceRoute("staff.manage", async () => {
+  return resourceResponse((await listStaff(getStorage())).map(staffFromRow))
+})
+
+/** Creates an account from `{ email, name, role, password }`. */
+export const POST = resourceRoute("staff.manage", async (request: NextRequest, _context, session) => {
+  const body = await readJsonObject(request)
+  const { actor, origin } = writeContext(request, session)
+
+  const row = await createStaff(getStorage(), body, actor)
+  publishWrites([{ table: "staff", action: "insert" }], origin)
+  return resourceResponse(staffFromRow(row), { status: 201 })
+})
@@ -0,0 +1,36 @@
+import nextCoreWebVitals from "eslint-config-next/core-web-vitals"
+import nextTypescript from "eslint-config-next/typescript"
+
+const eslintConfig = [
+  ...nextCoreWebVitals,
+  ...nextTypescript,
+  {
+    rules: {
+      // A leading underscore marks a binding that is unused on purpose.
+      "@typescript-eslint/no-unused-vars": ["warn", { argsIgnorePattern: "^_", varsIgnorePattern: "^_" }],
+    },
+  },
+  {
+    // Apps Script calls doGet/doPost itself, and test helpers are run by
+    // name from the script editor.
+    files: ["scripts/google-sheets-db-apps-script.js"],
+    rules: {
+      "@typescript-eslint/no-unused-vars": [
+        "warn",
+        { varsIgnorePattern: "^(doGet|doPost|test[A-Z]\\w*)$", caughtErrors: "none" },
+      ],
+    },
+  },
+  {
+    // Node scripts run as CommonJS.
+    files: ["scripts/**/*.js", "*.js"],
+    rules: {
+      "@typescript-eslint/no-require-imports": "off",
+    },
+  },
+  {
+    ignores: [".next/**", "node_modules/**", "out/**", "build/**", "next-env.d.ts"],
+  },
+]
+
+export default eslintConfig
@@ -0,0 +1,345 @@
+/**
+ * Local stand-in for the Google Sheets Apps Script endpoint.
+ *
+ * Runs scripts/google-sheets-db-apps-script.js itself against an in-memory
+ * spreadsheet, so the GET/POST contract, header aliases and sheet aliases
+ * match the deployed script exactly. Sheets are saved to an .xlsx file after
+ * every write and loaded from it on start; drop in an export of the real
+ * spreadsheet to work with its data.
+ *
+ *   node scripts/apps-script-emulator.js
+ *   GOOGLE_SHEETS_DB_URL=http://localhost:3999/exec GOOGLE_SHEETS_DB_TOKEN=emulator \
+ *     STORAGE_BACKEND=google-sheets npm run dev
+ *
+ * Environment:
+ *   EMULATOR_PORT       port to listen on (3999)
+ *   EMULATOR_DB_TOKEN   the script's DB_TOKEN property (emulator)
+ *   EMULATOR_DATA_PATH  workbook to load and save (data/apps-script-emulator.xlsx)
+ *   EMULATOR_MODE       starting failure mode, see below (ok)
+ *   EMULATOR_LATENCY_MS delay added to every response (0)
+ *
+ * Failure modes, switched at runtime with
+ * `curl -X POST localhost:3999/__emulator -d '{"mode":"down","latencyMs":2000}'`:
+ *   ok     answer normally
+ *   down   HTTP 503, as during a Google outage
+ *   error  HTTP 200 with `{ success: false }`, as when the script throws
+ *   html   HTTP 200 with an HTML page, as when the deployment needs sign-in
+ */
+
+const fs = require("fs")
+const http = require("http")
+const path = require("path")
+const vm = require("vm")
+const XLSX = require("xlsx")
+
+const port = Number(process.env.EMULATOR_PORT || 3999)
+const dataPath = path.resolve(
+  process.env.EMULATOR_DATA_PATH || path.join(__dirname, "..", "data", "apps-script-emulator.xlsx"),
+)
+const scriptPath = path.join(__dirname, "google-sheets-db-apps-script.js")
+const failureModes = ["ok", "down", "error", "html"]
+
+let mode = process.env.EMULATOR_MODE || "ok"
+let latencyMs = Number(process.env.EMULATOR_LATENCY_MS || 0)
+const dbToken = process.env.EMULATOR_DB_TOKEN || "emulator"
+
+/**
+ * Sheets turns typed-in text into numbers, dates and booleans; the script's
+ * readRows/normalizeCell relies on that, so writes are coerced the same way.
+ * Numbers with a leading zero (phone numbers) are left as text.
+ */
+function coerceCell(value) {
+  if (typeof value !== "string") return value === null || value === undefined ? "" : value
+  const text = value.trim()
+  if (/^-?\d+(\.\d+)?$/.test(text) && !/^0\d/.test(text)) return Number(text)
+  if (/^(true|false)$/i.test(text)) return text.toLowerCase() === "true"
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) return new Date(`${text}T00:00:00.000Z`)
+  return value
+}
+
+// --- Minimal SpreadsheetApp -------------------------------------------------
+
+let nextSheetId = 1
+
+class Range {
+  constructor(sheet, row, column, rows, columns) {
+    Object.assign(this, { sheet, row, column, rows, columns })
+  }
+
+  getValues() {
+    const values = []
+    for (let row = 0; row < this.rows; row += 1) {
+      const source = this.sheet.values[this.row - 1 + row] || []
+      const cells = []
+      for (let column = 0; column < this.columns; column += 1) {
+        const cell = source[this.column - 1 + column]
+        cells.push(cell === undefined || cell === null ? "" : cell)
+      }
+      values.push(cells)
+    }
+    return values
+  }
+
+  setValues(values) {
+    values.forEach((cells, row) => {
+      cells.forEach((cell, column) => this.sheet.setCell(this.row + row, this.column + column, cell))
+    })
+    return this
+  }
+
+  setValue(value) {
+    this.sheet.setCell(this.row, this.column, value)
+    return this
+  }
+
+  // Formatting is not stored.
+  setFontWeight() {
+    return this
+  }
+
+  setBackground() {
+    return this
+  }
+
+  setFontColor() {
+    return this
+  }
+}
+
+class Sheet {
+  constructor(name, values = []) {
+    this.id = nextSheetId++
+    this.name = name
+    this.values = values
+  }
+
+  getName() {
+    return this.name
+  }
+
+  getSheetId() {
+    return this.id
+  }
+
+  getLastRow() {
+    for (let row = this.values.length; row > 0; row -= 1) {
+      if ((this.values[row - 1] || []).some((cell) => cell !== "" && cell !== null && cell !== undefined)) {
+        return row
+      }
+    }
+    return 0
+  }
+
+  getLastColumn() {
+    let last = 0
+    for (const cells of this.values) {
+      for (let column = (cells || []).length; column > last; column -= 1) {
+        const cell = cells[column - 1]
+        if (cell !== "" && cell !== null && cell !== undefined) {
+          last = column
+          break
+        }
+      }
+    }
+    return last
+  }
+
+  getDataRange() {
+    return new Range(this, 1, 1, Math.max(this.getLastRow(), 1), Math.max(this.getLastColumn(), 1))
+  }
+
+  getRange(row, column, rows = 1, columns = 1) {
+    return new Range(this, row, column, rows, columns)
+  }
+
+  setCell(row, column, value) {
+    while (this.values.length < row) this.values.push([])
+    const cells = this.values[row - 1]
+    while (cells.length < column) cells.push("")
+    cells[column - 1] = coerceCell(value)
+  }
+
+  appendRow(values) {
+    const row = this.getLastRow() + 1
+    values.forEach((value, column) => this.setCell(row, column + 1, value))
+  }
+
+  deleteRow(row) {
+    this.values.splice(row - 1, 1)
+  }
+
+  clearContents() {
+    this.values = []
+  }
+
+  clear() {
+    this.values = []
+  }
+}
+
+class Spreadsheet {
+  constructor(sheets) {
+    this.sheets = sheets
+  }
+
+  getId() {
+    return "local-emulator"
+  }
+
+  getName() {
+    return path.basename(dataPath)
+  }
+
+  getSheets() {
+    return this.sheets.slice()
+  }
+
+  getSheetByName(name) {
+    return this.sheets.find((sheet) => sheet.getName() === name) || null
+  }
+
+  insertSheet(name) {
+    const sheet = new Sheet(name)
+    this.sheets.push(sheet)
+    return sheet
+  }
+}
+
+function loadSpreadsheet() {
+  if (!fs.existsSync(dataPath)) return new Spreadsheet([])
+  const workbook = XLSX.read(fs.readFileSync(dataPath), { type: "buffer", cellDates: true })
+  return new Spreadsheet(
+    workbook.SheetNames.map(
+      (name) =>
+        new Sheet(name, XLSX.utils.sheet_to_json(workbook.Sheets[name], { header: 1, defval: "", raw: true })),
+    ),
+  )
+}
+
+function saveSpreadsheet() {
+  const workbook = XLSX.utils.book_new()
+  for (const sheet of spreadsheet.getSheets()) {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(sheet.values, { cellDates: true }), sheet.getName())
+  }
+  if (!workbook.SheetNames.length) return
+
+  fs.mkdirSync(path.dirname(dataPath), { recursive: true })
+  const temporaryPath = `${dataPath}.tmp`
+  fs.writeFileSync(temporaryPath, XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }))
+  fs.renameSync(temporaryPath, dataPath)
+}
+
+const spreadsheet = loadSpreadsheet()
+
+// --- Apps Script runtime ----------------------------------------------------
+
+const script = vm.createContext({
+  SpreadsheetApp: {
+    openById: () => spreadsheet,
+    getActiveSpreadsheet: () => spreadsheet,
+  },
+  PropertiesService: {
+    getScriptProperties: () => ({
+      getProperty: (name) => (name === "DB_TOKEN" ? dbToken : null),
+    }),
+  },
+  // Requests are handled one at a time, so the lock has nothing to guard.
+  LockService: {
+    getScriptLock: () => ({ waitLock() {}, releaseLock() {} }),
+  },
+  ContentService: {
+    MimeType: { JSON: "application/json" },
+    createTextOutput: (content) => ({
+      content,
+      setMimeType() {
+        return this
+      },
+    }),
+  },
+  Logger: { log: (...args) => console.log("[apps-script]", ...args) },
+})
+vm.runInContext(fs.readFileSync(scriptPath, "utf8"), script, { filename: scriptPath })
+
+// --- HTTP -------------------------------------------------------------------
+
+function send(response, status, contentType, body) {
+  response.writeHead(status, { "Content-Type": contentType })
+  response.end(body)
+}
+
+function readBody(request) {
+  return new Promise((resolve, reject) => {
+    const chunks = []
+    request.on("data", (chunk) => chunks.push(chunk))
+    request.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")))
+    request.on("error", reject)
+  })
+}
+
+/** Answers the way the failure mode dictates, or null to run the script. */
+function failureResponse(response) {
+  if (mode === "down") {
+    send(response, 503, "text/html", "<html><body>Service unavailable (emulated)</body></html>")
+    return true
+  }
+  if (mode === "error") {
+    send(response, 200, "application/json", JSON.stringify({ success: false, message: "Emulated script error" }))
+    return true
+  }
+  if (mode === "html") {
+    send(response, 200, "text/html", "<!DOCTYPE html><html><body>Sign in - Google Accounts</body></html>")
+    return true
+  }
+  return false
+}
+
+async function handle(request, response) {
+  const url = new URL(request.url, `http://localhost:${port}`)
+
+  if (url.pathname === "/__emulator") {
+    if (request.method === "POST") {
+      const settings = JSON.parse((await readBody(request)) || "{}")
+      if (settings.mode !== undefined) {
+        if (!failureModes.includes(settings.mode)) {
+          send(response, 400, "application/json", JSON.stringify({ success: false, message: `mode must be one of ${failureModes.join(", ")}` }))
+          return
+        }
+        mode = settings.mode
+      }
+      if (settings.latencyMs !== undefined) latencyMs = Number(settings.latencyMs) || 0
+    }
+    send(response, 200, "application/json", JSON.stringify({ success: true, mode, latencyMs, dataPath }))
+    return
+  }
+
+  if (latencyMs > 0) await new Promise((resolve) => setTimeout(resolve, latencyMs))
+  if (failureResponse(response)) return
+
+  let output
+  if (request.method === "GET") {
+    output = script.doGet({ parameter: Object.fromEntries(url.searchParams) })
+  } else if (request.method === "POST") {
+    output = script.doPost({ parameter: Object.fromEntries(url.searchParams), postData: { contents: await readBody(request) } })
+    saveSpreadsheet()
+  } else {
+    send(response, 405, "text/plain", "Method not allowed")
+    return
+  }
+  send(response, 200, "application/json", output.content)
+}
+
+// Requests run one after another, like doPost under the script lock.
+let queue = Promise.resolve()
+
+http
+  .createServer((request, response) => {
+    queue = queue
+      .then(() => handle(request, response))
+      .catch((error) => {
+        console.error(error)
+        if (!response.headersSent) send(response, 500, "text/plain", String(error && error.message))
+      })
+  })
+  .listen(port, () => {
+    console.log(`Apps Script emulator on http://localhost:${port}/exec (mode: ${mode}, data: ${dataPath})`)
+  })
@@ -3,9 +3,18 @@
  *
  * Paste this whole file into the bound Apps Script project for your Google
  * Sheet, then deploy a new Web App version with access set to "Anyone".
+ *
+ * "Anyone" means anyone with the URL, so every request must also carry the
+ * shared secret stored as the DB_TOKEN script property (Project Settings >
+ * Script properties). Set the same value as GOOGLE_SHEETS_DB_TOKEN on the app
+ * server. Without DB_TOKEN the endpoint answers nothing.
  */
 
-var DB_VERSION = "2026-05-16-active-sessions-tab";
+var DB_VERSION = "2026-10-19-db-token";
+// Keep in step with the last entry in src/server/storage/migrations.ts. The
+// sheets pick up new columns through ensureColumns, and columns a migration
+// fills for existing rows are listed in the table's `backfill`.
+var SCHEMA_VERSION = 4;
 
 /**
  * Optional but recommended for standalone Apps Script deployments.
@@ -35,6 +44,7 @@ var TABLES = {
       ["weight_kg", "Weight (kg)"],
       ["created_at", "Created At"],
       ["updated_at", "Updated At"],
+      ["archived_at", "Archived At"],
     ],
   },
   subscriptions: {
@@ -79,6 +89,7 @@ var TABLES = {
       ["timestamp", "Timestamp"],
       ["action", "Action"],
       ["status", "Status"],
+      ["device_id", "Device ID"],
     ],
   },
   active_sessions: {
@@ -165,10 +176,80 @@ var TABLES = {
       ["updated_at", "Updated At"],
     ],
   },
+  audit_log: {
+    sheetName: "audit_log_rows",
+    sheetAliases: ["Audit Log"],
+    primaryKey: "id",
+    columns: [
+      ["id", "ID"],
+      ["at", "At"],
+      ["table_name", "Table Name"],
+      ["record_id", "Record ID"],
+      ["member_id", "Member ID"],
+      ["action", "Action"],
+      ["before", "Before"],
+      ["after", "After"],
+      ["actor", "Actor"],
+      ["device_id", "Device ID"],
+    ],
+  },
+  scan_logs_archive: {
+    sheetName: "scan_logs_archive_rows",
+    sheetAliases: ["Scan Logs Archive"],
+    primaryKey: "id",
+    columns: [
+      ["id", "ID"],
+      ["user_id", "User ID"],
+      ["user_name", "User Name"],
+      ["timestamp", "Timestamp"],
+      ["action", "Action"],
+      ["status", "Status"],
+      ["device_id", "Device ID"],
+      ["archive_year", "Archive Year"],
+    ],
+  },
+  payment_archive: {
+    sheetName: "payments_archive_rows",
+    sheetAliases: ["Payments Archive"],
+    primaryKey: "payment_id",
+    columns: [
+      ["payment_id", "Payment ID"],
+      ["user_id", "User ID"],
+      ["amount", "Amount"],
+      ["payment_method", "Payment Method"],
+      ["payment_date", "Payment Date"],
+      ["payment_for", "Payment For"],
+      ["reference_number", "Reference Number"],
+      ["notes", "Notes"],
+      ["created_at", "Created At"],
+      ["updated_at", "Updated At"],
+      ["archive_year", "Archive Year"],
+    ],
+  },
+  staff: {
+    sheetName: "staff_rows",
+    sheetAliases: ["Staff"],
+    primaryKey: "staff_id",
+    columns: [
+      ["staff_id", "Staff ID"],
+      ["email", "Email"],
+      ["name", "Name"],
+      ["role", "Role"],
+      ["password_hash", "Password Hash"],
+      ["created_at", "Created At"],
+      ["updated_at", "Updated At"],
+      ["last_login_at", "Last Login At"],
+      ["disabled_at", "Disabled At"],
+      ["session_version", "Session Version"],
+    ],
+    // Accounts made before roles existed were the gym's administrators.
+    backfill: { role: "owner", session_version: 0 },
+  },
 };
 
 function doGet(e) {
   try {
+    assertToken(e.parameter.token);
     var action = String((e.parameter.action || "status")).toLowerCase();
 
     if (action === "status") {
@@ -177,6 +258,7 @@ function doGet(e) {
         success: true,
         status: "ok",
         version: DB_VERSION,
+        schemaVersion: SCHEMA_VERSION,
         spreadsheetId: statusSpreadsheet ? statusSpreadsheet.getId() : null,
         spreadsheetName: statusSpreadsheet ? statusSpreadsheet.getName() : null,
         tables: Object.keys(TABLES),
@@ -190,6 +272,7 @@ function doGet(e) {
         success: true,
         status: "ok",
         version: DB_VERSION,
+        schemaVersion: SCHEMA_VERSION,
         tables: initializedTables,
         message: "Database sheets initialized successfully",
       });
@@ -200,6 +283,7 @@ function doGet(e) {
         success: true,
         status: "ok",
         version: DB_VERSION,
+        schemaVersion: SCHEMA_VERSION,
         spreadsheet: getSpreadsheetDebugInfo(),
         tables: getTablesDebugInfo(),
       });
@@ -250,6 +334,7 @@ function doPost(e) {
 
   try {
     var payload = JSON.parse(e.postData.contents || "{}");
+    assertToken(payload.token);
     var ss = getSpreadsheet();
 
     if (!ss) {
@@ -259,9 +344,18 @@ function doPost(e) {
       });
     }
 
+    var action = String(payload.action || "").toLowerCase();
+
+    if (action === "transaction") {
+      return json({ success: true, data: runTransaction(payload.operations || []) });
+    }
+
+    if (action === "nextid") {
+      return json({ success: true, data: reserveCounter(Number(payload.count || 1)) });
+    }
+
     var table = getTable(payload.table);
     var sheet = ensureSheet(table);
-    var action = String(payload.action || "").toLowerCase();
 
     if (action === "insert") {
       var incomingRows = payload.rows && payload.rows.map ? payload.rows : [payload.row];
@@ -292,6 +386,107 @@ function doPost(e) {
   }
 }
 
+/**
+ * Applies a batch of insert/update/delete operations across tables. Every
+ * sheet is snapshotted before its first change; if any operation throws, the
+ * snapshots are written back so the batch leaves no partial rows behind.
+ */
+function runTransaction(operations) {
+  var snapshots = {};
+  var results = [];
+
+  try {
+    for (var i = 0; i < operations.length; i++) {
+      var operation = operations[i] || {};
+      var table = getTable(operation.table);
+      var sheet = ensureSheet(table);
+      var sheetId = String(sheet.getSheetId());
+
+      if (!snapshots[sheetId]) {
+        snapshots[sheetId] = { sheet: sheet, values: sheet.getDataRange().getValues() };
+      }
+
+      var action = String(operation.action || "").toLowerCase();
+      if (action === "insert") {
+        var incomingRows = operation.rows && operation.rows.map ? operation.rows : [operation.row];
+        var inserted = [];
+        for (var rowIndex = 0; rowIndex < incomingRows.length; rowIndex++) {
+          if (incomingRows[rowIndex]) inserted.push(appendRow(sheet, table, incomingRows[rowIndex]));
+        }
+        results.push({ table: operation.table, action: action, data: inserted });
+      } else if (action === "update") {
+        results.push({
+          table: operation.table,
+          action: action,
+          data: updateRow(sheet, table, operation.id, operation.updates || {}),
+        });
+      } else if (action === "delete") {
+        results.push({ table: operation.table, action: action, deleted: deleteRow(sheet, table, operation.id) });
+      } else {
+        throw new Error("Unsupported transaction action: " + action);
+      }
+    }
+  } catch (error) {
+    restoreSnapshots(snapshots);
+    throw error;
+  }
+
+  return results;
+}
+
+/**
+ * Adds `count` to the user ID counter and returns the reserved block. doPost
+ * holds the script lock, so concurrent callers never get the same numbers.
+ */
+function reserveCounter(count) {
+  if (Math.floor(count) !== count || count < 1 || count > 500) {
+    throw new Error("count must be a whole number from 1 to 500");
+  }
+
+  var table = getTable("user_id_counter");
+  var sheet = ensureSheet(table);
+  var rows = readRows(sheet, table);
+  var counter = null;
+  for (var i = 0; i < rows.length; i++) {
+    if (sameValue(rows[i].id, 1)) counter = rows[i];
+  }
+
+  var lastNumber = Number(counter && counter.last_number) || 1000;
+  var nextLast = lastNumber + count;
+  if (counter) {
+    updateRow(sheet, table, 1, { last_number: nextLast });
+  } else {
+    appendRow(sheet, table, { id: 1, last_number: nextLast });
+  }
+  return { first: lastNumber + 1, last: nextLast };
+}
+
+function restoreSnapshots(snapshots) {
+  Object.keys(snapshots).forEach(function(sheetId) {
+    var snapshot = snapshots[sheetId];
+    var values = snapshot.values;
+    snapshot.sheet.clearContents();
+    if (values.length && values[0].length) {
+      snapshot.sheet.getRange(1, 1, values.length, values[0].length).setValues(values);
+    }
+  });
+}
+
+function assertToken(token) {
+  var expected = PropertiesService.getScriptProperties().getProperty("DB_TOKEN");
+  if (!expected) throw new Error("Set the DB_TOKEN script property before using this endpoint.");
+  if (!sameToken(String(token || ""), expected)) throw new Error("Invalid database token.");
+}
+
+// Looks at every character, so the time taken says nothing about the token.
+function sameToken(given, expected) {
+  var difference = given.length ^ expected.length;
+  for (var i = 0; i < expected.length; i++) {
+    difference |= (given.charCodeAt(i) || 0) ^ expected.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
 function getTable(tableName) {
   var table = TABLES[String(tableName || "")];
   if (!table) throw new Error("Invalid table: " + tableName);
@@ -335,6 +530,7 @@ function ensureSheet(table) {
     }
   } else {
     ensureColumns(sheet, table);
+    backfillColumns(sheet, table);
 
     if (table.seedRows && readRows(sheet, table).length === 0) {
       table.seedRows.forEach(function(row) {
@@ -406,6 +602,31 @@ function ensureColumns(sheet, table) {
     .setFontColor("#ffffff");
 }
 
+function backfillColumns(sheet, table) {
+  if (!table.backfill) return;
+
+  var values = sheet.getDataRange().getValues();
+  if (values.length <= 1) return;
+
+  var headers = values[0].map(function(header) {
+    return String(header || "").trim();
+  });
+
+  for (var columnIndex = 0; columnIndex < headers.length; columnIndex++) {
+    var key = keyForHeader(table, headers[columnIndex]);
+    if (!Object.prototype.hasOwnProperty.call(table.backfill, key)) continue;
+
+    for (var rowIndex = 1; rowIndex < values.length; rowIndex++) {
+      var hasValue = values[rowIndex].some(function(cell) {
+        return cell !== "";
+      });
+      if (hasValue && values[rowIndex][columnIndex] === "") {
+        sheet.getRange(rowIndex + 1, columnIndex + 1).setValue(table.backfill[key]);
+      }
+    }
+  }
+}
+
 function getHeaders(sheet) {
   var lastColumn = sheet.getLastColumn();
   if (!lastColumn) return [];
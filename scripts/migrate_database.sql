@@ -18,7 +18,8 @@ CREATE TABLE IF NOT EXISTS public.users (
   age integer,
   address text,
   goal text,
-  program_type text
+  program_type text,
+  archived_at timestamptz
 );
 
 ALTER TABLE public.users
@@ -32,7 +33,8 @@ ALTER TABLE public.users
   ADD COLUMN IF NOT EXISTS age integer,
   ADD COLUMN IF NOT EXISTS address text,
   ADD COLUMN IF NOT EXISTS goal text,
-  ADD COLUMN IF NOT EXISTS program_type text;
+  ADD COLUMN IF NOT EXISTS program_type text,
+  ADD COLUMN IF NOT EXISTS archived_at timestamptz;
 
 ALTER TABLE public.users ALTER COLUMN email DROP NOT NULL;
 ALTER TABLE public.users DROP CONSTRAINT IF EXISTS users_email_key;
@@ -83,9 +85,13 @@ CREATE TABLE IF NOT EXISTS public.scan_logs (
   user_name text NOT NULL,
   "timestamp" timestamptz DEFAULT now(),
   action text NOT NULL,
-  status text NOT NULL DEFAULT 'success'
+  status text NOT NULL DEFAULT 'success',
+  device_id text
 );
 
+ALTER TABLE public.scan_logs
+  ADD COLUMN IF NOT EXISTS device_id text;
+
 CREATE TABLE IF NOT EXISTS public.active_sessions (
   id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
   user_id text NOT NULL UNIQUE REFERENCES public.users(user_id) ON DELETE CASCADE,
@@ -149,6 +155,73 @@ ALTER TABLE public.payment
   ADD COLUMN IF NOT EXISTS created_at timestamptz NOT NULL DEFAULT now(),
   ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
 
+-- Written by the API route for every insert, update and delete. No foreign key
+-- on member_id: the trail outlives members that are permanently deleted.
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id text PRIMARY KEY,
+  at timestamptz NOT NULL DEFAULT now(),
+  table_name text NOT NULL,
+  record_id text NOT NULL,
+  member_id text,
+  action text NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  before text,
+  after text,
+  actor text,
+  device_id text
+);
+
+-- Scan logs and payments from before the current period, moved here by the
+-- app's archive job. archive_year is the year a row is filed under. No
+-- foreign keys, so archived rows never block member changes; purging a
+-- member deletes theirs explicitly.
+CREATE TABLE IF NOT EXISTS public.scan_logs_archive (
+  id uuid PRIMARY KEY,
+  user_id text NOT NULL,
+  user_name text NOT NULL,
+  "timestamp" timestamptz NOT NULL,
+  action text NOT NULL,
+  status text NOT NULL,
+  device_id text,
+  archive_year integer NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS public.payment_archive (
+  payment_id text PRIMARY KEY,
+  user_id text NOT NULL,
+  amount numeric NOT NULL,
+  payment_method varchar NOT NULL,
+  payment_date timestamptz NOT NULL,
+  reference_number varchar,
+  notes text,
+  payment_for varchar NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  archive_year integer NOT NULL
+);
+
+-- Admin app accounts. password_hash is an scrypt hash written by the app.
+CREATE TABLE IF NOT EXISTS public.staff (
+  staff_id text PRIMARY KEY,
+  email text NOT NULL UNIQUE,
+  name text NOT NULL,
+  role text NOT NULL CHECK (role IN ('owner', 'manager', 'front_desk', 'coach')),
+  password_hash text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  last_login_at timestamptz,
+  disabled_at timestamptz,
+  -- Raised on sign-out and password changes to end older sessions.
+  session_version integer NOT NULL DEFAULT 0
+);
+
+-- Accounts made before roles existed were the gym's administrators.
+ALTER TABLE public.staff
+  ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'owner'
+    CHECK (role IN ('owner', 'manager', 'front_desk', 'coach')),
+  ADD COLUMN IF NOT EXISTS disabled_at timestamptz,
+  ADD COLUMN IF NOT EXISTS session_version integer NOT NULL DEFAULT 0;
+ALTER TABLE public.staff ALTER COLUMN role DROP DEFAULT;
+
 -- Recreate check constraints so older schemas get the current allowed values.
 ALTER TABLE public.subscriptions DROP CONSTRAINT IF EXISTS subscriptions_status_check;
 ALTER TABLE public.subscriptions
@@ -210,6 +283,13 @@ CREATE INDEX IF NOT EXISTS idx_emergency_contacts_user_id ON public.emergency_co
 CREATE INDEX IF NOT EXISTS idx_liability_waivers_user_id ON public.liability_waivers(user_id);
 CREATE INDEX IF NOT EXISTS idx_payment_user_id ON public.payment(user_id);
 CREATE INDEX IF NOT EXISTS idx_payment_payment_date ON public.payment(payment_date DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_at ON public.audit_log(at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_member_id ON public.audit_log(member_id);
+CREATE INDEX IF NOT EXISTS idx_scan_logs_archive_year ON public.scan_logs_archive(archive_year);
+CREATE INDEX IF NOT EXISTS idx_scan_logs_archive_user_id ON public.scan_logs_archive(user_id);
+CREATE INDEX IF NOT EXISTS idx_scan_logs_archive_timestamp ON public.scan_logs_archive("timestamp" DESC);
+CREATE INDEX IF NOT EXISTS idx_payment_archive_year ON public.payment_archive(archive_year);
+CREATE INDEX IF NOT EXISTS idx_payment_archive_user_id ON public.payment_archive(user_id);
 
 ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.subscriptions ENABLE ROW LEVEL SECURITY;
@@ -221,6 +301,11 @@ ALTER TABLE public.medical_history ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.emergency_contacts ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.liability_waivers ENABLE ROW LEVEL SECURITY;
 ALTER TABLE public.payment ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scan_logs_archive ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payment_archive ENABLE ROW LEVEL SECURITY;
+-- No policy for staff: only the server's own connection may read it.
+ALTER TABLE public.staff ENABLE ROW LEVEL SECURITY;
 
 DO $$
 DECLARE
@@ -236,7 +321,10 @@ BEGIN
     'medical_history',
     'emergency_contacts',
     'liability_waivers',
-    'payment'
+    'payment',
+    'audit_log',
+    'scan_logs_archive',
+    'payment_archive'
   ]
   LOOP
     IF NOT EXISTS (
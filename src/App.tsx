@@ -1,42 +1,72 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { Sidebar } from "./components/layout/sidebar"
+import { Sidebar, allowedTabs } from "./components/layout/sidebar"
 import { LoginPage } from "./components/auth/login-page"
 import { ScannerInterface } from "./components/scanner/scanner-interface"
 import { MemberList } from "./components/members/member-list"
 import { ActiveSessions } from "./components/active/active-sessions"
 import { ScanLogs } from "./components/logs/scan-logs"
 import { AnalyticsDashboard } from "./components/analytics/analytics-dashboard"
+import { BackupManager } from "./components/admin/backup-manager"
+import { AuditLog } from "./components/admin/audit-log"
+import { SyncReview } from "./components/admin/sync-review"
+import { LegacyImport } from "./components/admin/legacy-import"
+import { IntegrityCheck } from "./components/admin/integrity-check"
+import { DataBundle } from "./components/admin/data-bundle"
+import { StaffManager } from "./components/admin/staff-manager"
 import  AddMemberDialog  from "./components/members/add-member-dialog"
 import { BulkImportDialog } from "./components/members/bulk-import-dialog"
 import { Button } from "@/components/ui/button"
 import { Plus, Upload } from "lucide-react"
 import { storageService } from "@/src/services/storage.service"
+import { authService, sessionExpiredEvent, type StaffSession } from "@/src/services/auth.service"
+import { can } from "@/src/lib/permissions"
 import type { User } from "@/src/types"
 import { InstallPrompt } from "./components/pwa/install-prompt"
+import { useDataChanges } from "./hooks/use-data-changes"
+import { SessionContext } from "./hooks/use-session"
 
 function App() {
-  const [isAuthenticated, setIsAuthenticated] = useState(false)
-  const [activeTab, setActiveTab] = useState("scanner")
+  const [session, setSession] = useState<StaffSession | null>(null)
+  const [isCheckingSession, setIsCheckingSession] = useState(true)
+  const isAuthenticated = session !== null
+  const [selectedTab, setActiveTab] = useState("scanner")
+  const tabs = allowedTabs(session?.role)
+  // A role change can take away the tab that was open.
+  const activeTab = tabs.includes(selectedTab) ? selectedTab : tabs[0]
   const [users, setUsers] = useState<User[]>([])
   const [showAddDialog, setShowAddDialog] = useState(false)
   const [showBulkImport, setShowBulkImport] = useState(false)
   const [refreshKey, setRefreshKey] = useState(0)
 
   useEffect(() => {
-    const token = localStorage.getItem("bacasfitness_admin_token")
-    setIsAuthenticated(!!token)
+    authService
+      .getSession()
+      .then(setSession)
+      .finally(() => setIsCheckingSession(false))
   }, [])
 
-  const loadUsers = async () => {
-    const loadedUsers = await storageService.getUsers()
-    setUsers(loadedUsers)
-  }
+  // Back to the sign-in page once the session runs out.
+  useEffect(() => {
+    if (!session) return
+    const timer = setTimeout(() => setSession(null), Math.max(0, Date.parse(session.expiresAt) - Date.now()))
+    return () => clearTimeout(timer)
+  }, [session])
+
+  // ...or as soon as the server rejects it, e.g. after the account is disabled.
+  useEffect(() => {
+    const handleExpired = () => {
+      storageService.clearCache()
+      setSession(null)
+    }
+    window.addEventListener(sessionExpiredEvent, handleExpired)
+    return () => window.removeEventListener(sessionExpiredEvent, handleExpired)
+  }, [])
 
   useEffect(() => {
     if (isAuthenticated) {
-      loadUsers()
+      storageService.getUsers().then(setUsers)
     }
   }, [refreshKey, isAuthenticated])
 
@@ -44,14 +74,22 @@ function App() {
     setRefreshKey((prev) => prev + 1)
   }
 
-  const handleLogout = () => {
-    localStorage.removeItem("bacasfitness_admin_token")
-    setIsAuthenticated(false)
+  useDataChanges(["users"], handleRefresh)
+
+  const handleLogout = async (options?: { everywhere?: boolean }) => {
+    await authService.signOut(options)
+    storageService.clearCache()
+    setSession(null)
     setActiveTab("scanner")
   }
 
-  const handleLoginSuccess = () => {
-    setIsAuthenticated(true)
+  const handleLoginSuccess = (nextSession: StaffSession) => {
+    storageService.clearCache()
+    setSession(nextSession)
+  }
+
+  if (isCheckingSession) {
+    return null
   }
 
   if (!isAuthenticated) {
@@ -59,6 +97,7 @@ function App() {
   }
 
   return (
+    <SessionContext.Provider value={session}>
     <div className="flex h-screen bg-background text-foreground">
       <Sidebar activeTab={activeTab} onTabChange={setActiveTab} onLogout={handleLogout} />
 
@@ -72,6 +111,13 @@ function App() {
                 {activeTab === "active" && "Active Sessions"}
                 {activeTab === "logs" && "Scan Logs"}
                 {activeTab === "analytics" && "Analytics Dashboard"}
+                {activeTab === "backups" && "Database Backups"}
+                {activeTab === "audit" && "Audit Trail"}
+                {activeTab === "sync" && "Google Sheets Sync"}
+                {activeTab === "legacy" && "Legacy Import"}
+                {activeTab === "integrity" && "Database Integrity"}
+                {activeTab === "bundle" && "Export & Import"}
+                {activeTab === "staff" && "Staff Accounts"}
               </h1>
               <p className="text-muted-foreground mt-1 text-sm md:text-base">
                 {activeTab === "scanner" && "Scan member QR codes for check-in and check-out"}
@@ -79,10 +125,17 @@ function App() {
                 {activeTab === "active" && "View currently checked-in members"}
                 {activeTab === "logs" && "View scan history and activity logs"}
                 {activeTab === "analytics" && "Visualize gym attendance trends and patterns"}
+                {activeTab === "backups" && "Review backups and restore the database to an earlier point"}
+                {activeTab === "audit" && "See who changed which records, and when"}
+                {activeTab === "sync" && "Send changes saved during outages and review conflicts"}
+                {activeTab === "legacy" && "Bring members and history over from the old Supabase database"}
+                {activeTab === "integrity" && "Find and repair broken or inconsistent records"}
+                {activeTab === "bundle" && "Move the whole database to another setup as one portable file"}
+                {activeTab === "staff" && "Choose who can sign in and what each role is allowed to do"}
               </p>
             </div>
 
-            {activeTab === "members" && (
+            {activeTab === "members" && can(session.role, "members.edit") && (
               <div className="flex gap-2">
                 <Button variant="outline" size="sm" className="flex-1 sm:flex-none" onClick={() => setShowBulkImport(true)}>
                   <Upload className="w-4 h-4 mr-2" />
@@ -101,6 +154,13 @@ function App() {
           {activeTab === "active" && <ActiveSessions onUpdate={handleRefresh} />}
           {activeTab === "logs" && <ScanLogs />}
           {activeTab === "analytics" && <AnalyticsDashboard />}
+          {activeTab === "backups" && <BackupManager />}
+          {activeTab === "audit" && <AuditLog />}
+          {activeTab === "sync" && <SyncReview />}
+          {activeTab === "legacy" && <LegacyImport />}
+          {activeTab === "integrity" && <IntegrityCheck />}
+          {activeTab === "bundle" && <DataBundle />}
+          {activeTab === "staff" && <StaffManager />}
         </div>
       </main>
 
@@ -110,6 +170,7 @@ function App() {
 
       <InstallPrompt />
     </div>
+    </SessionContext.Provider>
   )
 }
 
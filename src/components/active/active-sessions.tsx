@@ -8,6 +8,7 @@ import { LogOut, Clock } from "lucide-react"
 import type { ActiveSession } from "@/src/types"
 import { storageService } from "@/src/services/storage.service"
 import { accessService } from "@/src/services/access.service"
+import { useDataChanges } from "@/src/hooks/use-data-changes"
 
 interface ActiveSessionsProps {
   onUpdate: () => void
@@ -16,15 +17,14 @@ interface ActiveSessionsProps {
 export function ActiveSessions({ onUpdate }: ActiveSessionsProps) {
   const [sessions, setSessions] = useState<ActiveSession[]>([])
 
-  const loadSessions = async () => {
-    const data = await storageService.getActiveSessions()
-    setSessions(data)
-  }
+  const loadSessions = () => storageService.getActiveSessions().then(setSessions)
 
   useEffect(() => {
     loadSessions()
   }, [])
 
+  useDataChanges(["active_sessions"], loadSessions)
+
   const handleCheckOut = async (userId: string) => {
     await accessService.processCheckOut(userId)
     await loadSessions()
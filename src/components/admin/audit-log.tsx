@@ -0,0 +1,257 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { History, RefreshCw } from "lucide-react"
+import { storageService, type TableName } from "@/src/services/storage.service"
+import { staffService } from "@/src/services/staff.service"
+import { useDataChanges } from "@/src/hooks/use-data-changes"
+import type { AuditEntry, StaffMember, User } from "@/src/types"
+
+const pageSize = 50
+const allValue = "all"
+
+const auditedTables: TableName[] = [
+  "users",
+  "subscriptions",
+  "subscription_history",
+  "payment",
+  "medical_history",
+  "emergency_contacts",
+  "liability_waivers",
+  "scan_logs",
+  "active_sessions",
+  "user_id_counter",
+]
+
+const actionVariants: Record<AuditEntry["action"], "default" | "secondary" | "destructive"> = {
+  insert: "default",
+  update: "secondary",
+  delete: "destructive",
+}
+
+function formatTableName(tableName: string): string {
+  return tableName.replace(/_/g, " ").replace(/\b\w/g, (letter) => letter.toUpperCase())
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—"
+  return typeof value === "object" ? JSON.stringify(value) : String(value)
+}
+
+function ChangeDetails({ entry }: { entry: AuditEntry }) {
+  const columns = Array.from(
+    new Set([...Object.keys(entry.before || {}), ...Object.keys(entry.after || {})]),
+  )
+  if (!columns.length) return null
+
+  return (
+    <div className="mt-2 grid grid-cols-3 gap-x-4 gap-y-1 text-xs">
+      <span className="font-medium">Field</span>
+      <span className="font-medium">Before</span>
+      <span className="font-medium">After</span>
+      {columns.map((column) => (
+        <div key={column} className="contents">
+          <span className="text-muted-foreground">{column}</span>
+          <span className="break-all">{formatValue(entry.before?.[column])}</span>
+          <span className="break-all">{formatValue(entry.after?.[column])}</span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function AuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([])
+  const [total, setTotal] = useState(0)
+  const [members, setMembers] = useState<User[]>([])
+  const [staff, setStaff] = useState<StaffMember[]>([])
+  const [actors, setActors] = useState<string[]>([])
+  const [memberId, setMemberId] = useState(allValue)
+  const [tableName, setTableName] = useState(allValue)
+  const [actor, setActor] = useState(allValue)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  // Loading from the start: the first page loads on mount.
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const memberNames = useMemo(
+    () => new Map(members.map((member) => [member.userId, member.name])),
+    [members],
+  )
+  // Entries record staff ids; only owners may list accounts, so others see ids.
+  const staffNames = useMemo(
+    () => new Map(staff.map((member) => [member.staffId, member.name])),
+    [staff],
+  )
+
+  const fetchPage = useCallback(
+    (offset: number) =>
+      storageService.getAuditLog({
+        memberId: memberId === allValue ? undefined : memberId,
+        tableName: tableName === allValue ? undefined : (tableName as TableName),
+        actor: actor === allValue ? undefined : actor,
+        limit: pageSize,
+        offset,
+      }),
+    [memberId, tableName, actor],
+  )
+
+  const showPage = (offset: number, result: { entries: AuditEntry[]; total: number }) => {
+    setEntries((previous) => (offset ? [...previous, ...result.entries] : result.entries))
+    setTotal(result.total)
+    setActors((previous) => {
+      const seen = new Set(previous)
+      for (const entry of result.entries) if (entry.actor) seen.add(entry.actor)
+      return Array.from(seen).sort()
+    })
+  }
+
+  const fail = (err: unknown) => setError(err instanceof Error ? err.message : "Failed to load the audit trail")
+
+  const loadEntries = async (offset = 0) => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      showPage(offset, await fetchPage(offset))
+    } catch (err) {
+      fail(err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  /** Select handler for a filter; the effect below reloads from the first page. */
+  const filterBy = (current: string, setFilter: (value: string) => void) => (value: string) => {
+    if (value === current) return
+    setIsLoading(true)
+    setError(null)
+    setFilter(value)
+  }
+
+  useEffect(() => {
+    storageService.getUsers({ includeArchived: true }).then(setMembers).catch(() => setMembers([]))
+    staffService.listStaff().then(setStaff).catch(() => setStaff([]))
+  }, [])
+
+  useEffect(() => {
+    fetchPage(0)
+      .then((result) => showPage(0, result))
+      .catch(fail)
+      .finally(() => setIsLoading(false))
+  }, [fetchPage])
+
+  useDataChanges(["audit_log"], () => loadEntries())
+
+  return (
+    <div className="grid gap-4">
+      <Card className="p-4">
+        <div className="grid gap-4 md:grid-cols-4 md:items-end">
+          <div className="grid gap-2">
+            <Label>Member</Label>
+            <Select value={memberId} onValueChange={filterBy(memberId, setMemberId)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={allValue}>All members</SelectItem>
+                {members.map((member) => (
+                  <SelectItem key={member.userId} value={member.userId}>
+                    {member.name} ({member.userId})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Table</Label>
+            <Select value={tableName} onValueChange={filterBy(tableName, setTableName)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={allValue}>All tables</SelectItem>
+                {auditedTables.map((table) => (
+                  <SelectItem key={table} value={table}>{formatTableName(table)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid gap-2">
+            <Label>Staff user</Label>
+            <Select value={actor} onValueChange={filterBy(actor, setActor)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value={allValue}>All staff</SelectItem>
+                {actors.map((staffId) => (
+                  <SelectItem key={staffId} value={staffId}>{staffNames.get(staffId) || staffId}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Button variant="outline" onClick={() => loadEntries()} disabled={isLoading}>
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+      </Card>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {entries.length === 0 && !isLoading ? (
+        <Card className="p-12 text-center">
+          <div className="flex flex-col items-center gap-4">
+            <div className="p-6 bg-muted rounded-full">
+              <History className="w-12 h-12 text-muted-foreground" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold">No Changes Recorded</h3>
+              <p className="text-sm text-muted-foreground mt-1">
+                Changes matching these filters will appear here
+              </p>
+            </div>
+          </div>
+        </Card>
+      ) : (
+        entries.map((entry) => (
+          <Card
+            key={entry.id}
+            className="p-3 md:p-4 cursor-pointer"
+            onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+          >
+            <div className="flex items-center gap-2 flex-wrap">
+              <Badge variant={actionVariants[entry.action]}>{entry.action}</Badge>
+              <span className="font-semibold">{formatTableName(entry.tableName)}</span>
+              <span className="text-xs text-muted-foreground font-mono">{entry.recordId}</span>
+              {entry.memberId && (
+                <span className="text-sm">
+                  {memberNames.get(entry.memberId) || entry.memberId}
+                </span>
+              )}
+            </div>
+            <p className="mt-1 text-xs text-muted-foreground">
+              {new Date(entry.at).toLocaleString()} · {(entry.actor && (staffNames.get(entry.actor) || entry.actor)) || "Unknown staff"}
+              {entry.deviceId && ` · device ${entry.deviceId.slice(0, 8)}`}
+            </p>
+            {expandedId === entry.id && <ChangeDetails entry={entry} />}
+          </Card>
+        ))
+      )}
+
+      {entries.length < total && (
+        <Button variant="outline" onClick={() => loadEntries(entries.length)} disabled={isLoading}>
+          Load More ({total - entries.length} remaining)
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,199 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Archive, DatabaseBackup, Eye, History, RotateCcw } from "lucide-react"
+import { backupService, type BackupInfo, type RestorePreview } from "@/src/services/backup.service"
+import { RecordArchive } from "./record-archive"
+
+const reasonLabels: Record<BackupInfo["reason"], string> = {
+  auto: "Automatic",
+  manual: "Manual",
+  "pre-restore": "Before restore",
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function formatTableName(tableName: string): string {
+  return tableName.replace(/_/g, " ").replace(/\b\w/g, (letter) => letter.toUpperCase())
+}
+
+export function BackupManager() {
+  const [backups, setBackups] = useState<BackupInfo[]>([])
+  const [preview, setPreview] = useState<RestorePreview | null>(null)
+  // Busy from the start: the backup list loads on mount.
+  const [isBusy, setIsBusy] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fail = (err: unknown) => setError(err instanceof Error ? err.message : "Backup request failed")
+
+  const run = async (task: () => Promise<void>) => {
+    setIsBusy(true)
+    setError(null)
+    try {
+      await task()
+    } catch (err) {
+      fail(err)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  useEffect(() => {
+    backupService
+      .listBackups()
+      .then(setBackups)
+      .catch(fail)
+      .finally(() => setIsBusy(false))
+  }, [])
+
+  const handleCreate = () =>
+    run(async () => {
+      await backupService.createBackup()
+      setBackups(await backupService.listBackups())
+    })
+
+  const handlePreview = (name: string) =>
+    run(async () => {
+      setPreview(await backupService.previewRestore(name))
+    })
+
+  const handleRestore = () => {
+    if (!preview) return
+    const when = new Date(preview.backup.createdAt).toLocaleString()
+    if (!confirm(`Restore the database to ${when}? The current data is backed up first.`)) return
+
+    run(async () => {
+      await backupService.restoreBackup(preview.backup.name)
+      // Every cached list in the app is now stale; start from a clean page.
+      window.location.reload()
+    })
+  }
+
+  return (
+    <div className="grid gap-4">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">
+          The database is copied automatically before changes are saved. Older automatic
+          backups are thinned out to one per day.
+        </p>
+        <Button size="sm" onClick={handleCreate} disabled={isBusy}>
+          <DatabaseBackup className="w-4 h-4 mr-2" />
+          Back Up Now
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <RecordArchive />
+
+      {preview && (
+        <Card className="p-4">
+          <div className="flex items-center justify-between gap-2 mb-3">
+            <div>
+              <h3 className="font-semibold">Restore preview</h3>
+              <p className="text-xs text-muted-foreground">
+                {new Date(preview.backup.createdAt).toLocaleString()} · {reasonLabels[preview.backup.reason]}
+              </p>
+              {preview.kept.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Kept as they are now: {preview.kept.map(formatTableName).join(", ")}
+                </p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPreview(null)} disabled={isBusy}>
+                Cancel
+              </Button>
+              <Button variant="destructive" size="sm" onClick={handleRestore} disabled={isBusy}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Restore
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 gap-x-4 gap-y-1 text-sm">
+            <span className="font-medium">Table</span>
+            <span className="font-medium text-right">Current</span>
+            <span className="font-medium text-right">Backup</span>
+            <span className="font-medium text-right">Change</span>
+            {Object.entries(preview.tables).map(([tableName, counts]) => (
+              <div key={tableName} className="contents">
+                <span>{formatTableName(tableName)}</span>
+                <span className="text-right">{counts.current}</span>
+                <span className="text-right">{counts.backup}</span>
+                {preview.kept.some((kept) => kept === tableName) ? (
+                  <span className="text-right text-muted-foreground">Kept</span>
+                ) : (
+                  <span
+                    className={
+                      counts.difference < 0
+                        ? "text-right text-red-600"
+                        : counts.difference > 0
+                          ? "text-right text-green-600"
+                          : "text-right text-muted-foreground"
+                    }
+                  >
+                    {counts.difference > 0 ? `+${counts.difference}` : counts.difference}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
+      {backups.length === 0 ? (
+        <Card className="p-12 text-center">
+          <div className="flex flex-col items-center gap-4">
+            <div className="p-6 bg-muted rounded-full">
+              <Archive className="w-12 h-12 text-muted-foreground" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold">No Backups Yet</h3>
+              <p className="text-sm text-muted-foreground mt-1">
+                A backup is taken automatically before the next change is saved
+              </p>
+            </div>
+          </div>
+        </Card>
+      ) : (
+        backups.map((backup) => (
+          <Card key={backup.name} className="p-3 md:p-4">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 flex-wrap">
+                  <History className="w-4 h-4 shrink-0 text-muted-foreground" />
+                  <span className="font-semibold">{new Date(backup.createdAt).toLocaleString()}</span>
+                  <Badge variant={backup.reason === "auto" ? "secondary" : "outline"}>
+                    {reasonLabels[backup.reason]}
+                  </Badge>
+                </div>
+                <p className="mt-1 text-xs text-muted-foreground font-mono truncate">
+                  {backup.name} · {formatSize(backup.size)}
+                </p>
+              </div>
+
+              <Button
+                variant="outline"
+                size="sm"
+                className="shrink-0"
+                onClick={() => handlePreview(backup.name)}
+                disabled={isBusy}
+              >
+                <Eye className="w-4 h-4 md:mr-2" />
+                <span className="hidden md:inline">Preview Restore</span>
+              </Button>
+            </div>
+          </Card>
+        ))
+      )}
+    </div>
+  )
+}
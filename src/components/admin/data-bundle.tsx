@@ -0,0 +1,162 @@
+"use client"
+
+import { useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Download, Eye, Upload } from "lucide-react"
+import { bundleService, type BundleImportMode, type BundleImportResult } from "@/src/services/bundle.service"
+
+function formatTableName(tableName: string): string {
+  return tableName.replace(/_/g, " ").replace(/\b\w/g, (letter) => letter.toUpperCase())
+}
+
+function changedCount(result: BundleImportResult): number {
+  return result.tables.reduce((sum, report) => sum + report.inserted + report.updated + report.deleted, 0)
+}
+
+export function DataBundle() {
+  const [file, setFile] = useState<File | null>(null)
+  const [mode, setMode] = useState<BundleImportMode>("merge")
+  const [result, setResult] = useState<BundleImportResult | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (task: () => Promise<void>) => {
+    setIsBusy(true)
+    setError(null)
+    try {
+      await task()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Bundle request failed")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handleExport = () => run(() => bundleService.exportBundle())
+
+  const handlePreview = () =>
+    run(async () => {
+      if (file) setResult(await bundleService.previewBundleImport(file, mode))
+    })
+
+  const handleImport = () => {
+    if (!file || !result) return
+    const warning =
+      mode === "replace" ? " Records that are not in the bundle will be deleted." : ""
+    if (!confirm(`Apply ${changedCount(result)} change(s) from ${file.name}?${warning}`)) return
+
+    run(async () => {
+      setResult(await bundleService.importBundle(file, mode))
+    })
+  }
+
+  return (
+    <div className="grid gap-4">
+      <Card className="p-4">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <p className="text-sm text-muted-foreground">
+            Downloads every table as a <span className="font-mono">.zip</span> of JSON and CSV files, with
+            a manifest of row counts and checksums. Use it to move the gym to another database or keep an
+            offline copy.
+          </p>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={isBusy}>
+            <Download className="w-4 h-4 mr-2" />
+            Export Bundle
+          </Button>
+        </div>
+      </Card>
+
+      <Card className="p-4">
+        <div className="grid gap-3">
+          <p className="text-sm text-muted-foreground">
+            Restores an exported bundle. <span className="font-medium">Merge</span> adds and updates records
+            and keeps the rest; <span className="font-medium">Replace</span> makes every table match the
+            bundle. The workbook is backed up first.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              type="file"
+              accept=".zip"
+              onChange={(event) => {
+                setFile(event.target.files?.[0] || null)
+                setResult(null)
+              }}
+            />
+            <Select
+              value={mode}
+              onValueChange={(value) => {
+                setMode(value as BundleImportMode)
+                setResult(null)
+              }}
+            >
+              <SelectTrigger className="sm:w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="merge">Merge</SelectItem>
+                <SelectItem value="replace">Replace</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={handlePreview} disabled={isBusy || !file}>
+              <Eye className="w-4 h-4 mr-2" />
+              Preview
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleImport}
+              disabled={isBusy || !result?.dryRun || changedCount(result) === 0}
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {result && (
+        <Card className="p-4">
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            <h3 className="font-semibold">{result.dryRun ? "Import preview" : "Import finished"}</h3>
+            <Badge variant={result.dryRun ? "outline" : "secondary"}>
+              {changedCount(result)} {result.dryRun ? "to change" : "changed"}
+            </Badge>
+            <span className="text-xs text-muted-foreground">
+              Exported {new Date(result.exportedAt).toLocaleString()} · schema v{result.schemaVersion}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-5 gap-x-4 gap-y-1 text-sm">
+            <span className="font-medium">Table</span>
+            <span className="font-medium text-right">New</span>
+            <span className="font-medium text-right">Updated</span>
+            <span className="font-medium text-right">Deleted</span>
+            <span className="font-medium text-right">Unchanged</span>
+            {result.tables.map((report) => (
+              <div key={report.table} className="contents">
+                <span>{formatTableName(report.table)}</span>
+                <span className="text-right text-green-600">{report.inserted}</span>
+                <span className="text-right">{report.updated}</span>
+                <span className={report.deleted ? "text-right text-red-600" : "text-right"}>{report.deleted}</span>
+                <span className="text-right text-muted-foreground">{report.unchanged}</span>
+              </div>
+            ))}
+          </div>
+
+          {result.notes.length > 0 && (
+            <ul className="mt-3 list-disc pl-5 text-xs text-muted-foreground">
+              {result.notes.map((note) => (
+                <li key={note}>{note}</li>
+              ))}
+            </ul>
+          )}
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+"use client"
+
+import { useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Checkbox } from "@/components/ui/checkbox"
+import { ShieldCheck, Wrench, RefreshCw } from "lucide-react"
+import { integrityService, type IntegrityIssue, type IntegrityReport } from "@/src/services/integrity.service"
+
+const kindLabels: Record<IntegrityIssue["kind"], string> = {
+  orphan: "Orphaned record",
+  "invalid-date": "Invalid date",
+  "duplicate-key": "Duplicate key",
+  "missing-key": "Missing key",
+}
+
+function formatTableName(tableName: string): string {
+  return tableName.replace(/_/g, " ").replace(/\b\w/g, (letter) => letter.toUpperCase())
+}
+
+export function IntegrityCheck() {
+  const [report, setReport] = useState<IntegrityReport | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [repairedCount, setRepairedCount] = useState<number | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (task: () => Promise<void>) => {
+    setIsBusy(true)
+    setError(null)
+    try {
+      await task()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Integrity check failed")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const showReport = (next: IntegrityReport) => {
+    setReport(next)
+    // Every repairable issue starts selected; unselect the ones to keep.
+    setSelected(new Set(next.issues.filter((issue) => issue.repair).map((issue) => issue.id)))
+  }
+
+  const handleCheck = () =>
+    run(async () => {
+      setRepairedCount(null)
+      showReport(await integrityService.checkIntegrity())
+    })
+
+  const handleRepair = () => {
+    if (!selected.size) return
+    if (!confirm(`Apply ${selected.size} repair(s)? Deleted rows can be restored from a backup.`)) return
+
+    run(async () => {
+      const result = await integrityService.repairIntegrity([...selected])
+      setRepairedCount(result.repaired.length)
+      showReport(result.report)
+    })
+  }
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current)
+      if (checked) next.add(id)
+      else next.delete(id)
+      return next
+    })
+  }
+
+  return (
+    <div className="grid gap-4">
+      <Card className="p-4">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <p className="text-sm text-muted-foreground">
+            Looks for records of deleted members, dates that cannot be read, and rows with a missing or
+            repeated id. Nothing changes until you apply the repairs.
+          </p>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={handleCheck} disabled={isBusy}>
+              <RefreshCw className="w-4 h-4 mr-2" />
+              Run Check
+            </Button>
+            <Button size="sm" onClick={handleRepair} disabled={isBusy || !selected.size}>
+              <Wrench className="w-4 h-4 mr-2" />
+              Apply {selected.size} Repair{selected.size === 1 ? "" : "s"}
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {repairedCount !== null && (
+        <p className="text-sm text-green-600">{repairedCount} issue(s) repaired</p>
+      )}
+
+      {report &&
+        (report.issues.length === 0 ? (
+          <Card className="p-8">
+            <div className="flex flex-col items-center gap-2 text-center">
+              <ShieldCheck className="w-10 h-10 text-green-600" />
+              <p className="text-sm text-muted-foreground">
+                No problems found in {Object.values(report.rowCounts).reduce((sum, count) => sum + count, 0)}{" "}
+                records
+              </p>
+            </div>
+          </Card>
+        ) : (
+          <div className="grid gap-3">
+            <p className="text-sm text-muted-foreground">
+              {report.issues.length} issue(s) found at {new Date(report.checkedAt).toLocaleString()}
+            </p>
+            {report.issues.map((issue) => (
+              <Card key={issue.id} className="p-4">
+                <div className="flex items-start gap-3">
+                  <Checkbox
+                    id={issue.id}
+                    className="mt-1"
+                    checked={selected.has(issue.id)}
+                    disabled={!issue.repair || isBusy}
+                    onCheckedChange={(checked) => toggle(issue.id, checked === true)}
+                  />
+                  <div className="grid gap-2 min-w-0 flex-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant="outline">{kindLabels[issue.kind]}</Badge>
+                      <Badge variant="secondary">{formatTableName(issue.table)}</Badge>
+                      <span className="text-sm">{issue.message}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {issue.repair ? `Repair: ${issue.repair.description}` : "Needs to be fixed by hand"}
+                    </p>
+                    <pre className="text-xs bg-muted rounded p-2 overflow-x-auto">
+                      {issue.rows.map((row) => JSON.stringify(row)).join("\n")}
+                    </pre>
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        ))}
+    </div>
+  )
+}
@@ -0,0 +1,153 @@
+"use client"
+
+import { useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { DatabaseZap, Eye, Upload } from "lucide-react"
+import { legacyImportService, type LegacyImportResult } from "@/src/services/legacy-import.service"
+
+/** Skipped rows listed before the rest are summarised. */
+const skippedShown = 50
+
+function formatTableName(tableName: string): string {
+  return tableName.replace(/_/g, " ").replace(/\b\w/g, (letter) => letter.toUpperCase())
+}
+
+export function LegacyImport() {
+  const [files, setFiles] = useState<File[]>([])
+  const [result, setResult] = useState<LegacyImportResult | null>(null)
+  const [isBusy, setIsBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (task: () => Promise<void>) => {
+    setIsBusy(true)
+    setError(null)
+    try {
+      await task()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Legacy import failed")
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  const handlePreview = () =>
+    run(async () => {
+      setResult(await legacyImportService.previewLegacyImport(files))
+    })
+
+  const handleImport = () => {
+    if (!result) return
+    const total = result.tables.reduce((sum, report) => sum + report.imported, 0)
+    if (!confirm(`Import ${total} record(s) from the old database?`)) return
+
+    run(async () => {
+      setResult(await legacyImportService.importLegacy(files))
+    })
+  }
+
+  const importedTotal = result?.tables.reduce((sum, report) => sum + report.imported, 0) || 0
+
+  return (
+    <div className="grid gap-4">
+      <Card className="p-4">
+        <div className="grid gap-3">
+          <p className="text-sm text-muted-foreground">
+            Choose a pg_dump <span className="font-mono">.sql</span> file of the old Supabase database,
+            or one <span className="font-mono">.csv</span> per table named after it (e.g.{" "}
+            <span className="font-mono">users.csv</span>). Members and payments that already exist are
+            skipped.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              type="file"
+              accept=".sql,.csv,.txt"
+              multiple
+              onChange={(event) => {
+                setFiles(Array.from(event.target.files || []))
+                setResult(null)
+              }}
+            />
+            <Button variant="outline" size="sm" onClick={handlePreview} disabled={isBusy || !files.length}>
+              <Eye className="w-4 h-4 mr-2" />
+              Preview
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleImport}
+              disabled={isBusy || !result?.dryRun || importedTotal === 0}
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Import
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {result && (
+        <Card className="p-4">
+          <div className="flex items-center gap-2 mb-3">
+            <h3 className="font-semibold">{result.dryRun ? "Import preview" : "Import finished"}</h3>
+            <Badge variant={result.dryRun ? "outline" : "secondary"}>
+              {result.dryRun ? `${importedTotal} to import` : `${importedTotal} imported`}
+            </Badge>
+          </div>
+
+          {result.tables.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-6 text-center">
+              <DatabaseZap className="w-10 h-10 text-muted-foreground" />
+              <p className="text-sm text-muted-foreground">No tables from the old database were found</p>
+            </div>
+          ) : (
+            <div className="grid grid-cols-4 gap-x-4 gap-y-1 text-sm">
+              <span className="font-medium">Table</span>
+              <span className="font-medium text-right">Found</span>
+              <span className="font-medium text-right">{result.dryRun ? "New" : "Imported"}</span>
+              <span className="font-medium text-right">Skipped</span>
+              {result.tables.map((report) => (
+                <div key={report.table} className="contents">
+                  <span>{formatTableName(report.table)}</span>
+                  <span className="text-right">{report.found}</span>
+                  <span className="text-right text-green-600">{report.imported}</span>
+                  <span className={report.skipped ? "text-right text-amber-600" : "text-right text-muted-foreground"}>
+                    {report.skipped}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {result.notes.length > 0 && (
+            <ul className="mt-3 list-disc pl-5 text-xs text-muted-foreground">
+              {result.notes.map((note) => (
+                <li key={note}>{note}</li>
+              ))}
+            </ul>
+          )}
+
+          {result.skipped.length > 0 && (
+            <div className="mt-4 grid gap-1 text-xs">
+              <span className="font-medium">Skipped records</span>
+              {result.skipped.slice(0, skippedShown).map((row, index) => (
+                <div key={index} className="flex gap-2">
+                  <Badge variant="secondary">{formatTableName(row.table)}</Badge>
+                  <span className="font-mono">{row.recordId === null ? "—" : String(row.recordId)}</span>
+                  <span className="text-muted-foreground">{row.reason}</span>
+                </div>
+              ))}
+              {result.skipped.length > skippedShown && (
+                <span className="text-muted-foreground">
+                  and {result.skipped.length - skippedShown} more
+                </span>
+              )}
+            </div>
+          )}
+        </Card>
+      )}
+    </div>
+  )
+}
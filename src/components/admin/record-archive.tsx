@@ -0,0 +1,91 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { FolderArchive } from "lucide-react"
+import { archiveService, type ArchiveSummary } from "@/src/services/archive.service"
+
+const tableLabels: Record<ArchiveSummary["table"], string> = {
+  scan_logs: "Scan Logs",
+  payment: "Payments",
+}
+
+/** Row counts of the hot tables and their yearly archives, with a manual archive run. */
+export function RecordArchive() {
+  const [summary, setSummary] = useState<ArchiveSummary[]>([])
+  // Busy from the start: the summary loads on mount.
+  const [isBusy, setIsBusy] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fail = (err: unknown) => setError(err instanceof Error ? err.message : "Archive request failed")
+
+  const run = async (task: () => Promise<void>) => {
+    setIsBusy(true)
+    setError(null)
+    try {
+      await task()
+    } catch (err) {
+      fail(err)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  useEffect(() => {
+    archiveService
+      .getArchiveSummary()
+      .then(setSummary)
+      .catch(fail)
+      .finally(() => setIsBusy(false))
+  }, [])
+
+  const handleArchive = () =>
+    run(async () => {
+      await archiveService.archiveOldRecords()
+      setSummary(await archiveService.getArchiveSummary())
+    })
+
+  const hotPeriodStart = summary[0]?.hotPeriodStart
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <div>
+          <h3 className="font-semibold flex items-center gap-2">
+            <FolderArchive className="w-4 h-4 text-muted-foreground" />
+            Archive
+          </h3>
+          <p className="text-xs text-muted-foreground">
+            Scan logs and payments from before {hotPeriodStart ?? "this year"} are moved to a yearly
+            archive every day. Reports and exports still include them.
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={handleArchive} disabled={isBusy}>
+          Archive Now
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="grid gap-2 text-sm">
+        {summary.map((table) => (
+          <div key={table.table} className="flex flex-wrap items-center gap-2">
+            <span className="font-medium w-24">{tableLabels[table.table]}</span>
+            <Badge variant="secondary">Current: {table.hotRows}</Badge>
+            {table.years.length === 0 ? (
+              <span className="text-xs text-muted-foreground">Nothing archived yet</span>
+            ) : (
+              table.years.map((year) => (
+                <Badge key={year.year} variant="outline">
+                  {year.year}: {year.rows}
+                </Badge>
+              ))
+            )}
+          </div>
+        ))}
+      </div>
+    </Card>
+  )
+}
@@ -0,0 +1,211 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { KeyRound, Plus, Trash2, UserCheck, UserX } from "lucide-react"
+import { useSession } from "@/src/hooks/use-session"
+import { roleLabels, rolePermissions } from "@/src/lib/permissions"
+import { staffService, type StaffInput } from "@/src/services/staff.service"
+import type { StaffMember, StaffRole } from "@/src/types"
+
+const roles = Object.keys(roleLabels) as StaffRole[]
+
+const emptyForm = { email: "", name: "", role: "front_desk" as StaffRole, password: "" }
+
+function formatDate(value?: string): string {
+  return value ? new Date(value).toLocaleString() : "Never"
+}
+
+export function StaffManager() {
+  const session = useSession()
+  const [staff, setStaff] = useState<StaffMember[]>([])
+  const [form, setForm] = useState(emptyForm)
+  // Busy from the start: the accounts load on mount.
+  const [isBusy, setIsBusy] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fail = (err: unknown) => setError(err instanceof Error ? err.message : "Staff request failed")
+
+  const run = async (task: () => Promise<void>) => {
+    setIsBusy(true)
+    setError(null)
+    try {
+      await task()
+      setStaff(await staffService.listStaff())
+    } catch (err) {
+      fail(err)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  useEffect(() => {
+    staffService
+      .listStaff()
+      .then(setStaff)
+      .catch(fail)
+      .finally(() => setIsBusy(false))
+  }, [])
+
+  const update = (member: StaffMember, input: StaffInput) =>
+    run(async () => {
+      await staffService.updateStaff(member.staffId, input)
+    })
+
+  const handleCreate = () =>
+    run(async () => {
+      await staffService.createStaff(form)
+      setForm(emptyForm)
+    })
+
+  const handleResetPassword = (member: StaffMember) => {
+    const password = prompt(`New password for ${member.email} (at least 8 characters):`)
+    if (password) update(member, { password })
+  }
+
+  const handleDelete = (member: StaffMember) => {
+    if (!confirm(`Delete the account for ${member.email}? They will no longer be able to sign in.`)) return
+    run(async () => {
+      await staffService.deleteStaff(member.staffId)
+    })
+  }
+
+  return (
+    <div className="grid gap-4">
+      <Card className="p-4">
+        <div className="grid gap-3">
+          <p className="text-sm text-muted-foreground">
+            Each person signs in with their own account. The role decides what they can see and change.
+          </p>
+          <div className="grid gap-2 sm:grid-cols-[1fr_1fr_10rem_1fr_auto]">
+            <Input
+              placeholder="Name"
+              value={form.name}
+              onChange={(event) => setForm({ ...form, name: event.target.value })}
+            />
+            <Input
+              type="email"
+              placeholder="Email"
+              value={form.email}
+              onChange={(event) => setForm({ ...form, email: event.target.value })}
+            />
+            <Select value={form.role} onValueChange={(value) => setForm({ ...form, role: value as StaffRole })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {roles.map((role) => (
+                  <SelectItem key={role} value={role}>
+                    {roleLabels[role]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="password"
+              placeholder="Password"
+              value={form.password}
+              onChange={(event) => setForm({ ...form, password: event.target.value })}
+            />
+            <Button size="sm" onClick={handleCreate} disabled={isBusy || !form.email || !form.password}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add
+            </Button>
+          </div>
+        </div>
+      </Card>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="grid gap-2">
+        {staff.map((member) => {
+          const isSelf = member.staffId === session?.staffId
+          return (
+            <Card key={member.staffId} className="p-4">
+              <div className="flex flex-col md:flex-row md:items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-semibold truncate">{member.name || member.email}</span>
+                    {isSelf && <Badge variant="outline">You</Badge>}
+                    {member.disabledAt && <Badge variant="destructive">Disabled</Badge>}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {member.email} · Last sign-in: {formatDate(member.lastLoginAt)}
+                  </p>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-2">
+                  <Select
+                    value={member.role}
+                    onValueChange={(value) => update(member, { role: value as StaffRole })}
+                    disabled={isBusy}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {roles.map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {roleLabels[role]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleResetPassword(member)}
+                    disabled={isBusy}
+                  >
+                    <KeyRound className="w-4 h-4 mr-2" />
+                    Password
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => update(member, { disabled: !member.disabledAt })}
+                    disabled={isBusy || isSelf}
+                  >
+                    {member.disabledAt ? <UserCheck className="w-4 h-4 mr-2" /> : <UserX className="w-4 h-4 mr-2" />}
+                    {member.disabledAt ? "Enable" : "Disable"}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => handleDelete(member)}
+                    disabled={isBusy || isSelf}
+                    aria-label={`Delete ${member.email}`}
+                  >
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            </Card>
+          )
+        })}
+      </div>
+
+      <Card className="p-4">
+        <h3 className="font-semibold mb-3">What each role can do</h3>
+        <div className="grid gap-3">
+          {roles.map((role) => (
+            <div key={role} className="grid gap-1 sm:grid-cols-[8rem_1fr]">
+              <span className="text-sm font-medium">{roleLabels[role]}</span>
+              <div className="flex flex-wrap gap-1">
+                {rolePermissions[role].map((permission) => (
+                  <Badge key={permission} variant="secondary" className="font-mono text-[11px]">
+                    {permission}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </Card>
+    </div>
+  )
+}
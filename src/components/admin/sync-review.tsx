@@ -0,0 +1,192 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { CheckCircle2, CloudOff, RefreshCcw } from "lucide-react"
+import { syncService, type SyncConflict, type SyncState } from "@/src/services/sync.service"
+
+function formatTableName(tableName: string): string {
+  return tableName.replace(/_/g, " ").replace(/\b\w/g, (letter) => letter.toUpperCase())
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === "") return "—"
+  return String(value)
+}
+
+function ConflictCard({
+  conflict,
+  isBusy,
+  onResolve,
+}: {
+  conflict: SyncConflict
+  isBusy: boolean
+  onResolve: (keep: "local" | "remote") => void
+}) {
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <div>
+          <h3 className="font-semibold">Change from {new Date(conflict.entry.at).toLocaleString()}</h3>
+          <p className="text-xs text-muted-foreground">
+            Held back {new Date(conflict.detectedAt).toLocaleString()}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => onResolve("remote")} disabled={isBusy}>
+            Keep Google Sheets
+          </Button>
+          <Button size="sm" onClick={() => onResolve("local")} disabled={isBusy}>
+            Keep This Change
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid gap-3">
+        {conflict.reasons.map((reason, index) => {
+          const columns = reason.columns.length
+            ? reason.columns
+            : Object.keys({ ...reason.remote, ...reason.local })
+          return (
+            <div key={index} className="rounded-md border p-3">
+              <div className="flex items-center gap-2 flex-wrap">
+                <Badge variant="secondary">{formatTableName(reason.table)}</Badge>
+                {reason.recordId !== null && (
+                  <span className="text-xs font-mono text-muted-foreground">{String(reason.recordId)}</span>
+                )}
+                <span className="text-sm">{reason.message}</span>
+              </div>
+              {columns.length > 0 && (
+                <div className="mt-2 grid grid-cols-3 gap-x-4 gap-y-1 text-xs">
+                  <span className="font-medium">Field</span>
+                  <span className="font-medium">This change</span>
+                  <span className="font-medium">Google Sheets</span>
+                  {columns.map((column) => (
+                    <div key={column} className="contents">
+                      <span className="text-muted-foreground">{column}</span>
+                      <span className="break-all">{formatValue(reason.local?.[column])}</span>
+                      <span className="break-all">{formatValue(reason.remote?.[column])}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </Card>
+  )
+}
+
+export function SyncReview() {
+  const [status, setStatus] = useState<SyncState | null>(null)
+  // Busy from the start: the status loads on mount.
+  const [isBusy, setIsBusy] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fail = (err: unknown) => setError(err instanceof Error ? err.message : "Sync request failed")
+
+  const run = async (task: () => Promise<unknown>) => {
+    setIsBusy(true)
+    setError(null)
+    try {
+      await task()
+      setStatus(await syncService.getSyncStatus())
+    } catch (err) {
+      fail(err)
+    } finally {
+      setIsBusy(false)
+    }
+  }
+
+  useEffect(() => {
+    syncService
+      .getSyncStatus()
+      .then(setStatus)
+      .catch(fail)
+      .finally(() => setIsBusy(false))
+  }, [])
+
+  if (status && !status.enabled) {
+    return (
+      <Card className="p-12 text-center">
+        <div className="flex flex-col items-center gap-4">
+          <div className="p-6 bg-muted rounded-full">
+            <CloudOff className="w-12 h-12 text-muted-foreground" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold">Sync Mode Is Off</h3>
+            <p className="text-sm text-muted-foreground mt-1">
+              Set STORAGE_BACKEND=google-sheets-sync to keep saving changes while Google Sheets is
+              unreachable
+            </p>
+          </div>
+        </div>
+      </Card>
+    )
+  }
+
+  const lastReconcile = status?.lastReconcile
+
+  return (
+    <div className="grid gap-4">
+      <Card className="p-4">
+        <div className="flex items-center justify-between gap-2">
+          <div className="grid gap-1 text-sm">
+            <div className="flex items-center gap-2">
+              <span className="font-semibold">Google Sheets</span>
+              {status?.remoteError ? (
+                <Badge variant="destructive">Unreachable</Badge>
+              ) : (
+                <Badge variant="secondary">Connected</Badge>
+              )}
+            </div>
+            <span className="text-muted-foreground">
+              {status?.pending || 0} change(s) waiting to sync · {status?.conflicts.length || 0} to review
+            </span>
+            {lastReconcile && (
+              <span className="text-xs text-muted-foreground">
+                Last sync {new Date(lastReconcile.at).toLocaleString()}: {lastReconcile.replayed} sent,{" "}
+                {lastReconcile.pulled.length} table(s) refreshed
+                {lastReconcile.error && ` · ${lastReconcile.error}`}
+              </span>
+            )}
+          </div>
+          <Button size="sm" onClick={() => run(syncService.reconcile)} disabled={isBusy}>
+            <RefreshCcw className="w-4 h-4 mr-2" />
+            Sync Now
+          </Button>
+        </div>
+      </Card>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {status && status.conflicts.length === 0 ? (
+        <Card className="p-12 text-center">
+          <div className="flex flex-col items-center gap-4">
+            <div className="p-6 bg-muted rounded-full">
+              <CheckCircle2 className="w-12 h-12 text-muted-foreground" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold">Nothing to Review</h3>
+              <p className="text-sm text-muted-foreground mt-1">
+                Changes that clash with edits made in Google Sheets will appear here
+              </p>
+            </div>
+          </div>
+        </Card>
+      ) : (
+        status?.conflicts.map((conflict) => (
+          <ConflictCard
+            key={conflict.id}
+            conflict={conflict}
+            isBusy={isBusy}
+            onResolve={(keep) => run(() => syncService.resolveConflict(conflict.id, keep))}
+          />
+        ))
+      )}
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
 import {
   Card,
   CardContent,
@@ -39,6 +39,7 @@ import {
 } from "date-fns"
 import type { ScanLog, Payment, User as UserType, Subscription, SubscriptionHistory } from "@/src/types"
 import { storageService } from "@/src/services/storage.service"
+import { usePermission } from "@/src/hooks/use-session"
 import {
   TrendingUp, TrendingDown, Minus, Clock, Users, Calendar,
   Activity, Moon, LogIn, LogOut, Timer, UserCheck,
@@ -303,10 +304,9 @@ function MiniBarChart({ data }: { data: { label: string; value: number }[] }) {
   )
 }
 
-function TrendIndicator({ current, previous, suffix = "", currency = false }: {
-  current: number; previous: number; suffix?: string; currency?: boolean
+function TrendIndicator({ current, previous, suffix = "" }: {
+  current: number; previous: number; suffix?: string
 }) {
-  const fmt = (n: number) => currency ? formatPeso(n) : String(n)
   if (previous === 0 && current === 0)
     return <span className="text-[11px] text-muted-foreground flex items-center gap-1"><Minus className="w-3 h-3" /> No change</span>
   const diff = current - previous
@@ -316,6 +316,370 @@ function TrendIndicator({ current, previous, suffix = "", currency = false }: {
   return <span className="text-[11px] text-muted-foreground flex items-center gap-1"><Minus className="w-3 h-3" /> No change</span>
 }
 
+// ─── Derived analytics ────────────────────────────────────────────────────────
+// Pure functions of the loaded data and the selected filters, memoised by the
+// component.
+
+function attendanceInRange(allValidLogs: ScanLog[], timeRange: TimeRange) {
+  const ph      = nowPH()
+  const realNow = new Date()
+  const todayStr = ph.str
+  const thisWeekStartStr = toPHDateString(getStartOfWeek(realNow, { weekStartsOn: 0 }).toISOString())
+
+  let filteredLogs: ScanLog[] = []
+  let daysInRange = 1
+
+  switch (timeRange) {
+    case "today":
+      filteredLogs = allValidLogs.filter(l => toPHDateString(l.timestamp) === todayStr)
+      daysInRange = 1; break
+    case "week":
+      filteredLogs = allValidLogs.filter(l => toPHDateString(l.timestamp) >= thisWeekStartStr)
+      daysInRange = 7; break
+    case "month":
+      filteredLogs = allValidLogs.filter(l => phYear(l.timestamp) === ph.year && phMonth(l.timestamp) === ph.month)
+      daysInRange = getDaysInMonth(realNow); break
+    case "year":
+      filteredLogs = allValidLogs.filter(l => phYear(l.timestamp) === ph.year)
+      daysInRange = 12; break
+    default:
+      filteredLogs = allValidLogs; daysInRange = 365
+  }
+
+  daysInRange = Math.max(1, daysInRange)
+
+  const hourMap = new Map<number, number>()
+  filteredLogs.forEach(l => { const h = phHour(l.timestamp); hourMap.set(h, (hourMap.get(h) || 0) + 1) })
+  let maxHour: number | null = null, maxCount = 0, minHour: number | null = null, minCount = Infinity
+  hourMap.forEach((count, hour) => {
+    if (count > maxCount) { maxCount = count; maxHour = hour }
+    if (hour >= 5 && hour <= 23 && count < minCount && count > 0) { minCount = count; minHour = hour }
+  })
+
+  const dayMap = new Map<number, number>()
+  filteredLogs.forEach(l => { const d = phDayOfWeek(l.timestamp); dayMap.set(d, (dayMap.get(d) || 0) + 1) })
+  let maxDay: number | null = null, maxDayCount = 0
+  dayMap.forEach((count, day) => { if (count > maxDayCount) { maxDayCount = count; maxDay = day } })
+  return {
+    peakHour: maxHour as number | null,
+    quietestHour: minHour as number | null,
+    hourlyDistribution: Array.from({ length: 24 }, (_, i) => hourMap.get(i) || 0),
+    busiestDay: maxDay as number | null,
+    weeklyBreakdown: DAY_SHORT.map((label, i) => ({ label, value: dayMap.get(i) || 0 })),
+    avgDaily: Math.round(filteredLogs.length / daysInRange),
+  }
+}
+
+interface RevenueFilters {
+  revenueRange: RevenueRange
+  revenueMethodFilter: PaymentMethodKey | "all"
+  revenuePlanFilter: PlanKey | "all"
+  barYear: number
+  barMonth: number
+  barWeek: number
+  detailYear: number
+  detailMonth: number
+  detailWeek: number
+}
+
+function revenueSummary(
+  allPayments: Payment[],
+  subMap: Map<string, Subscription>,
+  userMap: Map<string, string>,
+  { revenueRange, revenueMethodFilter, revenuePlanFilter, barYear, barMonth, barWeek, detailYear, detailMonth, detailWeek }: RevenueFilters,
+) {
+  const ph      = nowPH()
+  const realNow = new Date()
+  const todayStr = ph.str
+  const yesterdayStr = toPHDateString(subDays(realNow, 1).toISOString())
+  const thisWeekStartStr = toPHDateString(getStartOfWeek(realNow, { weekStartsOn: 0 }).toISOString())
+  const lastWeekStartStr = toPHDateString(subDays(getStartOfWeek(realNow, { weekStartsOn: 0 }), 7).toISOString())
+  const lastWeekEndStr   = toPHDateString(subDays(getStartOfWeek(realNow, { weekStartsOn: 0 }), 1).toISOString())
+  const lastMonthDate    = subMonths(realNow, 1)
+  const lastMonthY       = toPHDate(lastMonthDate.toISOString()).getUTCFullYear()
+  const lastMonthM       = toPHDate(lastMonthDate.toISOString()).getUTCMonth()
+
+  const sum = (payments: Payment[]) => payments.reduce((s, p) => s + (p.amount || 0), 0)
+  const filterMethod = (p: Payment) => revenueMethodFilter === "all" || (p.paymentMethod as string) === revenueMethodFilter
+  const filterPlan   = (p: Payment) => revenuePlanFilter === "all" || getPlanKey(subMap.get(p.userId)) === revenuePlanFilter
+  const getWeekScope = () => {
+    const weekStart = new Date(barYear, 0, 1 + barWeek * 7)
+    const weekEnd = new Date(weekStart.getTime() + 6 * 24 * 60 * 60 * 1000)
+    const startStr = `${weekStart.getFullYear()}-${String(weekStart.getMonth()+1).padStart(2,"0")}-${String(weekStart.getDate()).padStart(2,"0")}`
+    const endStr = `${weekEnd.getFullYear()}-${String(weekEnd.getMonth()+1).padStart(2,"0")}-${String(weekEnd.getDate()).padStart(2,"0")}`
+    return { startStr, endStr }
+  }
+  const getMonthScopeDays = () => {
+    const daysInBarMonth = new Date(barYear, barMonth + 1, 0).getDate()
+    const allDays = Array.from({ length: daysInBarMonth }, (_, i) => ({
+      label: String(i + 1),
+      dayStr: `${barYear}-${String(barMonth + 1).padStart(2, "0")}-${String(i + 1).padStart(2, "0")}`,
+    }))
+    return barWeek === 0 ? allDays : allDays.slice((barWeek - 1) * 7, (barWeek - 1) * 7 + 7)
+  }
+  const getScopedPayments = (payments: Payment[]) => {
+    switch (revenueRange) {
+      case "today":
+        return payments.filter(p => toPHDateString(p.paymentDate!) === todayStr)
+      case "week": {
+        const { startStr, endStr } = getWeekScope()
+        return payments.filter(p => {
+          const s = toPHDateString(p.paymentDate!)
+          return s >= startStr && s <= endStr
+        })
+      }
+      case "month": {
+        const allowedDays = new Set(getMonthScopeDays().map(d => d.dayStr))
+        return payments.filter(p => allowedDays.has(toPHDateString(p.paymentDate!)))
+      }
+      case "year":
+        return payments.filter(p => phYear(p.paymentDate!) === barYear)
+    }
+  }
+  const getDetailScopedPayments = (payments: Payment[]) => {
+    let scoped = payments.filter(p => phYear(p.paymentDate!) === detailYear)
+    if (detailMonth !== -1) {
+      scoped = scoped.filter(p => phMonth(p.paymentDate!) === detailMonth)
+    }
+    if (detailMonth !== -1 && detailWeek > 0) {
+      const startDay = (detailWeek - 1) * 7 + 1
+      const endDay = startDay + 6
+      scoped = scoped.filter(p => {
+        const day = toPHDate(p.paymentDate!).getUTCDate()
+        return day >= startDay && day <= endDay
+      })
+    }
+    return scoped
+  }
+  const getDetailTrendDays = () => {
+    if (detailMonth === -1) return []
+    const daysInMonth = new Date(detailYear, detailMonth + 1, 0).getDate()
+    const allDays = Array.from({ length: daysInMonth }, (_, i) => ({
+      label: String(i + 1),
+      dayStr: `${detailYear}-${String(detailMonth + 1).padStart(2, "0")}-${String(i + 1).padStart(2, "0")}`,
+    }))
+    return detailWeek === 0 ? allDays : allDays.slice((detailWeek - 1) * 7, (detailWeek - 1) * 7 + 7)
+  }
+
+  // KPIs (unfiltered by method/for to keep totals accurate)
+  const today = sum(allPayments.filter(p => p.paymentDate && toPHDateString(p.paymentDate) === todayStr))
+  const yesterday = sum(allPayments.filter(p => p.paymentDate && toPHDateString(p.paymentDate) === yesterdayStr))
+  const thisWeek = sum(allPayments.filter(p => p.paymentDate && toPHDateString(p.paymentDate) >= thisWeekStartStr))
+  const lastWeek = sum(allPayments.filter(p => {
+    const s = p.paymentDate ? toPHDateString(p.paymentDate) : ""
+    return s >= lastWeekStartStr && s <= lastWeekEndStr
+  }))
+  const thisMonth = sum(allPayments.filter(p => p.paymentDate && phYear(p.paymentDate) === ph.year && phMonth(p.paymentDate) === ph.month))
+  const lastMonth = sum(allPayments.filter(p => p.paymentDate && phYear(p.paymentDate) === lastMonthY && phMonth(p.paymentDate) === lastMonthM))
+  const thisYear = sum(allPayments.filter(p => p.paymentDate && phYear(p.paymentDate) === ph.year))
+  const lastYear = sum(allPayments.filter(p => p.paymentDate && phYear(p.paymentDate) === ph.year - 1))
+
+  // Filtered payments for charts
+  const filtered = allPayments.filter(p => p.paymentDate && filterMethod(p) && filterPlan(p))
+  const scopedFiltered = getScopedPayments(filtered)
+  const detailScopedFiltered = getDetailScopedPayments(filtered)
+
+  // Bar chart data — uses barYear/barMonth/barWeek for fine-grained navigation
+  let barData: RevenueBarPoint[] = []
+  switch (revenueRange) {
+    case "today": {
+      barData = Array.from({ length: 24 }, (_, h) => ({
+        label:   formatHourLabel(h),
+        revenue: sum(scopedFiltered.filter(p => phHour(p.paymentDate!) === h)),
+        count:   scopedFiltered.filter(p => phHour(p.paymentDate!) === h).length,
+      })).filter(d => d.revenue > 0 || d.count > 0)
+      break
+    }
+    case "week": {
+      barData = DAY_SHORT.map((label, i) => ({
+        label,
+        revenue: sum(scopedFiltered.filter(p => phDayOfWeek(p.paymentDate!) === i)),
+        count:   scopedFiltered.filter(p => phDayOfWeek(p.paymentDate!) === i).length,
+      }))
+      break
+    }
+    case "month": {
+      barData = getMonthScopeDays().map(({ label, dayStr }) => ({
+        label,
+        revenue: sum(scopedFiltered.filter(p => toPHDateString(p.paymentDate!) === dayStr)),
+        count:   scopedFiltered.filter(p => toPHDateString(p.paymentDate!) === dayStr).length,
+      }))
+      break
+    }
+    case "year": {
+      barData = MONTH_SHORT.map((label, mi) => ({
+        label,
+        revenue: sum(scopedFiltered.filter(p => phMonth(p.paymentDate!) === mi)),
+        count:   scopedFiltered.filter(p => phMonth(p.paymentDate!) === mi).length,
+      }))
+      break
+    }
+  }
+
+  // Method breakdown pie
+  const methodTotals = new Map<string, number>()
+  detailScopedFiltered.forEach(p => {
+    const k = p.paymentMethod || "unknown"
+    methodTotals.set(k, (methodTotals.get(k) || 0) + (p.amount || 0))
+  })
+  const methodPie = Array.from(methodTotals.entries()).map(([k, v]) => ({
+    name:  METHOD_LABELS[k as PaymentMethodKey] ?? k,
+    value: v,
+    color: METHOD_COLORS[k as PaymentMethodKey] ?? "#71717a",
+  }))
+
+  // Plan breakdown pie
+  const planTotals = new Map<PlanKey, number>()
+  detailScopedFiltered.forEach(p => {
+    const k = getPlanKey(subMap.get(p.userId))
+    planTotals.set(k, (planTotals.get(k) || 0) + (p.amount || 0))
+  })
+  const planPie = Array.from(planTotals.entries())
+    .filter(([, v]) => v > 0)
+    .map(([k, v]) => ({ name: PLAN_LABELS[k], value: v, color: PLAN_COLORS[k] }))
+
+  // Revenue trend by plan
+  const PLAN_KEYS: PlanKey[] = ["1month","6months","1year","walkin","daily","other"]
+  let trendData: RevenueTrendPoint[] = []
+  const planSum = (pk: PlanKey, bucket: Payment[]) =>
+    bucket.filter(p => getPlanKey(subMap.get(p.userId)) === pk).reduce((s,p) => s+(p.amount||0), 0)
+  if (detailMonth === -1) {
+    trendData = MONTH_SHORT.map((label, mi) => {
+      const bucket = detailScopedFiltered.filter(p => phMonth(p.paymentDate!) === mi)
+      const obj: RevenueTrendPoint = { label }
+      PLAN_KEYS.forEach(pk => { obj[PLAN_LABELS[pk]] = planSum(pk, bucket) })
+      return obj
+    })
+  } else {
+    trendData = getDetailTrendDays().map(({ label, dayStr }) => {
+      const bucket = detailScopedFiltered.filter(p => toPHDateString(p.paymentDate!) === dayStr)
+      const obj: RevenueTrendPoint = { label }
+      PLAN_KEYS.forEach(pk => { obj[PLAN_LABELS[pk]] = planSum(pk, bucket) })
+      return obj
+    })
+  }
+
+  // Recent transactions (latest 20, respecting range + filters)
+  const sorted = [...detailScopedFiltered].sort((a, b) => new Date(b.paymentDate!).getTime() - new Date(a.paymentDate!).getTime())
+  const recentTransactions: RevenueTransaction[] = sorted.slice(0, 20).map(p => ({
+    paymentId:     p.paymentId,
+    userName:      userMap.get(p.userId) || "",
+    userId:        p.userId,
+    amount:        p.amount,
+    paymentMethod: METHOD_LABELS[p.paymentMethod as PaymentMethodKey] ?? p.paymentMethod,
+    plan:          PLAN_LABELS[getPlanKey(subMap.get(p.userId))],
+    paymentDate:   p.paymentDate!,
+  }))
+
+  return {
+    today, yesterday, thisWeek, lastWeek, thisMonth, lastMonth, thisYear, lastYear,
+    barData, methodPie, planPie, trendData, recentTransactions,
+  }
+}
+
+function contributionForYear(allValidLogs: ScanLog[], year: number) {
+  const yearStart = startOfYear(new Date(year, 0, 1))
+  const yearEnd   = endOfYear(new Date(year, 0, 1))
+  const allDays   = eachDayOfInterval({ start: yearStart, end: yearEnd })
+  const dayCountMap = new Map<string, number>()
+  allValidLogs.forEach(log => {
+    const k = toPHDateString(log.timestamp)
+    if (k.startsWith(String(year))) dayCountMap.set(k, (dayCountMap.get(k) || 0) + 1)
+  })
+  return {
+    days: allDays.map((date): ContributionDay => {
+      const dateString = format(date, "yyyy-MM-dd")
+      return { date, count: dayCountMap.get(dateString) || 0, dateString }
+    }),
+    total: Array.from(dayCountMap.values()).reduce((s, c) => s + c, 0),
+  }
+}
+
+function lineDataForMonth(allValidLogs: ScanLog[], monthKey: string, weekFilter: string) {
+  let filteredLogs = allValidLogs.filter(log => {
+    const y = phYear(log.timestamp), m = phMonth(log.timestamp) + 1
+    return `${y}-${String(m).padStart(2, "0")}` === monthKey
+  })
+  if (weekFilter !== "all") {
+    const weekNumber = parseInt(weekFilter.replace("week", ""))
+    const [year, month] = monthKey.split("-").map(Number)
+    const monthStart = new Date(year, month - 1, 1)
+    const monthEnd   = endOfMonth(monthStart)
+    let currentWeek = 1, currentDate = monthStart
+    while (currentWeek < weekNumber && currentDate <= monthEnd) {
+      currentDate = new Date(currentDate.getTime() + 7 * 24 * 60 * 60 * 1000)
+      currentWeek++
+    }
+    const weekStart = new Date(Math.max(startOfWeek(currentDate, { weekStartsOn: 0 }).getTime(), monthStart.getTime()))
+    const weekEnd   = new Date(Math.min(endOfWeek(currentDate, { weekStartsOn: 0 }).getTime(), monthEnd.getTime()))
+    const wsStr = format(weekStart, "yyyy-MM-dd"), weStr = format(weekEnd, "yyyy-MM-dd")
+    filteredLogs = filteredLogs.filter(log => { const s = toPHDateString(log.timestamp); return s >= wsStr && s <= weStr })
+  }
+  const data: Record<string, string | number>[] = []
+  for (let day = 0; day < 7; day++) {
+    const obj: Record<string, string | number> = { day: DAY_SHORT[day] }
+    TIME_PAIRS.forEach(({ label, start, end }) => {
+      obj[label] = filteredLogs.filter(log => {
+        const h = phHour(log.timestamp), nh = h === 0 ? 24 : h
+        return phDayOfWeek(log.timestamp) === day && (nh === start || nh === end)
+      }).length
+    })
+    data.push(obj)
+  }
+  return data
+}
+
+function formatHourLabel(hour24: number) {
+  const hour12 = hour24 % 12 === 0 ? 12 : hour24 % 12
+  return `${hour12} ${hour24 < 12 ? "AM" : "PM"}`
+}
+
+// Only this year and last are loaded up front; older years come from the
+// archive the first time one of them is picked.
+function loadAnalytics(fullHistory: boolean, withPayments: boolean) {
+  const from = fullHistory ? undefined : new Date(new Date().getFullYear() - 1, 0, 1)
+  return Promise.all([
+    storageService.getScanLogHistory(from),
+    withPayments ? storageService.getPaymentHistory(from) : [],
+    storageService.getUsers(),
+    storageService.getSubscriptions(),
+    storageService.getSubscriptionHistory(),
+  ])
+}
+
+function todaySessionsFrom(allLogs: ScanLog[], todayStr: string) {
+  const todayLogs = allLogs
+    .filter(l => l.status === "success" && (l.action === "check-in" || l.action === "check-out") && toPHDateString(l.timestamp) === todayStr)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+
+  const sessions: DaySession[] = []
+  const checkInMap = new Map<string, ScanLog>()
+
+  for (const log of todayLogs) {
+    if (log.action === "check-in") {
+      if (checkInMap.has(log.userId)) {
+        const prev = checkInMap.get(log.userId)!
+        sessions.push({ userId: prev.userId, userName: prev.userName, checkInTime: prev.timestamp, checkOutTime: null, durationMs: Date.now() - new Date(prev.timestamp).getTime(), isActive: true })
+      }
+      checkInMap.set(log.userId, log)
+    } else if (log.action === "check-out") {
+      const checkIn = checkInMap.get(log.userId)
+      if (checkIn) {
+        sessions.push({ userId: checkIn.userId, userName: checkIn.userName, checkInTime: checkIn.timestamp, checkOutTime: log.timestamp, durationMs: new Date(log.timestamp).getTime() - new Date(checkIn.timestamp).getTime(), isActive: false })
+        checkInMap.delete(log.userId)
+      }
+    }
+  }
+  for (const [, log] of checkInMap) {
+    sessions.push({ userId: log.userId, userName: log.userName, checkInTime: log.timestamp, checkOutTime: null, durationMs: Date.now() - new Date(log.timestamp).getTime(), isActive: true })
+  }
+  sessions.sort((a, b) => {
+    if (a.isActive !== b.isActive) return a.isActive ? -1 : 1
+    return new Date(b.checkInTime).getTime() - new Date(a.checkInTime).getTime()
+  })
+  return sessions
+}
+
 // ─── Component ────────────────────────────────────────────────────────────────
 export function AnalyticsDashboard() {
   // ── Attendance state ──────────────────────────────────────────────────────
@@ -324,14 +688,11 @@ export function AnalyticsDashboard() {
   const [peakHour, setPeakHour]                     = useState<number | null>(null)
   const [quietestHour, setQuietestHour]             = useState<number | null>(null)
   const [busiestDay, setBusiestDay]                 = useState<number | null>(null)
-  const [lineData, setLineData]                     = useState<any[]>([])
   const [legendOpen, setLegendOpen]                 = useState(false)
   const [selectedMonth, setSelectedMonth]           = useState(last12Months[11].key)
   const [selectedWeek, setSelectedWeek]             = useState("all")
   const [allValidLogs, setAllValidLogs]             = useState<ScanLog[]>([])
-  const [contributionData, setContributionData]     = useState<ContributionDay[]>([])
   const [selectedYear, setSelectedYear]             = useState(new Date().getFullYear())
-  const [yearlyTotal, setYearlyTotal]               = useState(0)
   const [hoveredDay, setHoveredDay]                 = useState<ContributionDay | null>(null)
   const [timeRange, setTimeRange]                   = useState<TimeRange>("month")
   const [thisMonthCount, setThisMonthCount]         = useState(0)
@@ -345,16 +706,11 @@ export function AnalyticsDashboard() {
   const [last7DaysData, setLast7DaysData]           = useState<number[]>([])
   const [hourlyDistribution, setHourlyDistribution] = useState<number[]>([])
   const [todaySessions, setTodaySessions]           = useState<DaySession[]>([])
-  const [filteredPeakHour, setFilteredPeakHour]     = useState<number | null>(null)
-  const [filteredQuietestHour, setFilteredQuietestHour] = useState<number | null>(null)
-  const [filteredBusiestDay, setFilteredBusiestDay] = useState<number | null>(null)
-  const [filteredWeeklyBreakdown, setFilteredWeeklyBreakdown] = useState<{ label: string; value: number }[]>([])
-  const [filteredHourlyDistribution, setFilteredHourlyDistribution] = useState<number[]>([])
-  const [filteredAvgDaily, setFilteredAvgDaily]     = useState(0)
   const [topSubscriptionGroups, setTopSubscriptionGroups] = useState<TopSubscriptionTypeGroup[]>([])
   const [selectedTopSubscriptionType, setSelectedTopSubscriptionType] = useState<PlanKey>("daily")
 
   // ── Revenue state ─────────────────────────────────────────────────────────
+  const canViewRevenue = usePermission("revenue.view")
   const [allPayments, setAllPayments]               = useState<Payment[]>([])
   const [revenueRange, setRevenueRange]             = useState<RevenueRange>("month")
   const [revenueMethodFilter, setRevenueMethodFilter] = useState<PaymentMethodKey | "all">("all")
@@ -365,108 +721,60 @@ export function AnalyticsDashboard() {
   const [barMonth, setBarMonth] = useState<number>(new Date().getMonth())   // 0-indexed
   const [barWeek, setBarWeek]   = useState<number>(0)  // 0 = all weeks, 1-6 = specific week
 
-  // Derived revenue KPIs
-  const [revToday, setRevToday]                     = useState(0)
-  const [revYesterday, setRevYesterday]             = useState(0)
-  const [revThisWeek, setRevThisWeek]               = useState(0)
-  const [revLastWeek, setRevLastWeek]               = useState(0)
-  const [revThisMonth, setRevThisMonth]             = useState(0)
-  const [revLastMonth, setRevLastMonth]             = useState(0)
-  const [revThisYear, setRevThisYear]               = useState(0)
-  const [revLastYear, setRevLastYear]               = useState(0)
-
   // Chart data
-  const [revenueBarData, setRevenueBarData]         = useState<RevenueBarPoint[]>([])
-  const [revenueMethodPie, setRevenueMethodPie]     = useState<{ name: string; value: number; color: string }[]>([])
-  const [revenuePlanPie, setRevenuePlanPie]         = useState<{ name: string; value: number; color: string }[]>([])
-  const [revenueTrendData, setRevenueTrendData]     = useState<RevenueTrendPoint[]>([])
   const [userMap, setUserMap]                       = useState<Map<string, string>>(new Map())
   const [subMap, setSubMap]                         = useState<Map<string, Subscription>>(new Map())
-  const [recentTransactions, setRecentTransactions] = useState<RevenueTransaction[]>([])
   const [detailYear, setDetailYear]                 = useState<number>(new Date().getFullYear())
   const [detailMonth, setDetailMonth]               = useState<number>(-1) // -1 = all months
   const [detailWeek, setDetailWeek]                 = useState<number>(0)  // 0 = all weeks
 
-  // ── Effects ───────────────────────────────────────────────────────────────
-  useEffect(() => { loadAnalytics() }, [])
-
-  useEffect(() => {
-    if (allValidLogs.length) {
-      updateLineDataForMonth(selectedMonth, selectedWeek)
-      generateContributionData(selectedYear)
-    }
-  }, [allValidLogs, selectedMonth, selectedYear, selectedWeek])
-
-  useEffect(() => {
-    if (allValidLogs.length === 0) return
-    computeFilteredAttendance()
-  }, [timeRange, allValidLogs])
-
-  useEffect(() => {
-    if (allPayments.length === 0) return
-    computeRevenue()
-  }, [revenueRange, revenueMethodFilter, revenuePlanFilter, allPayments, subMap, barYear, barMonth, barWeek, detailYear, detailMonth, detailWeek])
-
-  function renderRevenueDateControls() {
-    return (
-      <div className="flex flex-wrap gap-2 items-center">
-        {(revenueRange === "year" || revenueRange === "month" || revenueRange === "week") && (
-          <select value={barYear} onChange={e => { setBarYear(Number(e.target.value)); setBarWeek(0) }}
-            className="border border-zinc-700 rounded px-2 py-1 bg-zinc-800 text-xs">
-            {Array.from({ length: 5 }, (_, i) => new Date().getFullYear() - i).map(y => (
-              <option key={y} value={y}>{y}</option>
-            ))}
-          </select>
-        )}
-
-        {revenueRange === "month" && (
-          <select value={barMonth} onChange={e => { setBarMonth(Number(e.target.value)); setBarWeek(0) }}
-            className="border border-zinc-700 rounded px-2 py-1 bg-zinc-800 text-xs">
-            {MONTH_SHORT.map((m, i) => <option key={i} value={i}>{m}</option>)}
-          </select>
-        )}
+  const historyRequested = useRef(false)
+  const needsHistory = Math.min(selectedYear, barYear, detailYear) < new Date().getFullYear() - 1
 
-        {revenueRange === "month" && (
-          <select value={barWeek} onChange={e => setBarWeek(Number(e.target.value))}
-            className="border border-zinc-700 rounded px-2 py-1 bg-zinc-800 text-xs">
-            <option value={0}>All Weeks</option>
-            {Array.from({ length: Math.ceil(new Date(barYear, barMonth + 1, 0).getDate() / 7) }, (_, i) => {
-              const start = i * 7 + 1
-              const end   = Math.min(start + 6, new Date(barYear, barMonth + 1, 0).getDate())
-              return <option key={i+1} value={i+1}>Week {i+1} (Day {start}–{end})</option>
-            })}
-          </select>
-        )}
-
-        {revenueRange === "week" && (
-          <select value={barWeek} onChange={e => setBarWeek(Number(e.target.value))}
-            className="border border-zinc-700 rounded px-2 py-1 bg-zinc-800 text-xs min-w-[150px]">
-            {Array.from({ length: 52 }, (_, i) => {
-              const d = new Date(barYear, 0, 1 + i * 7)
-              const end = new Date(d.getTime() + 6 * 24 * 60 * 60 * 1000)
-              const fmt = (dt: Date) => `${MONTH_SHORT[dt.getMonth()]} ${dt.getDate()}`
-              return <option key={i} value={i}>Week {i+1} ({fmt(d)} – {fmt(end)})</option>
-            })}
-          </select>
-        )}
-      </div>
-    )
-  }
-
-  function getRevenueScopeLabel() {
-    switch (revenueRange) {
-      case "today":
-        return "today"
-      case "week":
-        return `week ${barWeek + 1} of ${barYear}`
-      case "month":
-        return barWeek === 0
-          ? `${MONTH_SHORT[barMonth]} ${barYear}`
-          : `${MONTH_SHORT[barMonth]} ${barYear} · week ${barWeek}`
-      case "year":
-        return String(barYear)
-    }
-  }
+  // ── Derived data ──────────────────────────────────────────────────────────
+  const lineData = useMemo(
+    () => allValidLogs.length ? lineDataForMonth(allValidLogs, selectedMonth, selectedWeek) : [],
+    [allValidLogs, selectedMonth, selectedWeek],
+  )
+  const { days: contributionData, total: yearlyTotal } = useMemo(
+    () => allValidLogs.length ? contributionForYear(allValidLogs, selectedYear) : { days: [], total: 0 },
+    [allValidLogs, selectedYear],
+  )
+  const {
+    peakHour: filteredPeakHour,
+    quietestHour: filteredQuietestHour,
+    hourlyDistribution: filteredHourlyDistribution,
+    busiestDay: filteredBusiestDay,
+    weeklyBreakdown: filteredWeeklyBreakdown,
+    avgDaily: filteredAvgDaily,
+  } = useMemo(
+    () => allValidLogs.length
+      ? attendanceInRange(allValidLogs, timeRange)
+      : { peakHour: null, quietestHour: null, hourlyDistribution: [], busiestDay: null, weeklyBreakdown: [], avgDaily: 0 },
+    [allValidLogs, timeRange],
+  )
+  const {
+    today: revToday, yesterday: revYesterday,
+    thisWeek: revThisWeek, lastWeek: revLastWeek,
+    thisMonth: revThisMonth, lastMonth: revLastMonth,
+    thisYear: revThisYear, lastYear: revLastYear,
+    barData: revenueBarData,
+    methodPie: revenueMethodPie,
+    planPie: revenuePlanPie,
+    trendData: revenueTrendData,
+    recentTransactions,
+  } = useMemo(
+    () => allPayments.length
+      ? revenueSummary(allPayments, subMap, userMap, {
+          revenueRange, revenueMethodFilter, revenuePlanFilter,
+          barYear, barMonth, barWeek, detailYear, detailMonth, detailWeek,
+        })
+      : {
+          today: 0, yesterday: 0, thisWeek: 0, lastWeek: 0, thisMonth: 0, lastMonth: 0, thisYear: 0, lastYear: 0,
+          barData: [], methodPie: [], planPie: [], trendData: [], recentTransactions: [],
+        },
+    [allPayments, subMap, userMap, revenueRange, revenueMethodFilter, revenuePlanFilter, barYear, barMonth, barWeek, detailYear, detailMonth, detailWeek],
+  )
 
   function renderRevenueDetailControls() {
     const detailWeeks =
@@ -518,257 +826,8 @@ export function AnalyticsDashboard() {
     return `${MONTH_SHORT[detailMonth]} ${detailYear} · week ${detailWeek}`
   }
 
-  // ── Attendance: time-range filtered ──────────────────────────────────────
-  function computeFilteredAttendance() {
-    const ph      = nowPH()
-    const realNow = new Date()
-    const todayStr = ph.str
-    const thisWeekStartStr = toPHDateString(getStartOfWeek(realNow, { weekStartsOn: 0 }).toISOString())
-
-    let filteredLogs: ScanLog[] = []
-    let daysInRange = 1
-
-    switch (timeRange) {
-      case "today":
-        filteredLogs = allValidLogs.filter(l => toPHDateString(l.timestamp) === todayStr)
-        daysInRange = 1; break
-      case "week":
-        filteredLogs = allValidLogs.filter(l => toPHDateString(l.timestamp) >= thisWeekStartStr)
-        daysInRange = 7; break
-      case "month":
-        filteredLogs = allValidLogs.filter(l => phYear(l.timestamp) === ph.year && phMonth(l.timestamp) === ph.month)
-        daysInRange = getDaysInMonth(realNow); break
-      case "year":
-        filteredLogs = allValidLogs.filter(l => phYear(l.timestamp) === ph.year)
-        daysInRange = 12; break
-      default:
-        filteredLogs = allValidLogs; daysInRange = 365
-    }
-
-    daysInRange = Math.max(1, daysInRange)
-
-    const hourMap = new Map<number, number>()
-    filteredLogs.forEach(l => { const h = phHour(l.timestamp); hourMap.set(h, (hourMap.get(h) || 0) + 1) })
-    let maxHour: number | null = null, maxCount = 0, minHour: number | null = null, minCount = Infinity
-    hourMap.forEach((count, hour) => {
-      if (count > maxCount) { maxCount = count; maxHour = hour }
-      if (hour >= 5 && hour <= 23 && count < minCount && count > 0) { minCount = count; minHour = hour }
-    })
-    setFilteredPeakHour(maxHour); setFilteredQuietestHour(minHour)
-    setFilteredHourlyDistribution(Array.from({ length: 24 }, (_, i) => hourMap.get(i) || 0))
-
-    const dayMap = new Map<number, number>()
-    filteredLogs.forEach(l => { const d = phDayOfWeek(l.timestamp); dayMap.set(d, (dayMap.get(d) || 0) + 1) })
-    let maxDay: number | null = null, maxDayCount = 0
-    dayMap.forEach((count, day) => { if (count > maxDayCount) { maxDayCount = count; maxDay = day } })
-    setFilteredBusiestDay(maxDay)
-    setFilteredWeeklyBreakdown(DAY_SHORT.map((label, i) => ({ label, value: dayMap.get(i) || 0 })))
-    setFilteredAvgDaily(Math.round(filteredLogs.length / daysInRange))
-  }
-
-  // ── Revenue computation ───────────────────────────────────────────────────
-  function computeRevenue() {
-    const ph      = nowPH()
-    const realNow = new Date()
-    const todayStr = ph.str
-    const yesterdayStr = toPHDateString(subDays(realNow, 1).toISOString())
-    const thisWeekStartStr = toPHDateString(getStartOfWeek(realNow, { weekStartsOn: 0 }).toISOString())
-    const lastWeekStartStr = toPHDateString(subDays(getStartOfWeek(realNow, { weekStartsOn: 0 }), 7).toISOString())
-    const lastWeekEndStr   = toPHDateString(subDays(getStartOfWeek(realNow, { weekStartsOn: 0 }), 1).toISOString())
-    const lastMonthDate    = subMonths(realNow, 1)
-    const lastMonthY       = toPHDate(lastMonthDate.toISOString()).getUTCFullYear()
-    const lastMonthM       = toPHDate(lastMonthDate.toISOString()).getUTCMonth()
-
-    const sum = (payments: Payment[]) => payments.reduce((s, p) => s + (p.amount || 0), 0)
-    const filterMethod = (p: Payment) => revenueMethodFilter === "all" || (p.paymentMethod as string) === revenueMethodFilter
-    const filterPlan   = (p: Payment) => revenuePlanFilter === "all" || getPlanKey(subMap.get(p.userId)) === revenuePlanFilter
-    const getWeekScope = () => {
-      const weekStart = new Date(barYear, 0, 1 + barWeek * 7)
-      const weekEnd = new Date(weekStart.getTime() + 6 * 24 * 60 * 60 * 1000)
-      const startStr = `${weekStart.getFullYear()}-${String(weekStart.getMonth()+1).padStart(2,"0")}-${String(weekStart.getDate()).padStart(2,"0")}`
-      const endStr = `${weekEnd.getFullYear()}-${String(weekEnd.getMonth()+1).padStart(2,"0")}-${String(weekEnd.getDate()).padStart(2,"0")}`
-      return { startStr, endStr }
-    }
-    const getMonthScopeDays = () => {
-      const daysInBarMonth = new Date(barYear, barMonth + 1, 0).getDate()
-      const allDays = Array.from({ length: daysInBarMonth }, (_, i) => ({
-        label: String(i + 1),
-        dayStr: `${barYear}-${String(barMonth + 1).padStart(2, "0")}-${String(i + 1).padStart(2, "0")}`,
-      }))
-      return barWeek === 0 ? allDays : allDays.slice((barWeek - 1) * 7, (barWeek - 1) * 7 + 7)
-    }
-    const getScopedPayments = (payments: Payment[]) => {
-      switch (revenueRange) {
-        case "today":
-          return payments.filter(p => toPHDateString(p.paymentDate!) === todayStr)
-        case "week": {
-          const { startStr, endStr } = getWeekScope()
-          return payments.filter(p => {
-            const s = toPHDateString(p.paymentDate!)
-            return s >= startStr && s <= endStr
-          })
-        }
-        case "month": {
-          const allowedDays = new Set(getMonthScopeDays().map(d => d.dayStr))
-          return payments.filter(p => allowedDays.has(toPHDateString(p.paymentDate!)))
-        }
-        case "year":
-          return payments.filter(p => phYear(p.paymentDate!) === barYear)
-      }
-    }
-    const getDetailScopedPayments = (payments: Payment[]) => {
-      let scoped = payments.filter(p => phYear(p.paymentDate!) === detailYear)
-      if (detailMonth !== -1) {
-        scoped = scoped.filter(p => phMonth(p.paymentDate!) === detailMonth)
-      }
-      if (detailMonth !== -1 && detailWeek > 0) {
-        const startDay = (detailWeek - 1) * 7 + 1
-        const endDay = startDay + 6
-        scoped = scoped.filter(p => {
-          const day = toPHDate(p.paymentDate!).getUTCDate()
-          return day >= startDay && day <= endDay
-        })
-      }
-      return scoped
-    }
-    const getDetailTrendDays = () => {
-      if (detailMonth === -1) return []
-      const daysInMonth = new Date(detailYear, detailMonth + 1, 0).getDate()
-      const allDays = Array.from({ length: daysInMonth }, (_, i) => ({
-        label: String(i + 1),
-        dayStr: `${detailYear}-${String(detailMonth + 1).padStart(2, "0")}-${String(i + 1).padStart(2, "0")}`,
-      }))
-      return detailWeek === 0 ? allDays : allDays.slice((detailWeek - 1) * 7, (detailWeek - 1) * 7 + 7)
-    }
-
-    // KPIs (unfiltered by method/for to keep totals accurate)
-    setRevToday(sum(allPayments.filter(p => p.paymentDate && toPHDateString(p.paymentDate) === todayStr)))
-    setRevYesterday(sum(allPayments.filter(p => p.paymentDate && toPHDateString(p.paymentDate) === yesterdayStr)))
-    setRevThisWeek(sum(allPayments.filter(p => p.paymentDate && toPHDateString(p.paymentDate) >= thisWeekStartStr)))
-    setRevLastWeek(sum(allPayments.filter(p => {
-      const s = p.paymentDate ? toPHDateString(p.paymentDate) : ""
-      return s >= lastWeekStartStr && s <= lastWeekEndStr
-    })))
-    setRevThisMonth(sum(allPayments.filter(p => p.paymentDate && phYear(p.paymentDate) === ph.year && phMonth(p.paymentDate) === ph.month)))
-    setRevLastMonth(sum(allPayments.filter(p => p.paymentDate && phYear(p.paymentDate) === lastMonthY && phMonth(p.paymentDate) === lastMonthM)))
-    setRevThisYear(sum(allPayments.filter(p => p.paymentDate && phYear(p.paymentDate) === ph.year)))
-    setRevLastYear(sum(allPayments.filter(p => p.paymentDate && phYear(p.paymentDate) === ph.year - 1)))
-
-    // Filtered payments for charts
-    const filtered = allPayments.filter(p => p.paymentDate && filterMethod(p) && filterPlan(p))
-    const scopedFiltered = getScopedPayments(filtered)
-    const detailScopedFiltered = getDetailScopedPayments(filtered)
-
-    // Bar chart data — uses barYear/barMonth/barWeek for fine-grained navigation
-    let barData: RevenueBarPoint[] = []
-    switch (revenueRange) {
-      case "today": {
-        barData = Array.from({ length: 24 }, (_, h) => ({
-          label:   formatHourLabel(h),
-          revenue: sum(scopedFiltered.filter(p => phHour(p.paymentDate!) === h)),
-          count:   scopedFiltered.filter(p => phHour(p.paymentDate!) === h).length,
-        })).filter(d => d.revenue > 0 || d.count > 0)
-        break
-      }
-      case "week": {
-        barData = DAY_SHORT.map((label, i) => ({
-          label,
-          revenue: sum(scopedFiltered.filter(p => phDayOfWeek(p.paymentDate!) === i)),
-          count:   scopedFiltered.filter(p => phDayOfWeek(p.paymentDate!) === i).length,
-        }))
-        break
-      }
-      case "month": {
-        barData = getMonthScopeDays().map(({ label, dayStr }) => ({
-          label,
-          revenue: sum(scopedFiltered.filter(p => toPHDateString(p.paymentDate!) === dayStr)),
-          count:   scopedFiltered.filter(p => toPHDateString(p.paymentDate!) === dayStr).length,
-        }))
-        break
-      }
-      case "year": {
-        barData = MONTH_SHORT.map((label, mi) => ({
-          label,
-          revenue: sum(scopedFiltered.filter(p => phMonth(p.paymentDate!) === mi)),
-          count:   scopedFiltered.filter(p => phMonth(p.paymentDate!) === mi).length,
-        }))
-        break
-      }
-    }
-    setRevenueBarData(barData)
-
-    // Method breakdown pie
-    const methodTotals = new Map<string, number>()
-    detailScopedFiltered.forEach(p => {
-      const k = p.paymentMethod || "unknown"
-      methodTotals.set(k, (methodTotals.get(k) || 0) + (p.amount || 0))
-    })
-    setRevenueMethodPie(
-      Array.from(methodTotals.entries()).map(([k, v]) => ({
-        name:  METHOD_LABELS[k as PaymentMethodKey] ?? k,
-        value: v,
-        color: METHOD_COLORS[k as PaymentMethodKey] ?? "#71717a",
-      }))
-    )
-
-    // Plan breakdown pie
-    const planTotals = new Map<PlanKey, number>()
-    detailScopedFiltered.forEach(p => {
-      const k = getPlanKey(subMap.get(p.userId))
-      planTotals.set(k, (planTotals.get(k) || 0) + (p.amount || 0))
-    })
-    setRevenuePlanPie(
-      Array.from(planTotals.entries())
-        .filter(([, v]) => v > 0)
-        .map(([k, v]) => ({ name: PLAN_LABELS[k], value: v, color: PLAN_COLORS[k] }))
-    )
-
-    // Revenue trend by plan
-    const PLAN_KEYS: PlanKey[] = ["1month","6months","1year","walkin","daily","other"]
-    let trendData: RevenueTrendPoint[] = []
-    const planSum = (pk: PlanKey, bucket: Payment[]) =>
-      bucket.filter(p => getPlanKey(subMap.get(p.userId)) === pk).reduce((s,p) => s+(p.amount||0), 0)
-    if (detailMonth === -1) {
-      trendData = MONTH_SHORT.map((label, mi) => {
-        const bucket = detailScopedFiltered.filter(p => phMonth(p.paymentDate!) === mi)
-        const obj: RevenueTrendPoint = { label }
-        PLAN_KEYS.forEach(pk => { obj[PLAN_LABELS[pk]] = planSum(pk, bucket) })
-        return obj
-      })
-    } else {
-      trendData = getDetailTrendDays().map(({ label, dayStr }) => {
-        const bucket = detailScopedFiltered.filter(p => toPHDateString(p.paymentDate!) === dayStr)
-        const obj: RevenueTrendPoint = { label }
-        PLAN_KEYS.forEach(pk => { obj[PLAN_LABELS[pk]] = planSum(pk, bucket) })
-        return obj
-      })
-    }
-    setRevenueTrendData(trendData)
-
-    // Recent transactions (latest 20, respecting range + filters)
-    const sorted = [...detailScopedFiltered].sort((a, b) => new Date(b.paymentDate!).getTime() - new Date(a.paymentDate!).getTime())
-    setRecentTransactions(
-      sorted.slice(0, 20).map(p => ({
-        paymentId:     p.paymentId,
-        userName:      userMap.get(p.userId) || "",
-        userId:        p.userId,
-        amount:        p.amount,
-        paymentMethod: METHOD_LABELS[p.paymentMethod as PaymentMethodKey] ?? p.paymentMethod,
-        plan:          PLAN_LABELS[getPlanKey(subMap.get(p.userId))],
-        paymentDate:   p.paymentDate!,
-      }))
-    )
-  }
-
   // ── Main loader ───────────────────────────────────────────────────────────
-  async function loadAnalytics() {
-    const [logs, payments, users, subs, subscriptionHistory] = await Promise.all([
-      storageService.getScanLogs(),
-      storageService.getPayments(),
-      storageService.getUsers(),
-      storageService.getSubscriptions(),
-      storageService.getSubscriptionHistory(),
-    ])
+  function showAnalytics([logs, payments, users, subs, subscriptionHistory]: Awaited<ReturnType<typeof loadAnalytics>>) {
     const newUserMap = new Map(users.map((u: UserType) => [u.userId, u.name]))
     const newSubMap  = new Map(subs.map((s: Subscription) => [s.userId, s]))
     setUserMap(newUserMap)
@@ -845,93 +904,10 @@ export function AnalyticsDashboard() {
       })
     }
     setMonthlyData(monthly)
-    buildTodaySessions(logs, todayStr)
+    setTodaySessions(todaySessionsFrom(logs, todayStr))
   }
 
   // ── Helpers ───────────────────────────────────────────────────────────────
-  function buildTodaySessions(allLogs: ScanLog[], todayStr: string) {
-    const todayLogs = allLogs
-      .filter(l => l.status === "success" && (l.action === "check-in" || l.action === "check-out") && toPHDateString(l.timestamp) === todayStr)
-      .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
-
-    const sessions: DaySession[] = []
-    const checkInMap = new Map<string, ScanLog>()
-
-    for (const log of todayLogs) {
-      if (log.action === "check-in") {
-        if (checkInMap.has(log.userId)) {
-          const prev = checkInMap.get(log.userId)!
-          sessions.push({ userId: prev.userId, userName: prev.userName, checkInTime: prev.timestamp, checkOutTime: null, durationMs: Date.now() - new Date(prev.timestamp).getTime(), isActive: true })
-        }
-        checkInMap.set(log.userId, log)
-      } else if (log.action === "check-out") {
-        const checkIn = checkInMap.get(log.userId)
-        if (checkIn) {
-          sessions.push({ userId: checkIn.userId, userName: checkIn.userName, checkInTime: checkIn.timestamp, checkOutTime: log.timestamp, durationMs: new Date(log.timestamp).getTime() - new Date(checkIn.timestamp).getTime(), isActive: false })
-          checkInMap.delete(log.userId)
-        }
-      }
-    }
-    for (const [, log] of checkInMap) {
-      sessions.push({ userId: log.userId, userName: log.userName, checkInTime: log.timestamp, checkOutTime: null, durationMs: Date.now() - new Date(log.timestamp).getTime(), isActive: true })
-    }
-    sessions.sort((a, b) => {
-      if (a.isActive !== b.isActive) return a.isActive ? -1 : 1
-      return new Date(b.checkInTime).getTime() - new Date(a.checkInTime).getTime()
-    })
-    setTodaySessions(sessions)
-  }
-
-  function generateContributionData(year: number) {
-    const yearStart = startOfYear(new Date(year, 0, 1))
-    const yearEnd   = endOfYear(new Date(year, 0, 1))
-    const allDays   = eachDayOfInterval({ start: yearStart, end: yearEnd })
-    const dayCountMap = new Map<string, number>()
-    allValidLogs.forEach(log => {
-      const k = toPHDateString(log.timestamp)
-      if (k.startsWith(String(year))) dayCountMap.set(k, (dayCountMap.get(k) || 0) + 1)
-    })
-    setContributionData(allDays.map(date => {
-      const dateString = format(date, "yyyy-MM-dd")
-      return { date, count: dayCountMap.get(dateString) || 0, dateString }
-    }))
-    setYearlyTotal(Array.from(dayCountMap.values()).reduce((s, c) => s + c, 0))
-  }
-
-  function updateLineDataForMonth(monthKey: string, weekFilter: string) {
-    let filteredLogs = allValidLogs.filter(log => {
-      const y = phYear(log.timestamp), m = phMonth(log.timestamp) + 1
-      return `${y}-${String(m).padStart(2, "0")}` === monthKey
-    })
-    if (weekFilter !== "all") {
-      const weekNumber = parseInt(weekFilter.replace("week", ""))
-      const [year, month] = monthKey.split("-").map(Number)
-      const monthStart = new Date(year, month - 1, 1)
-      const monthEnd   = endOfMonth(monthStart)
-      let currentWeek = 1, currentDate = monthStart
-      while (currentWeek < weekNumber && currentDate <= monthEnd) {
-        currentDate = new Date(currentDate.getTime() + 7 * 24 * 60 * 60 * 1000)
-        currentWeek++
-      }
-      const weekStart = new Date(Math.max(startOfWeek(currentDate, { weekStartsOn: 0 }).getTime(), monthStart.getTime()))
-      const weekEnd   = new Date(Math.min(endOfWeek(currentDate, { weekStartsOn: 0 }).getTime(), monthEnd.getTime()))
-      const wsStr = format(weekStart, "yyyy-MM-dd"), weStr = format(weekEnd, "yyyy-MM-dd")
-      filteredLogs = filteredLogs.filter(log => { const s = toPHDateString(log.timestamp); return s >= wsStr && s <= weStr })
-    }
-    const data: any[] = []
-    for (let day = 0; day < 7; day++) {
-      const obj: any = { day: DAY_SHORT[day] }
-      TIME_PAIRS.forEach(({ label, start, end }) => {
-        obj[label] = filteredLogs.filter(log => {
-          const h = phHour(log.timestamp), nh = h === 0 ? 24 : h
-          return phDayOfWeek(log.timestamp) === day && (nh === start || nh === end)
-        }).length
-      })
-      data.push(obj)
-    }
-    setLineData(data)
-  }
-
   function getContributionColor(count: number, maxCount: number) {
     if (count === 0) return CONTRIBUTION_COLORS.empty
     const r = count / maxCount
@@ -997,11 +973,6 @@ export function AnalyticsDashboard() {
     return weeks
   }
 
-  function formatHourLabel(hour24: number) {
-    const hour12 = hour24 % 12 === 0 ? 12 : hour24 % 12
-    return `${hour12} ${hour24 < 12 ? "AM" : "PM"}`
-  }
-
   const weeks        = getWeeksData()
   const monthLabels  = getMonthLabels()
   const maxDayCount  = Math.max(...contributionData.map(d => d.count), 1)
@@ -1027,6 +998,15 @@ export function AnalyticsDashboard() {
       members: [],
     }
 
+  // ── Effects ───────────────────────────────────────────────────────────────
+  useEffect(() => { loadAnalytics(false, canViewRevenue).then(showAnalytics) }, [canViewRevenue])
+
+  useEffect(() => {
+    if (historyRequested.current || !needsHistory) return
+    historyRequested.current = true
+    loadAnalytics(true, canViewRevenue).then(showAnalytics)
+  }, [needsHistory, canViewRevenue])
+
   // ── Render ────────────────────────────────────────────────────────────────
   return (
     <div className="space-y-6">
@@ -1279,374 +1259,378 @@ export function AnalyticsDashboard() {
         </CardContent>
       </Card>
 
-      {/* ════════════════════════════════════════════════════════════════════ */}
-      {/* ── REVENUE ANALYTICS ────────────────────────────────────────────── */}
-      {/* ════════════════════════════════════════════════════════════════════ */}
-
-      <div className="flex items-center gap-3 pt-2">
-        <BarChart2 className="w-5 h-5 text-emerald-500" />
-        <h2 className="text-lg font-bold">Revenue Analytics</h2>
-      </div>
+      {canViewRevenue && (
+        <>
+          {/* ════════════════════════════════════════════════════════════════════ */}
+          {/* ── REVENUE ANALYTICS ────────────────────────────────────────────── */}
+          {/* ════════════════════════════════════════════════════════════════════ */}
 
-      {/* Revenue range + filters */}
-      <div className="flex flex-wrap gap-2 md:gap-3 items-center">
-        {/* Range */}
-        <div className="flex gap-0.5 md:gap-1 bg-zinc-800/50 rounded-lg p-1">
-          {(["today","week","month","year"] as RevenueRange[]).map(r => (
-            <button key={r} onClick={() => setRevenueRange(r)}
-              className={`px-2 md:px-3 py-1 md:py-1.5 text-xs md:text-sm rounded-md transition-all whitespace-nowrap ${revenueRange === r ? "bg-emerald-600 text-white shadow-sm" : "text-muted-foreground hover:text-foreground hover:bg-zinc-700/50"}`}>
-              {r.charAt(0).toUpperCase() + r.slice(1)}
-            </button>
-          ))}
-        </div>
+          <div className="flex items-center gap-3 pt-2">
+            <BarChart2 className="w-5 h-5 text-emerald-500" />
+            <h2 className="text-lg font-bold">Revenue Analytics</h2>
+          </div>
 
-        {/* Method filter */}
-        <select value={revenueMethodFilter} onChange={e => setRevenueMethodFilter(e.target.value as any)}
-          className="border border-zinc-700 rounded px-2 py-1 bg-zinc-800 text-xs md:text-sm">
-          <option value="all">All Methods</option>
-          {(Object.entries(METHOD_LABELS) as [PaymentMethodKey, string][]).map(([k, v]) => (
-            <option key={k} value={k}>{v}</option>
-          ))}
-        </select>
-
-        {/* Plan filter */}
-        <select value={revenuePlanFilter} onChange={e => setRevenuePlanFilter(e.target.value as any)}
-          className="border border-zinc-700 rounded px-2 py-1 bg-zinc-800 text-xs md:text-sm">
-          <option value="all">All Plans</option>
-          {(Object.entries(PLAN_LABELS) as [PlanKey, string][]).map(([k, v]) => (
-            <option key={k} value={k}>{v}</option>
-          ))}
-        </select>
-      </div>
+          {/* Revenue range + filters */}
+          <div className="flex flex-wrap gap-2 md:gap-3 items-center">
+            {/* Range */}
+            <div className="flex gap-0.5 md:gap-1 bg-zinc-800/50 rounded-lg p-1">
+              {(["today","week","month","year"] as RevenueRange[]).map(r => (
+                <button key={r} onClick={() => setRevenueRange(r)}
+                  className={`px-2 md:px-3 py-1 md:py-1.5 text-xs md:text-sm rounded-md transition-all whitespace-nowrap ${revenueRange === r ? "bg-emerald-600 text-white shadow-sm" : "text-muted-foreground hover:text-foreground hover:bg-zinc-700/50"}`}>
+                  {r.charAt(0).toUpperCase() + r.slice(1)}
+                </button>
+              ))}
+            </div>
 
-      {/* Revenue KPI cards */}
-      <div className="grid grid-cols-2 lg:grid-cols-4 gap-2 md:gap-4">
-        <Card className="bg-zinc-900/30 border-zinc-800 border-l-4 border-l-emerald-500">
-          <CardHeader className="pb-2 p-3 md:p-6 md:pb-2">
-            <CardDescription className="flex items-center gap-1.5 text-[10px] md:text-xs">
-              <PhilippinePeso className="w-3 h-3 md:w-3.5 md:h-3.5" />Total Revenue
-            </CardDescription>
-            <CardTitle className="text-xl md:text-2xl font-bold tracking-tight text-emerald-400">
-              {formatPeso(revCurrent)}
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="pt-0 px-3 md:px-6 pb-3 md:pb-6">
-            <TrendIndicator current={revCurrent} previous={revPrevious} suffix={revLabel} currency />
-            <p className="text-[9px] md:text-[10px] text-muted-foreground mt-1 leading-tight">
-              This {revenueRange}
-            </p>
-          </CardContent>
-        </Card>
+            {/* Method filter */}
+            <select value={revenueMethodFilter} onChange={e => setRevenueMethodFilter(e.target.value as PaymentMethodKey | "all")}
+              className="border border-zinc-700 rounded px-2 py-1 bg-zinc-800 text-xs md:text-sm">
+              <option value="all">All Methods</option>
+              {(Object.entries(METHOD_LABELS) as [PaymentMethodKey, string][]).map(([k, v]) => (
+                <option key={k} value={k}>{v}</option>
+              ))}
+            </select>
 
-        <Card className="bg-zinc-900/30 border-zinc-800">
-          <CardHeader className="pb-2 p-3 md:p-6 md:pb-2">
-            <CardDescription className="flex items-center gap-1.5 text-[10px] md:text-xs">
-              <CreditCard className="w-3 h-3 md:w-3.5 md:h-3.5" />Transactions
-            </CardDescription>
-            <CardTitle className="text-xl md:text-2xl font-bold tracking-tight">
-              {totalTransactionsInRange}
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="pt-0 px-3 md:px-6 pb-3 md:pb-6">
-            <p className="text-[9px] md:text-[10px] text-muted-foreground mt-1 leading-tight">
-              Payments this {revenueRange}
-            </p>
-          </CardContent>
-        </Card>
+            {/* Plan filter */}
+            <select value={revenuePlanFilter} onChange={e => setRevenuePlanFilter(e.target.value as PlanKey | "all")}
+              className="border border-zinc-700 rounded px-2 py-1 bg-zinc-800 text-xs md:text-sm">
+              <option value="all">All Plans</option>
+              {(Object.entries(PLAN_LABELS) as [PlanKey, string][]).map(([k, v]) => (
+                <option key={k} value={k}>{v}</option>
+              ))}
+            </select>
+          </div>
 
-        <Card className="bg-zinc-900/30 border-zinc-800">
-          <CardHeader className="pb-2 p-3 md:p-6 md:pb-2">
-            <CardDescription className="flex items-center gap-1.5 text-[10px] md:text-xs">
-              <Banknote className="w-3 h-3 md:w-3.5 md:h-3.5" />Avg per Transaction
-            </CardDescription>
-            <CardTitle className="text-xl md:text-2xl font-bold tracking-tight">
-              {formatPeso(avgTransaction)}
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="pt-0 px-3 md:px-6 pb-3 md:pb-6">
-            <p className="text-[9px] md:text-[10px] text-muted-foreground mt-1 leading-tight">
-              Average per payment
-            </p>
-          </CardContent>
-        </Card>
+          {/* Revenue KPI cards */}
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-2 md:gap-4">
+            <Card className="bg-zinc-900/30 border-zinc-800 border-l-4 border-l-emerald-500">
+              <CardHeader className="pb-2 p-3 md:p-6 md:pb-2">
+                <CardDescription className="flex items-center gap-1.5 text-[10px] md:text-xs">
+                  <PhilippinePeso className="w-3 h-3 md:w-3.5 md:h-3.5" />Total Revenue
+                </CardDescription>
+                <CardTitle className="text-xl md:text-2xl font-bold tracking-tight text-emerald-400">
+                  {formatPeso(revCurrent)}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0 px-3 md:px-6 pb-3 md:pb-6">
+                <TrendIndicator current={revCurrent} previous={revPrevious} suffix={revLabel} />
+                <p className="text-[9px] md:text-[10px] text-muted-foreground mt-1 leading-tight">
+                  This {revenueRange}
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-zinc-900/30 border-zinc-800">
+              <CardHeader className="pb-2 p-3 md:p-6 md:pb-2">
+                <CardDescription className="flex items-center gap-1.5 text-[10px] md:text-xs">
+                  <CreditCard className="w-3 h-3 md:w-3.5 md:h-3.5" />Transactions
+                </CardDescription>
+                <CardTitle className="text-xl md:text-2xl font-bold tracking-tight">
+                  {totalTransactionsInRange}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0 px-3 md:px-6 pb-3 md:pb-6">
+                <p className="text-[9px] md:text-[10px] text-muted-foreground mt-1 leading-tight">
+                  Payments this {revenueRange}
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-zinc-900/30 border-zinc-800">
+              <CardHeader className="pb-2 p-3 md:p-6 md:pb-2">
+                <CardDescription className="flex items-center gap-1.5 text-[10px] md:text-xs">
+                  <Banknote className="w-3 h-3 md:w-3.5 md:h-3.5" />Avg per Transaction
+                </CardDescription>
+                <CardTitle className="text-xl md:text-2xl font-bold tracking-tight">
+                  {formatPeso(avgTransaction)}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0 px-3 md:px-6 pb-3 md:pb-6">
+                <p className="text-[9px] md:text-[10px] text-muted-foreground mt-1 leading-tight">
+                  Average per payment
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-zinc-900/30 border-zinc-800">
+              <CardHeader className="pb-2 p-3 md:p-6 md:pb-2">
+                <CardDescription className="flex items-center gap-1.5 text-[10px] md:text-xs">
+                  <Wallet className="w-3 h-3 md:w-3.5 md:h-3.5" />This Month
+                </CardDescription>
+                <CardTitle className="text-xl md:text-2xl font-bold tracking-tight">
+                  {formatPeso(revThisMonth)}
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="pt-0 px-3 md:px-6 pb-3 md:pb-6">
+                <TrendIndicator current={revThisMonth} previous={revLastMonth} suffix="vs last month" />
+              </CardContent>
+            </Card>
+          </div>
 
-        <Card className="bg-zinc-900/30 border-zinc-800">
-          <CardHeader className="pb-2 p-3 md:p-6 md:pb-2">
-            <CardDescription className="flex items-center gap-1.5 text-[10px] md:text-xs">
-              <Wallet className="w-3 h-3 md:w-3.5 md:h-3.5" />This Month
-            </CardDescription>
-            <CardTitle className="text-xl md:text-2xl font-bold tracking-tight">
-              {formatPeso(revThisMonth)}
-            </CardTitle>
-          </CardHeader>
-          <CardContent className="pt-0 px-3 md:px-6 pb-3 md:pb-6">
-            <TrendIndicator current={revThisMonth} previous={revLastMonth} suffix="vs last month" currency />
-          </CardContent>
-        </Card>
-      </div>
+          {/* Revenue bar chart */}
+          <Card className="border-zinc-800">
+            <CardHeader className="p-3 md:p-6">
+              <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                <div>
+                  <CardTitle className="text-base md:text-lg flex items-center gap-2">
+                    <BarChart2 className="w-4 h-4 text-emerald-500" />
+                    Revenue — {revenueRange.charAt(0).toUpperCase() + revenueRange.slice(1)}
+                  </CardTitle>
+                  <CardDescription className="text-xs md:text-sm mt-1">
+                    {formatPeso(totalRevenueInRange)} total · {totalTransactionsInRange} transactions
+                    {revenueMethodFilter !== "all" && ` · ${METHOD_LABELS[revenueMethodFilter]}`}
+                    {revenuePlanFilter !== "all" && ` · ${PLAN_LABELS[revenuePlanFilter]}`}
+                  </CardDescription>
+                </div>
 
-      {/* Revenue bar chart */}
-      <Card className="border-zinc-800">
-        <CardHeader className="p-3 md:p-6">
-          <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                {/* Date navigation pickers — shown per range */}
+                <div className="flex flex-wrap gap-2 items-center">
+                  {/* Year picker — shown for year, month, week */}
+                  {(revenueRange === "year" || revenueRange === "month" || revenueRange === "week") && (
+                    <select value={barYear} onChange={e => { setBarYear(Number(e.target.value)); setBarWeek(0) }}
+                      className="border border-zinc-700 rounded px-2 py-1 bg-zinc-800 text-xs">
+                      {Array.from({ length: 5 }, (_, i) => new Date().getFullYear() - i).map(y => (
+                        <option key={y} value={y}>{y}</option>
+                      ))}
+                    </select>
+                  )}
+
+                  {/* Month picker — shown for month range */}
+                  {revenueRange === "month" && (
+                    <select value={barMonth} onChange={e => { setBarMonth(Number(e.target.value)); setBarWeek(0) }}
+                      className="border border-zinc-700 rounded px-2 py-1 bg-zinc-800 text-xs">
+                      {MONTH_SHORT.map((m, i) => <option key={i} value={i}>{m}</option>)}
+                    </select>
+                  )}
+
+                  {/* Week picker — shown for month and week ranges */}
+                  {revenueRange === "month" && (
+                    <select value={barWeek} onChange={e => setBarWeek(Number(e.target.value))}
+                      className="border border-zinc-700 rounded px-2 py-1 bg-zinc-800 text-xs">
+                      <option value={0}>All Weeks</option>
+                      {Array.from({ length: Math.ceil(new Date(barYear, barMonth + 1, 0).getDate() / 7) }, (_, i) => {
+                        const start = i * 7 + 1
+                        const end   = Math.min(start + 6, new Date(barYear, barMonth + 1, 0).getDate())
+                        return <option key={i+1} value={i+1}>Week {i+1} (Day {start}–{end})</option>
+                      })}
+                    </select>
+                  )}
+
+                  {/* Week-of-year picker — shown for week range */}
+                  {revenueRange === "week" && (
+                    <select value={barWeek} onChange={e => setBarWeek(Number(e.target.value))}
+                      className="border border-zinc-700 rounded px-2 py-1 bg-zinc-800 text-xs min-w-[150px]">
+                      {Array.from({ length: 52 }, (_, i) => {
+                        const d = new Date(barYear, 0, 1 + i * 7)
+                        const end = new Date(d.getTime() + 6 * 24 * 60 * 60 * 1000)
+                        const fmt = (dt: Date) => `${MONTH_SHORT[dt.getMonth()]} ${dt.getDate()}`
+                        return <option key={i} value={i}>Week {i+1} ({fmt(d)} – {fmt(end)})</option>
+                      })}
+                    </select>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="h-[260px] md:h-[320px] p-2 md:p-6 md:pt-0">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={revenueBarData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
+                  <XAxis dataKey="label" stroke="#71717a" tick={{ fontSize: 10 }} />
+                  <YAxis stroke="#71717a" tick={{ fontSize: 10 }} width={50}
+                    tickFormatter={v => v >= 1000 ? `₱${(v / 1000).toFixed(1)}k` : `₱${v}`} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: "#18181b", borderRadius: 8, border: "1px solid #27272a", fontSize: 12 }}
+                    formatter={(value: number, name: string) => [
+                      name === "revenue" ? formatPeso(value) : value,
+                      name === "revenue" ? "Revenue" : "Transactions"
+                    ]}
+                  />
+                  <Bar dataKey="revenue" fill="#10b981" radius={[3, 3, 0, 0]} name="revenue">
+                    {revenueBarData.map((_, i) => (
+                      <Cell key={i} fill={`hsl(${152 - (i % 5) * 8}, 70%, ${40 + (i % 3) * 5}%)`} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 px-1">
             <div>
-              <CardTitle className="text-base md:text-lg flex items-center gap-2">
-                <BarChart2 className="w-4 h-4 text-emerald-500" />
-                Revenue — {revenueRange.charAt(0).toUpperCase() + revenueRange.slice(1)}
-              </CardTitle>
-              <CardDescription className="text-xs md:text-sm mt-1">
-                {formatPeso(totalRevenueInRange)} total · {totalTransactionsInRange} transactions
-                {revenueMethodFilter !== "all" && ` · ${METHOD_LABELS[revenueMethodFilter]}`}
-                {revenuePlanFilter !== "all" && ` · ${PLAN_LABELS[revenuePlanFilter]}`}
-              </CardDescription>
-            </div>
-
-            {/* Date navigation pickers — shown per range */}
-            <div className="flex flex-wrap gap-2 items-center">
-              {/* Year picker — shown for year, month, week */}
-              {(revenueRange === "year" || revenueRange === "month" || revenueRange === "week") && (
-                <select value={barYear} onChange={e => { setBarYear(Number(e.target.value)); setBarWeek(0) }}
-                  className="border border-zinc-700 rounded px-2 py-1 bg-zinc-800 text-xs">
-                  {Array.from({ length: 5 }, (_, i) => new Date().getFullYear() - i).map(y => (
-                    <option key={y} value={y}>{y}</option>
-                  ))}
-                </select>
-              )}
-
-              {/* Month picker — shown for month range */}
-              {revenueRange === "month" && (
-                <select value={barMonth} onChange={e => { setBarMonth(Number(e.target.value)); setBarWeek(0) }}
-                  className="border border-zinc-700 rounded px-2 py-1 bg-zinc-800 text-xs">
-                  {MONTH_SHORT.map((m, i) => <option key={i} value={i}>{m}</option>)}
-                </select>
-              )}
-
-              {/* Week picker — shown for month and week ranges */}
-              {revenueRange === "month" && (
-                <select value={barWeek} onChange={e => setBarWeek(Number(e.target.value))}
-                  className="border border-zinc-700 rounded px-2 py-1 bg-zinc-800 text-xs">
-                  <option value={0}>All Weeks</option>
-                  {Array.from({ length: Math.ceil(new Date(barYear, barMonth + 1, 0).getDate() / 7) }, (_, i) => {
-                    const start = i * 7 + 1
-                    const end   = Math.min(start + 6, new Date(barYear, barMonth + 1, 0).getDate())
-                    return <option key={i+1} value={i+1}>Week {i+1} (Day {start}–{end})</option>
-                  })}
-                </select>
-              )}
-
-              {/* Week-of-year picker — shown for week range */}
-              {revenueRange === "week" && (
-                <select value={barWeek} onChange={e => setBarWeek(Number(e.target.value))}
-                  className="border border-zinc-700 rounded px-2 py-1 bg-zinc-800 text-xs min-w-[150px]">
-                  {Array.from({ length: 52 }, (_, i) => {
-                    const d = new Date(barYear, 0, 1 + i * 7)
-                    const end = new Date(d.getTime() + 6 * 24 * 60 * 60 * 1000)
-                    const fmt = (dt: Date) => `${MONTH_SHORT[dt.getMonth()]} ${dt.getDate()}`
-                    return <option key={i} value={i}>Week {i+1} ({fmt(d)} – {fmt(end)})</option>
-                  })}
-                </select>
-              )}
+              <p className="text-sm font-medium">Revenue Detail Filters</p>
+              <p className="text-xs text-muted-foreground">
+                Applied to payment method, plan, trend, and recent transactions for {getRevenueDetailScopeLabel()}
+              </p>
             </div>
+            {renderRevenueDetailControls()}
           </div>
-        </CardHeader>
-        <CardContent className="h-[260px] md:h-[320px] p-2 md:p-6 md:pt-0">
-          <ResponsiveContainer width="100%" height="100%">
-            <BarChart data={revenueBarData} margin={{ top: 5, right: 10, left: 0, bottom: 5 }}>
-              <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
-              <XAxis dataKey="label" stroke="#71717a" tick={{ fontSize: 10 }} />
-              <YAxis stroke="#71717a" tick={{ fontSize: 10 }} width={50}
-                tickFormatter={v => v >= 1000 ? `₱${(v / 1000).toFixed(1)}k` : `₱${v}`} />
-              <Tooltip
-                contentStyle={{ backgroundColor: "#18181b", borderRadius: 8, border: "1px solid #27272a", fontSize: 12 }}
-                formatter={(value: number, name: string) => [
-                  name === "revenue" ? formatPeso(value) : value,
-                  name === "revenue" ? "Revenue" : "Transactions"
-                ]}
-              />
-              <Bar dataKey="revenue" fill="#10b981" radius={[3, 3, 0, 0]} name="revenue">
-                {revenueBarData.map((_, i) => (
-                  <Cell key={i} fill={`hsl(${152 - (i % 5) * 8}, 70%, ${40 + (i % 3) * 5}%)`} />
-                ))}
-              </Bar>
-            </BarChart>
-          </ResponsiveContainer>
-        </CardContent>
-      </Card>
-
-      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 px-1">
-        <div>
-          <p className="text-sm font-medium">Revenue Detail Filters</p>
-          <p className="text-xs text-muted-foreground">
-            Applied to payment method, plan, trend, and recent transactions for {getRevenueDetailScopeLabel()}
-          </p>
-        </div>
-        {renderRevenueDetailControls()}
-      </div>
 
-      {/* Pie charts row */}
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        {/* By Payment Method */}
-        <Card className="border-zinc-800">
-          <CardHeader className="p-3 md:p-6">
-            <CardTitle className="text-base md:text-lg flex items-center gap-2">
-              <CreditCard className="w-4 h-4 text-blue-400" />By Payment Method
-            </CardTitle>
-            <CardDescription className="text-xs">Revenue breakdown by how members paid in {getRevenueDetailScopeLabel()}</CardDescription>
-          </CardHeader>
-          <CardContent className="p-2 md:p-6 md:pt-0">
-            {revenueMethodPie.length === 0 ? (
-              <div className="flex items-center justify-center h-[200px] text-muted-foreground text-sm">No data</div>
-            ) : (
-              <div className="flex flex-col md:flex-row items-center gap-4">
-                <ResponsiveContainer width={200} height={200}>
-                  <PieChart>
-                    <Pie data={revenueMethodPie} cx="50%" cy="50%" outerRadius={90}
-                      dataKey="value" nameKey="name" paddingAngle={3}>
+          {/* Pie charts row */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {/* By Payment Method */}
+            <Card className="border-zinc-800">
+              <CardHeader className="p-3 md:p-6">
+                <CardTitle className="text-base md:text-lg flex items-center gap-2">
+                  <CreditCard className="w-4 h-4 text-blue-400" />By Payment Method
+                </CardTitle>
+                <CardDescription className="text-xs">Revenue breakdown by how members paid in {getRevenueDetailScopeLabel()}</CardDescription>
+              </CardHeader>
+              <CardContent className="p-2 md:p-6 md:pt-0">
+                {revenueMethodPie.length === 0 ? (
+                  <div className="flex items-center justify-center h-[200px] text-muted-foreground text-sm">No data</div>
+                ) : (
+                  <div className="flex flex-col md:flex-row items-center gap-4">
+                    <ResponsiveContainer width={200} height={200}>
+                      <PieChart>
+                        <Pie data={revenueMethodPie} cx="50%" cy="50%" outerRadius={90}
+                          dataKey="value" nameKey="name" paddingAngle={3}>
+                          {revenueMethodPie.map((entry, i) => (
+                            <Cell key={i} fill={entry.color} />
+                          ))}
+                        </Pie>
+                        <Tooltip contentStyle={{ backgroundColor: "#18181b", borderRadius: 8, border: "1px solid #27272a", fontSize: 12 }}
+                          formatter={(v: number) => formatPeso(v)} />
+                      </PieChart>
+                    </ResponsiveContainer>
+                    <div className="flex flex-col gap-2 flex-1">
                       {revenueMethodPie.map((entry, i) => (
-                        <Cell key={i} fill={entry.color} />
+                        <div key={i} className="flex items-center justify-between text-sm">
+                          <div className="flex items-center gap-2">
+                            <div className="w-3 h-3 rounded-sm flex-shrink-0" style={{ backgroundColor: entry.color }} />
+                            <span className="text-muted-foreground">{entry.name}</span>
+                          </div>
+                          <span className="font-semibold">{formatPeso(entry.value)}</span>
+                        </div>
                       ))}
-                    </Pie>
-                    <Tooltip contentStyle={{ backgroundColor: "#18181b", borderRadius: 8, border: "1px solid #27272a", fontSize: 12 }}
-                      formatter={(v: number) => formatPeso(v)} />
-                  </PieChart>
-                </ResponsiveContainer>
-                <div className="flex flex-col gap-2 flex-1">
-                  {revenueMethodPie.map((entry, i) => (
-                    <div key={i} className="flex items-center justify-between text-sm">
-                      <div className="flex items-center gap-2">
-                        <div className="w-3 h-3 rounded-sm flex-shrink-0" style={{ backgroundColor: entry.color }} />
-                        <span className="text-muted-foreground">{entry.name}</span>
-                      </div>
-                      <span className="font-semibold">{formatPeso(entry.value)}</span>
                     </div>
-                  ))}
-                </div>
-              </div>
-            )}
-          </CardContent>
-        </Card>
-
-        {/* By Plan */}
-        <Card className="border-zinc-800">
-          <CardHeader className="p-3 md:p-6">
-            <CardTitle className="text-base md:text-lg flex items-center gap-2">
-              <Wallet className="w-4 h-4 text-amber-400" />By Plan
-            </CardTitle>
-            <CardDescription className="text-xs">Revenue split by plan in {getRevenueDetailScopeLabel()}</CardDescription>
-          </CardHeader>
-          <CardContent className="p-2 md:p-6 md:pt-0">
-            {revenuePlanPie.length === 0 ? (
-              <div className="flex items-center justify-center h-[200px] text-muted-foreground text-sm">No data</div>
-            ) : (
-              <div className="flex flex-col md:flex-row items-center gap-4">
-                <ResponsiveContainer width={200} height={200}>
-                  <PieChart>
-                    <Pie data={revenuePlanPie} cx="50%" cy="50%" outerRadius={90}
-                      dataKey="value" nameKey="name" paddingAngle={3}>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* By Plan */}
+            <Card className="border-zinc-800">
+              <CardHeader className="p-3 md:p-6">
+                <CardTitle className="text-base md:text-lg flex items-center gap-2">
+                  <Wallet className="w-4 h-4 text-amber-400" />By Plan
+                </CardTitle>
+                <CardDescription className="text-xs">Revenue split by plan in {getRevenueDetailScopeLabel()}</CardDescription>
+              </CardHeader>
+              <CardContent className="p-2 md:p-6 md:pt-0">
+                {revenuePlanPie.length === 0 ? (
+                  <div className="flex items-center justify-center h-[200px] text-muted-foreground text-sm">No data</div>
+                ) : (
+                  <div className="flex flex-col md:flex-row items-center gap-4">
+                    <ResponsiveContainer width={200} height={200}>
+                      <PieChart>
+                        <Pie data={revenuePlanPie} cx="50%" cy="50%" outerRadius={90}
+                          dataKey="value" nameKey="name" paddingAngle={3}>
+                          {revenuePlanPie.map((entry, i) => (
+                            <Cell key={i} fill={entry.color} />
+                          ))}
+                        </Pie>
+                        <Tooltip contentStyle={{ backgroundColor: "#18181b", borderRadius: 8, border: "1px solid #27272a", fontSize: 12 }}
+                          formatter={(v: number) => formatPeso(v)} />
+                      </PieChart>
+                    </ResponsiveContainer>
+                    <div className="flex flex-col gap-2 flex-1">
                       {revenuePlanPie.map((entry, i) => (
-                        <Cell key={i} fill={entry.color} />
+                        <div key={i} className="flex items-center justify-between text-sm">
+                          <div className="flex items-center gap-2">
+                            <div className="w-3 h-3 rounded-sm flex-shrink-0" style={{ backgroundColor: entry.color }} />
+                            <span className="text-muted-foreground">{entry.name}</span>
+                          </div>
+                          <span className="font-semibold">{formatPeso(entry.value)}</span>
+                        </div>
                       ))}
-                    </Pie>
-                    <Tooltip contentStyle={{ backgroundColor: "#18181b", borderRadius: 8, border: "1px solid #27272a", fontSize: 12 }}
-                      formatter={(v: number) => formatPeso(v)} />
-                  </PieChart>
-                </ResponsiveContainer>
-                <div className="flex flex-col gap-2 flex-1">
-                  {revenuePlanPie.map((entry, i) => (
-                    <div key={i} className="flex items-center justify-between text-sm">
-                      <div className="flex items-center gap-2">
-                        <div className="w-3 h-3 rounded-sm flex-shrink-0" style={{ backgroundColor: entry.color }} />
-                        <span className="text-muted-foreground">{entry.name}</span>
-                      </div>
-                      <span className="font-semibold">{formatPeso(entry.value)}</span>
                     </div>
-                  ))}
-                </div>
-              </div>
-            )}
-          </CardContent>
-        </Card>
-      </div>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
 
-      {/* Revenue trend line chart by plan */}
-      <Card className="border-zinc-800">
-        <CardHeader className="p-3 md:p-6">
-          <CardTitle className="text-base md:text-lg flex items-center gap-2">
-            <TrendingUp className="w-4 h-4 text-indigo-400" />Revenue Trend by Plan
-          </CardTitle>
-          <CardDescription className="text-xs md:text-sm">
-            Revenue per plan for {getRevenueDetailScopeLabel()} — each line is a membership plan
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="h-[280px] md:h-[340px] p-2 md:p-6 md:pt-0">
-          {revenueTrendData.length === 0 ? (
-            <div className="flex items-center justify-center h-full text-muted-foreground text-sm">No data for this period</div>
-          ) : (
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={revenueTrendData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
-                <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
-                <XAxis dataKey="label" stroke="#71717a" tick={{ fontSize: 10 }} />
-                <YAxis stroke="#71717a" tick={{ fontSize: 10 }} width={55}
-                  tickFormatter={v => v >= 1000 ? "\u20b1" + (v/1000).toFixed(1)+"k" : v > 0 ? "\u20b1"+v : ""} />
-                <Tooltip
-                  contentStyle={{ backgroundColor: "#18181b", borderRadius: 8, border: "1px solid #27272a", fontSize: 12 }}
-                  formatter={(v: number, name: string) => [formatPeso(v), name]}
-                />
-                <Legend wrapperStyle={{ fontSize: 11, paddingTop: 8 }} />
-                {(["1month","6months","1year","walkin","daily","other"] as PlanKey[]).map((pk) => (
-                  <Line key={pk} type="monotone" dataKey={PLAN_LABELS[pk]}
-                    stroke={PLAN_COLORS[pk]} strokeWidth={2} dot={false} activeDot={{ r: 4 }} />
-                ))}
-              </LineChart>
-            </ResponsiveContainer>
-          )}
-        </CardContent>
-      </Card>
+          {/* Revenue trend line chart by plan */}
+          <Card className="border-zinc-800">
+            <CardHeader className="p-3 md:p-6">
+              <CardTitle className="text-base md:text-lg flex items-center gap-2">
+                <TrendingUp className="w-4 h-4 text-indigo-400" />Revenue Trend by Plan
+              </CardTitle>
+              <CardDescription className="text-xs md:text-sm">
+                Revenue per plan for {getRevenueDetailScopeLabel()} — each line is a membership plan
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="h-[280px] md:h-[340px] p-2 md:p-6 md:pt-0">
+              {revenueTrendData.length === 0 ? (
+                <div className="flex items-center justify-center h-full text-muted-foreground text-sm">No data for this period</div>
+              ) : (
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={revenueTrendData} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#27272a" />
+                    <XAxis dataKey="label" stroke="#71717a" tick={{ fontSize: 10 }} />
+                    <YAxis stroke="#71717a" tick={{ fontSize: 10 }} width={55}
+                      tickFormatter={v => v >= 1000 ? "\u20b1" + (v/1000).toFixed(1)+"k" : v > 0 ? "\u20b1"+v : ""} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: "#18181b", borderRadius: 8, border: "1px solid #27272a", fontSize: 12 }}
+                      formatter={(v: number, name: string) => [formatPeso(v), name]}
+                    />
+                    <Legend wrapperStyle={{ fontSize: 11, paddingTop: 8 }} />
+                    {(["1month","6months","1year","walkin","daily","other"] as PlanKey[]).map((pk) => (
+                      <Line key={pk} type="monotone" dataKey={PLAN_LABELS[pk]}
+                        stroke={PLAN_COLORS[pk]} strokeWidth={2} dot={false} activeDot={{ r: 4 }} />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              )}
+            </CardContent>
+          </Card>
 
-      {/* Recent Transactions */}
-      <Card className="border-zinc-800">
-        <CardHeader className="p-3 md:p-6">
-          <CardTitle className="text-base md:text-lg flex items-center gap-2">
-            <Banknote className="w-4 h-4 text-emerald-500" />Recent Transactions
-          </CardTitle>
-          <CardDescription className="text-xs md:text-sm">
-            Latest {recentTransactions.length} payments in {getRevenueDetailScopeLabel()}
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="p-3 md:p-6 pt-0 md:pt-0">
-          {recentTransactions.length === 0 ? (
-            <div className="flex items-center justify-center py-10 text-muted-foreground">
-              <p className="text-sm">No transactions in this period</p>
-            </div>
-          ) : (
-            <div className="space-y-2 max-h-[400px] overflow-y-auto pr-1" style={{ scrollbarWidth: "thin" }}>
-              {recentTransactions.map((txn, i) => (
-                <div key={txn.paymentId ?? i}
-                  className="flex items-center gap-3 p-2.5 md:p-3 rounded-lg border border-zinc-800 bg-zinc-900/30 hover:bg-zinc-800/40 transition-colors">
-                  <div className="p-2 rounded-full bg-emerald-500/10 flex-shrink-0">
-                    <PhilippinePeso className="w-3.5 h-3.5 text-emerald-400" />
-                  </div>
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2 flex-wrap">
-                      {txn.userName && <span className="font-semibold text-sm truncate">{txn.userName}</span>}
-                      <span className="text-[10px] text-muted-foreground font-mono">{txn.userId}</span>
-                      <span className="text-[10px] px-1.5 py-0.5 rounded bg-indigo-900/50 text-indigo-300">{txn.plan}</span>
-                      <span className="text-[10px] px-1.5 py-0.5 rounded bg-zinc-800 text-zinc-400">{txn.paymentMethod}</span>
+          {/* Recent Transactions */}
+          <Card className="border-zinc-800">
+            <CardHeader className="p-3 md:p-6">
+              <CardTitle className="text-base md:text-lg flex items-center gap-2">
+                <Banknote className="w-4 h-4 text-emerald-500" />Recent Transactions
+              </CardTitle>
+              <CardDescription className="text-xs md:text-sm">
+                Latest {recentTransactions.length} payments in {getRevenueDetailScopeLabel()}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-3 md:p-6 pt-0 md:pt-0">
+              {recentTransactions.length === 0 ? (
+                <div className="flex items-center justify-center py-10 text-muted-foreground">
+                  <p className="text-sm">No transactions in this period</p>
+                </div>
+              ) : (
+                <div className="space-y-2 max-h-[400px] overflow-y-auto pr-1" style={{ scrollbarWidth: "thin" }}>
+                  {recentTransactions.map((txn, i) => (
+                    <div key={txn.paymentId ?? i}
+                      className="flex items-center gap-3 p-2.5 md:p-3 rounded-lg border border-zinc-800 bg-zinc-900/30 hover:bg-zinc-800/40 transition-colors">
+                      <div className="p-2 rounded-full bg-emerald-500/10 flex-shrink-0">
+                        <PhilippinePeso className="w-3.5 h-3.5 text-emerald-400" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 flex-wrap">
+                          {txn.userName && <span className="font-semibold text-sm truncate">{txn.userName}</span>}
+                          <span className="text-[10px] text-muted-foreground font-mono">{txn.userId}</span>
+                          <span className="text-[10px] px-1.5 py-0.5 rounded bg-indigo-900/50 text-indigo-300">{txn.plan}</span>
+                          <span className="text-[10px] px-1.5 py-0.5 rounded bg-zinc-800 text-zinc-400">{txn.paymentMethod}</span>
+                        </div>
+                        <p className="text-[10px] md:text-[11px] text-muted-foreground mt-0.5">
+                          {new Date(new Date(txn.paymentDate).getTime() + PH_OFFSET_MS).toLocaleString("en-PH", {
+                            year: "numeric", month: "short", day: "numeric",
+                            hour: "2-digit", minute: "2-digit", hour12: true, timeZone: "UTC"
+                          })}
+                        </p>
+                      </div>
+                      <span className="font-bold text-emerald-400 text-sm flex-shrink-0">{formatPeso(txn.amount)}</span>
                     </div>
-                    <p className="text-[10px] md:text-[11px] text-muted-foreground mt-0.5">
-                      {new Date(new Date(txn.paymentDate).getTime() + PH_OFFSET_MS).toLocaleString("en-PH", {
-                        year: "numeric", month: "short", day: "numeric",
-                        hour: "2-digit", minute: "2-digit", hour12: true, timeZone: "UTC"
-                      })}
-                    </p>
-                  </div>
-                  <span className="font-bold text-emerald-400 text-sm flex-shrink-0">{formatPeso(txn.amount)}</span>
+                  ))}
                 </div>
-              ))}
-            </div>
-          )}
-        </CardContent>
-      </Card>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
 
       {/* ── Contribution Calendar ─────────────────────────────────────────── */}
       <Card className="border-zinc-800">
@@ -8,12 +8,10 @@ import { Card, CardContent } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { AlertTriangle } from "lucide-react"
-
-const ADMIN_EMAIL = "bacasfitness@gym.com"
-const ADMIN_PASSWORD = "bcf@2026"
+import { authService, type StaffSession } from "@/src/services/auth.service"
 
 interface LoginPageProps {
-  onLoginSuccess: () => void
+  onLoginSuccess: (session: StaffSession) => void
 }
 
 export function LoginPage({ onLoginSuccess }: LoginPageProps) {
@@ -27,16 +25,13 @@ export function LoginPage({ onLoginSuccess }: LoginPageProps) {
     setError("")
     setIsLoading(true)
 
-    await new Promise((resolve) => setTimeout(resolve, 500))
-
-    if (email === ADMIN_EMAIL && password === ADMIN_PASSWORD) {
-      localStorage.setItem("bacasfitness_admin_token", "authenticated")
-      onLoginSuccess()
-    } else {
-      setError("Invalid email or password")
+    try {
+      onLoginSuccess(await authService.signIn(email, password))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Sign in failed")
+    } finally {
+      setIsLoading(false)
     }
-
-    setIsLoading(false)
   }
 
   return (
@@ -8,6 +8,13 @@ import {
   ScanLine,
   ClipboardList,
   BarChart3,
+  DatabaseBackup,
+  DatabaseZap,
+  History,
+  RefreshCcw,
+  ShieldCheck,
+  PackageOpen,
+  UserCog,
   ChevronLeft,
   ChevronRight,
   LogOut,
@@ -16,24 +23,40 @@ import {
 } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
+import { useSession } from "@/src/hooks/use-session"
+import { can, roleLabels, type Permission } from "@/src/lib/permissions"
+import type { StaffRole } from "@/src/types"
 
 interface SidebarProps {
   activeTab: string
   onTabChange: (tab: string) => void
-  onLogout: () => void
+  onLogout: (options?: { everywhere?: boolean }) => void
 }
 
-const navigation = [
-  { id: "scanner", label: "QR Scanner", icon: ScanLine },
-  { id: "members", label: "Members", icon: Users },
-  { id: "active", label: "Active Now", icon: Activity },
-  { id: "logs", label: "Scan Logs", icon: ClipboardList },
-  { id: "analytics", label: "Analytics", icon: BarChart3 },
+const navigation: { id: string; label: string; icon: typeof Users; permission: Permission }[] = [
+  { id: "scanner", label: "QR Scanner", icon: ScanLine, permission: "scans.record" },
+  { id: "members", label: "Members", icon: Users, permission: "members.view" },
+  { id: "active", label: "Active Now", icon: Activity, permission: "members.view" },
+  { id: "logs", label: "Scan Logs", icon: ClipboardList, permission: "members.view" },
+  { id: "analytics", label: "Analytics", icon: BarChart3, permission: "members.view" },
+  { id: "backups", label: "Backups", icon: DatabaseBackup, permission: "admin.tools" },
+  { id: "audit", label: "Audit", icon: History, permission: "admin.tools" },
+  { id: "sync", label: "Sync", icon: RefreshCcw, permission: "admin.tools" },
+  { id: "legacy", label: "Legacy Import", icon: DatabaseZap, permission: "admin.tools" },
+  { id: "integrity", label: "Integrity", icon: ShieldCheck, permission: "admin.tools" },
+  { id: "bundle", label: "Export & Import", icon: PackageOpen, permission: "admin.tools" },
+  { id: "staff", label: "Staff", icon: UserCog, permission: "staff.manage" },
 ]
 
+/** Tabs `role` may open, in sidebar order. */
+export function allowedTabs(role: StaffRole | null | undefined): string[] {
+  return navigation.filter((item) => can(role, item.permission)).map((item) => item.id)
+}
+
 export function Sidebar({ activeTab, onTabChange, onLogout }: SidebarProps) {
   const [isCollapsed, setIsCollapsed] = useState(false)
   const [isMobileOpen, setIsMobileOpen] = useState(false)
+  const session = useSession()
 
   useEffect(() => {
     function handleResize() {
@@ -107,7 +130,7 @@ export function Sidebar({ activeTab, onTabChange, onLogout }: SidebarProps) {
 
       {/* Navigation */}
       <nav className="flex-1 p-4 space-y-2 overflow-y-auto">
-        {navigation.map((item) => {
+        {navigation.filter((item) => can(session?.role, item.permission)).map((item) => {
           const Icon = item.icon
           const isActive = activeTab === item.id
 
@@ -136,15 +159,31 @@ export function Sidebar({ activeTab, onTabChange, onLogout }: SidebarProps) {
 
       {/* Footer */}
       <div className="p-4 border-t border-border">
+        {session && !isCollapsed && (
+          <div className="mb-3 min-w-0">
+            <p className="text-sm font-medium truncate">{session.name || session.email}</p>
+            <p className="text-xs text-muted-foreground">{roleLabels[session.role]}</p>
+          </div>
+        )}
         <Button
           variant="outline"
           size={isCollapsed ? "icon" : "sm"}
-          onClick={onLogout}
+          onClick={() => onLogout()}
           className="w-full bg-transparent"
         >
           <LogOut className="w-4 h-4" />
           {!isCollapsed && <span className="ml-2">Logout</span>}
         </Button>
+        {!isCollapsed && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onLogout({ everywhere: true })}
+            className="w-full mt-1 text-xs text-muted-foreground"
+          >
+            Sign out everywhere
+          </Button>
+        )}
       </div>
     </div>
   )
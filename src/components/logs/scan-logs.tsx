@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useState } from "react"
+import { useEffect, useMemo, useState } from "react"
 import { Card } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
@@ -19,7 +19,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog"
-import { LogIn, LogOut, AlertCircle, Calendar, Filter, Search, Download, FileText, FileSpreadsheet, X } from "lucide-react"
+import { LogIn, LogOut, AlertCircle, Calendar, Filter, Search, Download, FileText, FileSpreadsheet } from "lucide-react"
 import type { ScanLog } from "@/src/types"
 import { storageService } from "@/src/services/storage.service"
 
@@ -96,6 +96,17 @@ function phDate(ts: string) {
 function phObj(ts: string) {
   return new Date(new Date(ts).toLocaleString("en-US", { timeZone: "Asia/Manila" }))
 }
+function phDayRange(date: string): [Date, Date] {
+  return [new Date(`${date}T00:00:00.000+08:00`), new Date(`${date}T23:59:59.999+08:00`)]
+}
+function phMonthRange(month: number, year: number): [Date, Date] {
+  const mm = String(month + 1).padStart(2, "0")
+  const start = new Date(`${year}-${mm}-01T00:00:00.000+08:00`)
+  const next = month === 11
+    ? new Date(`${year + 1}-01-01T00:00:00.000+08:00`)
+    : new Date(`${year}-${String(month + 2).padStart(2, "0")}-01T00:00:00.000+08:00`)
+  return [start, new Date(next.getTime() - 1)]
+}
 function weekLabel(ts: string) {
   const d = phObj(ts)
   const day = d.getDay()
@@ -141,7 +152,7 @@ function getScanLogKey(log: ScanLog, index: number) {
 }
 
 // Sort raw log rows alphabetically by Name then by Date+Time
-function sortRows(rows: Record<string, any>[]) {
+function sortRows(rows: Record<string, unknown>[]) {
   return rows.sort((a, b) => {
     const nameCmp = String(a["Name"] ?? "").localeCompare(String(b["Name"] ?? ""))
     if (nameCmp !== 0) return nameCmp
@@ -165,7 +176,7 @@ function applyScope(
     exportName: string
     currentFiltered: ScanLog[]
   }
-): { rows: Record<string, any>[]; filename: string } {
+): { rows: Record<string, unknown>[]; filename: string } {
   const { exportDate, exportMonth, exportYear, exportName, currentFiltered } = opts
 
   switch (scope) {
@@ -357,7 +368,7 @@ function applyScope(
 
 /* ─── File writers ────────────────────────────────────────────────────────── */
 
-function writeCSV(rows: Record<string, any>[], filename: string) {
+function writeCSV(rows: Record<string, unknown>[], filename: string) {
   if (!rows.length) return
   const headers = Object.keys(rows[0])
   const escape  = (v: string) => v.includes(",") || v.includes('"') || v.includes("\n") ? `"${v.replace(/"/g, '""')}"` : v
@@ -369,7 +380,7 @@ function writeCSV(rows: Record<string, any>[], filename: string) {
   a.click()
 }
 
-async function writeExcel(rows: Record<string, any>[], filename: string) {
+async function writeExcel(rows: Record<string, unknown>[], filename: string) {
   try {
     const XLSX = await import("xlsx")
     const ws   = XLSX.utils.json_to_sheet(rows)
@@ -389,7 +400,6 @@ async function writeExcel(rows: Record<string, any>[], filename: string) {
 
 export function ScanLogs() {
   const [logs, setLogs]                   = useState<ScanLog[]>([])
-  const [filteredLogs, setFilteredLogs]   = useState<ScanLog[]>([])
   const [filterMode, setFilterMode]       = useState<FilterMode>("today")
   const [searchTerm, setSearchTerm]       = useState("")
   const [selectedDate, setSelectedDate]   = useState<string>(new Date().toISOString().split("T")[0])
@@ -406,17 +416,39 @@ export function ScanLogs() {
   const [exportName, setExportName]                 = useState("")
   const [isDownloading, setIsDownloading]           = useState(false)
 
+  // Only the scans for the selected period are fetched; "all" loads everything,
+  // archived years included.
   useEffect(() => {
     const load = async () => {
       setIsLoading(true)
-      setLogs(await storageService.getScanLogs())
+      try {
+        switch (filterMode) {
+          case "today": {
+            const today = new Date().toLocaleDateString("en-CA", { timeZone: "Asia/Manila" })
+            setLogs(await storageService.getScanLogsBetween(...phDayRange(today)))
+            break
+          }
+          case "date":
+            setLogs(await storageService.getScanLogsBetween(...phDayRange(selectedDate)))
+            break
+          case "month":
+            setLogs(await storageService.getScanLogsBetween(...phMonthRange(parseInt(selectedMonth), parseInt(selectedYear))))
+            break
+          case "all":
+          default:
+            setLogs(await storageService.getScanLogHistory())
+        }
+      } catch (error) {
+        console.error("Error loading scan logs:", error)
+        setLogs([])
+      }
       setIsLoading(false)
     }
     load()
-  }, [])
+  }, [filterMode, selectedDate, selectedMonth, selectedYear])
 
-  useEffect(() => {
-    if (!logs.length) { setFilteredLogs([]); return }
+  const filteredLogs = useMemo(() => {
+    if (!logs.length) return []
     let filtered: ScanLog[] = []
     switch (filterMode) {
       case "today": {
@@ -440,12 +472,14 @@ export function ScanLogs() {
       const term = searchTerm.toLowerCase()
       filtered = filtered.filter(l => l.userName.toLowerCase().includes(term) || l.userId.toLowerCase().includes(term))
     }
-    setFilteredLogs(filtered)
+    return filtered
   }, [filterMode, selectedDate, selectedMonth, selectedYear, logs, searchTerm])
 
   const handleDownload = async (format: "csv" | "xlsx") => {
     setIsDownloading(true)
-    const { rows, filename } = applyScope(logs, downloadScope, {
+    // Exports other than the current view need history beyond the loaded period.
+    const allLogs = downloadScope === "current_filter" ? logs : await storageService.getScanLogHistory()
+    const { rows, filename } = applyScope(allLogs, downloadScope, {
       exportDate, exportMonth, exportYear, exportName, currentFiltered: filteredLogs,
     })
     if (!rows.length) {
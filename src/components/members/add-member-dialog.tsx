@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState } from "react"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
@@ -10,7 +10,7 @@ import { Checkbox } from "@/components/ui/checkbox"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Textarea } from "@/components/ui/textarea"
 import { ChevronLeft, ChevronRight } from "lucide-react"
-import { storageService } from "@/src/services/storage.service"
+import { storageService, ValidationError } from "@/src/services/storage.service"
 import type { User, Subscription, MedicalHistory, EmergencyContact, LiabilityWaiver, Payment } from "@/src/types"
 
 const subscriptionPlans = [
@@ -140,6 +140,43 @@ function DateInput({
   )
 }
 
+// ==================== DERIVED FIELDS ====================
+
+interface DerivedFields {
+  birthday: string
+  age: string
+  availAnnualPlan: string
+  membershipCategory: string
+  subscriptionPlan: string
+  startDate: string
+  endDate: string
+}
+
+/** Fills in the age from the birthday and the end date of a monthly or daily plan. */
+function withDerivedFields<T extends DerivedFields>(form: T): T {
+  let age = ""
+  if (isValidDateString(form.birthday)) {
+    const birthDate = parseDate(form.birthday)!
+    const today = new Date()
+    let years = today.getFullYear() - birthDate.getFullYear()
+    const monthDiff = today.getMonth() - birthDate.getMonth()
+    if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) years--
+    age = years.toString()
+  }
+
+  let endDate = form.endDate
+  if (form.availAnnualPlan === "yes" && isValidDateString(form.startDate)) {
+    if (form.membershipCategory === "monthly") {
+      const plan = subscriptionPlans.find(p => p.value === form.subscriptionPlan)
+      if (plan) endDate = addMonthsToDateString(form.startDate, plan.months)
+    } else if (form.membershipCategory === "daily") {
+      endDate = addDaysToDateString(form.startDate, 1)
+    }
+  }
+
+  return { ...form, age, endDate }
+}
+
 // ==================== MAIN COMPONENT ====================
 
 interface AddMemberDialogProps {
@@ -153,7 +190,7 @@ export default function AddMemberDialog({ open, onOpenChange, onMemberAdded }: A
   const [isSubmitting, setIsSubmitting] = useState(false)
   const totalSteps = 6
 
-  const [formData, setFormData] = useState({
+  const [formData, setRawFormData] = useState({
     name: "",
     birthday: "",
     age: "",
@@ -200,37 +237,7 @@ export default function AddMemberDialog({ open, onOpenChange, onMemberAdded }: A
     signatureName: "",
   })
 
-  useEffect(() => {
-    if (isValidDateString(formData.birthday)) {
-      const birthDate = parseDate(formData.birthday)!
-      const today = new Date()
-      let age = today.getFullYear() - birthDate.getFullYear()
-      const monthDiff = today.getMonth() - birthDate.getMonth()
-      if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) age--
-      setFormData(prev => ({ ...prev, age: age.toString() }))
-    } else {
-      setFormData(prev => ({ ...prev, age: "" }))
-    }
-  }, [formData.birthday])
-
-  useEffect(() => {
-    if (formData.availAnnualPlan === "yes" && formData.membershipCategory === "monthly") {
-      const plan = subscriptionPlans.find(p => p.value === formData.subscriptionPlan)
-      if (plan && isValidDateString(formData.startDate)) {
-        const end = addMonthsToDateString(formData.startDate, plan.months)
-        setFormData(prev => ({ ...prev, endDate: end }))
-      }
-    }
-  }, [formData.subscriptionPlan, formData.startDate, formData.availAnnualPlan, formData.membershipCategory])
-
-  useEffect(() => {
-    if (formData.availAnnualPlan === "yes" && formData.membershipCategory === "daily") {
-      if (isValidDateString(formData.startDate)) {
-        const end = addDaysToDateString(formData.startDate, 1)
-        setFormData(prev => ({ ...prev, endDate: end }))
-      }
-    }
-  }, [formData.startDate, formData.availAnnualPlan, formData.membershipCategory])
+  const setFormData = (next: typeof formData) => setRawFormData(withDerivedFields(next))
 
   const validateStep = (step: number) => {
     switch (step) {
@@ -322,7 +329,6 @@ export default function AddMemberDialog({ open, onOpenChange, onMemberAdded }: A
         createdAt: now,
         updatedAt: now,
       }
-      await storageService.addUser(user)
 
       const membershipType = formData.availAnnualPlan === "yes" ? "new" : "walk-in"
       const planDuration = formData.availAnnualPlan === "no"
@@ -347,8 +353,8 @@ export default function AddMemberDialog({ open, onOpenChange, onMemberAdded }: A
         paymentDate: formData.paymentStatus === "paid" ? (isValidDateString(formData.paymentDate) ? parseDate(formData.paymentDate)!.toISOString() : now) : undefined,
         createdAt: now,
       }
-      await storageService.addOrUpdateSubscription(subscription)
 
+      let payment: Payment | undefined
       if (formData.paymentStatus === "paid") {
         const paymentId = await storageService.generatePaymentId()
         
@@ -360,7 +366,7 @@ export default function AddMemberDialog({ open, onOpenChange, onMemberAdded }: A
           paymentFor = "both"
         }
         
-        const payment: Payment = {
+        payment = {
           paymentId,
           userId,
           amount: totalAmount,
@@ -371,7 +377,6 @@ export default function AddMemberDialog({ open, onOpenChange, onMemberAdded }: A
           createdAt: now,
           updatedAt: now,
         }
-        await storageService.addPayment(payment)
       }
 
       const medicalHistory: MedicalHistory = {
@@ -391,7 +396,6 @@ export default function AddMemberDialog({ open, onOpenChange, onMemberAdded }: A
         createdAt: now,
         updatedAt: now,
       }
-      await storageService.addMedicalHistory(medicalHistory)
 
       const emergencyContact: EmergencyContact = {
         userId,
@@ -400,7 +404,6 @@ export default function AddMemberDialog({ open, onOpenChange, onMemberAdded }: A
         createdAt: now,
         updatedAt: now,
       }
-      await storageService.addEmergencyContact(emergencyContact)
 
       const liabilityWaiver: LiabilityWaiver = {
         userId,
@@ -409,7 +412,15 @@ export default function AddMemberDialog({ open, onOpenChange, onMemberAdded }: A
         waiverAccepted: formData.waiverAccepted,
         createdAt: now,
       }
-      await storageService.addLiabilityWaiver(liabilityWaiver)
+
+      await storageService.enrollMember({
+        user,
+        subscription,
+        payment,
+        medicalHistory,
+        emergencyContact,
+        liabilityWaiver,
+      })
 
       alert(`Member registered successfully! ID: ${userId}`)
       setCurrentStep(1)
@@ -463,6 +474,13 @@ export default function AddMemberDialog({ open, onOpenChange, onMemberAdded }: A
       onMemberAdded()
     } catch (error) {
       console.error("Error submitting form:", error)
+      if (error instanceof ValidationError) {
+        const details = Object.entries(error.fieldErrors)
+          .map(([field, message]) => `• ${field}: ${message}`)
+          .join("\n")
+        alert(`Please check the member details:\n${details}`)
+        return
+      }
       alert("Failed to register member. Please try again.")
     } finally {
       setIsSubmitting(false)
@@ -197,6 +197,7 @@ export function BulkImportDialog({
       }
 
       const usersToInsert: User[] = []
+      const validRows: { name: string; phone: string; email: string; startDate?: string; endDate?: string }[] = []
       const errors: string[] = []
 
       let imported = 0
@@ -229,7 +230,15 @@ export function BulkImportDialog({
           continue
         }
 
-        const userId = await storageService.generateUserId()
+        validRows.push({ name, phone, email, startDate, endDate })
+      }
+
+      // Reserved up front for the whole file; reserveUserIds asks the server
+      // in blocks of at most 500, so large files keep their ids together.
+      const userIds = validRows.length ? await storageService.reserveUserIds(validRows.length) : []
+
+      for (const [index, { name, phone, email, startDate, endDate }] of validRows.entries()) {
+        const userId = userIds[index]
         const now = new Date().toISOString()
 
         const user: User = {
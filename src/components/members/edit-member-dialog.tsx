@@ -7,7 +7,9 @@ import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
 import { Separator } from "@/components/ui/separator"
-import { storageService } from "@/src/services/storage.service"
+import { Alert, AlertDescription } from "@/components/ui/alert"
+import { AlertTriangle } from "lucide-react"
+import { storageService, UpdateConflictError, ValidationError } from "@/src/services/storage.service"
 import type { User, Subscription } from "@/src/types"
 import { addMonths, format } from "date-fns"
 
@@ -27,15 +29,6 @@ const subscriptionPlans = [
 
 // ==================== DATE UTILITIES ====================
 
-// Format today as dd/mm/yyyy
-function getTodayFormatted(): string {
-  const now = new Date()
-  const day = String(now.getDate()).padStart(2, "0")
-  const month = String(now.getMonth() + 1).padStart(2, "0")
-  const year = now.getFullYear()
-  return `${day}/${month}/${year}`
-}
-
 // Parse dd/mm/yyyy string to Date object
 function parseDate(dateStr: string): Date | null {
   if (!dateStr) return null
@@ -92,6 +85,100 @@ function isoToDMY(iso?: string): string {
   }
 }
 
+// ==================== DERIVED FIELDS ====================
+
+// Age follows the birthday
+function withAge(form: MemberForm): MemberForm {
+  if (!isValidDateString(form.birthday)) return { ...form, age: "" }
+  const birthDate = parseDate(form.birthday)!
+  const today = new Date()
+  let age = today.getFullYear() - birthDate.getFullYear()
+  const monthDiff = today.getMonth() - birthDate.getMonth()
+  if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) age--
+  return { ...form, age: age.toString() }
+}
+
+// The end date follows the plan and the start date
+function withEndDate(data: SubscriptionForm): SubscriptionForm {
+  const plan = subscriptionPlans.find((p) => p.value === data.subscriptionPlan)
+  if (!plan) return data
+  return { ...data, endDate: format(addMonths(new Date(data.startDate), plan.months), "yyyy-MM-dd") }
+}
+
+// ==================== CONFLICT MERGE ====================
+
+type MemberForm = {
+  name: string
+  birthday: string
+  age: string
+  address: string
+  email: string
+  phone: string
+  heightCm: string
+  weightKg: string
+  goal: string
+  programType: string
+}
+
+interface SubscriptionForm {
+  subscriptionPlan: string
+  startDate: string
+  endDate: string
+}
+
+// Age is derived from the birthday, so it never needs merging on its own.
+const mergeableFields: { key: Exclude<keyof MemberForm, "age">; label: string }[] = [
+  { key: "name", label: "Name" },
+  { key: "birthday", label: "Birthday" },
+  { key: "address", label: "Address" },
+  { key: "email", label: "Email" },
+  { key: "phone", label: "Phone Number" },
+  { key: "heightCm", label: "Height (cm)" },
+  { key: "weightKg", label: "Weight (kg)" },
+  { key: "goal", label: "Goal" },
+  { key: "programType", label: "Program Type" },
+]
+
+interface MemberConflict {
+  current: User
+  /** Fields only the other person changed; their value is taken as is. */
+  theirChanges: { key: keyof MemberForm; label: string; theirs: string }[]
+  /** Fields both people changed differently; staff pick which one to keep. */
+  clashes: { key: keyof MemberForm; label: string; theirs: string; yours: string }[]
+}
+
+function userToForm(user: User): MemberForm {
+  return {
+    name: user.name,
+    birthday: isoToDMY(user.birthday),
+    age: user.age?.toString() || "",
+    address: user.address || "",
+    email: user.email || "",
+    phone: user.phone || "",
+    heightCm: user.heightCm?.toString() || "",
+    weightKg: user.weightKg?.toString() || "",
+    goal: user.goal || "",
+    programType: user.programType || "",
+  }
+}
+
+// Three-way comparison against the copy the dialog was opened with.
+function buildConflict(base: User, current: User, yours: MemberForm): MemberConflict {
+  const original = userToForm(base)
+  const theirs = userToForm(current)
+  const conflict: MemberConflict = { current, theirChanges: [], clashes: [] }
+
+  for (const { key, label } of mergeableFields) {
+    if (theirs[key].trim() === original[key].trim()) continue
+    if (yours[key].trim() === original[key].trim()) {
+      conflict.theirChanges.push({ key, label, theirs: theirs[key] })
+    } else if (yours[key].trim() !== theirs[key].trim()) {
+      conflict.clashes.push({ key, label, theirs: theirs[key], yours: yours[key] })
+    }
+  }
+  return conflict
+}
+
 // ==================== DATE INPUT COMPONENT ====================
 
 function DateInput({
@@ -129,7 +216,7 @@ function DateInput({
 }
 
 export function EditMemberDialog({ user, open, onOpenChange, onMemberUpdated }: EditMemberDialogProps) {
-  const [formData, setFormData] = useState({
+  const [formData, setRawFormData] = useState<MemberForm>({
     name: user?.name || "",
     birthday: "",
     age: "",
@@ -141,84 +228,58 @@ export function EditMemberDialog({ user, open, onOpenChange, onMemberUpdated }:
     goal: user?.goal || "",
     programType: user?.programType || "",
   })
-  const [subscription, setSubscription] = useState<Subscription | null>(null)
-  const [subscriptionData, setSubscriptionData] = useState({
+  const [subscriptionData, setRawSubscriptionData] = useState<SubscriptionForm>({
     subscriptionPlan: "1",
     startDate: format(new Date(), "yyyy-MM-dd"),
     endDate: format(addMonths(new Date(), 1), "yyyy-MM-dd"),
   })
   const [errors, setErrors] = useState<{ [key: string]: string }>({})
   const [isLoading, setIsLoading] = useState(false)
-
-  // Calculate age from birthday
-  useEffect(() => {
-    if (isValidDateString(formData.birthday)) {
-      const birthDate = parseDate(formData.birthday)!
-      const today = new Date()
-      let age = today.getFullYear() - birthDate.getFullYear()
-      const monthDiff = today.getMonth() - birthDate.getMonth()
-      if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) age--
-      setFormData(prev => ({ ...prev, age: age.toString() }))
-    } else {
-      setFormData(prev => ({ ...prev, age: "" }))
+  const [baseUser, setBaseUser] = useState<User | null>(user)
+  const [conflict, setConflict] = useState<MemberConflict | null>(null)
+  const [conflictChoices, setConflictChoices] = useState<Partial<Record<keyof MemberForm, "theirs" | "yours">>>({})
+
+  const setFormData = (next: MemberForm) => setRawFormData(withAge(next))
+  const setSubscriptionData = (next: SubscriptionForm) => setRawSubscriptionData(withEndDate(next))
+
+  // Each time the dialog opens, start over from the member as they are.
+  const [openedWith, setOpenedWith] = useState<User | null>(null)
+  const openFor = open ? user : null
+  if (openFor !== openedWith) {
+    setOpenedWith(openFor)
+    if (openFor) {
+      setFormData(userToForm(openFor))
+      setBaseUser(openFor)
+      setConflict(null)
+      setConflictChoices({})
+      setErrors({})
     }
-  }, [formData.birthday])
+  }
 
   useEffect(() => {
-    if (user && open) {
-      setFormData({
-        name: user.name,
-        birthday: isoToDMY(user.birthday),
-        age: user.age?.toString() || "",
-        address: user.address || "",
-        email: user.email || "",
-        phone: user.phone || "",
-        heightCm: user.heightCm?.toString() || "",
-        weightKg: user.weightKg?.toString() || "",
-        goal: user.goal || "",
-        programType: user.programType || "",
+    if (!user || !open) return
+    storageService
+      .getSubscriptionByUserId(user.userId)
+      .then((sub) => {
+        if (!sub) return
+        const start = new Date(sub.startDate)
+        const end = new Date(sub.endDate)
+        const monthsDiff = Math.round((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24 * 30))
+
+        let planValue = "1"
+        if (monthsDiff >= 12) planValue = "12"
+        else if (monthsDiff >= 6) planValue = "6"
+        else if (monthsDiff >= 3) planValue = "3"
+
+        setSubscriptionData({
+          subscriptionPlan: planValue,
+          startDate: format(start, "yyyy-MM-dd"),
+          endDate: format(end, "yyyy-MM-dd"),
+        })
       })
-
-      const loadSubscription = async () => {
-        try {
-          const sub = await storageService.getSubscriptionByUserId(user.userId)
-          setSubscription(sub)
-
-          if (sub) {
-            const start = new Date(sub.startDate)
-            const end = new Date(sub.endDate)
-            const monthsDiff = Math.round((end.getTime() - start.getTime()) / (1000 * 60 * 60 * 24 * 30))
-
-            let planValue = "1"
-            if (monthsDiff >= 12) planValue = "12"
-            else if (monthsDiff >= 6) planValue = "6"
-            else if (monthsDiff >= 3) planValue = "3"
-
-            setSubscriptionData({
-              subscriptionPlan: planValue,
-              startDate: format(start, "yyyy-MM-dd"),
-              endDate: format(end, "yyyy-MM-dd"),
-            })
-          }
-        } catch (error) {
-          console.error("Error loading subscription:", error)
-        }
-      }
-
-      loadSubscription()
-      setErrors({})
-    }
+      .catch((error) => console.error("Error loading subscription:", error))
   }, [user, open])
 
-  useEffect(() => {
-    const plan = subscriptionPlans.find((p) => p.value === subscriptionData.subscriptionPlan)
-    if (plan) {
-      const start = new Date(subscriptionData.startDate)
-      const end = addMonths(start, plan.months)
-      setSubscriptionData((prev) => ({ ...prev, endDate: format(end, "yyyy-MM-dd") }))
-    }
-  }, [subscriptionData.subscriptionPlan, subscriptionData.startDate])
-
   const validateForm = (): boolean => {
     const newErrors: { [key: string]: string } = {}
 
@@ -240,12 +301,26 @@ export function EditMemberDialog({ user, open, onOpenChange, onMemberUpdated }:
     return Object.keys(newErrors).length === 0
   }
 
+  const applyMerge = () => {
+    if (!conflict) return
+    const merged = { ...formData }
+    for (const change of conflict.theirChanges) merged[change.key] = change.theirs
+    for (const clash of conflict.clashes) {
+      merged[clash.key] = conflictChoices[clash.key] === "theirs" ? clash.theirs : clash.yours
+    }
+    setFormData(merged)
+    // The next save is checked against the version we just merged with.
+    setBaseUser(conflict.current)
+    setConflict(null)
+    setConflictChoices({})
+  }
+
   const handleSubmit = async () => {
     if (!user || !validateForm()) return
 
     setIsLoading(true)
     try {
-      // Update user profile
+      // Update user profile, unless someone else saved it since we opened it
       await storageService.updateUser(user.userId, {
         name: formData.name.trim(),
         birthday: isValidDateString(formData.birthday) ? parseDate(formData.birthday)!.toISOString() : undefined,
@@ -257,7 +332,7 @@ export function EditMemberDialog({ user, open, onOpenChange, onMemberUpdated }:
         weightKg: formData.weightKg ? parseFloat(formData.weightKg) : undefined,
         goal: formData.goal.trim() || undefined,
         programType: formData.programType.trim() || undefined,
-      })
+      }, baseUser?.updatedAt)
 
       // Create new subscription with updated dates
       const newSubscription: Subscription = {
@@ -272,6 +347,19 @@ export function EditMemberDialog({ user, open, onOpenChange, onMemberUpdated }:
       onMemberUpdated()
       onOpenChange(false)
     } catch (error) {
+      if (error instanceof UpdateConflictError) {
+        if (error.current && baseUser) {
+          setConflict(buildConflict(baseUser, error.current as User, formData))
+        } else {
+          alert("This member was deleted by someone else.")
+        }
+        return
+      }
+      if (error instanceof ValidationError) {
+        // Server-side schema errors use the same field names as the form.
+        setErrors(error.fieldErrors)
+        return
+      }
       console.error("Error updating member:", error)
       alert("Failed to update member")
     } finally {
@@ -287,6 +375,70 @@ export function EditMemberDialog({ user, open, onOpenChange, onMemberUpdated }:
         </DialogHeader>
 
         <div className="space-y-4 py-4">
+          {conflict && (
+            <Alert className="bg-amber-500/10 border-amber-500/40">
+              <AlertTriangle className="h-4 w-4 text-amber-600" />
+              <AlertDescription>
+                <div className="space-y-3 w-full">
+                  <p className="font-medium text-foreground">
+                    Someone else saved this member while you were editing.
+                  </p>
+
+                  {conflict.theirChanges.length > 0 && (
+                    <div className="space-y-1">
+                      <p className="text-xs">Their changes will be kept:</p>
+                      {conflict.theirChanges.map((change) => (
+                        <p key={change.key} className="text-xs">
+                          <span className="font-medium">{change.label}:</span> {change.theirs || "(empty)"}
+                        </p>
+                      ))}
+                    </div>
+                  )}
+
+                  {conflict.clashes.length > 0 && (
+                    <div className="space-y-2">
+                      <p className="text-xs">You both changed these fields. Choose which value to keep:</p>
+                      {conflict.clashes.map((clash) => {
+                        const choice = conflictChoices[clash.key] || "yours"
+                        return (
+                          <div key={clash.key} className="space-y-1">
+                            <p className="text-xs font-medium">{clash.label}</p>
+                            <div className="flex gap-2 flex-wrap">
+                              <Button
+                                type="button"
+                                size="sm"
+                                variant={choice === "yours" ? "default" : "outline"}
+                                onClick={() => setConflictChoices({ ...conflictChoices, [clash.key]: "yours" })}
+                              >
+                                Yours: {clash.yours || "(empty)"}
+                              </Button>
+                              <Button
+                                type="button"
+                                size="sm"
+                                variant={choice === "theirs" ? "default" : "outline"}
+                                onClick={() => setConflictChoices({ ...conflictChoices, [clash.key]: "theirs" })}
+                              >
+                                Theirs: {clash.theirs || "(empty)"}
+                              </Button>
+                            </div>
+                          </div>
+                        )
+                      })}
+                    </div>
+                  )}
+
+                  {conflict.theirChanges.length === 0 && conflict.clashes.length === 0 && (
+                    <p className="text-xs">Their changes don&apos;t overlap with the profile fields you edited.</p>
+                  )}
+
+                  <Button type="button" size="sm" onClick={applyMerge}>
+                    Use Merged Values
+                  </Button>
+                </div>
+              </AlertDescription>
+            </Alert>
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="userId">User ID</Label>
             <Input id="userId" value={user?.userId || ""} disabled className="font-mono bg-muted" />
@@ -309,6 +461,7 @@ export function EditMemberDialog({ user, open, onOpenChange, onMemberUpdated }:
               value={formData.birthday}
               onChange={(value) => setFormData({ ...formData, birthday: value })}
             />
+            {errors.birthday && <p className="text-sm text-destructive">{errors.birthday}</p>}
             <div className="space-y-2">
               <Label>Age</Label>
               <Input value={formData.age} disabled placeholder="Auto-calculated" className="bg-muted" />
@@ -362,6 +515,7 @@ export function EditMemberDialog({ user, open, onOpenChange, onMemberUpdated }:
                 onChange={(e) => setFormData({ ...formData, heightCm: e.target.value })}
                 placeholder="170"
               />
+              {errors.heightCm && <p className="text-sm text-destructive">{errors.heightCm}</p>}
             </div>
             <div className="space-y-2">
               <Label htmlFor="weightKg">Weight (kg)</Label>
@@ -375,6 +529,7 @@ export function EditMemberDialog({ user, open, onOpenChange, onMemberUpdated }:
                 onChange={(e) => setFormData({ ...formData, weightKg: e.target.value })}
                 placeholder="70"
               />
+              {errors.weightKg && <p className="text-sm text-destructive">{errors.weightKg}</p>}
             </div>
           </div>
 
@@ -444,7 +599,7 @@ export function EditMemberDialog({ user, open, onOpenChange, onMemberUpdated }:
           <Button variant="outline" onClick={() => onOpenChange(false)}>
             Cancel
           </Button>
-          <Button onClick={handleSubmit} disabled={isLoading}>
+          <Button onClick={handleSubmit} disabled={isLoading || !!conflict}>
             {isLoading ? "Saving..." : "Save Changes"}
           </Button>
         </DialogFooter>
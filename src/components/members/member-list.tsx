@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import type { User, Subscription } from "@/src/types"
 import { storageService } from "@/src/services/storage.service"
 import { subscriptionService } from "@/src/services/subscription.service"
@@ -18,6 +18,8 @@ import {
   Download,
   MoreVertical,
   Filter,
+  Archive,
+  ArchiveRestore,
 } from "lucide-react"
 import { QRCodeDisplay } from "../qr/qr-code-display"
 import {
@@ -31,6 +33,8 @@ import { ViewMemberDialog } from "./view-member-dialog"
 import { SubscriptionHistoryDialog } from "./subscription-history-dialog"
 import { ScanHistoryDialog } from "./scan-history-dialog"
 import { RenewMemberDialog } from "./renew-member-dialog"
+import { useDataChanges } from "@/src/hooks/use-data-changes"
+import { usePermission } from "@/src/hooks/use-session"
 
 import {
   DropdownMenu,
@@ -52,95 +56,110 @@ interface MemberListProps {
   onUpdate: () => void
 }
 
-export function MemberList({ users, onUpdate }: MemberListProps) {
-  const [searchTerm, setSearchTerm] = useState("")
-  const [statusFilter, setStatusFilter] = useState<"all" | "active" | "expired">("all")
-  const [planFilter, setPlanFilter] = useState<string>("all")
-  const [membershipTypeFilter, setMembershipTypeFilter] = useState<string>("all")
-  const [filteredUsers, setFilteredUsers] = useState<User[]>(users)
-  const [selectedUser, setSelectedUser] = useState<User | null>(null)
-  const [showQR, setShowQR] = useState(false)
-  const [showEdit, setShowEdit] = useState(false)
-  const [showView, setShowView] = useState(false)
-  const [showHistory, setShowHistory] = useState(false)
-  const [showScanHistory, setShowScanHistory] = useState(false)
-  const [showRenew, setShowRenew] = useState(false)
-  const [subscriptionCache, setSubscriptionCache] =
-    useState<Map<string, Subscription | null>>(new Map())
-  const [renewalStats, setRenewalStats] =
-    useState<Map<string, { totalRecords: number; totalRenewals: number }>>(new Map())
+const normalizeValue = (value?: string | null) =>
+  (value || "").toLowerCase().replace(/[\s_-]+/g, "")
 
-  const normalizeValue = (value?: string | null) =>
-    (value || "").toLowerCase().replace(/[\s_-]+/g, "")
+const toSearchText = (value: unknown) =>
+  String(value ?? "").toLowerCase()
 
-  const toSearchText = (value: unknown) =>
-    String(value ?? "").toLowerCase()
+const getMembershipCategory = (
+  subscription: Subscription | null | undefined
+): "monthly" | "daily" | "walkin" | "unknown" => {
+  if (!subscription) return "unknown"
 
-  const getMembershipCategory = (
-    subscription: Subscription | null | undefined
-  ): "monthly" | "daily" | "walkin" | "unknown" => {
-    if (!subscription) return "unknown"
+  const planDuration = normalizeValue(subscription.planDuration)
+  const membershipType = normalizeValue(subscription.membershipType)
 
-    const planDuration = normalizeValue(subscription.planDuration)
-    const membershipType = normalizeValue(subscription.membershipType)
+  if (planDuration === "daily" || membershipType === "daily") return "daily"
+  if (planDuration === "walkin" || membershipType === "walkin") return "walkin"
 
-    if (planDuration === "daily" || membershipType === "daily") return "daily"
-    if (planDuration === "walkin" || membershipType === "walkin") return "walkin"
+  const start = new Date(subscription.startDate)
+  const end = new Date(subscription.endDate)
+  const durationHours = (end.getTime() - start.getTime()) / (1000 * 60 * 60)
+  const isEndOfDay =
+    end.getHours() === 23 && end.getMinutes() === 59 && end.getSeconds() === 59
 
-    const start = new Date(subscription.startDate)
-    const end = new Date(subscription.endDate)
-    const durationHours = (end.getTime() - start.getTime()) / (1000 * 60 * 60)
-    const isEndOfDay =
-      end.getHours() === 23 && end.getMinutes() === 59 && end.getSeconds() === 59
+  if (
+    (end.getHours() === 0 && end.getMinutes() === 0 && durationHours <= 24) ||
+    (isEndOfDay && durationHours <= 24)
+  ) {
+    return "daily"
+  }
 
-    if (
-      (end.getHours() === 0 && end.getMinutes() === 0 && durationHours <= 24) ||
-      (isEndOfDay && durationHours <= 24)
-    ) {
-      return "daily"
-    }
+  const months =
+    (end.getFullYear() - start.getFullYear()) * 12 +
+    (end.getMonth() - start.getMonth())
+
+  if ([1, 6, 12].includes(months)) return "monthly"
+  return "walkin"
+}
+
+const matchesPlanFilter = (
+  subscription: Subscription | null | undefined,
+  filter: string
+) => {
+  if (filter === "all") return true
 
-    const months =
-      (end.getFullYear() - start.getFullYear()) * 12 +
-      (end.getMonth() - start.getMonth())
+  const planDuration = normalizeValue(subscription?.planDuration)
 
-    if ([1, 6, 12].includes(months)) return "monthly"
-    return "walkin"
+  if (filter === "monthly") {
+    return getMembershipCategory(subscription) === "monthly"
   }
 
-  const matchesPlanFilter = (
-    subscription: Subscription | null | undefined,
-    filter: string
-  ) => {
-    if (filter === "all") return true
+  if (filter === "daily") {
+    return getMembershipCategory(subscription) === "daily"
+  }
 
-    const planDuration = normalizeValue(subscription?.planDuration)
+  if (filter === "walk-in") {
+    return getMembershipCategory(subscription) === "walkin"
+  }
 
-    if (filter === "monthly") {
-      return getMembershipCategory(subscription) === "monthly"
-    }
+  return planDuration === normalizeValue(filter)
+}
 
-    if (filter === "daily") {
-      return getMembershipCategory(subscription) === "daily"
-    }
+const getSubscriptionTime = (subscription: Subscription) =>
+  new Date(subscription.createdAt || subscription.startDate || subscription.endDate).getTime()
 
-    if (filter === "walk-in") {
-      return getMembershipCategory(subscription) === "walkin"
-    }
+const getLatestSubscription = (subscriptions: Subscription[]) =>
+  subscriptions.reduce<Subscription | null>((latest, subscription) => {
+    if (!latest) return subscription
+    return getSubscriptionTime(subscription) > getSubscriptionTime(latest)
+      ? subscription
+      : latest
+  }, null)
 
-    return planDuration === normalizeValue(filter)
-  }
+const isActive = (sub: Subscription | null | undefined) =>
+  subscriptionService.isSubscriptionActive(sub ?? null)
+
+export function MemberList({ users, onUpdate }: MemberListProps) {
+  const [searchTerm, setSearchTerm] = useState("")
+  const [statusFilter, setStatusFilter] = useState<"all" | "active" | "expired">("all")
+  const [planFilter, setPlanFilter] = useState<string>("all")
+  const [membershipTypeFilter, setMembershipTypeFilter] = useState<string>("all")
+  const [selectedUser, setSelectedUser] = useState<User | null>(null)
+  const [showQR, setShowQR] = useState(false)
+  const [showEdit, setShowEdit] = useState(false)
+  const [showView, setShowView] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const [showScanHistory, setShowScanHistory] = useState(false)
+  const [showRenew, setShowRenew] = useState(false)
+  const [showArchived, setShowArchived] = useState(false)
+  const canEdit = usePermission("members.edit")
+  // Archiving, restoring and deleting all go through `members.delete`.
+  const canRemove = usePermission("members.delete")
+  const [archivedUsers, setArchivedUsers] = useState<User[]>([])
+  const [subscriptionsVersion, setSubscriptionsVersion] = useState(0)
+  const [subscriptionCache, setSubscriptionCache] =
+    useState<Map<string, Subscription | null>>(new Map())
+  const [renewalStats, setRenewalStats] =
+    useState<Map<string, { totalRecords: number; totalRenewals: number }>>(new Map())
 
-  const getSubscriptionTime = (subscription: Subscription) =>
-    new Date(subscription.createdAt || subscription.startDate || subscription.endDate).getTime()
+  const listedUsers = showArchived ? archivedUsers : users
 
-  const getLatestSubscription = (subscriptions: Subscription[]) =>
-    subscriptions.reduce<Subscription | null>((latest, subscription) => {
-      if (!latest) return subscription
-      return getSubscriptionTime(subscription) > getSubscriptionTime(latest)
-        ? subscription
-        : latest
-    }, null)
+  /* ---------------- ARCHIVED MEMBERS ---------------- */
+  useEffect(() => {
+    if (showArchived) storageService.getArchivedUsers().then(setArchivedUsers)
+  }, [showArchived, users])
 
   /* ---------------- OPTIMIZED SUBSCRIPTIONS CACHE ---------------- */
   useEffect(() => {
@@ -182,7 +201,7 @@ export function MemberList({ users, onUpdate }: MemberListProps) {
       }
       
       // Add null entries for users without subscriptions
-      for (const user of users) {
+      for (const user of listedUsers) {
         if (!cache.has(user.userId)) {
           cache.set(user.userId, null)
         }
@@ -192,52 +211,51 @@ export function MemberList({ users, onUpdate }: MemberListProps) {
       setRenewalStats(nextRenewalStats)
     }
     loadSubscriptions()
-  }, [users])
+  }, [listedUsers, subscriptionsVersion])
+
+  useDataChanges(["subscriptions", "subscription_history"], () =>
+    setSubscriptionsVersion((version) => version + 1)
+  )
 
   /* ---------------- SEARCH & FILTER ---------------- */
-  useEffect(() => {
+  const filteredUsers = useMemo(() => {
     const term = toSearchText(searchTerm)
     
-    setFilteredUsers(
-      users.filter((u) => {
-        // Search filter
-        const matchesSearch =
-          toSearchText(u.name).includes(term) ||
-          toSearchText(u.email).includes(term) ||
-          toSearchText(u.phone).includes(term) ||
-          toSearchText(u.userId).includes(term)
-        
-        if (!matchesSearch) return false
-        
-        const sub = subscriptionCache.get(u.userId)
-        const active = isActive(sub)
-        
-        // Status filter
-        if (statusFilter === "active" && !active) return false
-        if (statusFilter === "expired" && active) return false
-        
-        if (!matchesPlanFilter(sub, planFilter)) return false
-        
-        // Membership type filter
-        if (membershipTypeFilter !== "all") {
-          if (membershipTypeFilter === "renewed") {
-            return (renewalStats.get(u.userId)?.totalRecords || 0) > 1
-          }
-
-          if (!sub?.membershipType || sub.membershipType !== membershipTypeFilter) return false
+    return listedUsers.filter((u) => {
+      // Search filter
+      const matchesSearch =
+        toSearchText(u.name).includes(term) ||
+        toSearchText(u.email).includes(term) ||
+        toSearchText(u.phone).includes(term) ||
+        toSearchText(u.userId).includes(term)
+      
+      if (!matchesSearch) return false
+      
+      const sub = subscriptionCache.get(u.userId)
+      const active = isActive(sub)
+      
+      // Status filter
+      if (statusFilter === "active" && !active) return false
+      if (statusFilter === "expired" && active) return false
+      
+      if (!matchesPlanFilter(sub, planFilter)) return false
+      
+      // Membership type filter
+      if (membershipTypeFilter !== "all") {
+        if (membershipTypeFilter === "renewed") {
+          return (renewalStats.get(u.userId)?.totalRecords || 0) > 1
         }
-        
-        return true
-      })
-    )
-  }, [searchTerm, statusFilter, planFilter, membershipTypeFilter, users, subscriptionCache, renewalStats])
+
+        if (!sub?.membershipType || sub.membershipType !== membershipTypeFilter) return false
+      }
+      
+      return true
+    })
+  }, [searchTerm, statusFilter, planFilter, membershipTypeFilter, listedUsers, subscriptionCache, renewalStats])
 
   const getSubscription = (userId: string): Subscription | null =>
     subscriptionCache.get(userId) ?? null
 
-  const isActive = (sub: Subscription | null | undefined) =>
-    subscriptionService.isSubscriptionActive(sub ?? null)
-
   const getEffectiveSubscriptionStatus = (sub: Subscription | null | undefined) => {
     if (!sub) return "No Subscription"
     if (sub.status === "cancelled") return "Cancelled"
@@ -288,10 +306,35 @@ export function MemberList({ users, onUpdate }: MemberListProps) {
   const hasActiveFilters = statusFilter !== "all" || planFilter !== "all" || membershipTypeFilter !== "all" || searchTerm !== ""
 
   /* ---------------- ACTIONS ---------------- */
-  const handleDelete = async (userId: string) => {
-    if (!confirm("Delete this member?")) return
-    await storageService.deleteUser(userId)
-    onUpdate()
+  const handleArchive = async (user: User) => {
+    if (!confirm(`Archive ${user.name}? They will be hidden from the list and unable to scan in. Payments and history are kept.`)) return
+    try {
+      await storageService.archiveUser(user.userId)
+      onUpdate()
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to archive member")
+    }
+  }
+
+  const handleRestore = async (user: User) => {
+    try {
+      await storageService.restoreUser(user.userId)
+      onUpdate()
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to restore member")
+    }
+  }
+
+  const handleDelete = async (user: User) => {
+    if (!confirm(`Permanently delete ${user.name}? This removes their subscriptions, payments, scan logs and history and cannot be undone.`)) return
+    try {
+      const deleted = await storageService.deleteUser(user.userId)
+      const total = Object.values(deleted).reduce((sum, count) => sum + (count || 0), 0)
+      alert(`Deleted ${user.name} and ${Math.max(0, total - 1)} related record(s).`)
+      onUpdate()
+    } catch (error) {
+      alert(error instanceof Error ? error.message : "Failed to delete member")
+    }
   }
 
   const handleNameClick = (user: User) => {
@@ -383,7 +426,7 @@ export function MemberList({ users, onUpdate }: MemberListProps) {
       {/* Filters */}
       <div className="mb-4 flex gap-2 md:gap-3 flex-wrap items-center">
         {/* Status Filter */}
-        <Select value={statusFilter} onValueChange={(v: any) => setStatusFilter(v)}>
+        <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as typeof statusFilter)}>
           <SelectTrigger className="w-full sm:w-[140px]">
             <Filter className="w-4 h-4 mr-2" />
             <SelectValue placeholder="Status" />
@@ -436,12 +479,22 @@ export function MemberList({ users, onUpdate }: MemberListProps) {
 
         {/* Results Count */}
         <div className="flex items-center text-xs sm:text-sm text-muted-foreground w-full sm:w-auto sm:ml-auto">
-          Showing {filteredUsers.length} of {users.length} members
+          Showing {filteredUsers.length} of {listedUsers.length} {showArchived ? "archived members" : "members"}
         </div>
       </div>
 
       {/* Bulk Download */}
-      <div className="mb-4 flex justify-end">
+      <div className="mb-4 flex justify-end gap-2">
+        {canRemove && (
+          <Button
+            variant={showArchived ? "secondary" : "outline"}
+            size="sm"
+            onClick={() => setShowArchived((value) => !value)}
+          >
+            <Archive className="w-4 h-4 mr-2" />
+            {showArchived ? "Show Members" : "Show Archived"}
+          </Button>
+        )}
         <Button variant="outline" size="sm" onClick={downloadTotalHoursCSV}>
           <Download className="w-4 h-4 mr-2" />
           <span className="hidden sm:inline">Download Total Hours (CSV)</span>
@@ -472,9 +525,15 @@ export function MemberList({ users, onUpdate }: MemberListProps) {
                     <span className="text-xs sm:text-sm text-muted-foreground font-mono truncate max-w-[120px] sm:max-w-none">
                       {user.userId}
                     </span>
-                    <Badge variant={active ? "default" : "destructive"} className="text-xs">
-                      {active ? "Active" : "Expired"}
-                    </Badge>
+                    {user.archivedAt ? (
+                      <Badge variant="outline" className="text-xs">
+                        Archived {formatDate(user.archivedAt)}
+                      </Badge>
+                    ) : (
+                      <Badge variant={active ? "default" : "destructive"} className="text-xs">
+                        {active ? "Active" : "Expired"}
+                      </Badge>
+                    )}
                     {/* Only show planDuration badge */}
 {sub?.planDuration && (
   <Badge variant="secondary" className="text-xs">
@@ -541,58 +600,94 @@ export function MemberList({ users, onUpdate }: MemberListProps) {
                   </DropdownMenuTrigger>
 
                   <DropdownMenuContent align="end" className="w-56">
-                    <DropdownMenuItem
-                      onClick={() => {
-                        setSelectedUser(user)
-                        setShowEdit(true)
-                      }}
-                    >
-                      <Edit className="mr-2 w-4 h-4" /> Edit
-                    </DropdownMenuItem>
-
-                    <DropdownMenuItem
-                      onClick={() => {
-                        setSelectedUser(user)
-                        setShowHistory(true)
-                      }}
-                    >
-                      <History className="mr-2 w-4 h-4" />
-                      Subscription History
-                    </DropdownMenuItem>
-
-                    <DropdownMenuItem
-                      onClick={() => {
-                        setSelectedUser(user)
-                        setShowQR(true)
-                      }}
-                    >
-                      <QrCode className="mr-2 w-4 h-4" /> QR Code
-                    </DropdownMenuItem>
-
-                    <DropdownMenuItem
-                      onClick={() => {
-                        setSelectedUser(user)
-                        setShowRenew(true)
-                      }}
-                    >
-                      <RotateCw className="mr-2 w-4 h-4" /> Renew
-                    </DropdownMenuItem>
-
-                    <DropdownMenuItem
-                      onClick={() => {
-                        setSelectedUser(user)
-                        setShowScanHistory(true)
-                      }}
-                    >
-                      <Clock className="mr-2 w-4 h-4" /> Scan History
-                    </DropdownMenuItem>
-
-                    <DropdownMenuItem
-                      onClick={() => handleDelete(user.userId)}
-                      className="text-red-600"
-                    >
-                      <Trash2 className="mr-2 w-4 h-4" /> Delete
-                    </DropdownMenuItem>
+                    {user.archivedAt ? (
+                      <>
+                        {canRemove && (
+                          <DropdownMenuItem onClick={() => handleRestore(user)}>
+                            <ArchiveRestore className="mr-2 w-4 h-4" /> Restore
+                          </DropdownMenuItem>
+                        )}
+
+                        <DropdownMenuItem
+                          onClick={() => {
+                            setSelectedUser(user)
+                            setShowScanHistory(true)
+                          }}
+                        >
+                          <Clock className="mr-2 w-4 h-4" /> Scan History
+                        </DropdownMenuItem>
+
+                        {canRemove && (
+                          <DropdownMenuItem
+                            onClick={() => handleDelete(user)}
+                            className="text-red-600"
+                          >
+                            <Trash2 className="mr-2 w-4 h-4" /> Delete Permanently
+                          </DropdownMenuItem>
+                        )}
+                      </>
+                    ) : (
+                      <>
+                        {canEdit && (
+                          <DropdownMenuItem
+                            onClick={() => {
+                              setSelectedUser(user)
+                              setShowEdit(true)
+                            }}
+                          >
+                            <Edit className="mr-2 w-4 h-4" /> Edit
+                          </DropdownMenuItem>
+                        )}
+
+                        <DropdownMenuItem
+                          onClick={() => {
+                            setSelectedUser(user)
+                            setShowHistory(true)
+                          }}
+                        >
+                          <History className="mr-2 w-4 h-4" />
+                          Subscription History
+                        </DropdownMenuItem>
+
+                        <DropdownMenuItem
+                          onClick={() => {
+                            setSelectedUser(user)
+                            setShowQR(true)
+                          }}
+                        >
+                          <QrCode className="mr-2 w-4 h-4" /> QR Code
+                        </DropdownMenuItem>
+
+                        {canEdit && (
+                          <DropdownMenuItem
+                            onClick={() => {
+                              setSelectedUser(user)
+                              setShowRenew(true)
+                            }}
+                          >
+                            <RotateCw className="mr-2 w-4 h-4" /> Renew
+                          </DropdownMenuItem>
+                        )}
+
+                        <DropdownMenuItem
+                          onClick={() => {
+                            setSelectedUser(user)
+                            setShowScanHistory(true)
+                          }}
+                        >
+                          <Clock className="mr-2 w-4 h-4" /> Scan History
+                        </DropdownMenuItem>
+
+                        {canRemove && (
+                          <DropdownMenuItem
+                            onClick={() => handleArchive(user)}
+                            className="text-red-600"
+                          >
+                            <Archive className="mr-2 w-4 h-4" /> Archive
+                          </DropdownMenuItem>
+                        )}
+                      </>
+                    )}
                   </DropdownMenuContent>
                 </DropdownMenu>
               </div>
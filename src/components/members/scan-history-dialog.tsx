@@ -39,23 +39,22 @@ export function ScanHistoryDialog({
   const [scanLogs, setScanLogs] = useState<ScanLog[]>([])
   const [isLoading, setIsLoading] = useState(false)
 
+  // Loading shows again each time the dialog opens for a member.
+  const [openedFor, setOpenedFor] = useState<string | null>(null)
+  const openFor = open ? userId : null
+  if (openFor !== openedFor) {
+    setOpenedFor(openFor)
+    if (openFor) setIsLoading(true)
+  }
+
   useEffect(() => {
     if (!userId || !open) return
 
-    setIsLoading(true)
-
-    const loadData = async () => {
-      try {
-        const logs = await storageService.getScanLogsByUserId(userId)
-        setScanLogs(logs)
-      } catch (error) {
-        console.error("Error loading scan history:", error)
-      } finally {
-        setIsLoading(false)
-      }
-    }
-
-    loadData()
+    storageService
+      .getScanLogsByUserId(userId)
+      .then(setScanLogs)
+      .catch((error) => console.error("Error loading scan history:", error))
+      .finally(() => setIsLoading(false))
   }, [userId, open])
 
   return (
@@ -19,6 +19,14 @@ export function SubscriptionHistoryDialog({ userId, userName, open, onOpenChange
   const [currentSubscription, setCurrentSubscription] = useState<Subscription | null>(null)
   const [isLoading, setIsLoading] = useState(false)
 
+  // Loading shows again each time the dialog opens for a member.
+  const [openedFor, setOpenedFor] = useState<string | null>(null)
+  const openFor = open ? userId : null
+  if (openFor !== openedFor) {
+    setOpenedFor(openFor)
+    if (openFor) setIsLoading(true)
+  }
+
   const allSubscriptionRecords = [
     ...(currentSubscription
       ? [{
@@ -63,24 +71,14 @@ export function SubscriptionHistoryDialog({ userId, userName, open, onOpenChange
     status === "active" ? "default" : "destructive"
 
   useEffect(() => {
-    if (userId && open) {
-      setIsLoading(true)
-      const loadData = async () => {
-        try {
-          const historyData = await storageService.getSubscriptionHistory(userId)
-          setHistory(historyData)
-
-          const currentSub = await storageService.getSubscriptionByUserId(userId)
-          setCurrentSubscription(currentSub)
-        } catch (error) {
-          console.error("Error loading subscription history:", error)
-        } finally {
-          setIsLoading(false)
-        }
-      }
+    if (!userId || !open) return
 
-      loadData()
-    }
+    Promise.all([
+      storageService.getSubscriptionHistory(userId).then(setHistory),
+      storageService.getSubscriptionByUserId(userId).then(setCurrentSubscription),
+    ])
+      .catch((error) => console.error("Error loading subscription history:", error))
+      .finally(() => setIsLoading(false))
   }, [userId, open])
 
   return (
@@ -11,11 +11,12 @@ import { Badge } from "@/components/ui/badge"
 import { Separator } from "@/components/ui/separator"
 import { storageService } from "@/src/services/storage.service"
 import { subscriptionService } from "@/src/services/subscription.service"
+import { usePermission } from "@/src/hooks/use-session"
 import type { User, Subscription, MedicalHistory, EmergencyContact, LiabilityWaiver } from "@/src/types"
 import { 
   Mail, Phone, Ruler, Weight, Calendar, Clock, UserCircle, 
   MapPin, Target, Briefcase, CreditCard, UserCheck, Heart, 
-  Activity, Shield, AlertCircle, Cake
+  Shield, AlertCircle, Cake
 } from "lucide-react"
 
 interface ViewMemberDialogProps {
@@ -29,13 +30,14 @@ export function ViewMemberDialog({ user, open, onOpenChange }: ViewMemberDialogP
   const [medicalHistory, setMedicalHistory] = useState<MedicalHistory | null>(null)
   const [emergencyContact, setEmergencyContact] = useState<EmergencyContact | null>(null)
   const [liabilityWaiver, setLiabilityWaiver] = useState<LiabilityWaiver | null>(null)
+  const canViewMedical = usePermission("medical.view")
 
   useEffect(() => {
     if (user && open) {
       const loadData = async () => {
         const [sub, medical, emergency, waiver] = await Promise.all([
           storageService.getSubscriptionByUserId(user.userId),
-          storageService.getMedicalHistory(user.userId),
+          canViewMedical ? storageService.getMedicalHistory(user.userId) : null,
           storageService.getEmergencyContact(user.userId),
           storageService.getLiabilityWaiver(user.userId),
         ])
@@ -46,7 +48,7 @@ export function ViewMemberDialog({ user, open, onOpenChange }: ViewMemberDialogP
       }
       loadData()
     }
-  }, [user, open])
+  }, [user, open, canViewMedical])
 
   if (!user) return null
 
@@ -62,18 +64,6 @@ export function ViewMemberDialog({ user, open, onOpenChange }: ViewMemberDialogP
     })
   }
 
-  const calculateAge = (birthday?: string) => {
-    if (!birthday) return null
-    const birthDate = new Date(birthday)
-    const today = new Date()
-    let age = today.getFullYear() - birthDate.getFullYear()
-    const monthDiff = today.getMonth() - birthDate.getMonth()
-    if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birthDate.getDate())) {
-      age--
-    }
-    return age
-  }
-
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
@@ -269,7 +259,7 @@ export function ViewMemberDialog({ user, open, onOpenChange }: ViewMemberDialogP
           </div>
 
           {/* Medical History */}
-          {medicalHistory && (
+          {canViewMedical && medicalHistory && (
             <>
               <Separator />
               <div className="space-y-3">
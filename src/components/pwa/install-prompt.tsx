@@ -1,6 +1,7 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import Image from "next/image"
 import { X } from "lucide-react"
 
 interface BeforeInstallPromptEvent extends Event {
@@ -48,9 +49,11 @@ export function InstallPrompt() {
   return (
     <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-md animate-in slide-in-from-bottom-4 duration-300">
       <div className="flex items-center gap-3 rounded-xl border border-[#d4a843]/30 bg-[#1a1a1a] px-4 py-3 shadow-2xl">
-        <img
+        <Image
           src="/logo.png"
           alt="BaCasFitness"
+          width={40}
+          height={40}
           className="h-10 w-10 rounded-lg object-contain"
         />
 
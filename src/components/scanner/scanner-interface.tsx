@@ -41,8 +41,9 @@ import {
   CreditCard,
 } from "lucide-react"
 import { useQRScanner } from "@/src/hooks/use-qr-scanner"
+import { useDataChanges } from "@/src/hooks/use-data-changes"
 import { accessService } from "@/src/services/access.service"
-import { storageService } from "@/src/services/storage.service"
+import { storageService, ValidationError } from "@/src/services/storage.service"
 import { subscriptionService } from "@/src/services/subscription.service"
 import { offlineQueue } from "@/src/services/offline-queue.service"
 import type { ScanLog, Subscription, SubscriptionHistory, User as UserType, Payment } from "@/src/types"
@@ -53,7 +54,6 @@ import {
   startOfMonth,
   startOfYear,
   addMonths,
-  addDays,
 } from "date-fns"
 
 // ─── Payment types ────────────────────────────────────────────────────────────
@@ -211,6 +211,172 @@ const getSubscriptionMetadataForPlan = (
   }
 }
 
+const emptyPaymentForm = (): PaymentForm => ({
+  payment_method:   "",
+  payment_for:      "membership",
+  reference_number: "",
+  notes:            "",
+})
+
+// ─── Member stats ─────────────────────────────────────────────────────────────
+const getMembershipType = (subscription: Subscription | null): MembershipType => {
+  if (!subscription) return "unknown"
+  const normalize = (value?: string | null) => (value || "").toLowerCase().replace(/[\s_-]+/g, "")
+  const planDuration = normalize(subscription.planDuration)
+  const membershipType = normalize(subscription.membershipType)
+  if (planDuration === "daily" || membershipType === "daily") return "daily"
+  if (planDuration === "walkin" || membershipType === "walkin") return "walkin"
+
+  const start = new Date(subscription.startDate)
+  const end   = new Date(subscription.endDate)
+  const durationHours = (end.getTime() - start.getTime()) / (1000 * 60 * 60)
+  const isEndOfDay =
+    end.getHours() === 23 && end.getMinutes() === 59 && end.getSeconds() === 59
+  if ((end.getHours() === 0 && end.getMinutes() === 0 && durationHours <= 24) || (isEndOfDay && durationHours <= 24)) {
+    return "daily"
+  }
+  const months =
+    (end.getFullYear() - start.getFullYear()) * 12 + (end.getMonth() - start.getMonth())
+  if ([1, 6, 12].includes(months)) return "monthly"
+  return "walkin"
+}
+
+const getSubscriptionTypeKey = (
+  subscription: Pick<Subscription, "startDate" | "endDate"> & Partial<Pick<Subscription, "planDuration" | "membershipType">>
+): SubscriptionTypeKey => {
+  const normalize = (value?: string | null) => (value || "").toLowerCase().replace(/[\s_-]+/g, "")
+  const planDuration = normalize(subscription.planDuration)
+  const membershipType = normalize(subscription.membershipType)
+
+  if (planDuration === "daily" || membershipType === "daily") return "daily"
+  if (planDuration === "walkin" || membershipType === "walkin") return "walkin"
+  if (planDuration === "1month" || planDuration === "1m") return "1month"
+  if (planDuration === "6months" || planDuration === "6m") return "6months"
+  if (["12months", "12month", "1year", "1y"].includes(planDuration)) return "1year"
+
+  const start = new Date(subscription.startDate)
+  const end = new Date(subscription.endDate)
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) return "other"
+
+  const durationHours = (end.getTime() - start.getTime()) / (1000 * 60 * 60)
+  const monthDiff =
+    (end.getFullYear() - start.getFullYear()) * 12 + (end.getMonth() - start.getMonth())
+  const isEndOfDay =
+    end.getHours() === 23 && end.getMinutes() === 59 && end.getSeconds() === 59
+
+  if ((end.getHours() === 0 && end.getMinutes() === 0 && durationHours <= 24) || (isEndOfDay && durationHours <= 24)) return "daily"
+  if (monthDiff === 1) return "1month"
+  if (monthDiff === 6) return "6months"
+  if (monthDiff === 12) return "1year"
+  if (durationHours > 0) return "walkin"
+
+  return "other"
+}
+
+const calculateGymHours = async (userId: string): Promise<MemberWithStats["gymHours"]> => {
+  const logs = await storageService.getScanLogsByUserId(userId)
+  if (!logs.length) return { today: 0, week: 0, month: 0, year: 0, all: 0 }
+  const now    = new Date()
+  const sorted = logs.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+  const calc   = (periodStart: Date | null) => {
+    let totalMs = 0, lastIn: Date | null = null
+    for (const log of sorted) {
+      const t = new Date(log.timestamp)
+      if (periodStart && t < periodStart) continue
+      if (log.action === "check-in") lastIn = t
+      if (log.action === "check-out" && lastIn) {
+        totalMs += t.getTime() - lastIn.getTime()
+        lastIn = null
+      }
+    }
+    return totalMs
+  }
+  return {
+    today: calc(startOfDay(now)),
+    week:  calc(startOfWeek(now, { weekStartsOn: 0 })),
+    month: calc(startOfMonth(now)),
+    year:  calc(startOfYear(now)),
+    all:   calc(null),
+  }
+}
+
+const calculateTotalHoursByUser = (logs: ScanLog[]) => {
+  const groupedLogs = new Map<string, ScanLog[]>()
+  for (const log of logs) {
+    if (log.status !== "success" || (log.action !== "check-in" && log.action !== "check-out")) continue
+    const userLogs = groupedLogs.get(log.userId) || []
+    userLogs.push(log)
+    groupedLogs.set(log.userId, userLogs)
+  }
+
+  const totals = new Map<string, number>()
+  for (const [userId, userLogs] of groupedLogs) {
+    const sorted = userLogs.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    let lastIn: Date | null = null
+    let totalMs = 0
+
+    for (const log of sorted) {
+      if (log.action === "check-in") lastIn = new Date(log.timestamp)
+      if (log.action === "check-out" && lastIn) {
+        const durationMs = new Date(log.timestamp).getTime() - lastIn.getTime()
+        if (durationMs > 0) totalMs += durationMs
+        lastIn = null
+      }
+    }
+
+    totals.set(userId, totalMs)
+  }
+
+  return totals
+}
+
+const buildTopSubscriptionGroups = async (
+  users: UserType[],
+  subscriptions: Subscription[],
+  history: SubscriptionHistory[],
+): Promise<TopSubscriptionTypeGroup[]> => {
+  const userMap = new Map(users.map(user => [user.userId, user]))
+  const recordCountsByType = new Map<SubscriptionTypeKey, Map<string, number>>()
+
+  const addRecord = (userId: string, type: SubscriptionTypeKey) => {
+    const counts = recordCountsByType.get(type) || new Map<string, number>()
+    counts.set(userId, (counts.get(userId) || 0) + 1)
+    recordCountsByType.set(type, counts)
+  }
+
+  for (const subscription of subscriptions) {
+    addRecord(subscription.userId, getSubscriptionTypeKey(subscription))
+  }
+
+  for (const historyItem of history) {
+    addRecord(historyItem.userId, getSubscriptionTypeKey(historyItem))
+  }
+
+  const groups = SUBSCRIPTION_TYPE_KEYS.map(type => ({
+    type,
+    members: Array.from((recordCountsByType.get(type) || new Map<string, number>()).entries())
+      .map(([userId, subscriptionCount]) => ({
+        userId,
+        name: userMap.get(userId)?.name || userId,
+        subscriptionCount,
+        renewalCount: Math.max(subscriptionCount - 1, 0),
+        totalHoursMs: 0,
+      }))
+      .sort((a, b) => b.subscriptionCount - a.subscriptionCount)
+      .slice(0, 5),
+  }))
+
+  // Hours are only needed for the members shown, so only their logs are read.
+  const shownIds = [...new Set(groups.flatMap(group => group.members.map(member => member.userId)))]
+  const shownLogs = await Promise.all(shownIds.map(userId => storageService.getScanLogsByUserId(userId)))
+  const totalHoursByUser = calculateTotalHoursByUser(shownLogs.flat())
+  for (const group of groups) {
+    for (const member of group.members) member.totalHoursMs = totalHoursByUser.get(member.userId) || 0
+    group.members.sort((a, b) => b.subscriptionCount - a.subscriptionCount || b.totalHoursMs - a.totalHoursMs)
+  }
+  return groups
+}
+
 // ─── Component ────────────────────────────────────────────────────────────────
 export function ScannerInterface() {
   const [lastScan, setLastScan] = useState<ScanResult | null>(null)
@@ -234,20 +400,13 @@ export function ScannerInterface() {
   const [isOnline, setIsOnline] = useState(
     typeof navigator !== "undefined" ? navigator.onLine : true
   )
-  const [pendingSyncCount, setPendingSyncCount] = useState(0)
+  const [pendingSyncCount, setPendingSyncCount] = useState(() => offlineQueue.getPendingCount())
   const [renewal, setRenewal] = useState<RenewalState | null>(null)
   const [selectedScanAction, setSelectedScanAction] = useState<ScanAction | null>(null)
   const [showScannerDialog, setShowScannerDialog] = useState(false)
 
   // ── Renewal helpers ──────────────────────────────────────────────────────
-  const emptyPaymentForm = (): PaymentForm => ({
-    payment_method:   "",
-    payment_for:      "membership",
-    reference_number: "",
-    notes:            "",
-  })
-
-  const openRenewal = (user: UserType, subscription: Subscription | null) => {
+  const openRenewal = useCallback((user: UserType, subscription: Subscription | null) => {
     setRenewal({
       user,
       subscription,
@@ -260,7 +419,7 @@ export function ScannerInterface() {
       paymentError:  "",
     })
     setLastScan(null)
-  }
+  }, [])
 
   const closeRenewal = () => setRenewal(null)
 
@@ -329,21 +488,30 @@ export function ScannerInterface() {
       createdAt: currentSubscription?.createdAt ?? nowIso,
     }
 
-    await storageService.addOrUpdateSubscription(updatedSub)
-
-    // 2. Save payment record
-    await storageService.addPayment({
-      paymentId:       generateId(),
-      userId:          renewal.user.userId,
-      amount,
-      paymentMethod:   renewal.paymentForm.payment_method as PaymentMethod,
-      paymentDate:     nowIso,
-      referenceNumber: renewal.paymentForm.reference_number.trim(),
-      notes:           renewal.paymentForm.notes.trim(),
-      paymentFor:      renewal.paymentForm.payment_for as PaymentFor,
-      createdAt:       nowIso,
-      updatedAt:       nowIso,
-    } as unknown as Payment)
+    try {
+      await storageService.addOrUpdateSubscription(updatedSub)
+
+      // 2. Save payment record
+      await storageService.addPayment({
+        paymentId:       generateId(),
+        userId:          renewal.user.userId,
+        amount,
+        paymentMethod:   renewal.paymentForm.payment_method as PaymentMethod,
+        paymentDate:     nowIso,
+        referenceNumber: renewal.paymentForm.reference_number.trim(),
+        notes:           renewal.paymentForm.notes.trim(),
+        paymentFor:      renewal.paymentForm.payment_for as PaymentFor,
+        createdAt:       nowIso,
+        updatedAt:       nowIso,
+      } as unknown as Payment)
+    } catch (error) {
+      console.error("Error saving renewal:", error)
+      const paymentError = error instanceof ValidationError
+        ? Object.values(error.fieldErrors).join(" ")
+        : "Failed to save the renewal. Please try again."
+      setRenewal(prev => prev ? { ...prev, isProcessing: false, paymentError } : null)
+      return
+    }
 
     await updateStats()
 
@@ -399,28 +567,6 @@ export function ScannerInterface() {
     return date.toLocaleTimeString("en-PH", { hour: "2-digit", minute: "2-digit" })
   }
 
-  const getMembershipType = (subscription: Subscription | null): MembershipType => {
-    if (!subscription) return "unknown"
-    const normalize = (value?: string | null) => (value || "").toLowerCase().replace(/[\s_-]+/g, "")
-    const planDuration = normalize(subscription.planDuration)
-    const membershipType = normalize(subscription.membershipType)
-    if (planDuration === "daily" || membershipType === "daily") return "daily"
-    if (planDuration === "walkin" || membershipType === "walkin") return "walkin"
-
-    const start = new Date(subscription.startDate)
-    const end   = new Date(subscription.endDate)
-    const durationHours = (end.getTime() - start.getTime()) / (1000 * 60 * 60)
-    const isEndOfDay =
-      end.getHours() === 23 && end.getMinutes() === 59 && end.getSeconds() === 59
-    if ((end.getHours() === 0 && end.getMinutes() === 0 && durationHours <= 24) || (isEndOfDay && durationHours <= 24)) {
-      return "daily"
-    }
-    const months =
-      (end.getFullYear() - start.getFullYear()) * 12 + (end.getMonth() - start.getMonth())
-    if ([1, 6, 12].includes(months)) return "monthly"
-    return "walkin"
-  }
-
   const getMembershipLabel = (type: MembershipType) =>
     ({ monthly: "Monthly", daily: "Daily", walkin: "Walk-in", unknown: "Unknown" }[type])
 
@@ -433,134 +579,6 @@ export function ScannerInterface() {
     }
   }
 
-  const getSubscriptionTypeKey = (
-    subscription: Pick<Subscription, "startDate" | "endDate"> & Partial<Pick<Subscription, "planDuration" | "membershipType">>
-  ): SubscriptionTypeKey => {
-    const normalize = (value?: string | null) => (value || "").toLowerCase().replace(/[\s_-]+/g, "")
-    const planDuration = normalize(subscription.planDuration)
-    const membershipType = normalize(subscription.membershipType)
-
-    if (planDuration === "daily" || membershipType === "daily") return "daily"
-    if (planDuration === "walkin" || membershipType === "walkin") return "walkin"
-    if (planDuration === "1month" || planDuration === "1m") return "1month"
-    if (planDuration === "6months" || planDuration === "6m") return "6months"
-    if (["12months", "12month", "1year", "1y"].includes(planDuration)) return "1year"
-
-    const start = new Date(subscription.startDate)
-    const end = new Date(subscription.endDate)
-    if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) return "other"
-
-    const durationHours = (end.getTime() - start.getTime()) / (1000 * 60 * 60)
-    const monthDiff =
-      (end.getFullYear() - start.getFullYear()) * 12 + (end.getMonth() - start.getMonth())
-    const isEndOfDay =
-      end.getHours() === 23 && end.getMinutes() === 59 && end.getSeconds() === 59
-
-    if ((end.getHours() === 0 && end.getMinutes() === 0 && durationHours <= 24) || (isEndOfDay && durationHours <= 24)) return "daily"
-    if (monthDiff === 1) return "1month"
-    if (monthDiff === 6) return "6months"
-    if (monthDiff === 12) return "1year"
-    if (durationHours > 0) return "walkin"
-
-    return "other"
-  }
-
-  const calculateGymHours = async (userId: string): Promise<MemberWithStats["gymHours"]> => {
-    const logs = await storageService.getScanLogsByUserId(userId)
-    if (!logs.length) return { today: 0, week: 0, month: 0, year: 0, all: 0 }
-    const now    = new Date()
-    const sorted = logs.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
-    const calc   = (periodStart: Date | null) => {
-      let totalMs = 0, lastIn: Date | null = null
-      for (const log of sorted) {
-        const t = new Date(log.timestamp)
-        if (periodStart && t < periodStart) continue
-        if (log.action === "check-in") lastIn = t
-        if (log.action === "check-out" && lastIn) {
-          totalMs += t.getTime() - lastIn.getTime()
-          lastIn = null
-        }
-      }
-      return totalMs
-    }
-    return {
-      today: calc(startOfDay(now)),
-      week:  calc(startOfWeek(now, { weekStartsOn: 0 })),
-      month: calc(startOfMonth(now)),
-      year:  calc(startOfYear(now)),
-      all:   calc(null),
-    }
-  }
-
-  const calculateTotalHoursByUser = (logs: ScanLog[]) => {
-    const groupedLogs = new Map<string, ScanLog[]>()
-    for (const log of logs) {
-      if (log.status !== "success" || (log.action !== "check-in" && log.action !== "check-out")) continue
-      const userLogs = groupedLogs.get(log.userId) || []
-      userLogs.push(log)
-      groupedLogs.set(log.userId, userLogs)
-    }
-
-    const totals = new Map<string, number>()
-    for (const [userId, userLogs] of groupedLogs) {
-      const sorted = userLogs.sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
-      let lastIn: Date | null = null
-      let totalMs = 0
-
-      for (const log of sorted) {
-        if (log.action === "check-in") lastIn = new Date(log.timestamp)
-        if (log.action === "check-out" && lastIn) {
-          const durationMs = new Date(log.timestamp).getTime() - lastIn.getTime()
-          if (durationMs > 0) totalMs += durationMs
-          lastIn = null
-        }
-      }
-
-      totals.set(userId, totalMs)
-    }
-
-    return totals
-  }
-
-  const buildTopSubscriptionGroups = (
-    users: UserType[],
-    subscriptions: Subscription[],
-    history: SubscriptionHistory[],
-    logs: ScanLog[],
-  ) => {
-    const userMap = new Map(users.map(user => [user.userId, user]))
-    const recordCountsByType = new Map<SubscriptionTypeKey, Map<string, number>>()
-    const totalHoursByUser = calculateTotalHoursByUser(logs)
-
-    const addRecord = (userId: string, type: SubscriptionTypeKey) => {
-      const counts = recordCountsByType.get(type) || new Map<string, number>()
-      counts.set(userId, (counts.get(userId) || 0) + 1)
-      recordCountsByType.set(type, counts)
-    }
-
-    for (const subscription of subscriptions) {
-      addRecord(subscription.userId, getSubscriptionTypeKey(subscription))
-    }
-
-    for (const historyItem of history) {
-      addRecord(historyItem.userId, getSubscriptionTypeKey(historyItem))
-    }
-
-    return SUBSCRIPTION_TYPE_KEYS.map(type => ({
-      type,
-      members: Array.from((recordCountsByType.get(type) || new Map<string, number>()).entries())
-        .map(([userId, subscriptionCount]) => ({
-          userId,
-          name: userMap.get(userId)?.name || userId,
-          subscriptionCount,
-          renewalCount: Math.max(subscriptionCount - 1, 0),
-          totalHoursMs: totalHoursByUser.get(userId) || 0,
-        }))
-        .sort((a, b) => b.subscriptionCount - a.subscriptionCount || b.totalHoursMs - a.totalHoursMs)
-        .slice(0, 5),
-    }))
-  }
-
   const loadMembersWithStats = async () => {
     setIsLoadingMembers(true)
     const [users, allSubscriptions] = await Promise.all([
@@ -594,18 +612,16 @@ export function ScannerInterface() {
     }
   }
 
-  const updateStats = async () => {
+  const updateStats = useCallback(async () => {
     try {
-      const [sessions, logs, users, allSubscriptions, subscriptionHistory, allLogs] = await Promise.all([
+      const [sessions, checkIns, users, allSubscriptions] = await Promise.all([
         storageService.getActiveSessions(),
-        storageService.getTodayScanLogs(),
+        storageService.countTodayScanLogs("check-in"),
         storageService.getUsers(),
         storageService.getSubscriptions(),
-        storageService.getSubscriptionHistory(),
-        storageService.getScanLogs(),
       ])
       setActiveSessions(sessions.length)
-      setTodayCheckIns(logs.filter(l => l.action === "check-in").length)
+      setTodayCheckIns(checkIns)
       setTotalMembers(users.length)
       let monthly = 0, daily = 0, walkin = 0
       for (const subscription of allSubscriptions) {
@@ -617,7 +633,23 @@ export function ScannerInterface() {
       setMonthlyCount(monthly)
       setDailyCount(daily)
       setWalkinCount(walkin)
-      setTopSubscriptionGroups(buildTopSubscriptionGroups(users, allSubscriptions, subscriptionHistory, allLogs))
+      setLastUpdate(new Date())
+      setIsOnline(true)
+    } catch {
+      setIsOnline(false)
+    }
+  }, [])
+
+  // Every kiosk hears every scan, so scan refreshes only re-count today's
+  // check-ins and re-read the (small) active sessions list.
+  const updateScanStats = async () => {
+    try {
+      const [sessions, checkIns] = await Promise.all([
+        storageService.getActiveSessions(),
+        storageService.countTodayScanLogs("check-in"),
+      ])
+      setActiveSessions(sessions.length)
+      setTodayCheckIns(checkIns)
       setLastUpdate(new Date())
       setIsOnline(true)
     } catch {
@@ -625,6 +657,21 @@ export function ScannerInterface() {
     }
   }
 
+  const updateTopSubscriptionGroups = useCallback(
+    () =>
+      Promise.all([
+        storageService.getUsers(),
+        storageService.getSubscriptions(),
+        storageService.getSubscriptionHistory(),
+      ])
+        .then(([users, allSubscriptions, subscriptionHistory]) =>
+          buildTopSubscriptionGroups(users, allSubscriptions, subscriptionHistory),
+        )
+        .then(setTopSubscriptionGroups)
+        .catch((error) => console.error("Error loading top subscription members:", error)),
+    [],
+  )
+
   const handleScan = useCallback(async (code: string) => {
     if (!selectedScanAction) return
 
@@ -660,7 +707,7 @@ export function ScannerInterface() {
     setLastScan({ ...result, subscription, user })
     setPendingSyncCount(offlineQueue.getPendingCount())
     updateStats()
-  }, [selectedScanAction])
+  }, [selectedScanAction, openRenewal, updateStats])
 
   const scannerEnabled = Boolean(selectedScanAction && showScannerDialog)
   const { isScanning, isProcessing } = useQRScanner(handleScan, 500, scannerEnabled)
@@ -695,11 +742,17 @@ export function ScannerInterface() {
 
   useEffect(() => {
     updateStats()
-    const i = setInterval(updateStats, 5000)
+    updateTopSubscriptionGroups()
+    // The change feed refreshes stats immediately; this slow poll only keeps
+    // the clock-based numbers current when nothing is being written.
+    const i = setInterval(updateStats, 60_000)
     return () => clearInterval(i)
-  }, [])
+  }, [updateStats, updateTopSubscriptionGroups])
 
-  useEffect(() => { if (showMembersDialog) loadMembersWithStats() }, [showMembersDialog])
+  useDataChanges(["users", "subscriptions"], updateStats)
+  // Waits for a pause in scanning, so a queue at the door is one refresh.
+  useDataChanges(["active_sessions", "scan_logs"], updateScanStats, 2_000)
+  useDataChanges(["users", "subscriptions", "subscription_history"], updateTopSubscriptionGroups)
 
   useEffect(() => {
     const enter = () => {
@@ -734,18 +787,18 @@ export function ScannerInterface() {
     const handleOffline = () => setIsOnline(false)
     window.addEventListener("online", handleOnline)
     window.addEventListener("offline", handleOffline)
-    setPendingSyncCount(offlineQueue.getPendingCount())
     if (navigator.onLine && offlineQueue.getPendingCount() > 0)
       offlineQueue.flushQueue().then(() => setPendingSyncCount(offlineQueue.getPendingCount()))
     return () => {
       window.removeEventListener("online", handleOnline)
       window.removeEventListener("offline", handleOffline)
     }
-  }, [])
+  }, [updateStats])
 
   const handleMembersCardClick = (filter?: MembershipFilter) => {
     setMembershipFilter(filter || "all")
     setShowMembersDialog(true)
+    loadMembersWithStats()
   }
 
   const filteredMembers = membersWithStats.filter(member => {
@@ -881,7 +934,7 @@ export function ScannerInterface() {
           <p className="text-xl md:text-2xl font-bold">{activeSessions}</p>
         </Card>
         <Card className="p-3 md:p-6">
-          <p className="text-xs md:text-sm text-muted-foreground">Today's Check-ins</p>
+          <p className="text-xs md:text-sm text-muted-foreground">Today&apos;s Check-ins</p>
           <p className="text-xl md:text-2xl font-bold">{todayCheckIns}</p>
         </Card>
         <Card className="p-3 md:p-6 cursor-pointer hover:bg-zinc-800/50 transition-colors group"
@@ -1490,7 +1543,7 @@ export function ScannerInterface() {
                     </div>
                     <h3 className="text-lg font-bold text-green-700">Renewal &amp; Payment Saved!</h3>
                     <p className="text-sm text-gray-600 text-center">
-                      <span className="font-semibold">{renewal.user.name}</span>'s membership is now active
+                      <span className="font-semibold">{renewal.user.name}</span>&apos;s membership is now active
                       until{" "}
                       <span className="font-semibold">
                         {renewal.subscription ? formatDate(renewal.subscription.endDate) : "—"}
@@ -0,0 +1,43 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { connectChangeFeed } from "@/src/services/change-feed.service"
+import type { TableName } from "@/src/services/storage.service"
+
+/**
+ * Calls `onChange` whenever one of `tables` is written, by this tab or by any
+ * other device on the change feed. Bursts of events (e.g. one transaction
+ * touching several tables) are collapsed into a single call.
+ */
+export function useDataChanges(
+  tables: TableName[],
+  onChange: () => void,
+  debounceMs = 300
+): void {
+  const onChangeRef = useRef(onChange)
+  const tableKey = tables.join(",")
+
+  useEffect(() => {
+    onChangeRef.current = onChange
+  })
+
+  useEffect(() => {
+    const watched = new Set(tableKey.split(","))
+    let timeout: ReturnType<typeof setTimeout> | null = null
+
+    const handleChange = (event: Event) => {
+      const table = (event as CustomEvent<{ table: string }>).detail?.table
+      if (!watched.has(table)) return
+      if (timeout) clearTimeout(timeout)
+      timeout = setTimeout(() => onChangeRef.current(), debounceMs)
+    }
+
+    const disconnect = connectChangeFeed()
+    window.addEventListener("excel-db-change", handleChange)
+    return () => {
+      if (timeout) clearTimeout(timeout)
+      window.removeEventListener("excel-db-change", handleChange)
+      disconnect()
+    }
+  }, [tableKey, debounceMs])
+}
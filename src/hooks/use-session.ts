@@ -0,0 +1,17 @@
+"use client"
+
+import { createContext, useContext } from "react"
+import { can, type Permission } from "@/src/lib/permissions"
+import type { StaffSession } from "@/src/services/auth.service"
+
+/** The signed-in staff member, provided by `App`. */
+export const SessionContext = createContext<StaffSession | null>(null)
+
+export function useSession(): StaffSession | null {
+  return useContext(SessionContext)
+}
+
+/** Whether the signed-in role may do `permission`; the API enforces the same matrix. */
+export function usePermission(permission: Permission): boolean {
+  return can(useSession()?.role, permission)
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest"
+import { can, columnPermission, permissions, rolePermissions, tablePermission } from "./permissions"
+
+describe("permissions", () => {
+  it("gives owners everything and managers everything but staff accounts", () => {
+    for (const permission of permissions) {
+      expect(can("owner", permission)).toBe(true)
+      expect(can("manager", permission)).toBe(permission !== "staff.manage")
+    }
+  })
+
+  it("keeps coaches to viewing members, taking payments and scanning", () => {
+    expect(can("coach", "members.view")).toBe(true)
+    expect(can("coach", "scans.record")).toBe(true)
+    expect(can("coach", "members.edit")).toBe(false)
+    expect(can("coach", "payments.view")).toBe(false)
+    expect(can("coach", "admin.tools")).toBe(false)
+  })
+
+  it("hides medical history from the front desk", () => {
+    expect(can("front_desk", "members.edit")).toBe(true)
+    expect(can("front_desk", "medical.view")).toBe(false)
+  })
+
+  it("denies unknown and missing roles", () => {
+    expect(can(null, "members.view")).toBe(false)
+    expect(can(undefined, "members.view")).toBe(false)
+    expect(can("janitor" as never, "members.view")).toBe(false)
+  })
+
+  it("only lists known permissions for each role", () => {
+    for (const granted of Object.values(rolePermissions)) {
+      expect(permissions).toEqual(expect.arrayContaining([...granted]))
+    }
+  })
+
+  it("maps table accesses to the permission they need", () => {
+    expect(tablePermission("users", "read")).toBeNull()
+    expect(tablePermission("users", "update")).toBe("members.edit")
+    expect(tablePermission("users", "delete")).toBe("members.delete")
+    expect(tablePermission("medical_history", "read")).toBe("medical.view")
+    expect(tablePermission("subscriptions", "update")).toBe("payments.record")
+    expect(tablePermission("scan_logs", "insert")).toBe("scans.record")
+    expect(tablePermission("payment", "read")).toBe("payments.view")
+    expect(tablePermission("payment", "insert")).toBe("payments.record")
+    expect(tablePermission("payment", "update")).toBe("payments.edit")
+    expect(tablePermission("audit_log", "read")).toBe("admin.tools")
+    expect(tablePermission("scan_logs_archive", "insert")).toBe("admin.tools")
+    expect(tablePermission("scan_logs_archive", "read")).toBeNull()
+  })
+
+  it("treats setting archived_at as archiving, whichever write sets it", () => {
+    expect(columnPermission("users", "update", { archived_at: "2026-10-19T00:00:00Z" })).toBe("members.delete")
+    expect(columnPermission("users", "update", { archived_at: null })).toBe("members.delete")
+    expect(columnPermission("users", "insert", { archived_at: "2026-10-19T00:00:00Z" })).toBe("members.delete")
+    expect(columnPermission("users", "insert", { archived_at: null })).toBeNull()
+    expect(columnPermission("users", "update", { name: "Ana" })).toBeNull()
+    expect(columnPermission("users_archive", "update", { archived_at: null })).toBeNull()
+  })
+})
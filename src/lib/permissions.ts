@@ -0,0 +1,96 @@
+import type { StaffRole } from "@/src/types"
+
+/**
+ * What each staff role may do. Shared by the API routes, which enforce it,
+ * and the UI, which hides what a role cannot use.
+ */
+export const permissions = [
+  "members.view",
+  "members.edit",
+  /** Archive or permanently delete members. */
+  "members.delete",
+  "medical.view",
+  "payments.view",
+  /** Take a new payment, e.g. at sign-up or for a walk-in. */
+  "payments.record",
+  /** Change or delete payments already recorded. */
+  "payments.edit",
+  "revenue.view",
+  "scans.record",
+  /** Backups, audit trail, sync, imports, integrity, archive and export. */
+  "admin.tools",
+  "staff.manage",
+] as const
+
+export type Permission = (typeof permissions)[number]
+
+export const roleLabels: Record<StaffRole, string> = {
+  owner: "Owner",
+  manager: "Manager",
+  front_desk: "Front Desk",
+  coach: "Coach",
+}
+
+export const rolePermissions: Record<StaffRole, readonly Permission[]> = {
+  owner: permissions,
+  manager: permissions.filter((permission) => permission !== "staff.manage"),
+  front_desk: ["members.view", "members.edit", "payments.view", "payments.record", "scans.record"],
+  coach: ["members.view", "medical.view", "payments.record", "scans.record"],
+}
+
+export function can(role: StaffRole | null | undefined, permission: Permission): boolean {
+  return !!role && rolePermissions[role]?.includes(permission) === true
+}
+
+export type TableAccess = "read" | "insert" | "update" | "delete"
+
+/**
+ * The permission a table access needs beyond being signed in, or null when
+ * any staff member may do it.
+ */
+export function tablePermission(table: string, access: TableAccess): Permission | null {
+  switch (table) {
+    case "users":
+    case "emergency_contacts":
+    case "liability_waivers":
+    case "user_id_counter":
+      if (access === "read") return null
+      return access === "delete" ? "members.delete" : "members.edit"
+    case "medical_history":
+      if (access === "read") return "medical.view"
+      return access === "delete" ? "members.delete" : "members.edit"
+    // Renewing at the scanner rewrites the subscription along with the payment.
+    case "subscriptions":
+    case "subscription_history":
+      if (access === "read") return null
+      return access === "delete" ? "members.delete" : "payments.record"
+    case "scan_logs":
+    case "active_sessions":
+      return access === "read" ? null : "scans.record"
+    case "payment":
+    case "payment_archive":
+      if (access === "read") return "payments.view"
+      return access === "insert" ? "payments.record" : "payments.edit"
+    case "audit_log":
+      return "admin.tools"
+    default:
+      // The other archives are only written by the archive job.
+      return access === "read" ? null : "admin.tools"
+  }
+}
+
+/**
+ * The permission writing these columns needs on top of `tablePermission`.
+ * Archiving or restoring a member sets `users.archived_at`, so it needs
+ * `members.delete` whichever route the write takes.
+ */
+export function columnPermission(
+  table: string,
+  access: TableAccess,
+  row: Record<string, unknown>,
+): Permission | null {
+  if (table !== "users" || !("archived_at" in row)) return null
+  // A new member may be created as not archived.
+  if (access === "insert" && !row.archived_at) return null
+  return access === "insert" || access === "update" ? "members.delete" : null
+}
@@ -0,0 +1,316 @@
+import type {
+  User,
+  Subscription,
+  ScanLog,
+  ActiveSession,
+  SubscriptionHistory,
+  MedicalHistory,
+  EmergencyContact,
+  LiabilityWaiver,
+  Payment,
+  AuditEntry,
+  StaffMember,
+} from "@/src/types"
+
+/**
+ * Conversions between database rows (snake_case columns, loosely typed
+ * cells) and the camelCase types in `src/types`. Shared by the browser
+ * services and the REST routes.
+ */
+
+// Cells are loosely typed on purpose; every mapper coerces the columns it reads.
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export type DbRow = Record<string, any>
+
+export function toNumber(value: unknown): number | undefined {
+  if (value === null || value === undefined || value === "") return undefined
+  const numberValue = Number(value)
+  return Number.isFinite(numberValue) ? numberValue : undefined
+}
+
+export function toBoolean(value: unknown): boolean {
+  if (typeof value === "boolean") return value
+  if (typeof value === "number") return value !== 0
+  return String(value ?? "").toLowerCase() === "true"
+}
+
+export function userFromRow(row: DbRow): User {
+  return {
+    userId: String(row.user_id),
+    name: row.name || "",
+    email: row.email || undefined,
+    phone: row.phone || undefined,
+    birthday: row.birthday || undefined,
+    age: toNumber(row.age),
+    address: row.address || undefined,
+    goal: row.goal || undefined,
+    programType: row.program_type || undefined,
+    heightCm: toNumber(row.height_cm),
+    weightKg: toNumber(row.weight_kg),
+    createdAt: row.created_at || new Date().toISOString(),
+    updatedAt: row.updated_at || row.created_at || new Date().toISOString(),
+    archivedAt: row.archived_at || undefined,
+  }
+}
+
+export function userToRow(user: User): DbRow {
+  return {
+    user_id: user.userId,
+    name: user.name,
+    email: user.email || null,
+    phone: user.phone || null,
+    birthday: user.birthday || null,
+    age: user.age || null,
+    address: user.address || null,
+    goal: user.goal || null,
+    program_type: user.programType || null,
+    height_cm: user.heightCm || null,
+    weight_kg: user.weightKg || null,
+    created_at: user.createdAt,
+    updated_at: user.updatedAt,
+    archived_at: user.archivedAt || null,
+  }
+}
+
+export function subscriptionFromRow(row: DbRow): Subscription {
+  return {
+    userId: String(row.user_id),
+    startDate: row.start_date,
+    endDate: row.end_date,
+    status: row.status,
+    planDuration: row.plan_duration || null,
+    membershipType: row.membership_type || undefined,
+    coachingPreference: toBoolean(row.coaching_preference),
+    paymentStatus: row.payment_status || undefined,
+    paymentDate: row.payment_date || undefined,
+    createdAt: row.created_at || new Date().toISOString(),
+  }
+}
+
+export function subscriptionToRow(subscription: Subscription): DbRow {
+  return {
+    user_id: subscription.userId,
+    start_date: subscription.startDate,
+    end_date: subscription.endDate,
+    status: subscription.status,
+    plan_duration: subscription.planDuration || null,
+    membership_type: subscription.membershipType || null,
+    coaching_preference: subscription.coachingPreference ?? false,
+    payment_status: subscription.paymentStatus ?? "not paid",
+    payment_date: subscription.paymentDate || null,
+    created_at: subscription.createdAt,
+  }
+}
+
+export function medicalHistoryFromRow(row: DbRow): MedicalHistory {
+  return {
+    userId: String(row.user_id),
+    heartProblems: toBoolean(row.heart_problems),
+    bloodPressureProblems: toBoolean(row.blood_pressure_problems),
+    chestPainExercising: toBoolean(row.chest_pain_exercising),
+    asthmaBreathingProblems: toBoolean(row.asthma_breathing_problems),
+    jointProblems: toBoolean(row.joint_problems),
+    neckBackProblems: toBoolean(row.neck_back_problems),
+    pregnantRecentBirth: toBoolean(row.pregnant_recent_birth),
+    otherMedicalConditions: toBoolean(row.other_medical_conditions),
+    otherMedicalDetails: row.other_medical_details || undefined,
+    smoking: toBoolean(row.smoking),
+    medication: toBoolean(row.medication),
+    medicationDetails: row.medication_details || undefined,
+    createdAt: row.created_at || new Date().toISOString(),
+    updatedAt: row.updated_at || row.created_at || new Date().toISOString(),
+  }
+}
+
+export function medicalHistoryToRow(medicalHistory: MedicalHistory): DbRow {
+  return {
+    user_id: medicalHistory.userId,
+    heart_problems: medicalHistory.heartProblems,
+    blood_pressure_problems: medicalHistory.bloodPressureProblems,
+    chest_pain_exercising: medicalHistory.chestPainExercising,
+    asthma_breathing_problems: medicalHistory.asthmaBreathingProblems,
+    joint_problems: medicalHistory.jointProblems,
+    neck_back_problems: medicalHistory.neckBackProblems,
+    pregnant_recent_birth: medicalHistory.pregnantRecentBirth,
+    other_medical_conditions: medicalHistory.otherMedicalConditions,
+    other_medical_details: medicalHistory.otherMedicalDetails || null,
+    smoking: medicalHistory.smoking,
+    medication: medicalHistory.medication,
+    medication_details: medicalHistory.medicationDetails || null,
+    created_at: medicalHistory.createdAt,
+    updated_at: medicalHistory.updatedAt,
+  }
+}
+
+export function emergencyContactFromRow(row: DbRow): EmergencyContact {
+  return {
+    userId: String(row.user_id),
+    contactName: row.contact_name || "",
+    contactNumber: row.contact_number || "",
+    createdAt: row.created_at || new Date().toISOString(),
+    updatedAt: row.updated_at || row.created_at || new Date().toISOString(),
+  }
+}
+
+export function emergencyContactToRow(contact: EmergencyContact): DbRow {
+  return {
+    user_id: contact.userId,
+    contact_name: contact.contactName,
+    contact_number: contact.contactNumber,
+    created_at: contact.createdAt,
+    updated_at: contact.updatedAt,
+  }
+}
+
+export function liabilityWaiverFromRow(row: DbRow): LiabilityWaiver {
+  return {
+    userId: String(row.user_id),
+    signatureName: row.signature_name || "",
+    signedDate: row.signed_date || "",
+    waiverAccepted: toBoolean(row.waiver_accepted),
+    createdAt: row.created_at || new Date().toISOString(),
+  }
+}
+
+export function liabilityWaiverToRow(waiver: LiabilityWaiver): DbRow {
+  return {
+    user_id: waiver.userId,
+    signature_name: waiver.signatureName,
+    signed_date: waiver.signedDate,
+    waiver_accepted: waiver.waiverAccepted,
+    created_at: waiver.createdAt,
+  }
+}
+
+export function scanLogFromRow(row: DbRow): ScanLog {
+  return {
+    id: String(row.id),
+    userId: String(row.user_id),
+    userName: row.user_name || "",
+    timestamp: row.timestamp || "",
+    action: row.action,
+    status: row.status,
+    deviceId: row.device_id || undefined,
+  }
+}
+
+export function scanLogToRow(log: ScanLog): DbRow {
+  return {
+    id: log.id || `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
+    user_id: log.userId,
+    user_name: log.userName,
+    timestamp: log.timestamp,
+    action: log.action,
+    status: log.status,
+    device_id: log.deviceId || null,
+  }
+}
+
+export function activeSessionFromRow(row: DbRow): ActiveSession {
+  return {
+    userId: String(row.user_id),
+    userName: row.user_name || "",
+    checkInTime: row.check_in_time || "",
+  }
+}
+
+export function activeSessionToRow(session: ActiveSession): DbRow {
+  return {
+    user_id: session.userId,
+    user_name: session.userName,
+    check_in_time: session.checkInTime,
+  }
+}
+
+export function subscriptionHistoryFromRow(row: DbRow): SubscriptionHistory {
+  return {
+    id: String(row.id),
+    userId: String(row.user_id),
+    startDate: row.start_date,
+    endDate: row.end_date,
+    status: row.status,
+    createdAt: row.created_at || new Date().toISOString(),
+    updatedAt: row.updated_at || row.created_at || new Date().toISOString(),
+  }
+}
+
+export function subscriptionHistoryToRow(history: SubscriptionHistory): DbRow {
+  return {
+    id: history.id,
+    user_id: history.userId,
+    start_date: history.startDate,
+    end_date: history.endDate,
+    status: history.status,
+    created_at: history.createdAt,
+    updated_at: history.updatedAt,
+  }
+}
+
+export function paymentFromRow(row: DbRow): Payment {
+  return {
+    paymentId: String(row.payment_id),
+    userId: String(row.user_id),
+    amount: Number(row.amount || 0),
+    paymentMethod: row.payment_method,
+    paymentDate: row.payment_date,
+    referenceNumber: row.reference_number || undefined,
+    notes: row.notes || undefined,
+    paymentFor: row.payment_for,
+    createdAt: row.created_at || new Date().toISOString(),
+    updatedAt: row.updated_at || row.created_at || new Date().toISOString(),
+  }
+}
+
+export function parseAuditValues(value: unknown): Record<string, unknown> | null {
+  if (!value) return null
+  if (typeof value === "object") return value as Record<string, unknown>
+  try {
+    return JSON.parse(String(value))
+  } catch {
+    return null
+  }
+}
+
+export function auditEntryFromRow(row: DbRow): AuditEntry {
+  return {
+    id: String(row.id),
+    at: row.at,
+    tableName: row.table_name,
+    recordId: String(row.record_id ?? ""),
+    memberId: row.member_id ? String(row.member_id) : undefined,
+    action: row.action,
+    before: parseAuditValues(row.before),
+    after: parseAuditValues(row.after),
+    actor: row.actor || undefined,
+    deviceId: row.device_id || undefined,
+  }
+}
+
+/** Leaves out `password_hash`. */
+export function staffFromRow(row: DbRow): StaffMember {
+  return {
+    staffId: String(row.staff_id),
+    email: row.email || "",
+    name: row.name || "",
+    role: row.role,
+    createdAt: row.created_at || new Date().toISOString(),
+    updatedAt: row.updated_at || row.created_at || new Date().toISOString(),
+    lastLoginAt: row.last_login_at || undefined,
+    disabledAt: row.disabled_at || undefined,
+  }
+}
+
+export function paymentToRow(payment: Payment): DbRow {
+  return {
+    payment_id: payment.paymentId,
+    user_id: payment.userId,
+    amount: payment.amount,
+    payment_method: payment.paymentMethod,
+    payment_date: payment.paymentDate,
+    reference_number: payment.referenceNumber || null,
+    notes: payment.notes || null,
+    payment_for: payment.paymentFor,
+    created_at: payment.createdAt,
+    updated_at: payment.updatedAt,
+  }
+}
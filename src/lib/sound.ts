@@ -17,7 +17,7 @@ export function playLongBeep(durationSeconds = 5) {
   if (typeof window === "undefined") return
 
   try {
-    const AudioContext = window.AudioContext || (window as any).webkitAudioContext
+    const AudioContext = window.AudioContext || (window as typeof window & { webkitAudioContext?: typeof window.AudioContext }).webkitAudioContext
     if (!AudioContext) return
 
     const ctx = new AudioContext()
@@ -0,0 +1,148 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { NextRequest } from "next/server"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+
+type Members = typeof import("@/app/api/members/route")
+type Member = typeof import("@/app/api/members/[id]/route")
+type Sessions = typeof import("@/app/api/sessions/route")
+
+const keys = { manager: "office-key", frontDesk: "desk-key", coach: "kiosk-key" }
+
+function call(url: string, key: string | null, init: { method?: string; body?: unknown } = {}) {
+  return new NextRequest(new URL(url, "http://localhost"), {
+    method: init.method ?? "GET",
+    headers: key ? { "x-api-key": key, "content-type": "application/json" } : {},
+    body: init.body === undefined ? undefined : JSON.stringify(init.body),
+  })
+}
+
+const idContext = (id: string) => ({ params: Promise.resolve({ id }) })
+
+describe("REST routes", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "bacas-rest-"))
+  let members: Members
+  let member: Member
+  let sessions: Sessions
+
+  beforeAll(async () => {
+    vi.stubEnv("STORAGE_BACKEND", "excel")
+    vi.stubEnv("EXCEL_DATABASE_PATH", path.join(directory, "db.xlsx"))
+    vi.stubEnv("EXCEL_BACKUP_INTERVAL_MS", "-1")
+    vi.stubEnv("ARCHIVE_INTERVAL_MS", "0")
+    vi.stubEnv("SESSION_SECRET", "test-secret")
+    vi.stubEnv("API_KEYS", `office:manager:${keys.manager},desk:front_desk:${keys.frontDesk},kiosk:coach:${keys.coach}`)
+    vi.resetModules()
+    members = await import("@/app/api/members/route")
+    member = await import("@/app/api/members/[id]/route")
+    sessions = await import("@/app/api/sessions/route")
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+    ;(globalThis as typeof globalThis & { __bacasWorkbookCache?: unknown }).__bacasWorkbookCache = null
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("answers 401 without a session and 403 for roles without the permission", async () => {
+    expect((await members.GET(call("/api/members", null), undefined)).status).toBe(401)
+    expect((await members.GET(call("/api/members", "guess"), undefined)).status).toBe(401)
+    const create = call("/api/members", keys.coach, { method: "POST", body: { name: "Ana" } })
+    expect((await members.POST(create, undefined)).status).toBe(403)
+  })
+
+  it("creates members with 201 and the next member id", async () => {
+    const response = await members.POST(
+      call("/api/members", keys.frontDesk, { method: "POST", body: { name: "Ana", phone: "0917" } }),
+      undefined,
+    )
+    expect(response.status).toBe(201)
+    expect(await response.json()).toMatchObject({ success: true, data: { userId: "BCF-1001", name: "Ana" } })
+
+    const duplicate = await members.POST(
+      call("/api/members", keys.frontDesk, { method: "POST", body: { userId: "BCF-1001", name: "Ana" } }),
+      undefined,
+    )
+    expect(duplicate.status).toBe(409)
+  })
+
+  it("answers 400 with camelCase field errors for invalid bodies", async () => {
+    const response = await members.POST(
+      call("/api/members", keys.frontDesk, { method: "POST", body: { name: "", heightCm: "tall" } }),
+      undefined,
+    )
+    expect(response.status).toBe(400)
+    expect(await response.json()).toMatchObject({
+      success: false,
+      errors: { name: "Name is required", heightCm: "Must be a number" },
+    })
+
+    const notAnObject = call("/api/members", keys.frontDesk, { method: "POST", body: [1] })
+    expect((await members.POST(notAnObject, undefined)).status).toBe(400)
+  })
+
+  it("answers 404 for members that do not exist", async () => {
+    expect((await member.GET(call("/api/members/BCF-404", keys.coach), idContext("BCF-404"))).status).toBe(404)
+    const patch = call("/api/members/BCF-404", keys.frontDesk, { method: "PATCH", body: { name: "Nobody" } })
+    expect((await member.PATCH(patch, idContext("BCF-404"))).status).toBe(404)
+  })
+
+  it("keeps archiving to roles that may delete members", async () => {
+    const archive = { method: "PATCH", body: { archivedAt: "2026-10-19T00:00:00.000Z" } }
+    const denied = call("/api/members/BCF-1001", keys.frontDesk, archive)
+    expect((await member.PATCH(denied, idContext("BCF-1001"))).status).toBe(403)
+    const createArchived = call("/api/members", keys.frontDesk, {
+      method: "POST",
+      body: { name: "Ben", archivedAt: "2026-10-19T00:00:00.000Z" },
+    })
+    expect((await members.POST(createArchived, undefined)).status).toBe(403)
+    const removed = await member.DELETE(
+      call("/api/members/BCF-1001", keys.frontDesk, { method: "DELETE" }),
+      idContext("BCF-1001"),
+    )
+    expect(removed.status).toBe(403)
+
+    const renamed = await member.PATCH(
+      call("/api/members/BCF-1001", keys.frontDesk, { method: "PATCH", body: { name: "Ana Cruz" } }),
+      idContext("BCF-1001"),
+    )
+    expect(await renamed.json()).toMatchObject({ data: { name: "Ana Cruz" } })
+  })
+
+  it("answers 409 when checking in a member twice or an archived one", async () => {
+    const checkIn = () =>
+      sessions.POST(
+        call("/api/sessions", keys.coach, { method: "POST", body: { userId: "BCF-1001" } }),
+        undefined,
+      )
+    expect((await checkIn()).status).toBe(201)
+    expect((await checkIn()).status).toBe(409)
+
+    const archived = await member.DELETE(
+      call("/api/members/BCF-1001", keys.manager, { method: "DELETE" }),
+      idContext("BCF-1001"),
+    )
+    expect(await archived.json()).toMatchObject({ data: { archivedAt: expect.any(String) } })
+    const response = await checkIn()
+    expect(response.status).toBe(409)
+    expect(await response.json()).toMatchObject({ message: "Member BCF-1001 is archived" })
+  })
+
+  it("lists archived members only when asked", async () => {
+    const active = await (await members.GET(call("/api/members", keys.coach), undefined)).json()
+    expect(active).toMatchObject({ data: [], total: 0 })
+    const all = await (await members.GET(call("/api/members?includeArchived=true", keys.coach), undefined)).json()
+    expect(all.total).toBe(1)
+  })
+
+  it("logs writes under the staff id of the session that made them", async () => {
+    const { getStorage } = await import("./storage")
+    const { rows } = await getStorage().query("audit_log", { where: { record_id: "BCF-1001", table_name: "users" } })
+    expect(rows.map((row) => [row.action, row.actor])).toEqual([
+      ["insert", "api:desk"],
+      ["update", "api:desk"],
+      ["update", "api:office"],
+    ])
+  })
+})
@@ -0,0 +1,167 @@
+import { NextResponse, type NextRequest } from "next/server"
+import type { Permission } from "@/src/lib/permissions"
+import { assertPermissions, auditActor, requireSession, type StaffSession } from "./auth"
+import {
+  ConflictError,
+  StorageError,
+  ValidationError,
+  withLock,
+  type AuditActor,
+  type QueryOptions,
+  type Row,
+  type StorageAdapter,
+  type TableName,
+} from "./storage"
+
+/**
+ * The error body every API route returns: `{ success: false, message }`,
+ * plus `errors` per field for validation failures and `current` for
+ * conflicts. `fieldName` renames the columns used as keys in `errors`.
+ */
+export function errorResponse(
+  error: unknown,
+  fieldName: (column: string) => string = (column) => column,
+): NextResponse {
+  if (error instanceof ConflictError) {
+    return NextResponse.json(
+      { success: false, conflict: true, message: error.message, current: error.current },
+      { status: error.status },
+    )
+  }
+
+  if (error instanceof ValidationError) {
+    const errors = Object.fromEntries(
+      Object.entries(error.fieldErrors).map(([column, message]) => [fieldName(column), message]),
+    )
+    return NextResponse.json(
+      { success: false, message: error.message, table: error.table, errors },
+      { status: error.status },
+    )
+  }
+
+  if (error instanceof StorageError) {
+    return NextResponse.json({ success: false, message: error.message }, { status: error.status })
+  }
+
+  const message = error instanceof Error ? error.message : "Unknown error"
+  return NextResponse.json(
+    { success: false, message: `Excel database error: ${message}` },
+    { status: 500 },
+  )
+}
+
+export function toCamelCase(column: string): string {
+  return column.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase())
+}
+
+export function toSnakeCase(field: string): string {
+  return field.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`)
+}
+
+/** Route context for `[id]` segments; Next passes params as a promise. */
+export interface IdRouteContext {
+  params: Promise<{ id: string }>
+}
+
+/**
+ * Wraps a resource route handler: rejects callers without a staff session or
+ * API key, or whose role lacks `permission` (null lets any staff member in),
+ * runs the handler behind the storage lock with that session, and turns
+ * thrown errors into the shared error body, with camelCase field names to
+ * match the resource types.
+ */
+export function resourceRoute<Context>(
+  permission: Permission | null,
+  handler: (request: NextRequest, context: Context, session: StaffSession) => Promise<NextResponse>,
+): (request: NextRequest, context: Context) => Promise<NextResponse> {
+  return (request, context) =>
+    withLock(async () => {
+      try {
+        const session = await requireSession(request.headers)
+        assertPermissions(session, [permission])
+        return await handler(request, context, session)
+      } catch (error) {
+        return errorResponse(error, toCamelCase)
+      }
+    })
+}
+
+export function resourceResponse(data: unknown, init: { status?: number; total?: number } = {}) {
+  const body = init.total === undefined ? { success: true, data } : { success: true, data, total: init.total }
+  return NextResponse.json(body, { status: init.status ?? 200 })
+}
+
+export async function readJsonObject(request: NextRequest): Promise<Record<string, unknown>> {
+  const body = await request.json().catch(() => null)
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new StorageError("Request body must be a JSON object", 400)
+  }
+  return body as Record<string, unknown>
+}
+
+/**
+ * Maps camelCase resource fields to table columns. Unknown fields are kept
+ * under their snake_case name so validation reports them.
+ */
+export function fieldsToRow(fields: Record<string, unknown>): Row {
+  return Object.fromEntries(Object.entries(fields).map(([field, value]) => [toSnakeCase(field), value]))
+}
+
+export interface WriteContext {
+  actor: AuditActor
+  origin: string | null
+}
+
+export function writeContext(request: NextRequest, session: StaffSession): WriteContext {
+  return {
+    actor: auditActor(session, request.headers),
+    origin: request.headers.get("x-client-id"),
+  }
+}
+
+/** Query options from `?memberId=&from=&to=&limit=&offset=`, newest first by `dateColumn`. */
+export function listQuery(url: URL, dateColumn: string): QueryOptions {
+  const params = url.searchParams
+  const count = (name: string) => {
+    const value = params.get(name)
+    if (value === null) return undefined
+    const number = Number(value)
+    if (!Number.isInteger(number) || number < 0) {
+      throw new StorageError(`${name} must be a non-negative integer`, 400)
+    }
+    return number
+  }
+  const date = (name: string) => {
+    const value = params.get(name)
+    if (!value) return undefined
+    const time = new Date(value).getTime()
+    if (Number.isNaN(time)) throw new StorageError(`${name} must be a valid date`, 400)
+    return new Date(time).toISOString()
+  }
+
+  const memberId = params.get("memberId")
+  const from = date("from")
+  const to = date("to")
+  return {
+    where: memberId ? { user_id: memberId } : undefined,
+    range: from || to ? { column: dateColumn, from, to } : undefined,
+    orderBy: { column: dateColumn, direction: "desc" },
+    limit: count("limit"),
+    offset: count("offset"),
+  }
+}
+
+/** Rejects a body that points at a member who does not exist. */
+export async function assertMemberExists(
+  storage: StorageAdapter,
+  table: TableName,
+  userId: unknown,
+): Promise<Row> {
+  const member = userId ? await storage.get("users", userId) : null
+  if (!member) {
+    throw new ValidationError(`Invalid ${table} insert`, table, {
+      user_id: userId ? `Unknown member ${String(userId)}` : "User id is required",
+    })
+  }
+  return member
+}
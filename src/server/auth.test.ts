@@ -0,0 +1,137 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { NextRequest } from "next/server"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+
+type Auth = typeof import("./auth")
+type Staff = typeof import("./staff")
+type Storage = typeof import("./storage")
+
+const email = "owner@example.com"
+const password = "correct horse"
+
+function cookieHeaders(token: string): Headers {
+  return new Headers({ cookie: `bacas_session=${encodeURIComponent(token)}` })
+}
+
+describe("auth", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "bacas-auth-"))
+  let auth: Auth
+  let staff: Staff
+  let storage: Storage
+
+  beforeAll(async () => {
+    vi.stubEnv("STORAGE_BACKEND", "excel")
+    vi.stubEnv("EXCEL_DATABASE_PATH", path.join(directory, "db.xlsx"))
+    vi.stubEnv("EXCEL_BACKUP_INTERVAL_MS", "-1")
+    vi.stubEnv("ARCHIVE_INTERVAL_MS", "0")
+    vi.stubEnv("SESSION_SECRET", "test-secret")
+    vi.stubEnv("ADMIN_EMAIL", email)
+    vi.stubEnv("ADMIN_PASSWORD", password)
+    vi.stubEnv("API_KEYS", "kiosk:coach:kiosk-secret")
+    vi.spyOn(console, "info").mockImplementation(() => {})
+    vi.resetModules()
+    auth = await import("./auth")
+    staff = await import("./staff")
+    storage = await import("./storage")
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  const signIn = (credentials = { email, password }) => auth.signIn(storage.getStorage(), credentials)
+
+  it("creates the first owner from ADMIN_EMAIL and rejects wrong passwords", async () => {
+    await expect(signIn({ email, password: "correct hors" })).rejects.toMatchObject({ status: 401 })
+    expect(await storage.getStorage().list("staff")).toEqual([])
+
+    const { session } = await signIn()
+    expect(session).toMatchObject({ email, role: "owner" })
+    await expect(signIn({ email, password: "wrong password" })).rejects.toMatchObject({ status: 401 })
+  })
+
+  it("reads back signed tokens until they expire", async () => {
+    const { token, session } = await signIn()
+    expect(auth.readSessionToken(token)).toMatchObject({ ...session, sessionVersion: expect.any(Number) })
+    expect(auth.readSessionToken(token, Date.parse(session.expiresAt))).toBeNull()
+  })
+
+  it("rejects tokens that were changed or not signed", async () => {
+    const { token } = await signIn()
+    const [payload, signature] = token.split(".")
+    const contents = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"))
+    const forged = Buffer.from(JSON.stringify({ ...contents, role: "coach" })).toString("base64url")
+
+    expect(auth.readSessionToken(`${forged}.${signature}`)).toBeNull()
+    expect(auth.readSessionToken(`${payload}.${signature.slice(1)}`)).toBeNull()
+    expect(auth.readSessionToken(payload)).toBeNull()
+    expect(auth.readSessionToken(null)).toBeNull()
+  })
+
+  it("resolves a cookie against the account as it is now", async () => {
+    const { token, session } = await signIn()
+    expect(await auth.resolveSession(cookieHeaders(token))).toEqual(session)
+
+    await staff.updateStaff(storage.getStorage(), session.staffId, { name: "Renamed" }, { actor: email, deviceId: null })
+    expect(await auth.resolveSession(cookieHeaders(token))).toMatchObject({ name: "Renamed" })
+  })
+
+  it("signs out only this device unless asked to sign out everywhere", async () => {
+    const route = await import("@/app/api/auth/route")
+    const signOutRequest = (token: string, query = "") =>
+      new NextRequest(new URL(`/api/auth${query}`, "http://localhost"), {
+        method: "DELETE",
+        headers: cookieHeaders(token),
+      })
+    const first = await signIn()
+    const second = await signIn()
+
+    const response = await route.DELETE(signOutRequest(first.token))
+    expect(response.cookies.get("bacas_session")?.value).toBe("")
+    expect(await auth.resolveSession(cookieHeaders(second.token))).toEqual(second.session)
+
+    await route.DELETE(signOutRequest(second.token, "?everywhere=true"))
+    expect(await auth.resolveSession(cookieHeaders(first.token))).toBeNull()
+    expect(await auth.resolveSession(cookieHeaders(second.token))).toBeNull()
+    await expect(auth.requireSession(cookieHeaders(first.token))).rejects.toMatchObject({ status: 401 })
+
+    const next = await signIn()
+    expect(await auth.resolveSession(cookieHeaders(next.token))).toEqual(next.session)
+  })
+
+  it("ends every session of the account when its password changes", async () => {
+    const { token, session } = await signIn()
+    const newPassword = "battery staple"
+    await staff.updateStaff(storage.getStorage(), session.staffId, { password: newPassword }, { actor: email, deviceId: null })
+
+    expect(await auth.resolveSession(cookieHeaders(token))).toBeNull()
+    await expect(signIn()).rejects.toMatchObject({ status: 401 })
+    await expect(signIn({ email, password: newPassword })).resolves.toBeTruthy()
+  })
+
+  it("keeps the front desk from archiving members through plain edits", () => {
+    const frontDesk = { staffId: "2", email: "desk@example.com", name: "Desk", role: "front_desk" as const, expiresAt: "" }
+    const edit = { table: "users" as const, action: "update" as const, id: "1", updates: { name: "Ana" } }
+    const archive = { ...edit, updates: { name: "Ana", archived_at: "2026-10-19T00:00:00Z" } }
+    const restore = { ...edit, updates: { archived_at: null } }
+
+    expect(() => auth.assertColumnPermissions(frontDesk, [edit])).not.toThrow()
+    expect(() => auth.assertColumnPermissions(frontDesk, [archive])).toThrow(/members\.delete/)
+    expect(() => auth.assertColumnPermissions(frontDesk, [edit, restore])).toThrow(/members\.delete/)
+    expect(() =>
+      auth.assertColumnPermissions(frontDesk, [{ table: "users", action: "insert", rows: [archive.updates] }]),
+    ).toThrow(/members\.delete/)
+    expect(() => auth.assertColumnPermissions({ ...frontDesk, role: "manager" }, [archive])).not.toThrow()
+  })
+
+  it("accepts API keys with the role they were given", async () => {
+    const session = await auth.resolveSession(new Headers({ "x-api-key": "kiosk-secret" }))
+    expect(session).toMatchObject({ staffId: "api:kiosk", role: "coach" })
+    expect(() => auth.assertPermissions(session!, ["members.edit"])).toThrow(/Coach accounts/)
+    await expect(auth.requireSession(new Headers({ "x-api-key": "guess" }))).rejects.toThrow("Invalid API key")
+  })
+})
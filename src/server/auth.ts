@@ -0,0 +1,401 @@
+import { createHash, createHmac, randomBytes, scrypt, timingSafeEqual } from "crypto"
+import type { NextResponse } from "next/server"
+import { can, columnPermission, roleLabels, type Permission } from "@/src/lib/permissions"
+import type { StaffRole } from "@/src/types"
+import {
+  StorageError,
+  createId,
+  getStorage,
+  runAudited,
+  staffRoles,
+  type AuditActor,
+  type Row,
+  type StorageAdapter,
+  type StorageOperation,
+  type TableName,
+} from "./storage"
+
+/** HTTP-only cookie holding the signed session token. */
+export const sessionCookie = "bacas_session"
+
+/** How long a sign-in lasts. `SESSION_TTL_HOURS`, default 12. */
+const sessionTtlMs = Math.max(1, Number(process.env.SESSION_TTL_HOURS || 12)) * 60 * 60 * 1000
+
+/** Tables only the auth routes touch; the generic database API refuses them. */
+export const privateTables: TableName[] = ["staff"]
+
+export function isPrivateTable(table: TableName): boolean {
+  return privateTables.includes(table)
+}
+
+export function assertPublicTables(tables: TableName[]): void {
+  const blocked = tables.find(isPrivateTable)
+  if (blocked) throw new StorageError(`The ${blocked} table is not available through this API`, 403)
+}
+
+export interface StaffSession {
+  staffId: string
+  email: string
+  name: string
+  role: StaffRole
+  expiresAt: string
+}
+
+// ==============================
+// Passwords
+// ==============================
+
+const hashLength = 64
+
+function scryptHash(password: string, salt: Buffer, length: number): Promise<Buffer> {
+  return new Promise((resolve, reject) =>
+    scrypt(password, salt, length, (error, hash) => (error ? reject(error) : resolve(hash))),
+  )
+}
+
+/** `scrypt$<salt>$<hash>`, both base64, for `staff.password_hash`. */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16)
+  const hash = await scryptHash(password, salt, hashLength)
+  return `scrypt$${salt.toString("base64")}$${hash.toString("base64")}`
+}
+
+export async function verifyPassword(password: string, stored: unknown): Promise<boolean> {
+  const [scheme, salt, hash] = String(stored ?? "").split("$")
+  if (scheme !== "scrypt" || !salt || !hash) return false
+  const expected = Buffer.from(hash, "base64")
+  const actual = await scryptHash(password, Buffer.from(salt, "base64"), expected.length)
+  return timingSafeEqual(actual, expected)
+}
+
+// ==============================
+// Session tokens
+// ==============================
+
+// Shared through globalThis so every route bundle signs with the same key
+// and sees the same staff cache.
+const globalAuth = globalThis as typeof globalThis & {
+  __bacasSessionSecret?: Buffer
+  __bacasStaffCache?: { loadedAt: number; byId: Map<string, Row> }
+}
+
+/**
+ * `SESSION_SECRET` signs session tokens. Without it a random key is made per
+ * server process, so everyone has to sign in again after a restart.
+ */
+function sessionSecret(): Buffer {
+  if (process.env.SESSION_SECRET) return Buffer.from(process.env.SESSION_SECRET)
+  if (!globalAuth.__bacasSessionSecret) {
+    console.warn("[auth] SESSION_SECRET is not set; sessions will not survive a server restart")
+    globalAuth.__bacasSessionSecret = randomBytes(32)
+  }
+  return globalAuth.__bacasSessionSecret
+}
+
+function sign(payload: string): string {
+  return createHmac("sha256", sessionSecret()).update(payload).digest("base64url")
+}
+
+/**
+ * What a token carries: the session plus the account's `session_version`
+ * when it was signed. Raising the version ends every older session.
+ */
+export interface SessionToken extends StaffSession {
+  sessionVersion: number
+}
+
+function sessionVersion(staff: Row): number {
+  return Number(staff.session_version || 0)
+}
+
+function createSessionToken(staff: Row, now = Date.now()): { token: string; session: StaffSession } {
+  const session: StaffSession = {
+    staffId: String(staff.staff_id),
+    email: String(staff.email),
+    name: String(staff.name ?? ""),
+    role: staff.role as StaffRole,
+    expiresAt: new Date(now + sessionTtlMs).toISOString(),
+  }
+  const contents: SessionToken = { ...session, sessionVersion: sessionVersion(staff) }
+  const payload = Buffer.from(JSON.stringify(contents)).toString("base64url")
+  return { token: `${payload}.${sign(payload)}`, session }
+}
+
+/** The contents of `token`, or null when it is missing, forged or expired. */
+export function readSessionToken(token: string | undefined | null, now = Date.now()): SessionToken | null {
+  const [payload, signature] = (token || "").split(".")
+  if (!payload || !signature) return null
+
+  const expected = Buffer.from(sign(payload))
+  const actual = Buffer.from(signature)
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return null
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as SessionToken
+    return Date.parse(session.expiresAt) > now ? session : null
+  } catch {
+    return null
+  }
+}
+
+function cookieValue(headers: Headers, name: string): string | null {
+  for (const part of (headers.get("cookie") || "").split(";")) {
+    const [key, ...value] = part.trim().split("=")
+    if (key === name) return decodeURIComponent(value.join("="))
+  }
+  return null
+}
+
+export function sessionFromHeaders(headers: Headers): SessionToken | null {
+  return readSessionToken(cookieValue(headers, sessionCookie))
+}
+
+// ==============================
+// API keys
+// ==============================
+
+interface ApiKey {
+  name: string
+  role: StaffRole
+  digest: Buffer
+}
+
+function keyDigest(key: string): Buffer {
+  return createHash("sha256").update(key).digest()
+}
+
+/** Compares secrets in constant time; digests hide their lengths as well. */
+function sameSecret(left: string, right: string): boolean {
+  return timingSafeEqual(keyDigest(left), keyDigest(right))
+}
+
+/**
+ * `API_KEYS` lets scripts and kiosks call the API without signing in: a
+ * comma-separated list of `name:role:key`, e.g. `kiosk:front_desk:<secret>`.
+ * The key is sent in `X-Api-Key` and is limited to what its role may do.
+ */
+function parseApiKeys(value: string | undefined): ApiKey[] {
+  return (value || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .flatMap((entry) => {
+      const [name, role, ...key] = entry.split(":")
+      if (!name || !key.join(":") || !staffRoles.includes(role as StaffRole)) {
+        console.warn(`[auth] Ignoring malformed API_KEYS entry "${name || entry.slice(0, 8)}"`)
+        return []
+      }
+      return [{ name, role: role as StaffRole, digest: keyDigest(key.join(":")) }]
+    })
+}
+
+const apiKeys = parseApiKeys(process.env.API_KEYS)
+
+/** The session an `X-Api-Key` header stands for, or null without a matching key. */
+export function apiKeySession(headers: Headers): StaffSession | null {
+  const presented = headers.get("x-api-key")
+  if (!presented) return null
+
+  // Digests have equal length, so the comparison does not leak key lengths.
+  const digest = keyDigest(presented)
+  const match = apiKeys.find((apiKey) => timingSafeEqual(apiKey.digest, digest))
+  if (!match) return null
+  return {
+    staffId: `api:${match.name}`,
+    email: `api:${match.name}`,
+    name: match.name,
+    role: match.role,
+    expiresAt: new Date(Date.now() + sessionTtlMs).toISOString(),
+  }
+}
+
+// Role changes and disabled accounts take effect within this long.
+const staffCacheMs = 30_000
+
+async function findStaff(staffId: string): Promise<Row | null> {
+  const cache = globalAuth.__bacasStaffCache
+  if (!cache || Date.now() - cache.loadedAt > staffCacheMs) {
+    const rows = await getStorage().list("staff")
+    globalAuth.__bacasStaffCache = {
+      loadedAt: Date.now(),
+      byId: new Map(rows.map((row) => [String(row.staff_id), row])),
+    }
+  }
+  return globalAuth.__bacasStaffCache!.byId.get(staffId) ?? null
+}
+
+/** Called after any write to `staff`, so the next request sees it. */
+export function dropStaffCache(): void {
+  globalAuth.__bacasStaffCache = undefined
+}
+
+/**
+ * The session in the request cookie, checked against the staff table: the
+ * role comes from the account as it is now, and a deleted or disabled
+ * account, or one signed out or given a new password since the token was
+ * made, has no session. Without a cookie an API key is tried instead.
+ */
+export async function resolveSession(headers: Headers): Promise<StaffSession | null> {
+  const token = sessionFromHeaders(headers)
+  if (!token) return apiKeySession(headers)
+  const staff = await findStaff(token.staffId)
+  if (!staff || staff.disabled_at || sessionVersion(staff) !== token.sessionVersion) return null
+  return {
+    staffId: token.staffId,
+    email: String(staff.email),
+    name: String(staff.name ?? ""),
+    role: staff.role as StaffRole,
+    expiresAt: token.expiresAt,
+  }
+}
+
+/** The caller's session; throws 401 without a valid sign-in or API key. */
+export async function requireSession(headers: Headers): Promise<StaffSession> {
+  const session = await resolveSession(headers)
+  if (session) return session
+  throw new StorageError(headers.get("x-api-key") ? "Invalid API key" : "Sign in to continue", 401)
+}
+
+/** Throws 403 unless the role holds every permission given; null entries are skipped. */
+export function assertPermissions(session: StaffSession, required: (Permission | null)[]): void {
+  const missing = required.find((permission) => permission && !can(session.role, permission))
+  if (missing) {
+    throw new StorageError(`${roleLabels[session.role] ?? "This"} accounts are not allowed to do this (${missing})`, 403)
+  }
+}
+
+/** Throws 403 when a write sets columns that need more than its table permission. */
+export function assertColumnPermissions(session: StaffSession, operations: StorageOperation[]): void {
+  assertPermissions(
+    session,
+    operations.flatMap((operation) => {
+      if (operation.action === "insert") {
+        return operation.rows.map((row) => columnPermission(operation.table, "insert", row))
+      }
+      return operation.action === "update" ? [columnPermission(operation.table, "update", operation.updates)] : []
+    }),
+  )
+}
+
+export async function requirePermissions(
+  headers: Headers,
+  required: (Permission | null)[],
+): Promise<StaffSession> {
+  const session = await requireSession(headers)
+  assertPermissions(session, required)
+  return session
+}
+
+export function requirePermission(headers: Headers, permission: Permission | null): Promise<StaffSession> {
+  return requirePermissions(headers, [permission])
+}
+
+/**
+ * Who made a write: the staff id of the session the request was resolved to,
+ * `api:<name>` for an API key, and the device reported by the client in
+ * `X-Device-Id`.
+ */
+export function auditActor(session: StaffSession, headers: Headers): AuditActor {
+  return {
+    actor: session.staffId,
+    deviceId: headers.get("x-device-id") || null,
+  }
+}
+
+export function setSessionCookie(response: NextResponse, token: string, session: StaffSession): void {
+  response.cookies.set({
+    name: sessionCookie,
+    value: token,
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: new Date(session.expiresAt),
+  })
+}
+
+export function clearSessionCookie(response: NextResponse): void {
+  response.cookies.set({ name: sessionCookie, value: "", httpOnly: true, path: "/", maxAge: 0 })
+}
+
+// ==============================
+// Sign-in
+// ==============================
+
+export function normalizeEmail(value: unknown): string {
+  return String(value ?? "").trim().toLowerCase()
+}
+
+/**
+ * Creates the first owner account from `ADMIN_EMAIL`/`ADMIN_PASSWORD` when
+ * the staff table is empty and those are the credentials being used. Once
+ * any staff account exists the variables are ignored.
+ */
+async function createFirstStaff(storage: StorageAdapter, email: string, password: string): Promise<Row | null> {
+  if ((await storage.list("staff")).length) return null
+
+  const setupEmail = normalizeEmail(process.env.ADMIN_EMAIL)
+  const setupPassword = process.env.ADMIN_PASSWORD || ""
+  if (!setupEmail || !setupPassword) {
+    throw new StorageError(
+      "No staff accounts exist yet. Set ADMIN_EMAIL and ADMIN_PASSWORD on the server to create the first one.",
+      503,
+    )
+  }
+  if (email !== setupEmail || !sameSecret(password, setupPassword)) return null
+
+  const now = new Date().toISOString()
+  const staff: Row = {
+    staff_id: createId(),
+    email,
+    name: "Administrator",
+    role: "owner",
+    password_hash: await hashPassword(password),
+    created_at: now,
+    updated_at: now,
+    last_login_at: null,
+    session_version: 0,
+  }
+  await runAudited(storage, [{ table: "staff", action: "insert", rows: [staff] }], { actor: email, deviceId: null })
+  dropStaffCache()
+  return staff
+}
+
+/**
+ * Checks `email`/`password` against the staff table and starts a session.
+ * Unknown emails and wrong passwords get the same 401.
+ */
+export async function signIn(
+  storage: StorageAdapter,
+  credentials: { email: unknown; password: unknown },
+): Promise<{ token: string; session: StaffSession }> {
+  const email = normalizeEmail(credentials.email)
+  const password = typeof credentials.password === "string" ? credentials.password : ""
+  if (!email || !password) throw new StorageError("Enter your email and password", 400)
+
+  const { rows } = await storage.query("staff", { where: { email } })
+  const staff = rows[0] ?? (await createFirstStaff(storage, email, password))
+  if (!staff || !(await verifyPassword(password, staff.password_hash))) {
+    throw new StorageError("Invalid email or password", 401)
+  }
+  if (staff.disabled_at) throw new StorageError("This account has been disabled", 403)
+
+  // A sign-in is not an edit to the account, so it is not audited.
+  await storage.update("staff", staff.staff_id, { last_login_at: new Date().toISOString() })
+  return createSessionToken(staff)
+}
+
+/**
+ * Ends every session of the account signed in on `headers`, on every device,
+ * by raising its `session_version`. A plain sign-out only clears the cookie.
+ * Does nothing without a current session.
+ */
+export async function signOutEverywhere(storage: StorageAdapter, headers: Headers): Promise<void> {
+  const token = sessionFromHeaders(headers)
+  const staff = token && (await findStaff(token.staffId))
+  if (!staff || sessionVersion(staff) !== token.sessionVersion) return
+
+  // Like a sign-in, this is not an edit to the account, so it is not audited.
+  await storage.update("staff", staff.staff_id, { session_version: sessionVersion(staff) + 1 })
+  dropStaffCache()
+}
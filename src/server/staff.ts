@@ -0,0 +1,129 @@
+import { dropStaffCache, hashPassword, normalizeEmail } from "./auth"
+import {
+  StorageError,
+  ValidationError,
+  createId,
+  runAudited,
+  validateRow,
+  type AuditActor,
+  type Row,
+  type StorageAdapter,
+} from "./storage"
+
+const minPasswordLength = 8
+
+/** Fields an owner can set on an account. `disabled` stamps or clears `disabled_at`. */
+export interface StaffInput {
+  email?: unknown
+  name?: unknown
+  role?: unknown
+  password?: unknown
+  disabled?: unknown
+}
+
+async function passwordHash(password: unknown): Promise<string> {
+  if (typeof password !== "string" || password.length < minPasswordLength) {
+    throw new ValidationError("Invalid staff password", "staff", {
+      password: `Must be at least ${minPasswordLength} characters`,
+    })
+  }
+  return hashPassword(password)
+}
+
+async function requireStaff(storage: StorageAdapter, staffId: unknown): Promise<Row> {
+  const staff = await storage.get("staff", staffId)
+  if (!staff) throw new StorageError(`Staff account not found: ${String(staffId)}`, 404)
+  return staff
+}
+
+async function assertEmailFree(storage: StorageAdapter, email: string, staffId?: string): Promise<void> {
+  const { rows } = await storage.query("staff", { where: { email } })
+  if (rows.some((row) => String(row.staff_id) !== staffId)) {
+    throw new StorageError(`${email} already has a staff account`, 409)
+  }
+}
+
+/** The gym always keeps at least one owner who can sign in and manage staff. */
+async function assertOwnerRemains(storage: StorageAdapter, staffId: string, next: Row | null): Promise<void> {
+  const owners = (await storage.list("staff")).filter((row) => {
+    const account = String(row.staff_id) === staffId ? next : row
+    return account?.role === "owner" && !account.disabled_at
+  })
+  if (!owners.length) throw new StorageError("At least one active owner account is required", 409)
+}
+
+export async function listStaff(storage: StorageAdapter): Promise<Row[]> {
+  return (await storage.list("staff")).sort((left, right) =>
+    String(left.name ?? "").localeCompare(String(right.name ?? "")),
+  )
+}
+
+export async function createStaff(storage: StorageAdapter, input: StaffInput, actor: AuditActor): Promise<Row> {
+  const now = new Date().toISOString()
+  const row: Row = {
+    staff_id: createId(),
+    email: normalizeEmail(input.email),
+    name: String(input.name ?? "").trim(),
+    role: input.role,
+    password_hash: await passwordHash(input.password),
+    created_at: now,
+    updated_at: now,
+    last_login_at: null,
+    disabled_at: input.disabled === true ? now : null,
+    session_version: 0,
+  }
+  validateRow("staff", row, "insert")
+  await assertEmailFree(storage, String(row.email))
+
+  await runAudited(storage, [{ table: "staff", action: "insert", rows: [row] }], actor)
+  dropStaffCache()
+  return row
+}
+
+/**
+ * Changes the given fields. A new `password` replaces the old one outright
+ * and signs the account out everywhere.
+ */
+export async function updateStaff(
+  storage: StorageAdapter,
+  staffId: string,
+  input: StaffInput,
+  actor: AuditActor,
+): Promise<Row> {
+  const current = await requireStaff(storage, staffId)
+  const now = new Date().toISOString()
+  const updates: Row = { updated_at: now }
+
+  if (input.email !== undefined) {
+    updates.email = normalizeEmail(input.email)
+    await assertEmailFree(storage, String(updates.email), staffId)
+  }
+  if (input.name !== undefined) updates.name = String(input.name ?? "").trim()
+  if (input.role !== undefined) updates.role = input.role
+  if (input.password !== undefined) {
+    updates.password_hash = await passwordHash(input.password)
+    updates.session_version = Number(current.session_version || 0) + 1
+  }
+  if (input.disabled !== undefined) updates.disabled_at = input.disabled === true ? current.disabled_at || now : null
+  validateRow("staff", updates, "update")
+
+  const next = { ...current, ...updates }
+  await assertOwnerRemains(storage, staffId, next)
+  await runAudited(storage, [{ table: "staff", action: "update", id: staffId, updates }], actor)
+  dropStaffCache()
+  return next
+}
+
+export async function deleteStaff(
+  storage: StorageAdapter,
+  staffId: string,
+  actingStaffId: string,
+  actor: AuditActor,
+): Promise<void> {
+  if (staffId === actingStaffId) throw new StorageError("You cannot delete your own account", 409)
+  await requireStaff(storage, staffId)
+  await assertOwnerRemains(storage, staffId, null)
+
+  await runAudited(storage, [{ table: "staff", action: "delete", id: staffId }], actor)
+  dropStaffCache()
+}
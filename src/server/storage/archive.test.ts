@@ -0,0 +1,103 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import type { StorageAdapter } from "./types"
+
+type Archive = typeof import("./archive")
+
+const now = new Date("2026-06-01T00:00:00Z")
+
+function scan(id: string, timestamp: string) {
+  return { id, user_id: "1", user_name: "Ana", timestamp, action: "check-in", status: "success" }
+}
+
+describe("archive", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "bacas-archive-"))
+  let archive: Archive
+  let adapter: StorageAdapter
+
+  beforeAll(async () => {
+    vi.stubEnv("EXCEL_DATABASE_PATH", path.join(directory, "db.xlsx"))
+    vi.stubEnv("EXCEL_BACKUP_INTERVAL_MS", "-1")
+    vi.resetModules()
+    archive = await import("./archive")
+    adapter = (await import("./excel.adapter")).createExcelAdapter()
+
+    await adapter.insert("scan_logs", [
+      scan("old-1", "2024-03-01T02:00:00Z"),
+      scan("old-2", "2025-07-01T02:00:00Z"),
+      // Already 2026 at the gym in Manila, though still 2025 in UTC.
+      scan("new-year", "2025-12-31T17:00:00Z"),
+      scan("current", "2026-05-01T02:00:00Z"),
+      scan("undated", "not a date"),
+    ])
+    await adapter.insert("scan_logs_archive", [{ ...scan("old-2", "2025-07-01T02:00:00Z"), archive_year: 2025 }])
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+    ;(globalThis as typeof globalThis & { __bacasWorkbookCache?: unknown }).__bacasWorkbookCache = null
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("starts the hot period at the current year in the gym's time zone", () => {
+    expect(archive.hotPeriodStart(now)).toBe(2026)
+    expect(archive.hotPeriodStart(new Date("2026-12-31T17:00:00Z"))).toBe(2027)
+  })
+
+  it("moves rows from before the hot period into the archive once", async () => {
+    const [scans, payments] = await archive.archiveOldRecords(adapter, now)
+    expect(scans).toEqual({ table: "scan_logs", archive: "scan_logs_archive", moved: 2, years: [2024, 2025] })
+    expect(payments.moved).toBe(0)
+
+    const hotIds = (await adapter.list("scan_logs")).map((row) => row.id).sort()
+    expect(hotIds).toEqual(["current", "new-year", "undated"])
+    // old-2 was already archived, so it is not archived twice.
+    const archived = await adapter.list("scan_logs_archive")
+    expect(archived.map((row) => [row.id, String(row.archive_year)]).sort()).toEqual([
+      ["old-1", "2024"],
+      ["old-2", "2025"],
+    ])
+
+    const [again] = await archive.archiveOldRecords(adapter, now)
+    expect(again.moved).toBe(0)
+  })
+
+  it("queries the hot table and the archive as one table", async () => {
+    const { rows, total } = await archive.queryWithArchive(adapter, "scan_logs", {
+      where: { user_id: "1" },
+      orderBy: { column: "timestamp", direction: "asc" },
+      limit: 2,
+      offset: 1,
+    })
+    expect(total).toBe(5)
+    expect(rows.map((row) => row.id)).toEqual(["old-2", "new-year"])
+    expect(rows[0]).not.toHaveProperty("archive_year")
+  })
+
+  it("leaves the archive alone for ranges inside the hot period", async () => {
+    vi.useFakeTimers({ toFake: ["Date"], now })
+    const query = vi.spyOn(adapter, "query")
+    const { rows } = await archive.queryWithArchive(adapter, "scan_logs", {
+      range: { column: "timestamp", from: "2026-02-01T00:00:00Z" },
+    })
+    expect(rows.map((row) => row.id)).toEqual(["current"])
+    expect(query.mock.calls.map(([table]) => table)).toEqual(["scan_logs"])
+    query.mockRestore()
+    vi.useRealTimers()
+  })
+
+  it("counts hot rows and archived rows per year", async () => {
+    const [scans] = await archive.archiveSummary(adapter)
+    expect(scans).toMatchObject({
+      table: "scan_logs",
+      hotRows: 3,
+      years: [
+        { year: 2025, rows: 1 },
+        { year: 2024, rows: 1 },
+      ],
+    })
+  })
+})
@@ -0,0 +1,177 @@
+import { applyQuery, type QueryOptions, type QueryResult } from "./query"
+import { tableConfigs, type Row, type TableName } from "./tables"
+import type { StorageAdapter, StorageOperation } from "./types"
+
+/** Hot tables whose older rows move to a yearly-partitioned archive table. */
+export type ArchivedTable = "scan_logs" | "payment"
+
+interface ArchivePartitioning {
+  archive: TableName
+  /** The column that decides which year a row belongs to. */
+  dateColumn: string
+}
+
+export const archivePartitions: Record<ArchivedTable, ArchivePartitioning> = {
+  scan_logs: { archive: "scan_logs_archive", dateColumn: "timestamp" },
+  payment: { archive: "payment_archive", dateColumn: "payment_date" },
+}
+
+export function isArchivedTable(tableName: TableName): tableName is ArchivedTable {
+  return tableName in archivePartitions
+}
+
+/** Years, counting the current one, that stay in the hot tables. */
+const hotYears = Math.max(1, Number(process.env.ARCHIVE_KEEP_YEARS || 1))
+
+/** Rows are filed under the year they happened in at the gym. */
+const yearFormat = new Intl.DateTimeFormat("en-US", {
+  timeZone: process.env.GYM_TIME_ZONE || "Asia/Manila",
+  year: "numeric",
+})
+
+// Keeps each transaction small enough for the Apps Script time limit.
+const archiveBatchSize = 500
+
+function yearOf(value: unknown): number | null {
+  const time = Date.parse(String(value ?? ""))
+  return Number.isNaN(time) ? null : Number(yearFormat.format(time))
+}
+
+/** The oldest year still kept in the hot tables. */
+export function hotPeriodStart(now = new Date()): number {
+  return Number(yearFormat.format(now)) - hotYears + 1
+}
+
+function withoutPartition(row: Row): Row {
+  const copy = { ...row }
+  delete copy.archive_year
+  return copy
+}
+
+export interface ArchiveRunResult {
+  table: ArchivedTable
+  archive: TableName
+  moved: number
+  years: number[]
+}
+
+/**
+ * Moves rows dated before `hotPeriodStart` from each hot table into its
+ * archive, tagged with their `archive_year`. Each batch inserts and deletes
+ * in one transaction, so a row is never in both tables or in neither. Rows
+ * whose date does not parse stay put for the integrity check to report.
+ *
+ * Moving a row does not change it, so no audit entries are written.
+ */
+export async function archiveOldRecords(
+  storage: StorageAdapter,
+  now = new Date(),
+): Promise<ArchiveRunResult[]> {
+  const cutoff = hotPeriodStart(now)
+  const results: ArchiveRunResult[] = []
+
+  for (const [table, { archive, dateColumn }] of Object.entries(archivePartitions) as [
+    ArchivedTable,
+    ArchivePartitioning,
+  ][]) {
+    const { primaryKey, columns } = tableConfigs[table]
+    const stale = (await storage.list(table)).flatMap((row) => {
+      const year = yearOf(row[dateColumn])
+      return year !== null && year < cutoff ? [{ row, year }] : []
+    })
+
+    for (let start = 0; start < stale.length; start += archiveBatchSize) {
+      const batch = stale.slice(start, start + archiveBatchSize)
+      const ids = batch.map(({ row }) => row[primaryKey])
+
+      // A row already archived (e.g. the hot table came back from a backup)
+      // is only removed from the hot table.
+      const { rows: archived } = await storage.query(archive, { where: { [primaryKey]: ids } })
+      const alreadyArchived = new Set(archived.map((row) => String(row[primaryKey])))
+      const rows = batch
+        .filter(({ row }) => !alreadyArchived.has(String(row[primaryKey])))
+        .map(({ row, year }) => ({
+          ...Object.fromEntries(columns.map((column) => [column, row[column] ?? null])),
+          archive_year: year,
+        }))
+
+      const operations: StorageOperation[] = ids.map((id) => ({ table, action: "delete", id }))
+      if (rows.length) operations.unshift({ table: archive, action: "insert", rows })
+      await storage.transaction(operations)
+    }
+
+    results.push({
+      table,
+      archive,
+      moved: stale.length,
+      years: Array.from(new Set(stale.map(({ year }) => year))).sort((a, b) => a - b),
+    })
+  }
+  return results
+}
+
+/** Whether a query can reach rows dated before the hot period. */
+function reachesArchive(options: QueryOptions, tableName: ArchivedTable): boolean {
+  const range = options.range
+  if (!range || range.column !== archivePartitions[tableName].dateColumn || !range.from) return true
+  const fromYear = yearOf(range.from)
+  return fromYear === null || fromYear < hotPeriodStart()
+}
+
+/**
+ * Runs `options` over the hot table and its archive as if they were one
+ * table. The archive is skipped when the range starts inside the hot period.
+ */
+export async function queryWithArchive(
+  storage: StorageAdapter,
+  tableName: ArchivedTable,
+  options: QueryOptions,
+): Promise<QueryResult> {
+  if (!reachesArchive(options, tableName)) return storage.query(tableName, options)
+
+  // Paging has to happen after the two halves are merged.
+  const unpaged = { where: options.where, range: options.range }
+  const [hot, archived] = await Promise.all([
+    storage.query(tableName, unpaged),
+    storage.query(archivePartitions[tableName].archive, unpaged),
+  ])
+  return applyQuery([...hot.rows, ...archived.rows.map(withoutPartition)], {
+    orderBy: options.orderBy,
+    limit: options.limit,
+    offset: options.offset,
+  })
+}
+
+export async function listWithArchive(storage: StorageAdapter, tableName: ArchivedTable): Promise<Row[]> {
+  return (await queryWithArchive(storage, tableName, {})).rows
+}
+
+export interface ArchiveSummary {
+  table: ArchivedTable
+  hotRows: number
+  hotPeriodStart: number
+  years: { year: number; rows: number }[]
+}
+
+/** Row counts of each hot table and of every archived year. */
+export async function archiveSummary(storage: StorageAdapter): Promise<ArchiveSummary[]> {
+  const tables = Object.keys(archivePartitions) as ArchivedTable[]
+  const data = await storage.batchList([
+    ...tables,
+    ...tables.map((table) => archivePartitions[table].archive),
+  ])
+
+  return tables.map((table) => {
+    const counts = new Map<number, number>()
+    for (const row of data[archivePartitions[table].archive]) {
+      const year = Number(row.archive_year)
+      counts.set(year, (counts.get(year) || 0) + 1)
+    }
+    return {
+      table,
+      hotRows: data[table].length,
+      hotPeriodStart: hotPeriodStart(),
+      years: Array.from(counts, ([year, rows]) => ({ year, rows })).sort((a, b) => b.year - a.year),
+    }
+  })
+}
@@ -0,0 +1,136 @@
+import { randomUUID } from "crypto"
+import { createId, sameValue, tableConfigs, type Row } from "./tables"
+import {
+  StorageError,
+  type OperationResult,
+  type StorageAdapter,
+  type StorageOperation,
+} from "./types"
+
+/** Who made a write: a staff email and the device id, when known. */
+export interface AuditActor {
+  actor: string | null
+  deviceId: string | null
+}
+
+// Logged as changed, never with their value.
+const redactedColumns = ["password_hash"]
+
+function toJson(row: Row | null): string | null {
+  if (!row) return null
+  const logged = { ...row }
+  for (const column of redactedColumns) {
+    if (column in logged) logged[column] = "[redacted]"
+  }
+  return JSON.stringify(logged)
+}
+
+/**
+ * Builds one `audit_log` row per written record. Updates keep only the
+ * columns whose value changed; inserts and deletes keep the whole row.
+ * Operations are walked in order, so a batch touching the same record twice
+ * logs each step against the state the previous one left behind.
+ */
+async function buildEntries(
+  storage: StorageAdapter,
+  operations: StorageOperation[],
+  actor: AuditActor,
+): Promise<Row[]> {
+  const at = new Date().toISOString()
+  const staged = new Map<string, Row | null>()
+  const entries: Row[] = []
+
+  const current = async (operation: StorageOperation & { id: unknown }) => {
+    const key = `${operation.table}:${String(operation.id)}`
+    if (!staged.has(key)) staged.set(key, await storage.get(operation.table, operation.id))
+    return staged.get(key) ?? null
+  }
+
+  const log = (
+    operation: StorageOperation,
+    recordId: unknown,
+    row: Row,
+    before: Row | null,
+    after: Row | null,
+  ) => {
+    entries.push({
+      id: createId(),
+      at,
+      table_name: operation.table,
+      record_id: recordId,
+      member_id: row.user_id ?? null,
+      action: operation.action,
+      before: toJson(before),
+      after: toJson(after),
+      actor: actor.actor,
+      device_id: actor.deviceId,
+    })
+  }
+
+  for (const operation of operations) {
+    const { primaryKey } = tableConfigs[operation.table]
+
+    if (operation.action === "insert") {
+      for (const row of operation.rows) {
+        staged.set(`${operation.table}:${String(row[primaryKey])}`, row)
+        log(operation, row[primaryKey], row, null, row)
+      }
+    } else if (operation.action === "update") {
+      const before = await current(operation)
+      if (!before) continue
+      const changed = Object.keys(operation.updates).filter(
+        (column) => !sameValue(before[column], operation.updates[column]),
+      )
+      staged.set(`${operation.table}:${String(operation.id)}`, { ...before, ...operation.updates })
+      if (!changed.length) continue
+      log(
+        operation,
+        operation.id,
+        before,
+        Object.fromEntries(changed.map((column) => [column, before[column] ?? null])),
+        Object.fromEntries(changed.map((column) => [column, operation.updates[column] ?? null])),
+      )
+    } else {
+      const before = await current(operation)
+      if (!before) continue
+      staged.set(`${operation.table}:${String(operation.id)}`, null)
+      log(operation, operation.id, before, before, null)
+    }
+  }
+  return entries
+}
+
+/**
+ * Runs `operations` as one transaction together with their `audit_log`
+ * rows, so a change is never stored without its trail. Returns the results
+ * of `operations` only.
+ */
+export async function runAudited(
+  storage: StorageAdapter,
+  operations: StorageOperation[],
+  actor: AuditActor,
+): Promise<OperationResult[]> {
+  if (operations.some((operation) => operation.table === "audit_log")) {
+    throw new StorageError("audit_log is read-only", 403)
+  }
+
+  // Inserts need their key up front so the log names the stored record. A
+  // uuid is accepted by every backend, including Postgres uuid keys.
+  const keyed = operations.map((operation) => {
+    if (operation.action !== "insert") return operation
+    const { primaryKey } = tableConfigs[operation.table]
+    return {
+      ...operation,
+      rows: operation.rows.map((row) =>
+        row[primaryKey] ? row : { ...row, [primaryKey]: randomUUID() },
+      ),
+    }
+  })
+
+  const entries = await buildEntries(storage, keyed, actor)
+  const audited: StorageOperation[] = entries.length
+    ? [...keyed, { table: "audit_log", action: "insert", rows: entries }]
+    : keyed
+  const results = await storage.transaction(audited)
+  return results.slice(0, operations.length)
+}
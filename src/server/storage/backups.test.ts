@@ -0,0 +1,67 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import type { StorageAdapter } from "./types"
+
+type Backups = typeof import("./backups")
+
+const owner = {
+  staff_id: "1",
+  email: "owner@example.com",
+  name: "Owner",
+  role: "owner",
+  password_hash: "old-hash",
+  session_version: 1,
+}
+
+describe("backups", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "bacas-backups-"))
+  const databasePath = path.join(directory, "db.xlsx")
+  let backups: Backups
+  let adapter: StorageAdapter
+
+  beforeAll(async () => {
+    vi.stubEnv("EXCEL_DATABASE_PATH", databasePath)
+    vi.stubEnv("EXCEL_BACKUP_INTERVAL_MS", "-1")
+    vi.resetModules()
+    backups = await import("./backups")
+    adapter = (await import("./excel.adapter")).createExcelAdapter()
+
+    await adapter.insert("users", [{ user_id: "BCF-1001", name: "Ana" }])
+    await adapter.insert("staff", [owner])
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+    ;(globalThis as typeof globalThis & { __bacasWorkbookCache?: unknown }).__bacasWorkbookCache = null
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("rolls members back but keeps staff accounts as they are now", async () => {
+    const backup = backups.createBackup(databasePath)!
+    await adapter.insert("users", [{ user_id: "BCF-1002", name: "Ben" }])
+    await adapter.update("staff", "1", { password_hash: "new-hash", session_version: 2 })
+    await adapter.insert("staff", [{ ...owner, staff_id: "2", email: "desk@example.com", role: "front_desk" }])
+
+    const preview = backups.previewRestore(databasePath, backup.name)
+    expect(preview.kept).toEqual(["staff"])
+    expect(preview.tables.users).toEqual({ current: 2, backup: 1, difference: -1 })
+    expect(preview.tables.staff).toEqual({ current: 2, backup: 2, difference: 0 })
+
+    backups.restoreBackup(databasePath, backup.name)
+    expect((await adapter.list("users")).map((row) => row.user_id)).toEqual(["BCF-1001"])
+    const staff = await adapter.list("staff")
+    expect(staff.map((row) => [row.staff_id, row.password_hash])).toEqual([
+      ["1", "new-hash"],
+      ["2", "old-hash"],
+    ])
+    expect(backups.listBackups(databasePath).map((item) => item.reason)).toContain("pre-restore")
+  })
+
+  it("answers 404 for backups that do not exist", () => {
+    expect(() => backups.restoreBackup(databasePath, "missing.xlsx")).toThrow(
+      expect.objectContaining({ status: 404 }),
+    )
+  })
+})
@@ -0,0 +1,189 @@
+import fs from "fs"
+import path from "path"
+import * as XLSX from "xlsx"
+import { tableConfigs, tableNames, type TableName } from "./tables"
+import { StorageError } from "./types"
+import { writeFileAtomic } from "./write-ahead-log"
+
+export type BackupReason = "auto" | "manual" | "pre-restore"
+
+export interface BackupInfo {
+  name: string
+  reason: BackupReason
+  createdAt: string
+  size: number
+}
+
+export interface RestorePreview {
+  backup: BackupInfo
+  tables: Record<TableName, { current: number; backup: number; difference: number }>
+  /** Tables the restore leaves as they are now. */
+  kept: TableName[]
+}
+
+/**
+ * Tables a restore never rolls back. Old staff rows would bring back old
+ * passwords and accounts that were since disabled or removed.
+ */
+export const restoreKeptTables: TableName[] = ["staff"]
+
+/** Minimum gap between automatic pre-write backups. */
+const backupIntervalMs = Number(process.env.EXCEL_BACKUP_INTERVAL_MS ?? 15 * 60_000)
+/** Automatic backups always kept, newest first. */
+const keepRecent = Number(process.env.EXCEL_BACKUP_KEEP_RECENT ?? 24)
+/** Beyond those, the newest automatic backup of each day is kept this long. */
+const keepDays = Number(process.env.EXCEL_BACKUP_KEEP_DAYS ?? 30)
+
+const backupNamePattern = /^(.+)\.(\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z)\.(auto|manual|pre-restore)\.xlsx$/
+
+export function backupDirectory(databasePath: string): string {
+  return process.env.EXCEL_BACKUP_DIR || path.join(path.dirname(databasePath), "backups")
+}
+
+function parseBackupName(name: string): { createdAt: string; reason: BackupReason } | null {
+  const match = backupNamePattern.exec(name)
+  if (!match) return null
+  const [date, time] = match[2].split("T")
+  const [hours, minutes, seconds, millis] = time.replace("Z", "").split("-")
+  return {
+    createdAt: `${date}T${hours}:${minutes}:${seconds}.${millis}Z`,
+    reason: match[3] as BackupReason,
+  }
+}
+
+/** Backups of `databasePath`, newest first. */
+export function listBackups(databasePath: string): BackupInfo[] {
+  const directory = backupDirectory(databasePath)
+  if (!fs.existsSync(directory)) return []
+
+  const prefix = `${path.basename(databasePath, ".xlsx")}.`
+  return fs
+    .readdirSync(directory)
+    .filter((name) => name.startsWith(prefix))
+    .flatMap((name) => {
+      const parsed = parseBackupName(name)
+      if (!parsed) return []
+      return [{ name, ...parsed, size: fs.statSync(path.join(directory, name)).size }]
+    })
+    .sort((left, right) => right.createdAt.localeCompare(left.createdAt))
+}
+
+export function createBackup(databasePath: string, reason: BackupReason = "manual"): BackupInfo | null {
+  if (!fs.existsSync(databasePath)) return null
+
+  const directory = backupDirectory(databasePath)
+  fs.mkdirSync(directory, { recursive: true })
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-")
+  const name = `${path.basename(databasePath, ".xlsx")}.${stamp}.${reason}.xlsx`
+  fs.copyFileSync(databasePath, path.join(directory, name))
+
+  pruneBackups(databasePath)
+  return listBackups(databasePath).find((backup) => backup.name === name) || null
+}
+
+/**
+ * Called before the workbook is overwritten. Takes at most one automatic
+ * backup per `EXCEL_BACKUP_INTERVAL_MS`, so busy scanning hours don't fill
+ * the disk.
+ */
+export function backupBeforeWrite(databasePath: string): void {
+  if (backupIntervalMs < 0) return
+  const latest = listBackups(databasePath).find((backup) => backup.reason === "auto")
+  if (latest && Date.now() - new Date(latest.createdAt).getTime() < backupIntervalMs) return
+
+  try {
+    createBackup(databasePath, "auto")
+  } catch (error) {
+    // A failed backup must never block the write it precedes.
+    console.error("Automatic workbook backup failed:", error)
+  }
+}
+
+/**
+ * Retention only applies to automatic backups; manual and pre-restore copies
+ * stay until someone deletes them.
+ */
+function pruneBackups(databasePath: string): void {
+  const directory = backupDirectory(databasePath)
+  const cutoff = Date.now() - keepDays * 24 * 60 * 60_000
+  const keptDays = new Set<string>()
+
+  listBackups(databasePath)
+    .filter((backup) => backup.reason === "auto")
+    .forEach((backup, index) => {
+      if (index < keepRecent) return
+      const day = backup.createdAt.slice(0, 10)
+      if (new Date(backup.createdAt).getTime() >= cutoff && !keptDays.has(day)) {
+        keptDays.add(day)
+        return
+      }
+      fs.rmSync(path.join(directory, backup.name), { force: true })
+    })
+}
+
+function findBackup(databasePath: string, name: unknown): BackupInfo {
+  const backup = listBackups(databasePath).find((item) => item.name === name)
+  if (!backup) throw new StorageError(`Backup not found: ${String(name)}`, 404)
+  return backup
+}
+
+function readWorkbook(filePath: string): XLSX.WorkBook | null {
+  return fs.existsSync(filePath) ? XLSX.read(fs.readFileSync(filePath), { type: "buffer", cellDates: false }) : null
+}
+
+function countRows(filePath: string): Record<TableName, number> {
+  const counts = {} as Record<TableName, number>
+  const workbook = readWorkbook(filePath)
+
+  for (const tableName of tableNames) {
+    const sheet = workbook?.Sheets[tableConfigs[tableName].sheetName]
+    counts[tableName] = sheet ? XLSX.utils.sheet_to_json(sheet, { defval: null }).length : 0
+  }
+  return counts
+}
+
+/** Per-table row counts of the live workbook against a backup. */
+export function previewRestore(databasePath: string, name: unknown): RestorePreview {
+  const backup = findBackup(databasePath, name)
+  const current = countRows(databasePath)
+  const restored = countRows(path.join(backupDirectory(databasePath), backup.name))
+
+  const tables = {} as RestorePreview["tables"]
+  for (const tableName of tableNames) {
+    const backupRows = restoreKeptTables.includes(tableName) ? current[tableName] : restored[tableName]
+    tables[tableName] = {
+      current: current[tableName],
+      backup: backupRows,
+      difference: backupRows - current[tableName],
+    }
+  }
+  return { backup, tables, kept: restoreKeptTables }
+}
+
+/**
+ * Replaces the live workbook with a backup, except for the sheets of
+ * `restoreKeptTables`, which are carried over from the live workbook. The
+ * current file is saved as a `pre-restore` backup first so the restore
+ * itself can be undone.
+ */
+export function restoreBackup(databasePath: string, name: unknown): BackupInfo {
+  const backup = findBackup(databasePath, name)
+  createBackup(databasePath, "pre-restore")
+
+  const workbook = readWorkbook(path.join(backupDirectory(databasePath), backup.name))!
+  const live = readWorkbook(databasePath)
+  for (const tableName of restoreKeptTables) {
+    const sheetName = tableConfigs[tableName].sheetName
+    const sheet = live?.Sheets[sheetName]
+    if (sheet) {
+      if (!workbook.Sheets[sheetName]) workbook.SheetNames.push(sheetName)
+      workbook.Sheets[sheetName] = sheet
+    } else if (workbook.Sheets[sheetName]) {
+      delete workbook.Sheets[sheetName]
+      workbook.SheetNames = workbook.SheetNames.filter((existing) => existing !== sheetName)
+    }
+  }
+
+  writeFileAtomic(databasePath, XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer)
+  return backup
+}
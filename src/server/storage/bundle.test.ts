@@ -0,0 +1,156 @@
+import { createHash } from "crypto"
+import fs from "fs"
+import os from "os"
+import path from "path"
+import * as XLSX from "xlsx"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import type { StorageAdapter } from "./types"
+
+type Bundle = typeof import("./bundle")
+
+interface ZipContainer {
+  FullPaths: string[]
+  FileIndex: { name: string; type: number; content?: ArrayLike<number> }[]
+}
+
+const zip = XLSX.CFB as {
+  utils: { cfb_new(): ZipContainer; cfb_add(container: ZipContainer, path: string, content: Buffer): void }
+  read(data: Buffer, options: { type: "buffer" }): ZipContainer
+  write(container: ZipContainer, options: { fileType: "zip"; type: "buffer"; compression: boolean }): Buffer
+}
+
+/**
+ * Rewrites one file of a bundle the way a damaged download would, or with
+ * `resign` the way a hand edit that also fixed the manifest checksum would.
+ */
+function editBundle(content: Buffer, filePath: string, edit: (text: string) => string, resign = false): Buffer {
+  const source = zip.read(content, { type: "buffer" })
+  const root = source.FullPaths[0] || ""
+  const files = new Map<string, Buffer>()
+  source.FileIndex.forEach((entry, index) => {
+    if (entry.type !== 2 || entry.name.startsWith("\u0001") || !entry.content) return
+    files.set(source.FullPaths[index].slice(root.length), Buffer.from(entry.content as ArrayLike<number>))
+  })
+
+  const edited = Buffer.from(edit(files.get(filePath)!.toString("utf8")))
+  files.set(filePath, edited)
+  if (resign) {
+    const manifest = JSON.parse(files.get("manifest.json")!.toString("utf8"))
+    for (const entry of Object.values(manifest.tables) as { json: { path: string; sha256: string } }[]) {
+      if (entry.json.path === filePath) entry.json.sha256 = createHash("sha256").update(edited).digest("hex")
+    }
+    files.set("manifest.json", Buffer.from(JSON.stringify(manifest)))
+  }
+
+  const target = zip.utils.cfb_new()
+  for (const [entryPath, data] of files) zip.utils.cfb_add(target, entryPath, data)
+  return zip.write(target, { fileType: "zip", type: "buffer", compression: true })
+}
+
+describe("bundle", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "bacas-bundle-"))
+  let bundle: Bundle
+  let adapter: StorageAdapter
+  let exported: Awaited<ReturnType<Bundle["exportBundle"]>>
+
+  beforeAll(async () => {
+    vi.stubEnv("EXCEL_DATABASE_PATH", path.join(directory, "db.xlsx"))
+    vi.stubEnv("EXCEL_BACKUP_INTERVAL_MS", "-1")
+    vi.resetModules()
+    bundle = await import("./bundle")
+    adapter = (await import("./excel.adapter")).createExcelAdapter()
+
+    await adapter.insert("users", [
+      { user_id: "BCF-1001", name: "Ana" },
+      { user_id: "BCF-1002", name: "Ben" },
+    ])
+    await adapter.insert("payment", [
+      {
+        payment_id: "p1",
+        user_id: "BCF-1001",
+        amount: 500,
+        payment_method: "cash",
+        payment_date: "2026-10-01T00:00:00.000Z",
+        payment_for: "membership",
+      },
+    ])
+    exported = await bundle.exportBundle(adapter, new Date("2026-10-19T02:03:04Z"))
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+    ;(globalThis as typeof globalThis & { __bacasWorkbookCache?: unknown }).__bacasWorkbookCache = null
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("names the export after its time and lists every table with a checksum", () => {
+    expect(exported.fileName).toBe("bacas-export-20261019-020304.zip")
+    expect(exported.manifest).toMatchObject({ format: "bacas-bundle", source: "local-excel" })
+    expect(exported.manifest.tables.users).toMatchObject({
+      rows: 2,
+      json: { path: "tables/users.json", sha256: expect.stringMatching(/^[0-9a-f]{64}$/) },
+    })
+  })
+
+  it("reports a merge into the same data as unchanged", async () => {
+    const result = await bundle.importBundle(adapter, exported.content, { mode: "merge", dryRun: true })
+    expect(result.tables.find((table) => table.table === "users")).toEqual({
+      table: "users",
+      rows: 2,
+      inserted: 0,
+      updated: 0,
+      deleted: 0,
+      unchanged: 2,
+    })
+  })
+
+  it("merges without deleting and replaces back to the export", async () => {
+    await adapter.update("users", "BCF-1001", { name: "Ana Cruz" })
+    await adapter.insert("users", [{ user_id: "BCF-1003", name: "Cy" }])
+
+    const merged = await bundle.importBundle(adapter, exported.content, { mode: "merge", dryRun: false })
+    expect(merged.tables.find((table) => table.table === "users")).toMatchObject({ updated: 1, deleted: 0 })
+    expect(await adapter.get("users", "BCF-1001")).toMatchObject({ name: "Ana" })
+    expect(await adapter.get("users", "BCF-1003")).not.toBeNull()
+
+    const replaced = await bundle.importBundle(adapter, exported.content, { mode: "replace", dryRun: false })
+    expect(replaced.tables.find((table) => table.table === "users")).toMatchObject({ deleted: 1 })
+    expect((await adapter.list("users")).map((row) => row.user_id).sort()).toEqual(["BCF-1001", "BCF-1002"])
+  })
+
+  it("rejects a file that does not match its checksum", async () => {
+    const damaged = editBundle(exported.content, "tables/users.json", (text) => text.replace("Ana", "Eve"))
+    await expect(bundle.importBundle(adapter, damaged, { mode: "replace", dryRun: true })).rejects.toMatchObject({
+      status: 400,
+      message: "tables/users.json does not match its checksum; the bundle is damaged",
+    })
+  })
+
+  it("rejects bundles from a newer app and files that are not bundles", async () => {
+    const newer = editBundle(exported.content, "manifest.json", (text) =>
+      JSON.stringify({ ...JSON.parse(text), schemaVersion: 999 }),
+    )
+    await expect(bundle.importBundle(adapter, newer, { mode: "merge", dryRun: true })).rejects.toThrow(
+      /schema version 999 is newer/,
+    )
+    await expect(
+      bundle.importBundle(adapter, Buffer.from("not a zip"), { mode: "merge", dryRun: true }),
+    ).rejects.toMatchObject({ status: 400 })
+  })
+
+  it("validates every row before writing any", async () => {
+    await adapter.update("users", "BCF-1002", { name: "Ben Reyes" })
+    const invalid = editBundle(
+      exported.content,
+      "tables/payment.json",
+      (text) => text.replace(/"amount":"?500"?/, '"amount":-1'),
+      true,
+    )
+    await expect(bundle.importBundle(adapter, invalid, { mode: "replace", dryRun: false })).rejects.toMatchObject({
+      status: 400,
+      message: "Row 1 of payment is invalid: amount: Amount must be greater than 0",
+    })
+    // The users in the same bundle were valid, but nothing was written.
+    expect(await adapter.get("users", "BCF-1002")).toMatchObject({ name: "Ben Reyes" })
+  })
+})
@@ -0,0 +1,405 @@
+import { createHash } from "crypto"
+import * as XLSX from "xlsx"
+import { createMigrationContext, runMigrations, schemaVersion } from "./migrations"
+import { validateRow } from "./schemas"
+import { asTableName, sameValue, tableConfigs, tableNames, type Row, type TableName } from "./tables"
+import { StorageError, ValidationError, type StorageAdapter, type StorageOperation } from "./types"
+
+export const bundleFormat = "bacas-bundle"
+const bundleFormatVersion = 1
+const manifestPath = "manifest.json"
+
+export interface BundleFile {
+  path: string
+  sha256: string
+}
+
+export interface BundleTableEntry {
+  rows: number
+  /** The rows as JSON, with their stored types. This is what import reads. */
+  json: BundleFile
+  /** The same rows for spreadsheets; import falls back to it without `json`. */
+  csv: BundleFile
+}
+
+export interface BundleManifest {
+  format: typeof bundleFormat
+  formatVersion: number
+  exportedAt: string
+  /** The schema version the rows were written with; see `migrations`. */
+  schemaVersion: number
+  source: string
+  tables: Partial<Record<TableName, BundleTableEntry>>
+}
+
+export interface ExportedBundle {
+  fileName: string
+  content: Buffer
+  manifest: BundleManifest
+}
+
+/**
+ * `merge` inserts and updates the bundle's rows and keeps everything else;
+ * `replace` also deletes rows the bundle does not have, so every table in it
+ * ends up exactly as exported.
+ */
+export type BundleImportMode = "merge" | "replace"
+
+export interface BundleTableReport {
+  table: TableName
+  rows: number
+  inserted: number
+  updated: number
+  deleted: number
+  unchanged: number
+}
+
+export interface BundleImportResult {
+  dryRun: boolean
+  mode: BundleImportMode
+  exportedAt: string
+  schemaVersion: number
+  tables: BundleTableReport[]
+  /** Tables, columns and migrations worth knowing about, in plain words. */
+  notes: string[]
+}
+
+// SheetJS ships its zip reader and writer as `XLSX.CFB`, without types.
+interface ZipContainer {
+  FullPaths: string[]
+  FileIndex: { name: string; type: number; content?: ArrayLike<number> }[]
+}
+
+const zip = XLSX.CFB as {
+  utils: { cfb_new(): ZipContainer; cfb_add(container: ZipContainer, path: string, content: Buffer): void }
+  read(data: Buffer, options: { type: "buffer" }): ZipContainer
+  write(container: ZipContainer, options: { fileType: "zip"; type: "buffer"; compression: boolean }): Buffer
+}
+
+// Each transaction stays small enough for the Apps Script time limit.
+const importBatchSize = 500
+
+function sha256(content: Buffer): string {
+  return createHash("sha256").update(content).digest("hex")
+}
+
+function writeZip(files: Map<string, Buffer>): Buffer {
+  const container = zip.utils.cfb_new()
+  for (const [path, content] of files) zip.utils.cfb_add(container, path, content)
+  return zip.write(container, { fileType: "zip", type: "buffer", compression: true })
+}
+
+/** Files in the zip by path. The reader adds a root entry and a placeholder file, both skipped. */
+function readZip(content: Buffer): Map<string, Buffer> {
+  let container: ZipContainer
+  try {
+    container = zip.read(content, { type: "buffer" })
+  } catch {
+    throw new StorageError("The file is not a zip bundle", 400)
+  }
+
+  const root = container.FullPaths[0] || ""
+  const files = new Map<string, Buffer>()
+  container.FileIndex.forEach((entry, index) => {
+    if (entry.type !== 2 || entry.name.startsWith("\u0001") || !entry.content) return
+    const path = container.FullPaths[index].slice(root.length)
+    files.set(path, Buffer.from(entry.content as ArrayLike<number>))
+  })
+  return files
+}
+
+function tableRows(table: TableName, rows: Row[]): Row[] {
+  const { columns } = tableConfigs[table]
+  return rows.map((row) => Object.fromEntries(columns.map((column) => [column, row[column] ?? null])))
+}
+
+function bundleTimestamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, "").replace("T", "-").slice(0, 15)
+}
+
+/**
+ * Packs every table into a zip: `tables/<name>.json` and `tables/<name>.csv`
+ * per table, plus a manifest with the schema version, row counts and a
+ * SHA-256 of each file. Only the columns in `tableConfigs` are written.
+ */
+export async function exportBundle(storage: StorageAdapter, now = new Date()): Promise<ExportedBundle> {
+  const data = await storage.batchList([...tableNames])
+  const files = new Map<string, Buffer>()
+  const tables: BundleManifest["tables"] = {}
+
+  for (const table of tableNames) {
+    const rows = tableRows(table, data[table])
+    const json = Buffer.from(JSON.stringify(rows))
+    const csv = Buffer.from(
+      XLSX.utils.sheet_to_csv(XLSX.utils.json_to_sheet(rows, { header: tableConfigs[table].columns })),
+    )
+    const jsonPath = `tables/${table}.json`
+    const csvPath = `tables/${table}.csv`
+    files.set(jsonPath, json)
+    files.set(csvPath, csv)
+    tables[table] = {
+      rows: rows.length,
+      json: { path: jsonPath, sha256: sha256(json) },
+      csv: { path: csvPath, sha256: sha256(csv) },
+    }
+  }
+
+  const manifest: BundleManifest = {
+    format: bundleFormat,
+    formatVersion: bundleFormatVersion,
+    exportedAt: now.toISOString(),
+    schemaVersion,
+    source: storage.source,
+    tables,
+  }
+
+  return {
+    fileName: `bacas-export-${bundleTimestamp(now)}.zip`,
+    content: writeZip(new Map([[manifestPath, Buffer.from(JSON.stringify(manifest, null, 2))], ...files])),
+    manifest,
+  }
+}
+
+function readManifest(files: Map<string, Buffer>): BundleManifest {
+  const content = files.get(manifestPath)
+  if (!content) throw new StorageError(`The bundle has no ${manifestPath}`, 400)
+
+  let manifest: BundleManifest
+  try {
+    manifest = JSON.parse(content.toString("utf8"))
+  } catch {
+    throw new StorageError(`${manifestPath} is not valid JSON`, 400)
+  }
+
+  if (manifest?.format !== bundleFormat || !manifest.tables || typeof manifest.tables !== "object") {
+    throw new StorageError("The zip is not a database bundle", 400)
+  }
+  if (manifest.formatVersion > bundleFormatVersion) {
+    throw new StorageError(`Bundle format ${manifest.formatVersion} is newer than this app supports`, 400)
+  }
+  if (!Number.isInteger(manifest.schemaVersion) || manifest.schemaVersion > schemaVersion) {
+    throw new StorageError(
+      `Bundle schema version ${String(manifest.schemaVersion)} is newer than this app supports (${schemaVersion})`,
+      400,
+    )
+  }
+  return manifest
+}
+
+/** Reads one table's file, checking it against the manifest's checksum and row count. */
+function readTable(files: Map<string, Buffer>, table: TableName, entry: BundleTableEntry): Row[] {
+  const file = entry.json && files.has(entry.json.path) ? entry.json : entry.csv
+  const content = file && files.get(file.path)
+  if (!content) throw new StorageError(`The bundle is missing the file for ${table}`, 400)
+  if (sha256(content) !== file.sha256) {
+    throw new StorageError(`${file.path} does not match its checksum; the bundle is damaged`, 400)
+  }
+
+  let rows: Row[]
+  if (file === entry.json) {
+    rows = JSON.parse(content.toString("utf8"))
+    if (!Array.isArray(rows)) throw new StorageError(`${file.path} is not a list of rows`, 400)
+  } else {
+    const workbook = XLSX.read(content.toString("utf8"), { type: "string", raw: true })
+    const sheet = workbook.Sheets[workbook.SheetNames[0]]
+    rows = sheet ? XLSX.utils.sheet_to_json<Row>(sheet, { defval: null, raw: true }) : []
+  }
+
+  if (rows.length !== entry.rows) {
+    throw new StorageError(`${file.path} has ${rows.length} rows; the manifest lists ${entry.rows}`, 400)
+  }
+  return rows
+}
+
+function describeValidation(error: ValidationError): string {
+  return Object.entries(error.fieldErrors)
+    .map(([column, message]) => `${column}: ${message}`)
+    .join("; ")
+}
+
+/** Checks every row and key before anything is written. */
+function validateTable(table: TableName, rows: Row[]): void {
+  const { primaryKey } = tableConfigs[table]
+  const seen = new Set<string>()
+
+  rows.forEach((row, index) => {
+    try {
+      validateRow(table, row, "insert")
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error
+      throw new ValidationError(
+        `Row ${index + 1} of ${table} is invalid: ${describeValidation(error)}`,
+        table,
+        error.fieldErrors,
+      )
+    }
+
+    const key = String(row[primaryKey] ?? "")
+    if (!key) throw new StorageError(`Row ${index + 1} of ${table} has no ${primaryKey}`, 400)
+    if (seen.has(key)) throw new StorageError(`${table} has more than one row with ${primaryKey} ${key}`, 400)
+    seen.add(key)
+  })
+}
+
+function sameRow(table: TableName, left: Row, right: Row): boolean {
+  return tableConfigs[table].columns.every((column) => sameValue(left[column], right[column]))
+}
+
+/**
+ * Works out the writes that bring `current` in line with the bundle rows.
+ * Merging never lowers the member id counter, so ids issued since the export
+ * are not handed out again.
+ */
+function planTable(
+  table: TableName,
+  rows: Row[],
+  current: Row[],
+  mode: BundleImportMode,
+): { report: BundleTableReport; writes: StorageOperation[]; deletes: StorageOperation[] } {
+  const { primaryKey } = tableConfigs[table]
+  const currentByKey = new Map(current.map((row) => [String(row[primaryKey] ?? ""), row]))
+  const bundleKeys = new Set(rows.map((row) => String(row[primaryKey])))
+  const report: BundleTableReport = { table, rows: rows.length, inserted: 0, updated: 0, deleted: 0, unchanged: 0 }
+  const inserts: Row[] = []
+  const writes: StorageOperation[] = []
+
+  for (const row of rows) {
+    const key = row[primaryKey]
+    const existing = currentByKey.get(String(key))
+    if (!existing) {
+      inserts.push(row)
+      report.inserted++
+    } else if (
+      sameRow(table, existing, row) ||
+      (table === "user_id_counter" && mode === "merge" && Number(existing.last_number) >= Number(row.last_number))
+    ) {
+      report.unchanged++
+    } else {
+      writes.push({ table, action: "update", id: key, updates: row })
+      report.updated++
+    }
+  }
+  if (inserts.length) writes.unshift({ table, action: "insert", rows: inserts })
+
+  const deletes: StorageOperation[] =
+    mode === "replace"
+      ? current
+          .filter((row) => !bundleKeys.has(String(row[primaryKey] ?? "")))
+          .map((row) => ({ table, action: "delete", id: row[primaryKey] }))
+      : []
+  report.deleted = deletes.length
+  return { report, writes, deletes }
+}
+
+/** Splits writes into transactions of at most `importBatchSize` rows. */
+function batchOperations(operations: StorageOperation[]): StorageOperation[][] {
+  const batches: StorageOperation[][] = []
+  let batch: StorageOperation[] = []
+  let size = 0
+
+  const flush = () => {
+    if (batch.length) batches.push(batch)
+    batch = []
+    size = 0
+  }
+
+  for (const operation of operations) {
+    const pieces =
+      operation.action === "insert"
+        ? Array.from({ length: Math.ceil(operation.rows.length / importBatchSize) }, (_, index) => ({
+            ...operation,
+            rows: operation.rows.slice(index * importBatchSize, (index + 1) * importBatchSize),
+          }))
+        : [operation]
+    for (const piece of pieces) {
+      const pieceSize = piece.action === "insert" ? piece.rows.length : 1
+      if (size + pieceSize > importBatchSize) flush()
+      batch.push(piece)
+      size += pieceSize
+    }
+  }
+  flush()
+  return batches
+}
+
+/**
+ * Restores a bundle made by `exportBundle` into `storage`, which may be empty
+ * or already hold data. The manifest, checksums and row counts are verified,
+ * rows from an older schema are migrated, and every row is validated before
+ * anything is written; any problem rejects the whole bundle. With `dryRun`
+ * only the report is returned.
+ *
+ * Local backends take the whole restore as one transaction; remote ones take
+ * it in batches. Like restoring a backup, this writes no audit entries: the
+ * audit trail is itself one of the restored tables.
+ */
+export async function importBundle(
+  storage: StorageAdapter,
+  content: Buffer,
+  options: { mode: BundleImportMode; dryRun: boolean },
+): Promise<BundleImportResult> {
+  const files = readZip(content)
+  const manifest = readManifest(files)
+  const notes: string[] = []
+
+  const data = new Map<TableName, Row[]>()
+  for (const [name, entry] of Object.entries(manifest.tables)) {
+    const table = asTableName(name)
+    if (!table) {
+      notes.push(`Skipped table ${name}: not part of the current schema`)
+      continue
+    }
+    data.set(table, readTable(files, table, entry as BundleTableEntry))
+  }
+
+  const missing = tableNames.filter((table) => !data.has(table))
+  if (missing.length) notes.push(`Not in the bundle, left as they are: ${missing.join(", ")}`)
+
+  const applied = runMigrations(
+    createMigrationContext(
+      (table) => data.get(table) || [],
+      (table, rows) => {
+        if (data.has(table)) data.set(table, rows)
+      },
+    ),
+    manifest.schemaVersion,
+  )
+  if (applied.length) {
+    notes.push(`Upgraded from schema version ${manifest.schemaVersion}: ${applied.map((m) => m.name).join(", ")}`)
+  }
+
+  for (const [table, rows] of data) {
+    const known = new Set(tableConfigs[table].columns)
+    const dropped = new Set(rows.flatMap((row) => Object.keys(row).filter((column) => !known.has(column))))
+    if (dropped.size) notes.push(`Ignored ${table} columns: ${Array.from(dropped).join(", ")}`)
+
+    const restricted = tableRows(table, rows)
+    validateTable(table, restricted)
+    data.set(table, restricted)
+  }
+
+  // Member rows go in before the rows that reference them, and come out after.
+  const ordered = tableNames.filter((table) => data.has(table))
+  const current = await storage.batchList(ordered)
+  const plans = ordered.map((table) => planTable(table, data.get(table)!, current[table], options.mode))
+
+  if (!options.dryRun) {
+    const operations = [
+      ...plans.flatMap((plan) => plan.writes),
+      ...[...plans].reverse().flatMap((plan) => plan.deletes),
+    ]
+    const batches = storage.local ? [operations] : batchOperations(operations)
+    for (const batch of batches) {
+      if (batch.length) await storage.transaction(batch)
+    }
+  }
+
+  return {
+    dryRun: options.dryRun,
+    mode: options.mode,
+    exportedAt: manifest.exportedAt,
+    schemaVersion: manifest.schemaVersion,
+    tables: plans.map((plan) => plan.report),
+    notes,
+  }
+}
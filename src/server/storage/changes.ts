@@ -0,0 +1,61 @@
+import type { TableName } from "./tables"
+
+export interface TableChange {
+  table: TableName
+  action: string
+}
+
+export interface ChangeEvent {
+  id: number
+  changes: TableChange[]
+  /** Client id of the tab that made the write, so it can skip its own echo. */
+  origin: string | null
+  at: string
+}
+
+type ChangeListener = (event: ChangeEvent) => void
+
+interface ChangeBus {
+  nextId: number
+  listeners: Set<ChangeListener>
+}
+
+// Route handlers can be bundled separately, so the bus lives on globalThis
+// to make the write route and the event stream share one instance. Events only
+// reach clients connected to the same server process.
+const globalBus = globalThis as typeof globalThis & { __bacasChangeBus?: ChangeBus }
+const bus = (globalBus.__bacasChangeBus ??= { nextId: 1, listeners: new Set() })
+
+export function subscribeToChanges(listener: ChangeListener): () => void {
+  bus.listeners.add(listener)
+  return () => {
+    bus.listeners.delete(listener)
+  }
+}
+
+export function publishChanges(changes: TableChange[], origin: string | null = null): void {
+  // Only table/action pairs are broadcast, never row data.
+  const unique = new Map(
+    changes.map(({ table, action }) => [`${table}:${action}`, { table, action }]),
+  )
+  if (!unique.size) return
+
+  const event: ChangeEvent = {
+    id: bus.nextId++,
+    changes: Array.from(unique.values()),
+    origin,
+    at: new Date().toISOString(),
+  }
+  for (const listener of bus.listeners) {
+    try {
+      listener(event)
+    } catch (error) {
+      console.error("Change listener failed:", error)
+    }
+  }
+}
+
+/** Audited writes also append to `audit_log`, so its viewers refresh too. */
+export function publishWrites(changes: TableChange[], origin: string | null = null): void {
+  publishChanges([...changes, { table: "audit_log", action: "insert" }], origin)
+}
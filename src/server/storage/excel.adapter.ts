@@ -0,0 +1,385 @@
+import fs from "fs"
+import path from "path"
+import * as XLSX from "xlsx"
+import { backupBeforeWrite } from "./backups"
+import {
+  applyIndexed,
+  copyRows,
+  findRow,
+  indexRows,
+  storedRows,
+  type IndexedTable,
+} from "./indexed-table"
+import { createMigrationContext, runMigrations, schemaVersion } from "./migrations"
+import { applyOperation } from "./operations"
+import { applyQuery } from "./query"
+import { tableConfigs, type Row, type TableConfig, type TableName } from "./tables"
+import type { OperationResult, StorageAdapter, StorageOperation, TableRows } from "./types"
+import {
+  appendWriteAhead,
+  clearWriteAhead,
+  discardPartialWrite,
+  readWriteAhead,
+  writeFileAtomic,
+} from "./write-ahead-log"
+
+export const databasePath =
+  process.env.EXCEL_DATABASE_PATH ||
+  path.join(process.cwd(), "data", "bacas-database.xlsx")
+
+/**
+ * Key/value sheet holding the schema version and the sequence of the last
+ * write-ahead entry written; not exposed as a table.
+ */
+const metaSheetName = "Meta"
+
+function readMeta(workbook: XLSX.WorkBook): Record<string, string> {
+  const sheet = workbook.Sheets[metaSheetName]
+  if (!sheet) return {}
+  const rows = XLSX.utils.sheet_to_json<Row>(sheet, { defval: null, raw: false })
+  return Object.fromEntries(rows.map((row) => [String(row.key), String(row.value ?? "")]))
+}
+
+/** Sets the given keys and keeps the others. */
+function writeMeta(workbook: XLSX.WorkBook, values: Record<string, string | number>): void {
+  if (!workbook.Sheets[metaSheetName]) workbook.SheetNames.push(metaSheetName)
+  const meta = { ...readMeta(workbook), ...values }
+  workbook.Sheets[metaSheetName] = XLSX.utils.aoa_to_sheet([
+    ["key", "value"],
+    ...Object.entries(meta),
+  ])
+}
+
+export function readSchemaVersion(workbook: XLSX.WorkBook): number {
+  return Number(readMeta(workbook).schema_version) || 0
+}
+
+function writeSchemaVersion(workbook: XLSX.WorkBook, version: number): void {
+  writeMeta(workbook, { schema_version: version, migrated_at: new Date().toISOString() })
+}
+
+function readJournalSequence(workbook: XLSX.WorkBook): number {
+  return Number(readMeta(workbook).journal_sequence) || 0
+}
+
+/**
+ * Applies `operations` to the workbook sheets, failing before any sheet
+ * changes. Used to replay the write-ahead log before the cache is built.
+ */
+function applyToWorkbook(workbook: XLSX.WorkBook, operations: StorageOperation[]): OperationResult[] {
+  const staged = new Map<TableName, Row[]>()
+
+  const results = operations.map((operation) => {
+    const rows = staged.get(operation.table) ?? getRows(workbook, tableConfigs[operation.table])
+    const applied = applyOperation(rows, operation)
+    staged.set(operation.table, applied.rows)
+    return applied.result
+  })
+
+  for (const [tableName, rows] of staged) {
+    const table = tableConfigs[tableName]
+    workbook.Sheets[table.sheetName] = rowsToSheet(table, rows)
+  }
+  return results
+}
+
+/**
+ * Re-applies logged transactions that never reached the workbook, e.g. after
+ * a crash between logging and writing. Entries must continue the workbook's
+ * own sequence; anything else (such as a log left over from before a backup
+ * was restored) is dropped. Returns true if a log was found.
+ */
+function replayWriteAhead(workbook: XLSX.WorkBook): boolean {
+  const entries = readWriteAhead(databasePath).sort((a, b) => a.sequence - b.sequence)
+  if (!entries.length) return false
+
+  let sequence = readJournalSequence(workbook)
+  let replayed = 0
+  for (const entry of entries) {
+    if (entry.sequence <= sequence) continue
+    if (entry.sequence !== sequence + 1) {
+      console.warn(
+        `Write-ahead log for ${databasePath} skips from ${sequence} to ${entry.sequence}; dropping the rest`,
+      )
+      break
+    }
+    try {
+      applyToWorkbook(workbook, entry.operations)
+    } catch (error) {
+      console.warn(`Could not replay write-ahead entry ${entry.sequence}; dropping the rest`, error)
+      break
+    }
+    sequence = entry.sequence
+    replayed += 1
+  }
+
+  if (replayed) {
+    writeMeta(workbook, { journal_sequence: sequence })
+    console.info(`Replayed ${replayed} unfinished write(s) into ${databasePath}`)
+  }
+  return true
+}
+
+/** Brings an older workbook up to `schemaVersion`. Returns true if it changed. */
+function migrateWorkbook(workbook: XLSX.WorkBook): boolean {
+  const currentVersion = readSchemaVersion(workbook)
+  if (currentVersion === schemaVersion) return false
+
+  const context = createMigrationContext(
+    (tableName) => getRows(workbook, tableConfigs[tableName]),
+    (tableName, rows) => {
+      const table = tableConfigs[tableName]
+      workbook.Sheets[table.sheetName] = rowsToSheet(table, rows)
+    },
+  )
+  const applied = runMigrations(context, currentVersion)
+  writeSchemaVersion(workbook, schemaVersion)
+  console.info(
+    `Migrated ${databasePath} from schema ${currentVersion} to ${schemaVersion}:`,
+    applied.map((migration) => migration.name),
+  )
+  return true
+}
+
+export function ensureWorkbook(): XLSX.WorkBook {
+  fs.mkdirSync(path.dirname(databasePath), { recursive: true })
+  discardPartialWrite(databasePath)
+
+  if (fs.existsSync(databasePath)) {
+    const workbook = XLSX.read(fs.readFileSync(databasePath), {
+      cellDates: false,
+      type: "buffer",
+    })
+    let changed = false
+
+    for (const table of Object.values(tableConfigs)) {
+      if (!workbook.Sheets[table.sheetName]) {
+        const rows = table.seedRows || []
+        workbook.Sheets[table.sheetName] = rowsToSheet(table, rows)
+        workbook.SheetNames.push(table.sheetName)
+        changed = true
+      }
+    }
+
+    if (migrateWorkbook(workbook)) changed = true
+    const replayed = replayWriteAhead(workbook)
+    if (changed || replayed) writeWorkbook(workbook)
+    if (replayed) clearWriteAhead(databasePath)
+    return workbook
+  }
+
+  const workbook = XLSX.utils.book_new()
+  for (const table of Object.values(tableConfigs)) {
+    XLSX.utils.book_append_sheet(
+      workbook,
+      rowsToSheet(table, table.seedRows || []),
+      table.sheetName,
+    )
+  }
+  writeSchemaVersion(workbook, schemaVersion)
+  writeWorkbook(workbook)
+  return workbook
+}
+
+export function writeWorkbook(workbook: XLSX.WorkBook): void {
+  const buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer
+  backupBeforeWrite(databasePath)
+  writeFileAtomic(databasePath, buffer)
+}
+
+/**
+ * The parsed workbook, kept between requests so reads do not re-parse the
+ * file. Tables are indexed the first time they are used. The cache is
+ * dropped whenever the file changes underneath it (a restored backup, an
+ * edit in Excel), which `stamp` detects.
+ */
+interface WorkbookCache {
+  stamp: string | null
+  workbook: XLSX.WorkBook
+  tables: Map<TableName, IndexedTable>
+}
+
+// Each route is bundled on its own, so the cache lives on globalThis for
+// all of them to share.
+const globalCache = globalThis as typeof globalThis & { __bacasWorkbookCache?: WorkbookCache | null }
+
+/** Changes whenever the file is replaced or rewritten. */
+function fileStamp(): string | null {
+  try {
+    const stats = fs.statSync(databasePath)
+    return `${stats.ino}:${stats.size}:${stats.mtimeMs}`
+  } catch {
+    return null
+  }
+}
+
+function loadWorkbook(): WorkbookCache {
+  const cached = globalCache.__bacasWorkbookCache
+  if (cached && cached.stamp !== null && cached.stamp === fileStamp()) return cached
+
+  const workbook = ensureWorkbook()
+  const cache: WorkbookCache = { stamp: fileStamp(), workbook, tables: new Map() }
+  globalCache.__bacasWorkbookCache = cache
+  return cache
+}
+
+function loadTable(tableName: TableName, cache = loadWorkbook()): IndexedTable {
+  let indexed = cache.tables.get(tableName)
+  if (!indexed) {
+    const table = tableConfigs[tableName]
+    indexed = indexRows(tableName, getRows(cache.workbook, table), (row) => sheetRow(table, row))
+    cache.tables.set(tableName, indexed)
+  }
+  return indexed
+}
+
+/** Writes the cached workbook and records the file version it now matches. */
+function saveWorkbook(cache: WorkbookCache): void {
+  writeWorkbook(cache.workbook)
+  cache.stamp = fileStamp()
+}
+
+/** Forgets the cache, e.g. after a write that may have left it ahead of the file. */
+function dropWorkbookCache(): void {
+  globalCache.__bacasWorkbookCache = null
+}
+
+/** Overwrites whole tables with a single workbook write. */
+export function replaceTables(tables: Partial<TableRows>): void {
+  const cache = loadWorkbook()
+  try {
+    for (const [tableName, rows] of Object.entries(tables) as [TableName, Row[]][]) {
+      const table = tableConfigs[tableName]
+      cache.workbook.Sheets[table.sheetName] = rowsToSheet(table, rows)
+      cache.tables.delete(tableName)
+    }
+    saveWorkbook(cache)
+  } catch (error) {
+    dropWorkbookCache()
+    throw error
+  }
+}
+
+export function rowsToSheet(table: TableConfig, rows: Row[]): XLSX.WorkSheet {
+  const extraColumns = rows.flatMap((row) =>
+    Object.keys(row).filter((key) => !table.columns.includes(key)),
+  )
+  const headers = [...table.columns, ...Array.from(new Set(extraColumns))]
+  const values = rows.map((row) => headers.map((header) => row[header] ?? null))
+  return XLSX.utils.aoa_to_sheet([headers, ...values])
+}
+
+/** A value as `getRows` reads it back from its cell: formatted text, or null when blank. */
+function cellText(value: unknown): unknown {
+  if (value === null || value === undefined) return null
+  if (typeof value === "number") return XLSX.SSF.format("General", value)
+  if (typeof value === "boolean") return value ? "TRUE" : "FALSE"
+  return String(value)
+}
+
+/**
+ * `row` as it reads back once written: every column present, in sheet order,
+ * holding cell text. Cached rows are kept in this form so reads match the file.
+ */
+function sheetRow(table: TableConfig, row: Row): Row {
+  const normalized: Row = {}
+  for (const column of table.columns) normalized[column] = null
+  for (const [column, value] of Object.entries(row)) normalized[column] = cellText(value)
+  return normalized
+}
+
+export function getRows(workbook: XLSX.WorkBook, table: TableConfig): Row[] {
+  const sheet = workbook.Sheets[table.sheetName]
+  if (!sheet) return table.seedRows || []
+
+  return XLSX.utils.sheet_to_json<Row>(sheet, {
+    defval: null,
+    raw: false,
+  })
+}
+
+export function createExcelAdapter(): StorageAdapter {
+  return {
+    source: "local-excel",
+    local: true,
+    details: { databasePath },
+
+    async list(tableName) {
+      return copyRows(storedRows(loadTable(tableName)))
+    },
+
+    async get(tableName, id) {
+      return findRow(loadTable(tableName), id)
+    },
+
+    async insert(tableName, rows) {
+      const [result] = await this.transaction([{ table: tableName, action: "insert", rows }])
+      return result.data as Row[]
+    },
+
+    async update(tableName, id, updates) {
+      const [result] = await this.transaction([{ table: tableName, action: "update", id, updates }])
+      return result.data as Row | null
+    },
+
+    async delete(tableName, id) {
+      const [result] = await this.transaction([{ table: tableName, action: "delete", id }])
+      return result.deleted || 0
+    },
+
+    async batchList(requestedTables) {
+      const cache = loadWorkbook()
+      const data = {} as TableRows
+      for (const tableName of requestedTables) {
+        data[tableName] = copyRows(storedRows(loadTable(tableName, cache)))
+      }
+      return data
+    },
+
+    async query(tableName, options) {
+      const result = applyQuery(storedRows(loadTable(tableName)), options)
+      return { ...result, rows: copyRows(result.rows) }
+    },
+
+    // Operations are applied to the cached tables and the workbook is written
+    // once. The change is logged first so a crash mid-write is replayed by the
+    // next ensureWorkbook; if anything fails the cache is dropped and re-read
+    // from the untouched file.
+    async transaction(operations) {
+      const cache = loadWorkbook()
+      try {
+        const results = operations.map((operation) =>
+          applyIndexed(loadTable(operation.table, cache), operation),
+        )
+        const touched = new Set(operations.map((operation) => operation.table))
+        for (const tableName of touched) {
+          const table = tableConfigs[tableName]
+          cache.workbook.Sheets[table.sheetName] = rowsToSheet(
+            table,
+            storedRows(loadTable(tableName, cache)),
+          )
+        }
+
+        // Inserts are logged with the keys they were given, so a replay stores
+        // the same ids the caller was told about.
+        const sequence = readJournalSequence(cache.workbook) + 1
+        appendWriteAhead(databasePath, {
+          sequence,
+          at: new Date().toISOString(),
+          operations: operations.map((operation, index) =>
+            operation.action === "insert"
+              ? { ...operation, rows: results[index].data as Row[] }
+              : operation,
+          ),
+        })
+        writeMeta(cache.workbook, { journal_sequence: sequence })
+        saveWorkbook(cache)
+        clearWriteAhead(databasePath)
+        return results
+      } catch (error) {
+        dropWorkbookCache()
+        throw error
+      }
+    },
+  }
+}
@@ -0,0 +1,242 @@
+import { applyQuery } from "./query"
+import type { Row, TableName } from "./tables"
+import {
+  BackendUnavailableError,
+  StorageError,
+  type OperationResult,
+  type StorageAdapter,
+  type TableRows,
+} from "./types"
+
+/**
+ * The Apps Script web app and the shared secret it checks on every request
+ * (its `DB_TOKEN` script property). Both stay on the server: the script is
+ * deployed for "Anyone", so the token is all that keeps others out of it.
+ */
+export const googleSheetsDbUrl = process.env.GOOGLE_SHEETS_DB_URL || ""
+const googleSheetsDbToken = process.env.GOOGLE_SHEETS_DB_TOKEN || ""
+const remoteReadCacheTtlMs = Number(process.env.GOOGLE_SHEETS_CACHE_TTL_MS || 30_000)
+
+const remoteReadCache = new Map<string, { expiresAt: number; data: unknown }>()
+
+function normalizeRemoteRows(data: unknown): Row[] | null {
+  if (!Array.isArray(data)) return null
+  return data.filter((row): row is Row => !!row && typeof row === "object" && !Array.isArray(row))
+}
+
+function normalizeRemoteRow(data: unknown): Row | null {
+  if (!data || typeof data !== "object" || Array.isArray(data)) return null
+  return data as Row
+}
+
+function getCachedRemoteRead<T>(key: string): T | null {
+  const cached = remoteReadCache.get(key)
+  if (!cached || cached.expiresAt < Date.now()) {
+    remoteReadCache.delete(key)
+    return null
+  }
+  return cached.data as T
+}
+
+function setCachedRemoteRead(key: string, data: unknown): void {
+  if (remoteReadCacheTtlMs <= 0) return
+  remoteReadCache.set(key, {
+    data,
+    expiresAt: Date.now() + remoteReadCacheTtlMs,
+  })
+}
+
+function clearRemoteReadCache(): void {
+  remoteReadCache.clear()
+}
+
+function scriptUrl(): URL {
+  if (!googleSheetsDbUrl || !googleSheetsDbToken) {
+    throw new BackendUnavailableError(
+      "Set GOOGLE_SHEETS_DB_URL and GOOGLE_SHEETS_DB_TOKEN to use the Google Sheets backend",
+    )
+  }
+  return new URL(googleSheetsDbUrl)
+}
+
+/** `url` with the token added, for the request itself; cache keys leave it out. */
+function signedUrl(url: URL): URL {
+  const signed = new URL(url)
+  signed.searchParams.set("token", googleSheetsDbToken)
+  return signed
+}
+
+function listCacheKey(table: TableName): string {
+  const url = scriptUrl()
+  url.searchParams.set("action", "list")
+  url.searchParams.set("table", table)
+  return url.toString()
+}
+
+async function remoteRead(
+  table: TableName,
+  action: "list" | "get",
+  id?: unknown,
+): Promise<unknown> {
+  const url = scriptUrl()
+  url.searchParams.set("action", action)
+  url.searchParams.set("table", table)
+  if (id !== undefined) url.searchParams.set("id", String(id))
+
+  const cacheKey = url.toString()
+  const cached = getCachedRemoteRead<unknown>(cacheKey)
+  if (cached !== null) return cached
+
+  const response = await fetchRemote(
+    signedUrl(url),
+    { cache: "no-store", redirect: "follow" },
+    `${table}.${action}`,
+  )
+  const result = await response.json().catch(() => null)
+
+  if (!response.ok || !result?.success) {
+    throw new StorageError(result?.message || `Google Sheets ${action} failed for ${table}`, 502)
+  }
+
+  const data = action === "list" ? normalizeRemoteRows(result.data) : normalizeRemoteRow(result.data)
+  if (action === "list" && !data) {
+    throw new StorageError(`Google Sheets returned an invalid list for ${table}`, 502)
+  }
+  setCachedRemoteRead(cacheKey, data)
+  return data
+}
+
+/** `fetch` that reports network failures and server errors as unavailable. */
+async function fetchRemote(url: URL | string, init: RequestInit, label: string): Promise<Response> {
+  const response = await fetch(url, init).catch((error: unknown) => {
+    throw new BackendUnavailableError(
+      error instanceof Error ? error.message : `Google Sheets ${label} failed`,
+    )
+  })
+  if (response.status >= 500) {
+    throw new BackendUnavailableError(`Google Sheets ${label} failed with HTTP ${response.status}`)
+  }
+  return response
+}
+
+async function remoteWrite(
+  table: TableName | undefined,
+  action: "insert" | "update" | "delete" | "transaction" | "nextId",
+  payload: Record<string, unknown>,
+): Promise<{ data?: unknown; deleted?: number }> {
+  const label = table ? `${table}.${action}` : action
+  const response = await fetchRemote(
+    scriptUrl(),
+    {
+      method: "POST",
+      headers: { "Content-Type": "text/plain" },
+      body: JSON.stringify({ token: googleSheetsDbToken, table, action, ...payload }),
+      redirect: "follow",
+      cache: "no-store",
+    },
+    label,
+  )
+  const result = await response.json().catch(() => null)
+
+  if (!response.ok || !result?.success) {
+    throw new StorageError(result?.message || `Google Sheets rejected ${label}.`, 502)
+  }
+  clearRemoteReadCache()
+  return { data: result.data, deleted: result.deleted }
+}
+
+async function remoteBatch(requestedTables: TableName[]): Promise<TableRows> {
+  const cacheKey = `batch:${requestedTables.join(",")}`
+  const cached = getCachedRemoteRead<TableRows>(cacheKey)
+  if (cached) return cached
+
+  const url = scriptUrl()
+  url.searchParams.set("action", "batch")
+  url.searchParams.set("tables", requestedTables.join(","))
+
+  const response = await fetchRemote(signedUrl(url), { cache: "no-store", redirect: "follow" }, "batch")
+  const result = await response.json().catch(() => null)
+
+  if (response.ok && result?.success && result.data && typeof result.data === "object") {
+    const data = {} as TableRows
+    for (const table of requestedTables) data[table] = normalizeRemoteRows(result.data[table]) || []
+    setCachedRemoteRead(cacheKey, data)
+    for (const [table, rows] of Object.entries(data)) {
+      setCachedRemoteRead(listCacheKey(table as TableName), rows)
+    }
+    return data
+  }
+
+  // Older script deployments have no batch action; read the tables one by one.
+  const entries = await Promise.all(
+    requestedTables.map(async (table) => {
+      const rows = await remoteRead(table, "list").catch((error: unknown) => {
+        if (error instanceof BackendUnavailableError) throw error
+        return null
+      })
+      return [table, normalizeRemoteRows(rows) || []] as const
+    }),
+  )
+  const data = Object.fromEntries(entries) as TableRows
+  setCachedRemoteRead(cacheKey, data)
+  return data
+}
+
+export function createGoogleSheetsAdapter(): StorageAdapter {
+  return {
+    source: "google-sheets",
+    local: false,
+
+    async list(table) {
+      return (await remoteRead(table, "list")) as Row[]
+    },
+
+    async get(table, id) {
+      return (await remoteRead(table, "get", id)) as Row | null
+    },
+
+    async insert(table, rows) {
+      const result = await remoteWrite(table, "insert", { rows })
+      return normalizeRemoteRows(result.data) || []
+    },
+
+    async update(table, id, updates) {
+      const result = await remoteWrite(table, "update", { id, updates })
+      return normalizeRemoteRow(result.data)
+    },
+
+    async delete(table, id) {
+      const result = await remoteWrite(table, "delete", { id })
+      return Number(result.deleted || 0)
+    },
+
+    async batchList(tables) {
+      return remoteBatch(tables)
+    },
+
+    async query(table, options) {
+      return applyQuery(await this.list(table), options)
+    },
+
+    // The Apps Script runs the whole batch under its script lock and restores
+    // the touched sheets if any operation throws.
+    async transaction(operations) {
+      const result = await remoteWrite(undefined, "transaction", { operations })
+      return Array.isArray(result.data) ? (result.data as OperationResult[]) : []
+    },
+
+    // Other servers and the sheet itself can hand out ids too, so the
+    // increment happens inside the script lock rather than here.
+    async reserveCounter(count) {
+      const result = await remoteWrite("user_id_counter", "nextId", { count })
+      const first = Number((result.data as { first?: unknown } | undefined)?.first)
+      if (!Number.isInteger(first)) {
+        throw new StorageError(
+          "This Apps Script deployment has no nextId action. Redeploy scripts/google-sheets-db-apps-script.js.",
+          502,
+        )
+      }
+      return first
+    },
+  }
+}
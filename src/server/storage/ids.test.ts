@@ -0,0 +1,67 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import { maxIdBlock, reserveMemberIds } from "./ids"
+import type { StorageAdapter } from "./types"
+
+type Storage = typeof import("./index")
+
+describe("member ids", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "bacas-ids-"))
+  let storage: Storage
+  let adapter: StorageAdapter
+
+  beforeAll(async () => {
+    vi.stubEnv("STORAGE_BACKEND", "excel")
+    vi.stubEnv("EXCEL_DATABASE_PATH", path.join(directory, "db.xlsx"))
+    vi.stubEnv("EXCEL_BACKUP_INTERVAL_MS", "-1")
+    vi.stubEnv("ARCHIVE_INTERVAL_MS", "0")
+    vi.resetModules()
+    storage = await import("./index")
+    adapter = storage.getStorage()
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+    ;(globalThis as typeof globalThis & { __bacasWorkbookCache?: unknown }).__bacasWorkbookCache = null
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("hands out consecutive ids after the counter", async () => {
+    expect(await storage.reserveMemberIds(adapter, 3)).toEqual(["BCF-1001", "BCF-1002", "BCF-1003"])
+    expect(await storage.reserveMemberIds(adapter)).toEqual(["BCF-1004"])
+    expect(await adapter.get("user_id_counter", 1)).toMatchObject({ last_number: "1004" })
+  })
+
+  it("never hands the same id to two desks at once", async () => {
+    const blocks = await Promise.all(
+      Array.from({ length: 5 }, () => storage.withLock(() => storage.reserveMemberIds(adapter, 2))),
+    )
+    const ids = blocks.flat()
+    expect(new Set(ids).size).toBe(10)
+    expect(ids.sort()).toEqual(Array.from({ length: 10 }, (_, index) => `BCF-${1005 + index}`).sort())
+  })
+
+  it("only moves the counter forward past imported ids", async () => {
+    expect(await storage.advanceCounterTo(adapter, 1010)).toBe(false)
+    expect(await storage.advanceCounterTo(adapter, 2000)).toBe(true)
+    expect(await storage.reserveMemberIds(adapter)).toEqual(["BCF-2001"])
+  })
+})
+
+describe("reserveMemberIds", () => {
+  it("uses the backend's own atomic counter when it has one", async () => {
+    const reserveCounter = vi.fn(async () => 42)
+    const adapter = { reserveCounter } as unknown as StorageAdapter
+    expect(await reserveMemberIds(adapter, "2")).toEqual(["BCF-42", "BCF-43"])
+    expect(reserveCounter).toHaveBeenCalledWith(2)
+  })
+
+  it("rejects block sizes outside 1 to maxIdBlock", async () => {
+    const adapter = {} as StorageAdapter
+    for (const count of [0, -1, 1.5, "many", maxIdBlock + 1]) {
+      await expect(reserveMemberIds(adapter, count)).rejects.toMatchObject({ status: 400 })
+    }
+  })
+})
@@ -0,0 +1,64 @@
+import type { StorageAdapter } from "./types"
+import { StorageError } from "./types"
+
+export const memberIdPrefix = "BCF-"
+/** Numbers start after this when `user_id_counter` has no row yet. */
+const firstLastNumber = 1000
+const counterId = 1
+/** Upper bound for one reservation, e.g. a single bulk import. */
+export const maxIdBlock = 500
+
+export function formatMemberId(memberNumber: number): string {
+  return `${memberIdPrefix}${memberNumber}`
+}
+
+/**
+ * Bumps `user_id_counter` by `count` and returns the first number of the
+ * block. Callers must hold `withLock`; adapters that can do this atomically
+ * on their own side implement `reserveCounter` instead.
+ */
+export async function reserveFromCounterRow(storage: StorageAdapter, count: number): Promise<number> {
+  const row = await storage.get("user_id_counter", counterId)
+  const lastNumber = Number(row?.last_number) || firstLastNumber
+  const nextLast = lastNumber + count
+
+  await storage.transaction([
+    row
+      ? { table: "user_id_counter", action: "update", id: counterId, updates: { last_number: nextLast } }
+      : { table: "user_id_counter", action: "insert", rows: [{ id: counterId, last_number: nextLast }] },
+  ])
+  return lastNumber + 1
+}
+
+/**
+ * Moves `user_id_counter` up to `lastNumber` so ids reserved later never
+ * collide with ones created elsewhere, e.g. by an import. Never moves it
+ * back. Returns true if the counter changed.
+ */
+export async function advanceCounterTo(storage: StorageAdapter, lastNumber: number): Promise<boolean> {
+  const row = await storage.get("user_id_counter", counterId)
+  if ((Number(row?.last_number) || firstLastNumber) >= lastNumber) return false
+
+  await storage.transaction([
+    row
+      ? { table: "user_id_counter", action: "update", id: counterId, updates: { last_number: lastNumber } }
+      : { table: "user_id_counter", action: "insert", rows: [{ id: counterId, last_number: lastNumber }] },
+  ])
+  return true
+}
+
+/**
+ * Allocates `count` consecutive member ids. Counter bumps are bookkeeping
+ * rather than member changes, so they are not written to the audit trail.
+ */
+export async function reserveMemberIds(storage: StorageAdapter, count: unknown = 1): Promise<string[]> {
+  const size = Number(count)
+  if (!Number.isInteger(size) || size < 1 || size > maxIdBlock) {
+    throw new StorageError(`count must be a whole number from 1 to ${maxIdBlock}`, 400)
+  }
+
+  const first = storage.reserveCounter
+    ? await storage.reserveCounter(size)
+    : await reserveFromCounterRow(storage, size)
+  return Array.from({ length: size }, (_, index) => formatMemberId(first + index))
+}
@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import type { StorageAdapter } from "./types"
+
+function fakeAdapter(source: string, rows: unknown[] | Error): StorageAdapter {
+  const list = vi.fn(async () => {
+    if (rows instanceof Error) throw rows
+    return rows as never
+  })
+  return { source, local: source === "local-excel", list } as unknown as StorageAdapter
+}
+
+// The backend is chosen from the environment when the module loads.
+async function loadStorage(env: Record<string, string>) {
+  vi.resetModules()
+  for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value)
+  return import("./index")
+}
+
+describe("storage registry", () => {
+  beforeEach(() => {
+    vi.unstubAllEnvs()
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+  })
+
+  it("builds each registered backend once", async () => {
+    const storage = await loadStorage({ STORAGE_BACKEND: "memory", ARCHIVE_INTERVAL_MS: "0" })
+    const factory = vi.fn(() => fakeAdapter("memory", []))
+    storage.registerStorageAdapter("memory", factory)
+
+    expect(storage.getStorage()).toBe(storage.getStorage())
+    expect(factory).toHaveBeenCalledTimes(1)
+  })
+
+  it("names the available backends for an unknown one", async () => {
+    const storage = await loadStorage({ ARCHIVE_INTERVAL_MS: "0" })
+    expect(() => storage.getStorageAdapter("nope")).toThrow(/Unknown storage backend "nope".*excel/)
+  })
+
+  it("retries reads on the fallback when Google Sheets fails", async () => {
+    const storage = await loadStorage({ STORAGE_BACKEND: "google-sheets", ARCHIVE_INTERVAL_MS: "0" })
+    storage.registerStorageAdapter("google-sheets", () => fakeAdapter("google-sheets", new Error("offline")))
+    storage.registerStorageAdapter("excel", () => fakeAdapter("local-excel", [{ user_id: "1" }]))
+
+    const { adapter, data } = await storage.readWithFallback(false, (backend) => backend.list("users"))
+    expect(adapter.source).toBe("local-excel")
+    expect(data).toEqual([{ user_id: "1" }])
+  })
+
+  it("does not fall back when the local backend was asked for", async () => {
+    const storage = await loadStorage({ STORAGE_BACKEND: "excel", ARCHIVE_INTERVAL_MS: "0" })
+    storage.registerStorageAdapter("excel", () => fakeAdapter("local-excel", new Error("locked")))
+
+    await expect(storage.readWithFallback(true, (backend) => backend.list("users"))).rejects.toThrow("locked")
+  })
+})
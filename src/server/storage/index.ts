@@ -0,0 +1,178 @@
+import { archiveOldRecords } from "./archive"
+import { createExcelAdapter, databasePath } from "./excel.adapter"
+import { createGoogleSheetsAdapter } from "./google-sheets.adapter"
+import { createPostgresAdapter } from "./postgres.adapter"
+import { createSqliteAdapter } from "./sqlite.adapter"
+import { publishChanges } from "./changes"
+import { createSyncAdapter, type SyncedStorageAdapter } from "./sync"
+import type { StorageAdapter } from "./types"
+
+export * from "./archive"
+export * from "./audit"
+export * from "./backups"
+export * from "./bundle"
+export * from "./changes"
+export * from "./ids"
+export * from "./integrity"
+export * from "./legacy-import"
+export * from "./members"
+export * from "./migrations"
+export * from "./operations"
+export * from "./query"
+export * from "./schemas"
+export * from "./sync"
+export * from "./tables"
+export * from "./types"
+export { databasePath }
+
+type StorageAdapterFactory = () => StorageAdapter
+
+const adapterFactories = new Map<string, StorageAdapterFactory>()
+const adapterInstances = new Map<string, StorageAdapter>()
+
+/**
+ * Makes a backend selectable through `STORAGE_BACKEND`. New backends only
+ * need to implement `StorageAdapter` and register themselves here.
+ */
+export function registerStorageAdapter(name: string, factory: StorageAdapterFactory): void {
+  adapterFactories.set(name, factory)
+  adapterInstances.delete(name)
+}
+
+registerStorageAdapter("excel", createExcelAdapter)
+registerStorageAdapter("google-sheets", createGoogleSheetsAdapter)
+registerStorageAdapter("sqlite", createSqliteAdapter)
+registerStorageAdapter("postgres", createPostgresAdapter)
+registerStorageAdapter("google-sheets-sync", () => {
+  const adapter = createSyncAdapter(getStorageAdapter("google-sheets"), getStorageAdapter("excel"))
+  scheduleReconcile(adapter)
+  return adapter
+})
+
+const backendName = process.env.STORAGE_BACKEND || "google-sheets"
+const readFallbackName =
+  process.env.STORAGE_READ_FALLBACK ?? (backendName === "google-sheets" ? "excel" : "")
+
+export function getStorageAdapter(name: string): StorageAdapter {
+  const existing = adapterInstances.get(name)
+  if (existing) return existing
+
+  const factory = adapterFactories.get(name)
+  if (!factory) {
+    throw new Error(
+      `Unknown storage backend "${name}". Available: ${Array.from(adapterFactories.keys()).join(", ")}`,
+    )
+  }
+  const adapter = factory()
+  adapterInstances.set(name, adapter)
+  return adapter
+}
+
+/** The configured primary backend. */
+export function getStorage(): StorageAdapter {
+  scheduleArchive()
+  return getStorageAdapter(backendName)
+}
+
+/** Backend used for reads when the primary backend is unreachable. */
+export function getReadFallback(): StorageAdapter | null {
+  if (!readFallbackName || readFallbackName === backendName) return null
+  return getStorageAdapter(readFallbackName)
+}
+
+/** Backend used when a client asks for `preferLocal`. */
+export function getLocalStorage(): StorageAdapter {
+  const primary = getStorage()
+  if (primary.local) return primary
+  const fallback = getReadFallback()
+  return fallback?.local ? fallback : getStorageAdapter("excel")
+}
+
+/**
+ * Reads from the primary backend, or the local one when `preferLocal` is
+ * set, and retries on the read fallback if the primary fails.
+ */
+export async function readWithFallback<T>(
+  preferLocal: boolean,
+  operation: (adapter: StorageAdapter) => Promise<T>,
+): Promise<{ adapter: StorageAdapter; data: T }> {
+  const adapter = preferLocal ? getLocalStorage() : getStorage()
+
+  try {
+    return { adapter, data: await operation(adapter) }
+  } catch (error) {
+    const fallback = preferLocal ? null : getReadFallback()
+    if (!fallback) throw error
+
+    console.warn(`${adapter.source} read failed, falling back to ${fallback.source}:`, error)
+    return { adapter: fallback, data: await operation(fallback) }
+  }
+}
+
+// Each route is bundled on its own, so the lock lives on globalThis for all
+// of them to queue behind the same writes.
+const globalLock = globalThis as typeof globalThis & { __bacasOperationLock?: Promise<void> }
+
+export function withLock<T>(operation: () => Promise<T>): Promise<T> {
+  const run = (globalLock.__bacasOperationLock ?? Promise.resolve()).then(operation, operation)
+  globalLock.__bacasOperationLock = run.then(
+    () => undefined,
+    () => undefined,
+  )
+  return run
+}
+
+const syncIntervalMs = Number(process.env.SYNC_INTERVAL_MS || 5 * 60_000)
+
+// Dev reloads re-run this module, so keep the timer where a reload can find it.
+const globalSync = globalThis as typeof globalThis & { __bacasSyncTimer?: NodeJS.Timeout }
+
+/** Periodically replays the outage journal and refreshes the local workbook. */
+function scheduleReconcile(adapter: SyncedStorageAdapter): void {
+  if (globalSync.__bacasSyncTimer) clearInterval(globalSync.__bacasSyncTimer)
+  if (syncIntervalMs <= 0) return
+
+  globalSync.__bacasSyncTimer = setInterval(() => {
+    withLock(() => adapter.reconcile())
+      .then((result) => {
+        if (result.replayed || result.pulled.length) {
+          publishChanges(result.pulled.map((table) => ({ table, action: "sync" })))
+        }
+      })
+      .catch((error) => console.error("Scheduled reconcile failed:", error))
+  }, syncIntervalMs)
+  globalSync.__bacasSyncTimer.unref()
+}
+
+const archiveIntervalMs = Number(process.env.ARCHIVE_INTERVAL_MS ?? 24 * 60 * 60_000)
+
+const globalArchive = globalThis as typeof globalThis & { __bacasArchiveTimer?: NodeJS.Timeout }
+
+/**
+ * Moves scan logs and payments from before the hot period into the archive:
+ * once soon after the first request, then every `ARCHIVE_INTERVAL_MS`.
+ */
+function scheduleArchive(): void {
+  if (globalArchive.__bacasArchiveTimer || archiveIntervalMs <= 0) return
+
+  const run = () => {
+    withLock(() => archiveOldRecords(getStorageAdapter(backendName)))
+      .then((results) => {
+        const moved = results.filter((result) => result.moved > 0)
+        for (const result of moved) {
+          console.info(`Archived ${result.moved} ${result.table} row(s) from ${result.years.join(", ")}`)
+        }
+        publishChanges(
+          moved.flatMap((result) => [
+            { table: result.table, action: "archive" },
+            { table: result.archive, action: "archive" },
+          ]),
+        )
+      })
+      .catch((error) => console.error("Scheduled archive failed:", error))
+  }
+
+  globalArchive.__bacasArchiveTimer = setInterval(run, archiveIntervalMs)
+  globalArchive.__bacasArchiveTimer.unref()
+  setTimeout(run, 0).unref()
+}
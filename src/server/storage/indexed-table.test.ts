@@ -0,0 +1,113 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import type * as XLSX from "xlsx"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import { applyIndexed, findRow, indexRows, storedRows } from "./indexed-table"
+import { applyOperation } from "./operations"
+import type { Row } from "./tables"
+import type { StorageAdapter, StorageOperation } from "./types"
+
+const users: Row[] = [
+  { user_id: "1", name: "Ana" },
+  { user_id: "2", name: "Ben" },
+  { user_id: "2", name: "Ben (copy)" },
+  { user_id: "", name: "No key" },
+]
+
+describe("indexed table", () => {
+  it("finds rows by key and hands out copies", () => {
+    const indexed = indexRows("users", users)
+    const found = findRow(indexed, 1)
+    expect(found).toEqual({ user_id: "1", name: "Ana" })
+
+    found!.name = "Changed"
+    expect(findRow(indexed, "1")?.name).toBe("Ana")
+    expect(findRow(indexed, "404")).toBeNull()
+  })
+
+  it("keeps duplicate and blank keys for the integrity check", () => {
+    expect(storedRows(indexRows("users", users))).toHaveLength(4)
+  })
+
+  it("gives the same results and rows as applyOperation", () => {
+    const operations: StorageOperation[] = [
+      { table: "users", action: "insert", rows: [{ user_id: "3", name: "Cy" }] },
+      { table: "users", action: "update", id: "2", updates: { name: "Benny" } },
+      { table: "users", action: "delete", id: "1" },
+    ]
+
+    let rows = users.map((row) => ({ ...row }))
+    const indexed = indexRows("users", users.map((row) => ({ ...row })))
+    for (const operation of operations) {
+      const expected = applyOperation(rows, operation)
+      rows = expected.rows
+      expect(applyIndexed(indexed, operation)).toEqual(expected.result)
+    }
+    expect(storedRows(indexed)).toEqual(rows)
+  })
+
+  it("generates keys for inserted rows without one", () => {
+    const indexed = indexRows("scan_logs", [])
+    const result = applyIndexed(indexed, { table: "scan_logs", action: "insert", rows: [{ user_id: "1" }] })
+    const [inserted] = result.data as Row[]
+    expect(inserted.id).toEqual(expect.any(String))
+    expect(findRow(indexed, inserted.id)).toEqual(inserted)
+  })
+
+  it("moves rows to their new key when the key changes", () => {
+    const indexed = indexRows("users", [{ user_id: "1", name: "Ana" }])
+    applyIndexed(indexed, { table: "users", action: "update", id: "1", updates: { user_id: "9" } })
+    expect(findRow(indexed, "1")).toBeNull()
+    expect(findRow(indexed, "9")?.name).toBe("Ana")
+  })
+
+  it("stores written rows in normalized form", () => {
+    const asText = (row: Row) =>
+      Object.fromEntries(Object.entries(row).map(([key, value]) => [key, value == null ? null : String(value)]))
+    const indexed = indexRows("payment", [], asText)
+
+    applyIndexed(indexed, { table: "payment", action: "insert", rows: [{ payment_id: 7, amount: 500 }] })
+    applyIndexed(indexed, { table: "payment", action: "update", id: "7", updates: { amount: 750 } })
+    expect(findRow(indexed, "7")).toEqual({ payment_id: "7", amount: "750" })
+  })
+})
+
+describe("excel adapter cache", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "bacas-indexed-"))
+  let xlsx: typeof XLSX
+  let adapter: StorageAdapter
+
+  beforeAll(async () => {
+    vi.stubEnv("EXCEL_DATABASE_PATH", path.join(directory, "db.xlsx"))
+    vi.stubEnv("EXCEL_BACKUP_INTERVAL_MS", "-1")
+    vi.resetModules()
+    xlsx = await import("xlsx")
+    adapter = (await import("./excel.adapter")).createExcelAdapter()
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("keeps the index after a write and reads back what the file holds", async () => {
+    await adapter.list("payment")
+    const parse = vi.spyOn(xlsx.utils, "sheet_to_json")
+
+    await adapter.insert("payment", [{ payment_id: "p1", user_id: "1", amount: 500, payment_method: "cash" }])
+    await adapter.update("payment", "p1", { amount: 1250.5 })
+    const cached = await adapter.get("payment", "p1")
+    // Only the small Meta sheet is parsed; Payments is not re-read.
+    const parsedHeaders = parse.mock.calls.map(([sheet]) => (sheet as XLSX.WorkSheet).A1?.v)
+    expect(parsedHeaders).toContain("key")
+    expect(parsedHeaders).not.toContain("payment_id")
+
+    // A fresh read of the file, as another server process would see it.
+    const global = globalThis as typeof globalThis & { __bacasWorkbookCache?: unknown }
+    global.__bacasWorkbookCache = null
+    expect(await adapter.get("payment", "p1")).toEqual(cached)
+    expect(cached).toMatchObject({ amount: "1250.5", payment_method: "cash", reference_number: null })
+  })
+})
@@ -0,0 +1,93 @@
+import { createId, tableConfigs, type Row, type TableName } from "./tables"
+import type { OperationResult, StorageOperation } from "./types"
+
+/**
+ * A parsed table kept in memory. `rows` holds the rows in stored order;
+ * `byKey` points at every row with a given primary key, so lookups, updates
+ * and deletes do not scan the table. Duplicate and blank keys are kept as
+ * they are stored, for the integrity check to find.
+ */
+export interface IndexedTable {
+  table: TableName
+  rows: Set<Row>
+  byKey: Map<string, Row[]>
+  /** Brings written rows to the form a fresh read of the table returns. */
+  normalize: (row: Row) => Row
+}
+
+/** Keys compare as strings, like `sameValue`. */
+function keyOf(value: unknown): string {
+  return String(value ?? "")
+}
+
+function addRow(indexed: IndexedTable, row: Row): void {
+  const key = keyOf(row[tableConfigs[indexed.table].primaryKey])
+  indexed.rows.add(row)
+  const copies = indexed.byKey.get(key)
+  if (copies) copies.push(row)
+  else indexed.byKey.set(key, [row])
+}
+
+export function indexRows(
+  table: TableName,
+  rows: Row[],
+  normalize: (row: Row) => Row = (row) => row,
+): IndexedTable {
+  const indexed: IndexedTable = { table, rows: new Set(), byKey: new Map(), normalize }
+  for (const row of rows) addRow(indexed, row)
+  return indexed
+}
+
+/**
+ * The stored rows themselves, for serialising and filtering. Rows handed to
+ * callers must be copied first, since updates change them in place.
+ */
+export function storedRows(indexed: IndexedTable): Row[] {
+  return Array.from(indexed.rows)
+}
+
+export function copyRows(rows: Row[]): Row[] {
+  return rows.map((row) => ({ ...row }))
+}
+
+export function findRow(indexed: IndexedTable, id: unknown): Row | null {
+  const row = indexed.byKey.get(keyOf(id))?.[0]
+  return row ? { ...row } : null
+}
+
+/**
+ * Applies one operation to the table in place, with the same results as
+ * `applyOperation`: updates and deletes affect every row with the key.
+ */
+export function applyIndexed(indexed: IndexedTable, operation: StorageOperation): OperationResult {
+  const { primaryKey } = tableConfigs[operation.table]
+  const base = { table: operation.table, action: operation.action }
+
+  if (operation.action === "insert") {
+    const inserted = operation.rows.map((row) => {
+      const nextRow = indexed.normalize({ ...row, [primaryKey]: row[primaryKey] || createId() })
+      addRow(indexed, nextRow)
+      return { ...nextRow }
+    })
+    return { ...base, data: inserted }
+  }
+
+  const key = keyOf(operation.id)
+  const copies = indexed.byKey.get(key) || []
+
+  if (operation.action === "update") {
+    for (const row of copies) Object.assign(row, indexed.normalize({ ...row, ...operation.updates }))
+    // Changing the key itself moves the rows to their new index entry.
+    const nextKey = copies.length ? keyOf(copies[0][primaryKey]) : key
+    if (nextKey !== key) {
+      indexed.byKey.delete(key)
+      indexed.byKey.set(nextKey, [...(indexed.byKey.get(nextKey) || []), ...copies])
+    }
+    const updated = copies[copies.length - 1]
+    return { ...base, data: updated ? { ...updated } : null }
+  }
+
+  for (const row of copies) indexed.rows.delete(row)
+  indexed.byKey.delete(key)
+  return { ...base, deleted: copies.length }
+}
@@ -0,0 +1,102 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import type { StorageAdapter } from "./types"
+
+type Integrity = typeof import("./integrity")
+
+const actor = { actor: "owner@example.com", deviceId: null }
+
+describe("integrity", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "bacas-integrity-"))
+  let integrity: Integrity
+  let adapter: StorageAdapter
+
+  beforeAll(async () => {
+    vi.stubEnv("EXCEL_DATABASE_PATH", path.join(directory, "db.xlsx"))
+    vi.stubEnv("EXCEL_BACKUP_INTERVAL_MS", "-1")
+    vi.resetModules()
+    integrity = await import("./integrity")
+    const excel = await import("./excel.adapter")
+    adapter = excel.createExcelAdapter()
+
+    // Written straight to the sheets, the way hand edits end up in them.
+    excel.replaceTables({
+      users: [
+        { user_id: "1", name: "Ana" },
+        { user_id: "2", name: "Ben (old)", updated_at: "2026-01-01T00:00:00.000Z" },
+        { user_id: "2", name: "Ben", updated_at: "2026-02-01T00:00:00.000Z" },
+        { user_id: "", name: "No id" },
+      ],
+      subscriptions: [
+        { user_id: "1", start_date: "46000", end_date: "2026-12-01T00:00:00.000Z", status: "active" },
+      ],
+      payment: [
+        { payment_id: "p1", user_id: "1", amount: 500, payment_date: "last tuesday" },
+        { payment_id: "", user_id: "1", amount: 300, payment_date: "2026-03-01T00:00:00.000Z" },
+      ],
+      scan_logs: [{ id: "s1", user_id: "9", timestamp: "2026-03-01T00:00:00.000Z", action: "check-in" }],
+    })
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+    ;(globalThis as typeof globalThis & { __bacasWorkbookCache?: unknown }).__bacasWorkbookCache = null
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("reports every kind of problem without changing anything", async () => {
+    const report = await integrity.checkIntegrity(adapter)
+    expect(report.rowCounts).toMatchObject({ users: 4, payment: 2, scan_logs: 1 })
+    expect(report.issues.map((issue) => issue.id).sort()).toEqual([
+      "duplicate-key:users:2",
+      "invalid-date:payment:p1:payment_date",
+      "invalid-date:subscriptions:1:start_date",
+      "missing-key:payment",
+      "missing-key:users",
+      "orphan:scan_logs:s1",
+    ])
+    expect(await adapter.list("users")).toHaveLength(4)
+  })
+
+  it("describes the repair each issue would get", async () => {
+    const { issues } = await integrity.checkIntegrity(adapter)
+    const repairs = Object.fromEntries(issues.map((issue) => [issue.id, issue.repair?.description]))
+    expect(repairs).toEqual({
+      "missing-key:users": "Delete the rows",
+      "missing-key:payment": "Give each row a new payment_id",
+      "duplicate-key:users:2": "Keep the most recently updated copy and delete the others",
+      "invalid-date:subscriptions:1:start_date": "Read it as a spreadsheet date: 2025-12-09T00:00:00.000Z",
+      "invalid-date:payment:p1:payment_date": "Delete the row; payment_date is required",
+      "orphan:scan_logs:s1": "Delete the row",
+    })
+    expect(issues.find((issue) => issue.kind === "orphan")?.message).toBe("Member 9 does not exist")
+  })
+
+  it("applies only the repairs that were picked", async () => {
+    const { repaired, report } = await integrity.repairIntegrity(
+      adapter,
+      ["duplicate-key:users:2", "invalid-date:subscriptions:1:start_date", "missing-key:payment", "no-such-issue"],
+      actor,
+    )
+    expect(repaired.map((issue) => issue.id)).toHaveLength(3)
+
+    expect((await adapter.list("users")).filter((row) => row.user_id === "2")).toEqual([
+      expect.objectContaining({ name: "Ben" }),
+    ])
+    expect(await adapter.get("subscriptions", "1")).toMatchObject({ start_date: "2025-12-09T00:00:00.000Z" })
+    expect((await adapter.list("payment")).every((row) => row.payment_id)).toBe(true)
+    expect(report.issues.map((issue) => issue.id).sort()).toEqual([
+      "invalid-date:payment:p1:payment_date",
+      "missing-key:users",
+      "orphan:scan_logs:s1",
+    ])
+  })
+
+  it("records who made the repairs", async () => {
+    const entries = await adapter.list("audit_log")
+    expect(entries.map((entry) => entry.table_name)).toEqual(expect.arrayContaining(["users", "subscriptions", "payment"]))
+    expect(entries.every((entry) => entry.actor === actor.actor)).toBe(true)
+  })
+})
@@ -0,0 +1,253 @@
+import { runAudited, type AuditActor } from "./audit"
+import { memberTables } from "./members"
+import { dateColumns } from "./schemas"
+import { createId, tableConfigs, tableNames, type Row, type TableName } from "./tables"
+import type { StorageAdapter, StorageOperation } from "./types"
+
+export type IntegrityIssueKind = "orphan" | "invalid-date" | "duplicate-key" | "missing-key"
+
+export interface IntegrityRepair {
+  description: string
+  operations: StorageOperation[]
+}
+
+export interface IntegrityIssue {
+  /** Stable across checks, so a repair can be requested by id. */
+  id: string
+  kind: IntegrityIssueKind
+  table: TableName
+  recordId: unknown
+  column?: string
+  message: string
+  rows: Row[]
+  /** Null when the problem has to be fixed by hand. */
+  repair: IntegrityRepair | null
+}
+
+export interface IntegrityReport {
+  checkedAt: string
+  rowCounts: Record<TableName, number>
+  issues: IntegrityIssue[]
+}
+
+// Excel day 0 is 1899-12-30; serials show up when a date cell loses its format.
+const excelEpoch = Date.UTC(1899, 11, 30)
+const dayMs = 24 * 60 * 60 * 1000
+
+/** Parses a stored date. Bare numbers are only accepted as Excel serials. */
+function parseStoredDate(value: unknown): { valid: boolean; recovered?: string } {
+  const text = String(value).trim()
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    const serial = Number(text)
+    if (serial >= 1 && serial < 2958466) {
+      return { valid: false, recovered: new Date(excelEpoch + serial * dayMs).toISOString() }
+    }
+    return { valid: false }
+  }
+  return { valid: !Number.isNaN(Date.parse(text)) }
+}
+
+function isBlank(value: unknown): boolean {
+  return value === null || value === undefined || String(value).trim() === ""
+}
+
+/** The copy to keep among rows sharing a key: the latest edit, else the last one added. */
+function newestRow(rows: Row[]): Row {
+  const time = (row: Row) => Date.parse(String(row.updated_at ?? row.created_at ?? "")) || 0
+  return rows.reduce((newest, row) => (time(row) >= time(newest) ? row : newest))
+}
+
+/**
+ * Removes every stored copy of `key` and writes `keep` back. Deletes are
+ * repeated per copy because the Sheets script removes one matching row each.
+ */
+function replaceCopies(table: TableName, key: unknown, copies: number, keep: Row[]): StorageOperation[] {
+  const operations: StorageOperation[] = Array.from({ length: copies }, () => ({
+    table,
+    action: "delete" as const,
+    id: key,
+  }))
+  if (keep.length) operations.push({ table, action: "insert", rows: keep })
+  return operations
+}
+
+/**
+ * Reports blank and repeated primary keys. Returns the rows whose key does
+ * not identify them, so other checks can leave them until the key is fixed.
+ */
+function checkKeys(table: TableName, rows: Row[], issues: IntegrityIssue[]): Set<Row> {
+  const { primaryKey } = tableConfigs[table]
+  const byKey = new Map<string, Row[]>()
+  const blank: Row[] = []
+
+  for (const row of rows) {
+    if (isBlank(row[primaryKey])) blank.push(row)
+    else byKey.set(String(row[primaryKey]), [...(byKey.get(String(row[primaryKey])) || []), row])
+  }
+
+  if (blank.length) {
+    // Generated keys can be filled in; member keys cannot be guessed.
+    const generated = primaryKey !== "user_id"
+    issues.push({
+      id: `missing-key:${table}`,
+      kind: "missing-key",
+      table,
+      recordId: null,
+      message: `${blank.length} row(s) without a ${primaryKey}`,
+      rows: blank,
+      repair: {
+        description: generated ? `Give each row a new ${primaryKey}` : "Delete the rows",
+        operations: replaceCopies(
+          table,
+          "",
+          blank.length,
+          generated ? blank.map((row) => ({ ...row, [primaryKey]: createId() })) : [],
+        ),
+      },
+    })
+  }
+
+  for (const [key, copies] of byKey) {
+    if (copies.length < 2) continue
+    issues.push({
+      id: `duplicate-key:${table}:${key}`,
+      kind: "duplicate-key",
+      table,
+      recordId: key,
+      message: `${copies.length} rows share ${primaryKey} ${key}`,
+      rows: copies,
+      repair: {
+        description: "Keep the most recently updated copy and delete the others",
+        operations: replaceCopies(table, key, copies.length, [newestRow(copies)]),
+      },
+    })
+  }
+
+  return new Set([...blank, ...[...byKey.values()].filter((copies) => copies.length > 1).flat()])
+}
+
+function dateRepair(
+  table: TableName,
+  key: unknown,
+  column: string,
+  required: boolean,
+  recovered: string | undefined,
+): IntegrityRepair {
+  if (recovered) {
+    return {
+      description: `Read it as a spreadsheet date: ${recovered}`,
+      operations: [{ table, action: "update", id: key, updates: { [column]: recovered } }],
+    }
+  }
+  if (required) {
+    return {
+      description: `Delete the row; ${column} is required`,
+      operations: [{ table, action: "delete", id: key }],
+    }
+  }
+  return {
+    description: `Clear ${column}`,
+    operations: [{ table, action: "update", id: key, updates: { [column]: null } }],
+  }
+}
+
+function checkDates(table: TableName, rows: Row[], issues: IntegrityIssue[]): void {
+  const { primaryKey } = tableConfigs[table]
+
+  for (const { column, required } of dateColumns(table)) {
+    for (const row of rows) {
+      const value = row[column]
+      if (isBlank(value)) continue
+      const parsed = parseStoredDate(value)
+      if (parsed.valid) continue
+
+      const key = row[primaryKey]
+      issues.push({
+        id: `invalid-date:${table}:${String(key)}:${column}`,
+        kind: "invalid-date",
+        table,
+        recordId: key,
+        column,
+        message: `${column} is not a valid date: ${String(value)}`,
+        rows: [row],
+        repair: dateRepair(table, key, column, required, parsed.recovered),
+      })
+    }
+  }
+}
+
+function checkOrphans(table: TableName, rows: Row[], memberIds: Set<string>, issues: IntegrityIssue[]) {
+  const { primaryKey } = tableConfigs[table]
+
+  for (const row of rows) {
+    if (memberIds.has(String(row.user_id ?? ""))) continue
+    const key = row[primaryKey]
+    issues.push({
+      id: `orphan:${table}:${String(key)}`,
+      kind: "orphan",
+      table,
+      recordId: key,
+      message: isBlank(row.user_id)
+        ? "Row has no member"
+        : `Member ${String(row.user_id)} does not exist`,
+      rows: [row],
+      repair: { description: "Delete the row", operations: [{ table, action: "delete", id: key }] },
+    })
+  }
+}
+
+/**
+ * Scans every table for rows that reference missing members, dates that do
+ * not parse, and missing or duplicated primary keys. Nothing is changed;
+ * each issue carries the repair that `repairIntegrity` would apply.
+ */
+export async function checkIntegrity(storage: StorageAdapter): Promise<IntegrityReport> {
+  const data = await storage.batchList([...tableNames])
+  const memberIds = new Set(data.users.map((user) => String(user.user_id)))
+  const issues: IntegrityIssue[] = []
+
+  // A repair addresses a row by key, so rows with a blank or shared key only
+  // get their other problems reported once the key has been repaired.
+  const keyed = Object.fromEntries(
+    tableNames.map((table) => {
+      const unkeyed = checkKeys(table, data[table], issues)
+      return [table, data[table].filter((row) => !unkeyed.has(row))]
+    }),
+  ) as Record<TableName, Row[]>
+
+  for (const table of tableNames) checkDates(table, keyed[table], issues)
+  for (const table of memberTables) checkOrphans(table, keyed[table], memberIds, issues)
+
+  // The audit trail is append-only; its problems are reported, never rewritten.
+  for (const issue of issues) {
+    if (issue.table === "audit_log") issue.repair = null
+  }
+
+  return {
+    checkedAt: new Date().toISOString(),
+    rowCounts: Object.fromEntries(tableNames.map((table) => [table, data[table].length])) as Record<
+      TableName,
+      number
+    >,
+    issues,
+  }
+}
+
+/**
+ * Re-runs the check and applies the repairs of the issues in `issueIds` as
+ * one audited transaction, so a repair is always based on current data.
+ * Issues that no longer exist are ignored.
+ */
+export async function repairIntegrity(
+  storage: StorageAdapter,
+  issueIds: string[],
+  actor: AuditActor,
+): Promise<{ repaired: IntegrityIssue[]; report: IntegrityReport }> {
+  const selected = new Set(issueIds)
+  const { issues } = await checkIntegrity(storage)
+  const repaired = issues.filter((issue) => selected.has(issue.id) && issue.repair)
+
+  const operations = repaired.flatMap((issue) => issue.repair!.operations)
+  if (operations.length) await runAudited(storage, operations, actor)
+  return { repaired, report: await checkIntegrity(storage) }
+}
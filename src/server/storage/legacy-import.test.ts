@@ -0,0 +1,122 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import type { LegacyFile } from "./legacy-import"
+import type { StorageAdapter } from "./types"
+
+type LegacyImport = typeof import("./legacy-import")
+
+const actor = { actor: "owner@example.com", deviceId: null }
+
+// What pg_dump writes for the old Supabase project: COPY blocks and column inserts.
+const dump: LegacyFile = {
+  name: "supabase.sql",
+  content: [
+    "SET statement_timeout = 0;",
+    "COPY public.users (user_id, name, created_at) FROM stdin;",
+    "BCF-1001\tAna\t2024-01-05 08:30:00+08",
+    "BCF-1002\tBen\\tBenito\t\\N",
+    "BCF-1001\tAna again\t\\N",
+    "\\.",
+    "COPY public.medical_history (id, user_id, smoking, heart_problems) FROM stdin;",
+    "6a1f\tBCF-1001\tf\tt",
+    "\\.",
+    'INSERT INTO public.payment ("payment_id", "user_id", "amount", "payment_method", "payment_date", "payment_for") VALUES',
+    "('p1', 'BCF-1001', 500, 'cash', '2024-01-05 08:31:00+08', 'membership'),",
+    "('p2', 'BCF-9999', 500, 'cash', '2024-01-05 08:31:00+08', 'membership'),",
+    "('p3', 'BCF-1002', 0, 'cash', '2024-01-05 08:31:00+08', 'membership');",
+    "COPY public.user_id_counter (id, last_number) FROM stdin;",
+    "1\t1050",
+    "\\.",
+    "COPY public.push_tokens (id, token) FROM stdin;",
+    "1\tabc",
+    "\\.",
+  ].join("\n"),
+}
+
+describe("legacy import", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "bacas-legacy-"))
+  let legacy: LegacyImport
+  let adapter: StorageAdapter
+
+  beforeAll(async () => {
+    vi.stubEnv("EXCEL_DATABASE_PATH", path.join(directory, "db.xlsx"))
+    vi.stubEnv("EXCEL_BACKUP_INTERVAL_MS", "-1")
+    vi.resetModules()
+    legacy = await import("./legacy-import")
+    adapter = (await import("./excel.adapter")).createExcelAdapter()
+    await adapter.insert("users", [{ user_id: "BCF-1002", name: "Ben (already here)" }])
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+    ;(globalThis as typeof globalThis & { __bacasWorkbookCache?: unknown }).__bacasWorkbookCache = null
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("previews the import without writing anything", async () => {
+    const result = await legacy.importLegacyDump(adapter, [dump], { dryRun: true, actor })
+    expect(result.tables).toEqual([
+      { table: "users", found: 3, imported: 1, skipped: 2 },
+      { table: "medical_history", found: 1, imported: 1, skipped: 0 },
+      { table: "payment", found: 3, imported: 1, skipped: 2 },
+    ])
+    expect(result.counterAdvanced).toBe(false)
+    expect(await adapter.get("users", "BCF-1001")).toBeNull()
+  })
+
+  it("skips members that already exist or repeat within the dump", async () => {
+    const { skipped } = await legacy.importLegacyDump(adapter, [dump], { dryRun: true, actor })
+    expect(skipped).toEqual(
+      expect.arrayContaining([
+        { table: "users", recordId: "BCF-1002", reason: "Already exists" },
+        { table: "users", recordId: "BCF-1001", reason: "Already exists" },
+        { table: "payment", recordId: "p2", reason: "Unknown member BCF-9999" },
+        { table: "payment", recordId: "p3", reason: "amount: Amount must be greater than 0" },
+      ]),
+    )
+  })
+
+  it("explains what was left out", async () => {
+    const { notes } = await legacy.importLegacyDump(adapter, [dump], { dryRun: true, actor })
+    expect(notes).toEqual(
+      expect.arrayContaining([
+        "Skipped table push_tokens: not part of the current schema",
+        "Ignored medical_history columns: id",
+      ]),
+    )
+  })
+
+  it("imports the remaining rows in the app's formats and moves the counter past them", async () => {
+    const result = await legacy.importLegacyDump(adapter, [dump], { dryRun: false, actor })
+    expect(result.counterAdvanced).toBe(true)
+
+    expect(await adapter.get("users", "BCF-1001")).toMatchObject({
+      name: "Ana",
+      created_at: "2024-01-05T00:30:00.000Z",
+    })
+    expect(await adapter.get("users", "BCF-1002")).toMatchObject({ name: "Ben (already here)" })
+    // pg_dump's t/f come back the way the workbook writes booleans.
+    expect(await adapter.get("medical_history", "BCF-1001")).toMatchObject({ smoking: "FALSE", heart_problems: "TRUE" })
+    expect(await adapter.get("user_id_counter", 1)).toMatchObject({ last_number: "1050" })
+  })
+
+  it("imports nothing the second time", async () => {
+    const result = await legacy.importLegacyDump(adapter, [dump], { dryRun: false, actor })
+    expect(result.tables.map((table) => table.imported)).toEqual([0, 0, 0])
+    expect(await adapter.list("users")).toHaveLength(2)
+  })
+
+  it("reads Supabase CSV exports named after their table", async () => {
+    const csv = { name: "users_rows.csv", content: "user_id,name\nBCF-1003,Cy\n" }
+    const result = await legacy.importLegacyDump(adapter, [csv], { dryRun: true, actor })
+    expect(result.tables).toEqual([{ table: "users", found: 1, imported: 1, skipped: 0 }])
+  })
+
+  it("rejects an empty upload", async () => {
+    await expect(legacy.importLegacyDump(adapter, [], { dryRun: true, actor })).rejects.toMatchObject({
+      status: 400,
+    })
+  })
+})
@@ -0,0 +1,397 @@
+import * as XLSX from "xlsx"
+import { runAudited, type AuditActor } from "./audit"
+import { advanceCounterTo, memberIdPrefix } from "./ids"
+import { validateRow } from "./schemas"
+import { asTableName, tableConfigs, type Row, type TableName } from "./tables"
+import { StorageError, ValidationError, type StorageAdapter, type StorageOperation } from "./types"
+
+/** A file from the old Supabase project: a pg_dump `.sql` file or one table as `.csv`. */
+export interface LegacyFile {
+  name: string
+  content: string
+}
+
+export interface LegacySkippedRow {
+  table: TableName
+  recordId: unknown
+  reason: string
+}
+
+export interface LegacyTableReport {
+  table: TableName
+  found: number
+  imported: number
+  skipped: number
+}
+
+export interface LegacyImportResult {
+  dryRun: boolean
+  tables: LegacyTableReport[]
+  skipped: LegacySkippedRow[]
+  /** Tables, columns and files that were left out, in plain words. */
+  notes: string[]
+  counterAdvanced: boolean
+}
+
+interface ParsedTable {
+  name: string
+  rows: Row[]
+}
+
+// Boolean columns in bacas.sql. pg_dump writes them as t/f.
+const legacyBooleanColumns = new Set([
+  "heart_problems",
+  "blood_pressure_problems",
+  "chest_pain_exercising",
+  "asthma_breathing_problems",
+  "joint_problems",
+  "neck_back_problems",
+  "pregnant_recent_birth",
+  "other_medical_conditions",
+  "smoking",
+  "medication",
+  "waiver_accepted",
+  "coaching_preference",
+])
+
+/** Members first, so rows referencing them can be checked against the import. */
+const importOrder: TableName[] = [
+  "users",
+  "subscriptions",
+  "medical_history",
+  "emergency_contacts",
+  "liability_waivers",
+  "subscription_history",
+  "payment",
+  "scan_logs",
+  "active_sessions",
+]
+
+const postgresTimestamp =
+  /^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?)(Z|[+-]\d{2}(?::?\d{2})?)?$/
+
+function unquoteIdentifier(identifier: string): string {
+  return identifier.trim().replace(/"/g, "")
+}
+
+/** `public.users`, `"users"` and Supabase's `users_rows.csv` all name `users`. */
+function legacyTableName(name: string): string {
+  const base = unquoteIdentifier(name).split(/[\\/]/).pop() || ""
+  return base
+    .replace(/\.(sql|csv|txt)$/i, "")
+    .replace(/^public\./, "")
+    .replace(/_rows$/, "")
+}
+
+const copyEscapes: Record<string, string> = { b: "\b", f: "\f", n: "\n", r: "\r", t: "\t", v: "\v" }
+
+function parseCopyValue(value: string): string | null {
+  if (value === "\\N") return null
+  return value.replace(/\\(.)/g, (_, character: string) => copyEscapes[character] ?? character)
+}
+
+/**
+ * Reads the values of one `INSERT ... VALUES` statement starting at
+ * `start`. Returns the tuples and the position after the statement.
+ */
+function parseInsertValues(sql: string, start: number): { tuples: unknown[][]; end: number } {
+  const tuples: unknown[][] = []
+  let position = start
+
+  const skipWhitespace = () => {
+    while (position < sql.length && /\s/.test(sql[position])) position += 1
+  }
+
+  const readValue = (): unknown => {
+    skipWhitespace()
+    let value: unknown
+    const escaped = /^[eE]'/.test(sql.slice(position, position + 2))
+    if (sql[position] === "'" || escaped) {
+      if (escaped) position += 1
+      position += 1
+      let text = ""
+      while (position < sql.length) {
+        const character = sql[position]
+        if (escaped && character === "\\") {
+          const next = sql[position + 1]
+          text += copyEscapes[next] ?? next
+          position += 2
+          continue
+        }
+        if (character === "'") {
+          if (sql[position + 1] === "'") {
+            text += "'"
+            position += 2
+            continue
+          }
+          position += 1
+          break
+        }
+        text += character
+        position += 1
+      }
+      value = text
+    } else {
+      // Bare tokens run to the next top-level comma or bracket, so calls
+      // like now() stay whole.
+      let depth = 0
+      let token = ""
+      while (position < sql.length) {
+        const character = sql[position]
+        if (depth === 0 && (character === "," || character === ")")) break
+        if (character === "(") depth += 1
+        if (character === ")") depth -= 1
+        token += character
+        position += 1
+      }
+      const keyword = token.trim().toLowerCase()
+      if (keyword === "null") value = null
+      else if (keyword === "true" || keyword === "false") value = keyword === "true"
+      else if (keyword === "now()" || keyword === "current_timestamp") value = new Date().toISOString()
+      else value = token.trim()
+    }
+
+    // Drop casts such as '2024-01-01'::timestamp with time zone.
+    const cast = /^\s*::[\w\s"]+(\([\d,\s]*\))?(\[\])?/.exec(sql.slice(position))
+    if (cast) position += cast[0].length
+    skipWhitespace()
+    return value
+  }
+
+  while (position < sql.length) {
+    skipWhitespace()
+    if (sql[position] !== "(") break
+    position += 1
+
+    const tuple: unknown[] = []
+    while (position < sql.length) {
+      tuple.push(readValue())
+      if (sql[position] === ",") {
+        position += 1
+        continue
+      }
+      if (sql[position] === ")") position += 1
+      break
+    }
+    tuples.push(tuple)
+
+    skipWhitespace()
+    if (sql[position] !== ",") break
+    position += 1
+  }
+
+  const statementEnd = sql.indexOf(";", position)
+  return { tuples, end: statementEnd === -1 ? sql.length : statementEnd + 1 }
+}
+
+/** Reads `COPY ... FROM stdin` blocks and `INSERT INTO ... (columns) VALUES` statements. */
+function parseSqlDump(sql: string, notes: string[]): ParsedTable[] {
+  const tables: ParsedTable[] = []
+  const remaining: string[] = []
+  const lines = sql.split(/\r?\n/)
+
+  for (let index = 0; index < lines.length; index += 1) {
+    const copy = /^COPY\s+([\w."]+)\s*\(([^)]*)\)\s+FROM\s+stdin/i.exec(lines[index])
+    if (!copy) {
+      remaining.push(lines[index])
+      continue
+    }
+
+    const columns = copy[2].split(",").map(unquoteIdentifier)
+    const rows: Row[] = []
+    for (index += 1; index < lines.length && lines[index] !== "\\."; index += 1) {
+      const values = lines[index].split("\t").map(parseCopyValue)
+      rows.push(Object.fromEntries(columns.map((column, position) => [column, values[position] ?? null])))
+    }
+    tables.push({ name: legacyTableName(copy[1]), rows })
+  }
+
+  const statements = remaining.join("\n")
+  const insert = /INSERT\s+INTO\s+([\w."]+)\s*(\(([^)]*)\))?\s*VALUES\s*/gi
+  let match: RegExpExecArray | null
+  while ((match = insert.exec(statements))) {
+    const name = legacyTableName(match[1])
+    const { tuples, end } = parseInsertValues(statements, insert.lastIndex)
+    insert.lastIndex = end
+
+    if (!match[3]) {
+      notes.push(`INSERT into ${name} has no column list; export with pg_dump --column-inserts`)
+      continue
+    }
+    const columns = match[3].split(",").map(unquoteIdentifier)
+    tables.push({
+      name,
+      rows: tuples.map((tuple) =>
+        Object.fromEntries(columns.map((column, index) => [column, tuple[index] ?? null])),
+      ),
+    })
+  }
+  return tables
+}
+
+function parseCsv(file: LegacyFile): ParsedTable {
+  const workbook = XLSX.read(file.content, { type: "string", raw: true })
+  const sheet = workbook.Sheets[workbook.SheetNames[0]]
+  return {
+    name: legacyTableName(file.name),
+    rows: sheet ? XLSX.utils.sheet_to_json<Row>(sheet, { defval: null, raw: true }) : [],
+  }
+}
+
+/** Converts Postgres output (t/f, `2024-01-01 08:00:00+08`) to what the app stores. */
+function normalizeValue(column: string, value: unknown): unknown {
+  if (value === null || value === undefined || value === "") return null
+  if (legacyBooleanColumns.has(column) && typeof value === "string") {
+    if (/^(t|true)$/i.test(value)) return true
+    if (/^(f|false)$/i.test(value)) return false
+  }
+  if (typeof value !== "string") return value
+
+  const timestamp = postgresTimestamp.exec(value.trim())
+  if (!timestamp) return value
+  let offset = timestamp[3] || "Z"
+  if (/^[+-]\d{2}$/.test(offset)) offset += ":00"
+  else if (/^[+-]\d{4}$/.test(offset)) offset = `${offset.slice(0, 3)}:${offset.slice(3)}`
+  const date = new Date(`${timestamp[1]}T${timestamp[2]}${offset}`)
+  return Number.isNaN(date.getTime()) ? value : date.toISOString()
+}
+
+/**
+ * Keeps the columns the current table has. Tables keyed by `user_id` had
+ * their own uuid `id` in Supabase, which is dropped.
+ */
+function mapRow(tableName: TableName, row: Row, dropped: Set<string>): Row {
+  const { columns } = tableConfigs[tableName]
+  const mapped: Row = {}
+  for (const [column, value] of Object.entries(row)) {
+    if (!columns.includes(column)) {
+      dropped.add(column)
+      continue
+    }
+    mapped[column] = normalizeValue(column, value)
+  }
+  return mapped
+}
+
+function describeValidation(error: ValidationError): string {
+  return Object.entries(error.fieldErrors)
+    .map(([column, message]) => `${column}: ${message}`)
+    .join("; ")
+}
+
+function highestMemberNumber(userIds: Iterable<unknown>): number {
+  let highest = 0
+  for (const userId of userIds) {
+    const value = String(userId ?? "")
+    if (!value.startsWith(memberIdPrefix)) continue
+    const number = Number(value.slice(memberIdPrefix.length))
+    if (Number.isInteger(number)) highest = Math.max(highest, number)
+  }
+  return highest
+}
+
+/**
+ * Imports a Supabase export of the `bacas.sql` tables into `storage`. Rows
+ * whose key already exists (`user_id`, `payment_id`, ...) or that belong to
+ * an unknown member are skipped and reported; the rest go in as one audited
+ * transaction. With `dryRun` nothing is written.
+ */
+export async function importLegacyDump(
+  storage: StorageAdapter,
+  files: LegacyFile[],
+  options: { dryRun: boolean; actor: AuditActor },
+): Promise<LegacyImportResult> {
+  if (!Array.isArray(files) || !files.length) {
+    throw new StorageError("Choose at least one .sql or .csv file to import", 400)
+  }
+
+  const notes: string[] = []
+  const parsed: ParsedTable[] = []
+  for (const file of files) {
+    if (typeof file?.content !== "string") {
+      throw new StorageError(`File ${String(file?.name)} has no content`, 400)
+    }
+    if (/\.csv$/i.test(file.name)) parsed.push(parseCsv(file))
+    else parsed.push(...parseSqlDump(file.content, notes))
+  }
+
+  const rowsByTable = new Map<TableName, Row[]>()
+  let legacyCounter = 0
+  for (const table of parsed) {
+    const tableName = asTableName(table.name)
+    if (tableName === "user_id_counter") {
+      for (const row of table.rows) legacyCounter = Math.max(legacyCounter, Number(row.last_number) || 0)
+      continue
+    }
+    if (!tableName || !importOrder.includes(tableName)) {
+      notes.push(`Skipped table ${table.name || "(unnamed)"}: not part of the current schema`)
+      continue
+    }
+    rowsByTable.set(tableName, [...(rowsByTable.get(tableName) || []), ...table.rows])
+  }
+
+  const tableNamesToRead = Array.from(new Set<TableName>(["users", ...rowsByTable.keys()]))
+  const existing = await storage.batchList(tableNamesToRead)
+  const memberIds = new Set(existing.users.map((user) => String(user.user_id)))
+
+  const operations: StorageOperation[] = []
+  const reports: LegacyTableReport[] = []
+  const skipped: LegacySkippedRow[] = []
+
+  for (const tableName of importOrder) {
+    const legacyRows = rowsByTable.get(tableName)
+    if (!legacyRows) continue
+
+    const { primaryKey } = tableConfigs[tableName]
+    const seen = new Set(existing[tableName].map((row) => String(row[primaryKey])))
+    const dropped = new Set<string>()
+    const accepted: Row[] = []
+    const skip = (recordId: unknown, reason: string) =>
+      skipped.push({ table: tableName, recordId: recordId ?? null, reason })
+
+    for (const legacyRow of legacyRows) {
+      const row = mapRow(tableName, legacyRow, dropped)
+      const key = row[primaryKey]
+
+      if (key !== null && key !== undefined && seen.has(String(key))) {
+        skip(key, "Already exists")
+        continue
+      }
+      if (tableName !== "users" && !memberIds.has(String(row.user_id))) {
+        skip(key, `Unknown member ${String(row.user_id ?? "")}`)
+        continue
+      }
+      try {
+        validateRow(tableName, row, "insert")
+      } catch (error) {
+        if (!(error instanceof ValidationError)) throw error
+        skip(key, describeValidation(error))
+        continue
+      }
+
+      if (key !== null && key !== undefined) seen.add(String(key))
+      if (tableName === "users") memberIds.add(String(row.user_id))
+      accepted.push(row)
+    }
+
+    if (dropped.size) notes.push(`Ignored ${tableName} columns: ${Array.from(dropped).join(", ")}`)
+    if (accepted.length) operations.push({ table: tableName, action: "insert", rows: accepted })
+    reports.push({
+      table: tableName,
+      found: legacyRows.length,
+      imported: accepted.length,
+      skipped: legacyRows.length - accepted.length,
+    })
+  }
+
+  let counterAdvanced = false
+  if (!options.dryRun) {
+    if (operations.length) await runAudited(storage, operations, options.actor)
+
+    // Later ids must not collide with the imported members.
+    const lastNumber = Math.max(legacyCounter, highestMemberNumber(memberIds))
+    if (lastNumber) counterAdvanced = await advanceCounterTo(storage, lastNumber)
+  }
+
+  return { dryRun: options.dryRun, tables: reports, skipped, notes, counterAdvanced }
+}
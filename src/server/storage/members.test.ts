@@ -0,0 +1,94 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import type { StorageAdapter } from "./types"
+
+type Members = typeof import("./members")
+
+const actor = { actor: "owner@example.com", deviceId: null }
+
+describe("members", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "bacas-members-"))
+  let members: Members
+  let adapter: StorageAdapter
+
+  beforeAll(async () => {
+    vi.stubEnv("EXCEL_DATABASE_PATH", path.join(directory, "db.xlsx"))
+    vi.stubEnv("EXCEL_BACKUP_INTERVAL_MS", "-1")
+    vi.resetModules()
+    members = await import("./members")
+    adapter = (await import("./excel.adapter")).createExcelAdapter()
+
+    await adapter.transaction([
+      { table: "users", action: "insert", rows: [{ user_id: "1", name: "Ana" }, { user_id: "2", name: "Ben" }] },
+      { table: "subscriptions", action: "insert", rows: [{ user_id: "1" }, { user_id: "2" }] },
+      { table: "active_sessions", action: "insert", rows: [{ user_id: "1", user_name: "Ana" }] },
+      {
+        table: "scan_logs",
+        action: "insert",
+        rows: [
+          { id: "s1", user_id: "1", action: "check-in" },
+          { id: "s2", user_id: "1", action: "check-out" },
+          { id: "s3", user_id: "2", action: "check-in" },
+        ],
+      },
+      { table: "payment", action: "insert", rows: [{ payment_id: "p1", user_id: "1", amount: 500 }] },
+    ])
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+    ;(globalThis as typeof globalThis & { __bacasWorkbookCache?: unknown }).__bacasWorkbookCache = null
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("archives a member, ends their session and keeps their history", async () => {
+    const archived = await members.archiveMember(adapter, "1", actor)
+    expect(archived).toMatchObject({ user_id: "1", archived_at: expect.any(String) })
+    expect(await adapter.get("active_sessions", "1")).toBeNull()
+    expect((await adapter.query("scan_logs", { where: { user_id: "1" } })).total).toBe(2)
+    expect(await adapter.get("payment", "p1")).not.toBeNull()
+
+    await members.restoreMember(adapter, "1", actor)
+    expect((await adapter.get("users", "1"))?.archived_at).toBeFalsy()
+  })
+
+  it("purges a member and every row that belongs to them", async () => {
+    const deleted = await members.purgeMember(adapter, "1", actor)
+    expect(deleted).toMatchObject({ users: 1, subscriptions: 1, scan_logs: 2, payment: 1 })
+
+    expect(await adapter.get("users", "1")).toBeNull()
+    expect(await adapter.get("subscriptions", "1")).toBeNull()
+    expect((await adapter.query("scan_logs", { where: { user_id: "1" } })).total).toBe(0)
+    // Other members are untouched.
+    expect(await adapter.get("users", "2")).not.toBeNull()
+    expect((await adapter.query("scan_logs", { where: { user_id: "2" } })).total).toBe(1)
+  })
+
+  it("logs every deleted row so it can still be traced", async () => {
+    const entries = await adapter.query("audit_log", { where: { member_id: "1", action: "delete" } })
+    // The session ended by archiving, then the rows the purge removed.
+    expect(entries.rows.map((row) => row.table_name).sort()).toEqual([
+      "active_sessions",
+      "payment",
+      "scan_logs",
+      "scan_logs",
+      "subscriptions",
+      "users",
+    ])
+  })
+
+  it("answers 404 for members that do not exist", async () => {
+    await expect(members.archiveMember(adapter, "404", actor)).rejects.toMatchObject({ status: 404 })
+    await expect(members.purgeMember(adapter, "1", actor)).rejects.toMatchObject({ status: 404 })
+  })
+
+  it("treats every table with a user_id as belonging to members", () => {
+    expect(members.memberTables).toEqual(
+      expect.arrayContaining(["subscriptions", "scan_logs", "payment", "scan_logs_archive"]),
+    )
+    expect(members.memberTables).not.toContain("users")
+    expect(members.memberTables).not.toContain("audit_log")
+  })
+})
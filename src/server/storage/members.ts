@@ -0,0 +1,79 @@
+import { runAudited, type AuditActor } from "./audit"
+import { tableConfigs, tableNames, type TableName } from "./tables"
+import { StorageError, type StorageAdapter, type StorageOperation } from "./types"
+
+/** Every table other than `users` that stores rows keyed to a member. */
+export const memberTables = tableNames.filter(
+  (tableName) => tableName !== "users" && tableConfigs[tableName].columns.includes("user_id"),
+)
+
+/** Loads a member or fails with 404. */
+export async function requireMember(storage: StorageAdapter, userId: unknown) {
+  const user = await storage.get("users", userId)
+  if (!user) throw new StorageError(`Member not found: ${String(userId)}`, 404)
+  return user
+}
+
+/**
+ * Soft delete: stamps `archived_at` and ends any open session. Payments,
+ * scans and subscription history stay untouched so reports keep adding up.
+ */
+export async function archiveMember(storage: StorageAdapter, userId: unknown, actor: AuditActor) {
+  await requireMember(storage, userId)
+  const now = new Date().toISOString()
+  const [result] = await runAudited(
+    storage,
+    [
+      { table: "users", action: "update", id: userId, updates: { archived_at: now, updated_at: now } },
+      { table: "active_sessions", action: "delete", id: userId },
+    ],
+    actor,
+  )
+  return result.data
+}
+
+export async function restoreMember(storage: StorageAdapter, userId: unknown, actor: AuditActor) {
+  await requireMember(storage, userId)
+  const [result] = await runAudited(
+    storage,
+    [
+      {
+        table: "users",
+        action: "update",
+        id: userId,
+        updates: { archived_at: null, updated_at: new Date().toISOString() },
+      },
+    ],
+    actor,
+  )
+  return result.data
+}
+
+/**
+ * Hard delete: removes the member and every row that references them, in one
+ * transaction. Returns the number of rows removed per table.
+ */
+export async function purgeMember(
+  storage: StorageAdapter,
+  userId: unknown,
+  actor: AuditActor,
+): Promise<Partial<Record<TableName, number>>> {
+  await requireMember(storage, userId)
+
+  const operations: StorageOperation[] = []
+  for (const tableName of memberTables) {
+    const { primaryKey } = tableConfigs[tableName]
+    const { rows } = await storage.query(tableName, { where: { user_id: userId } })
+    for (const row of rows) {
+      operations.push({ table: tableName, action: "delete", id: row[primaryKey] })
+    }
+  }
+  // Dependent rows go first so foreign keys on Postgres never block the user.
+  operations.push({ table: "users", action: "delete", id: userId })
+
+  const deleted: Partial<Record<TableName, number>> = {}
+  for (const result of await runAudited(storage, operations, actor)) {
+    deleted[result.table] = (deleted[result.table] || 0) + (result.deleted || 0)
+  }
+  return deleted
+}
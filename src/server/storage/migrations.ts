@@ -0,0 +1,101 @@
+import type { Row, TableName } from "./tables"
+
+/**
+ * Table-level helpers handed to each migration. Rows include every column
+ * stored in the sheet, not just the ones `tableConfigs` still knows about.
+ */
+export interface MigrationContext {
+  getRows(table: TableName): Row[]
+  setRows(table: TableName, rows: Row[]): void
+  /** Adds the column to every row, backfilling it with `fill` when given. */
+  addColumn(table: TableName, column: string, fill?: (row: Row) => unknown): void
+  renameColumn(table: TableName, from: string, to: string): void
+}
+
+export interface Migration {
+  version: number
+  name: string
+  up(context: MigrationContext): void
+}
+
+/**
+ * Ordered schema changes for existing databases. Append new entries with the
+ * next version number; never edit or reorder one that has shipped, since the
+ * stored schema version records which of them a database has already run.
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: "users-archived-at",
+    up: (db) => db.addColumn("users", "archived_at"),
+  },
+  {
+    version: 2,
+    name: "scan-logs-device-id",
+    up: (db) => db.addColumn("scan_logs", "device_id"),
+  },
+  {
+    // Accounts made before roles existed were the gym's administrators.
+    version: 3,
+    name: "staff-roles",
+    up: (db) => {
+      db.addColumn("staff", "role", () => "owner")
+      db.addColumn("staff", "disabled_at")
+    },
+  },
+  {
+    version: 4,
+    name: "staff-session-version",
+    up: (db) => db.addColumn("staff", "session_version", () => 0),
+  },
+]
+
+export const schemaVersion = migrations.reduce(
+  (latest, migration) => Math.max(latest, migration.version),
+  0,
+)
+
+export function createMigrationContext(
+  read: (table: TableName) => Row[],
+  write: (table: TableName, rows: Row[]) => void,
+): MigrationContext {
+  return {
+    getRows: read,
+    setRows: write,
+
+    addColumn(table, column, fill) {
+      write(
+        table,
+        read(table).map((row) => ({
+          ...row,
+          [column]: row[column] ?? (fill ? fill(row) : null),
+        })),
+      )
+    },
+
+    renameColumn(table, from, to) {
+      write(
+        table,
+        read(table).map(({ [from]: value, ...row }) => ({ ...row, [to]: row[to] ?? value ?? null })),
+      )
+    },
+  }
+}
+
+/**
+ * Runs every migration newer than `currentVersion`, in order. Returns the
+ * migrations that were applied.
+ */
+export function runMigrations(context: MigrationContext, currentVersion: number): Migration[] {
+  if (currentVersion > schemaVersion) {
+    throw new Error(
+      `Database schema version ${currentVersion} is newer than this app supports (${schemaVersion})`,
+    )
+  }
+
+  const pending = migrations
+    .filter((migration) => migration.version > currentVersion)
+    .sort((left, right) => left.version - right.version)
+  for (const migration of pending) migration.up(context)
+  return pending
+}
@@ -0,0 +1,159 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import { checkPreconditions, parseExpected, parseOperations, sameStoredValue } from "./operations"
+import { ConflictError, type StorageAdapter, type StorageOperation } from "./types"
+
+type Audit = typeof import("./audit")
+
+const actor = { actor: "owner@example.com", deviceId: null }
+
+/** What the add-member dialog sends for a new member. */
+function enrollment(userId: string): StorageOperation[] {
+  return [
+    { table: "users", action: "insert", rows: [{ user_id: userId, name: "Ana" }] },
+    { table: "subscriptions", action: "insert", rows: [{ user_id: userId, status: "active" }] },
+    { table: "payment", action: "insert", rows: [{ payment_id: `${userId}-p`, user_id: userId, amount: 500 }] },
+    { table: "medical_history", action: "insert", rows: [{ user_id: userId }] },
+    { table: "emergency_contacts", action: "insert", rows: [{ user_id: userId, contact_name: "Ben" }] },
+    { table: "liability_waivers", action: "insert", rows: [{ user_id: userId, waiver_accepted: true }] },
+  ]
+}
+
+describe("parseOperations", () => {
+  it("accepts a single row or a list of rows for inserts", () => {
+    expect(parseOperations([{ table: "users", action: "insert", row: { user_id: "1" } }])).toEqual([
+      { table: "users", action: "insert", rows: [{ user_id: "1" }] },
+    ])
+  })
+
+  it("names the operation that is malformed", () => {
+    expect(() => parseOperations([])).toThrow("A transaction needs at least one operation")
+    expect(() => parseOperations([{ table: "nope", action: "insert" }])).toThrow("Operation 0: missing or invalid table")
+    expect(() =>
+      parseOperations([
+        { table: "users", action: "delete", id: "1" },
+        { table: "users", action: "update" },
+      ]),
+    ).toThrow("Operation 1: update needs an id")
+    expect(() => parseOperations([{ table: "users", action: "upsert" }])).toThrow(/unsupported action upsert/)
+  })
+})
+
+describe("enrollment transactions", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "bacas-enroll-"))
+  const failNextWrite = { value: false }
+  let audit: Audit
+  let adapter: StorageAdapter
+
+  beforeAll(async () => {
+    vi.stubEnv("EXCEL_DATABASE_PATH", path.join(directory, "db.xlsx"))
+    vi.stubEnv("EXCEL_BACKUP_INTERVAL_MS", "-1")
+    vi.resetModules()
+    // Stands in for a crash or full disk while the workbook is being written.
+    vi.doMock("./write-ahead-log", async (importOriginal) => {
+      const original = await importOriginal<typeof import("./write-ahead-log")>()
+      return {
+        ...original,
+        appendWriteAhead: (...args: Parameters<typeof original.appendWriteAhead>) => {
+          if (failNextWrite.value) {
+            failNextWrite.value = false
+            throw new Error("disk full")
+          }
+          original.appendWriteAhead(...args)
+        },
+      }
+    })
+    audit = await import("./audit")
+    adapter = (await import("./excel.adapter")).createExcelAdapter()
+  })
+
+  afterAll(() => {
+    vi.doUnmock("./write-ahead-log")
+    vi.unstubAllEnvs()
+    ;(globalThis as typeof globalThis & { __bacasWorkbookCache?: unknown }).__bacasWorkbookCache = null
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("stores every part of the enrollment with its audit trail", async () => {
+    await audit.runAudited(adapter, enrollment("1"), actor)
+
+    for (const table of ["users", "subscriptions", "medical_history", "emergency_contacts", "liability_waivers"] as const) {
+      expect(await adapter.get(table, "1")).toMatchObject({ user_id: "1" })
+    }
+    expect(await adapter.get("payment", "1-p")).toMatchObject({ amount: "500" })
+    expect((await adapter.list("audit_log")).map((row) => row.table_name).sort()).toEqual([
+      "emergency_contacts",
+      "liability_waivers",
+      "medical_history",
+      "payment",
+      "subscriptions",
+      "users",
+    ])
+  })
+
+  it("leaves nothing of a half-written enrollment behind", async () => {
+    failNextWrite.value = true
+    await expect(audit.runAudited(adapter, enrollment("2"), actor)).rejects.toThrow("disk full")
+
+    expect(await adapter.get("users", "2")).toBeNull()
+    expect(await adapter.get("subscriptions", "2")).toBeNull()
+    expect(await adapter.get("payment", "2-p")).toBeNull()
+    expect(await adapter.list("audit_log")).toHaveLength(6)
+
+    await audit.runAudited(adapter, enrollment("2"), actor)
+    expect(await adapter.get("users", "2")).toMatchObject({ name: "Ana" })
+  })
+
+  it("refuses writes to the audit log itself", async () => {
+    await expect(
+      audit.runAudited(adapter, [{ table: "audit_log", action: "delete", id: "x" }], actor),
+    ).rejects.toMatchObject({ status: 403 })
+  })
+})
+
+describe("checkPreconditions", () => {
+  const stored = { user_id: "1", name: "Ana", updated_at: "2026-10-19T02:00:00.000Z" }
+  const storage = { get: async (_table: string, id: unknown) => (id === "1" ? stored : null) } as StorageAdapter
+
+  const update = (id: string, expected: Record<string, unknown>): StorageOperation => ({
+    table: "users",
+    action: "update",
+    id,
+    updates: { name: "Renamed" },
+    expected,
+  })
+
+  it("lets an update through when the row is as the editor last saw it", async () => {
+    await expect(checkPreconditions(storage, [update("1", { updated_at: stored.updated_at })])).resolves.toBeUndefined()
+    // Postgres hands timestamps back in its own format.
+    await expect(
+      checkPreconditions(storage, [update("1", { updated_at: "2026-10-19 10:00:00+08" })]),
+    ).resolves.toBeUndefined()
+  })
+
+  it("rejects a stale update with 409 and the row as it is now", async () => {
+    const error = await checkPreconditions(storage, [update("1", { updated_at: "2026-10-18T00:00:00.000Z" })]).catch(
+      (caught: unknown) => caught,
+    )
+    expect(error).toBeInstanceOf(ConflictError)
+    expect(error).toMatchObject({ status: 409, message: "users 1 was changed by someone else", current: stored })
+  })
+
+  it("rejects an update to a row that was deleted", async () => {
+    await expect(checkPreconditions(storage, [update("2", { updated_at: "x" })])).rejects.toMatchObject({
+      status: 409,
+      message: "users 2 no longer exists",
+      current: null,
+    })
+  })
+
+  it("compares stored values loosely and expected values strictly", () => {
+    expect(sameStoredValue("500", 500)).toBe(true)
+    expect(sameStoredValue("2026-10-19T02:00:00Z", "2026-10-19T02:00:00.000Z")).toBe(true)
+    expect(sameStoredValue("2026-10-19", "2026-10-20")).toBe(false)
+    expect(parseExpected(undefined)).toBeUndefined()
+    expect(() => parseExpected("2026-10-19")).toThrow(/expected must be an object/)
+  })
+})
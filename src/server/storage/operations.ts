@@ -0,0 +1,127 @@
+import { asTableName, createId, sameValue, tableConfigs, type Row } from "./tables"
+import {
+  ConflictError,
+  StorageError,
+  type OperationResult,
+  type StorageAdapter,
+  type StorageOperation,
+} from "./types"
+
+function asObject(value: unknown): Row {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as Row) : {}
+}
+
+/** Validates the `operations` array of a `transaction` request. */
+export function parseOperations(raw: unknown): StorageOperation[] {
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new StorageError("A transaction needs at least one operation", 400)
+  }
+
+  return raw.map((item, index) => {
+    const input = asObject(item)
+    const table = asTableName(input.table)
+    if (!table) throw new StorageError(`Operation ${index}: missing or invalid table`, 400)
+
+    switch (input.action) {
+      case "insert": {
+        const rows = (Array.isArray(input.rows) ? input.rows : [input.row])
+          .filter((row) => row && typeof row === "object")
+          .map(asObject)
+        if (!rows.length) throw new StorageError(`Operation ${index}: insert needs row or rows`, 400)
+        return { table, action: "insert", rows }
+      }
+      case "update":
+        if (input.id === undefined) throw new StorageError(`Operation ${index}: update needs an id`, 400)
+        return {
+          table,
+          action: "update",
+          id: input.id,
+          updates: asObject(input.updates),
+          expected: parseExpected(input.expected),
+        }
+      case "delete":
+        if (input.id === undefined) throw new StorageError(`Operation ${index}: delete needs an id`, 400)
+        return { table, action: "delete", id: input.id }
+      default:
+        throw new StorageError(`Operation ${index}: unsupported action ${String(input.action)}`, 400)
+    }
+  })
+}
+
+export function parseExpected(raw: unknown): Row | undefined {
+  if (raw === undefined || raw === null) return undefined
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    throw new StorageError("expected must be an object of column values", 400)
+  }
+  return raw as Row
+}
+
+/** Timestamps may come back reformatted (e.g. from Postgres), so compare instants. */
+export function sameStoredValue(stored: unknown, expected: unknown): boolean {
+  if (sameValue(stored, expected)) return true
+  if (typeof stored !== "string" || typeof expected !== "string") return false
+  const storedTime = Date.parse(stored)
+  return !Number.isNaN(storedTime) && storedTime === Date.parse(expected)
+}
+
+/**
+ * Optimistic concurrency: rejects the batch with a 409 if any update's
+ * `expected` column values (usually `updated_at`) differ from the stored
+ * row. Callers run this under `withLock`, right before writing.
+ */
+export async function checkPreconditions(
+  storage: StorageAdapter,
+  operations: StorageOperation[],
+): Promise<void> {
+  for (const operation of operations) {
+    if (operation.action !== "update" || !operation.expected) continue
+
+    const current = await storage.get(operation.table, operation.id)
+    const stale = Object.entries(operation.expected).some(
+      ([column, value]) => !current || !sameStoredValue(current[column], value),
+    )
+    if (stale) {
+      throw new ConflictError(
+        current
+          ? `${operation.table} ${String(operation.id)} was changed by someone else`
+          : `${operation.table} ${String(operation.id)} no longer exists`,
+        current,
+      )
+    }
+  }
+}
+
+/**
+ * Applies one operation to an in-memory copy of a table. Used by backends
+ * that rewrite whole tables (the XLSX workbook) to stage a transaction
+ * before anything is persisted.
+ */
+export function applyOperation(
+  rows: Row[],
+  operation: StorageOperation,
+): { rows: Row[]; result: OperationResult } {
+  const table = tableConfigs[operation.table]
+  const base = { table: operation.table, action: operation.action }
+
+  if (operation.action === "insert") {
+    const inserted = operation.rows.map((row) => {
+      const nextRow = { ...row }
+      if (!nextRow[table.primaryKey]) nextRow[table.primaryKey] = createId()
+      return nextRow
+    })
+    return { rows: [...rows, ...inserted], result: { ...base, data: inserted } }
+  }
+
+  if (operation.action === "update") {
+    let updated: Row | null = null
+    const nextRows = rows.map((row) => {
+      if (!sameValue(row[table.primaryKey], operation.id)) return row
+      updated = { ...row, ...operation.updates }
+      return updated
+    })
+    return { rows: nextRows, result: { ...base, data: updated } }
+  }
+
+  const nextRows = rows.filter((row) => !sameValue(row[table.primaryKey], operation.id))
+  return { rows: nextRows, result: { ...base, deleted: rows.length - nextRows.length } }
+}
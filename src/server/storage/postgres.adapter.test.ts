@@ -0,0 +1,96 @@
+import { randomUUID } from "crypto"
+import fs from "fs"
+import path from "path"
+import { Pool } from "pg"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import type { StorageAdapter } from "./types"
+
+/**
+ * Runs against a real database, so it only runs when `DATABASE_URL` is set.
+ * scripts/migrate_database.sql is idempotent and is applied first; the test
+ * member and everything that cascades from it is deleted afterwards.
+ */
+const databaseUrl = process.env.DATABASE_URL
+
+describe.skipIf(!databaseUrl)("postgres adapter", () => {
+  const userId = `TEST-${Date.now()}`
+  const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+  const pool = new Pool({ connectionString: databaseUrl, max: 1 })
+  let adapter: StorageAdapter
+
+  const payment = (paymentId: string, amount: number) => ({
+    payment_id: paymentId,
+    user_id: userId,
+    amount,
+    payment_method: "cash",
+    payment_date: "2026-10-19T02:00:00Z",
+    payment_for: "membership",
+  })
+
+  beforeAll(async () => {
+    await pool.query(fs.readFileSync(path.join(process.cwd(), "scripts/migrate_database.sql"), "utf8"))
+    vi.stubEnv("POSTGRES_SCHEMA", "public")
+    vi.resetModules()
+    adapter = (await import("./postgres.adapter")).createPostgresAdapter()
+  })
+
+  afterAll(async () => {
+    await pool.query("DELETE FROM public.users WHERE user_id = $1", [userId])
+    await pool.end()
+    vi.unstubAllEnvs()
+  })
+
+  it("commits every operation of a transaction together", async () => {
+    const results = await adapter.transaction([
+      { table: "users", action: "insert", rows: [{ user_id: userId, name: "Test Member" }] },
+      { table: "payment", action: "insert", rows: [payment(`${userId}-1`, 500)] },
+    ])
+    expect(results.map((result) => result.table)).toEqual(["users", "payment"])
+    expect(await adapter.get("payment", `${userId}-1`)).toMatchObject({ user_id: userId })
+  })
+
+  it("rolls the whole transaction back and maps check violations to 400", async () => {
+    await expect(
+      adapter.transaction([
+        { table: "users", action: "update", id: userId, updates: { name: "Renamed" } },
+        { table: "payment", action: "insert", rows: [payment(`${userId}-2`, 0)] },
+      ]),
+    ).rejects.toMatchObject({ status: 400, message: expect.stringMatching(/payment_amount_check/) })
+
+    expect(await adapter.get("users", userId)).toMatchObject({ name: "Test Member" })
+    expect(await adapter.get("payment", `${userId}-2`)).toBeNull()
+  })
+
+  it("maps unique violations to 409", async () => {
+    const session = { user_id: userId, user_name: "Test Member" }
+    await adapter.insert("active_sessions", [session])
+    await expect(adapter.insert("active_sessions", [session])).rejects.toMatchObject({ status: 409 })
+    await expect(adapter.insert("payment", [payment(`${userId}-1`, 500)])).rejects.toMatchObject({ status: 409 })
+  })
+
+  it("lets the database pick uuid keys unless a valid uuid is given", async () => {
+    const scan = { user_id: userId, user_name: "Test Member", action: "check-in", status: "success" }
+    const [generated] = await adapter.insert("scan_logs", [{ ...scan, id: "1715000000000-abc123" }])
+    expect(generated.id).toMatch(uuidPattern)
+    expect(generated.id).not.toBe("1715000000000-abc123")
+
+    const id = randomUUID()
+    const [kept] = await adapter.insert("scan_logs", [{ ...scan, id }])
+    expect(kept.id).toBe(id)
+    expect(await adapter.delete("scan_logs", id)).toBe(1)
+  })
+
+  it("counts every match while returning one page", async () => {
+    const { rows, total } = await adapter.query("scan_logs", {
+      where: { user_id: userId },
+      orderBy: { column: "timestamp", direction: "desc" },
+      limit: 0,
+    })
+    expect(rows).toEqual([])
+    expect(total).toBe(1)
+
+    const page = await adapter.query("payment", { where: { user_id: userId }, limit: 1 })
+    expect(page.total).toBe(1)
+    expect(page.rows[0]).not.toHaveProperty("__total")
+  })
+})
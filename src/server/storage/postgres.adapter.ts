@@ -0,0 +1,289 @@
+import { DatabaseError, Pool, types, type PoolClient } from "pg"
+import type { QueryOptions } from "./query"
+import { createId, tableConfigs, type Row, type TableName } from "./tables"
+import {
+  StorageError,
+  type OperationResult,
+  type StorageAdapter,
+  type StorageOperation,
+  type TableRows,
+} from "./types"
+
+export const postgresUrl = process.env.DATABASE_URL || process.env.POSTGRES_URL || ""
+const postgresSchema = process.env.POSTGRES_SCHEMA || "public"
+
+/**
+ * Tables whose `tableConfigs` primary key is a uuid column in bacas.sql.
+ * Client-generated ids such as `1715000000000-abc123` are not valid uuids,
+ * so those rows get their id from `gen_random_uuid()` instead.
+ */
+const uuidPrimaryKeys = new Set<TableName>(["scan_logs", "scan_logs_archive"])
+const uuidPattern = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+// Keep `date` columns (users.birthday) as plain YYYY-MM-DD strings instead
+// of Date objects shifted into the server's time zone.
+types.setTypeParser(types.builtins.DATE, (value: string) => value)
+
+let pool: Pool | null = null
+
+function getPool(): Pool {
+  if (pool) return pool
+  if (!postgresUrl) {
+    throw new StorageError("DATABASE_URL is required for the postgres storage backend", 500)
+  }
+
+  pool = new Pool({
+    connectionString: postgresUrl,
+    max: Number(process.env.POSTGRES_POOL_SIZE || 5),
+  })
+  return pool
+}
+
+function quote(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`
+}
+
+function tableRef(tableName: TableName): string {
+  return `${quote(postgresSchema)}.${quote(tableName)}`
+}
+
+function selectColumns(tableName: TableName): string {
+  return tableConfigs[tableName].columns.map(quote).join(", ")
+}
+
+function toPostgresValue(value: unknown): unknown {
+  if (value === "" || value === undefined) return null
+  if (value instanceof Date) return value.toISOString()
+  if (value && typeof value === "object") return JSON.stringify(value)
+  return value
+}
+
+function fromPostgresRow(row: Row): Row {
+  const normalized: Row = {}
+  for (const [key, value] of Object.entries(row)) {
+    normalized[key] = value instanceof Date ? value.toISOString() : value
+  }
+  return normalized
+}
+
+function writableColumns(tableName: TableName, row: Row): string[] {
+  return tableConfigs[tableName].columns.filter((column) => row[column] !== undefined)
+}
+
+function buildWhere(options: QueryOptions): { sql: string; params: unknown[] } {
+  const clauses: string[] = []
+  const params: unknown[] = []
+
+  for (const [column, value] of Object.entries(options.where || {})) {
+    if (Array.isArray(value)) {
+      params.push(value.map((item) => String(item ?? "")))
+      clauses.push(`${quote(column)}::text = ANY($${params.length})`)
+    } else if (toPostgresValue(value) === null) {
+      clauses.push(`${quote(column)} IS NULL`)
+    } else {
+      params.push(String(value))
+      clauses.push(`${quote(column)}::text = $${params.length}`)
+    }
+  }
+
+  if (options.range?.from) {
+    params.push(options.range.from)
+    clauses.push(`${quote(options.range.column)} >= $${params.length}`)
+  }
+  if (options.range?.to) {
+    params.push(options.range.to)
+    clauses.push(`${quote(options.range.column)} <= $${params.length}`)
+  }
+
+  return { sql: clauses.length ? ` WHERE ${clauses.join(" AND ")}` : "", params }
+}
+
+function translateError(error: unknown, tableName: TableName): never {
+  if (!(error instanceof DatabaseError)) throw error
+
+  switch (error.code) {
+    case "23505":
+      throw new StorageError(error.detail || `Duplicate row in ${tableName}`, 409)
+    case "23503":
+      throw new StorageError(
+        error.detail || `${tableName} row references a member that does not exist`,
+        409,
+      )
+    case "23514":
+      throw new StorageError(
+        `Invalid value for ${tableName}: violates ${error.constraint || "check constraint"}`,
+        400,
+      )
+    case "23502":
+      throw new StorageError(`${tableName}.${error.column} is required`, 400)
+    case "22P02":
+    case "22007":
+    case "22008":
+      throw new StorageError(`Invalid value for ${tableName}: ${error.message}`, 400)
+    default:
+      throw error
+  }
+}
+
+async function insertRow(client: PoolClient, tableName: TableName, row: Row): Promise<Row> {
+  const table = tableConfigs[tableName]
+  const nextRow = { ...row }
+  const primaryValue = nextRow[table.primaryKey]
+
+  if (uuidPrimaryKeys.has(tableName)) {
+    if (!uuidPattern.test(String(primaryValue ?? ""))) delete nextRow[table.primaryKey]
+  } else if (!primaryValue) {
+    nextRow[table.primaryKey] = createId()
+  }
+
+  const columns = writableColumns(tableName, nextRow)
+  const result = await client.query(
+    `INSERT INTO ${tableRef(tableName)} (${columns.map(quote).join(", ")}) ` +
+      `VALUES (${columns.map((_, index) => `$${index + 1}`).join(", ")}) ` +
+      `RETURNING ${selectColumns(tableName)}`,
+    columns.map((column) => toPostgresValue(nextRow[column])),
+  )
+  return fromPostgresRow(result.rows[0])
+}
+
+async function runOperation(
+  client: PoolClient,
+  operation: StorageOperation,
+): Promise<OperationResult> {
+  const primaryKey = tableConfigs[operation.table].primaryKey
+  const base = { table: operation.table, action: operation.action }
+
+  if (operation.action === "insert") {
+    const inserted: Row[] = []
+    for (const row of operation.rows) inserted.push(await insertRow(client, operation.table, row))
+    return { ...base, data: inserted }
+  }
+
+  if (operation.action === "update") {
+    const columns = writableColumns(operation.table, operation.updates).filter(
+      (column) => column !== primaryKey,
+    )
+    const result = columns.length
+      ? await client.query(
+          `UPDATE ${tableRef(operation.table)} ` +
+            `SET ${columns.map((column, index) => `${quote(column)} = $${index + 1}`).join(", ")} ` +
+            `WHERE ${quote(primaryKey)}::text = $${columns.length + 1} ` +
+            `RETURNING ${selectColumns(operation.table)}`,
+          [...columns.map((column) => toPostgresValue(operation.updates[column])), String(operation.id ?? "")],
+        )
+      : await client.query(
+          `SELECT ${selectColumns(operation.table)} FROM ${tableRef(operation.table)} ` +
+            `WHERE ${quote(primaryKey)}::text = $1`,
+          [String(operation.id ?? "")],
+        )
+    return { ...base, data: result.rows[0] ? fromPostgresRow(result.rows[0]) : null }
+  }
+
+  const result = await client.query(
+    `DELETE FROM ${tableRef(operation.table)} WHERE ${quote(primaryKey)}::text = $1`,
+    [String(operation.id ?? "")],
+  )
+  return { ...base, deleted: result.rowCount || 0 }
+}
+
+export function createPostgresAdapter(): StorageAdapter {
+  return {
+    source: "postgres",
+    local: false,
+
+    async list(tableName) {
+      const result = await getPool().query(
+        `SELECT ${selectColumns(tableName)} FROM ${tableRef(tableName)}`,
+      )
+      return result.rows.map(fromPostgresRow)
+    },
+
+    async get(tableName, id) {
+      const primaryKey = tableConfigs[tableName].primaryKey
+      try {
+        const result = await getPool().query(
+          `SELECT ${selectColumns(tableName)} FROM ${tableRef(tableName)} ` +
+            `WHERE ${quote(primaryKey)}::text = $1`,
+          [String(id ?? "")],
+        )
+        return result.rows[0] ? fromPostgresRow(result.rows[0]) : null
+      } catch (error) {
+        translateError(error, tableName)
+      }
+    },
+
+    async insert(tableName, rows) {
+      const [result] = await this.transaction([{ table: tableName, action: "insert", rows }])
+      return result.data as Row[]
+    },
+
+    async update(tableName, id, updates) {
+      const [result] = await this.transaction([{ table: tableName, action: "update", id, updates }])
+      return result.data as Row | null
+    },
+
+    async delete(tableName, id) {
+      const [result] = await this.transaction([{ table: tableName, action: "delete", id }])
+      return result.deleted || 0
+    },
+
+    async batchList(requestedTables) {
+      const entries = await Promise.all(
+        requestedTables.map(async (tableName) => [tableName, await this.list(tableName)] as const),
+      )
+      return Object.fromEntries(entries) as TableRows
+    },
+
+    async query(tableName, options) {
+      const where = buildWhere(options)
+      let sql = `SELECT ${selectColumns(tableName)}, COUNT(*) OVER () AS "__total" FROM ${tableRef(tableName)}${where.sql}`
+      if (options.orderBy) {
+        sql += ` ORDER BY ${quote(options.orderBy.column)} ${options.orderBy.direction === "desc" ? "DESC" : "ASC"}`
+      }
+      if (options.limit !== undefined) sql += ` LIMIT ${options.limit}`
+      if (options.offset) sql += ` OFFSET ${options.offset}`
+
+      try {
+        const result = await getPool().query(sql, where.params)
+        const total = result.rows[0] ? Number(result.rows[0].__total) : 0
+        const rows = result.rows.map((row) => {
+          const normalized = fromPostgresRow(row)
+          delete normalized.__total
+          return normalized
+        })
+        // An empty page carries no window count, so count separately.
+        if (!rows.length && (options.offset || options.limit === 0)) {
+          const count = await getPool().query(
+            `SELECT COUNT(*) AS "total" FROM ${tableRef(tableName)}${where.sql}`,
+            where.params,
+          )
+          return { rows, total: Number(count.rows[0].total) }
+        }
+        return { rows, total }
+      } catch (error) {
+        translateError(error, tableName)
+      }
+    },
+
+    async transaction(operations) {
+      if (!operations.length) return []
+      const client = await getPool().connect()
+      let current = operations[0].table
+      try {
+        await client.query("BEGIN")
+        const results: OperationResult[] = []
+        for (const operation of operations) {
+          current = operation.table
+          results.push(await runOperation(client, operation))
+        }
+        await client.query("COMMIT")
+        return results
+      } catch (error) {
+        await client.query("ROLLBACK").catch(() => undefined)
+        translateError(error, current)
+      } finally {
+        client.release()
+      }
+    },
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest"
+import { applyQuery, parseQueryOptions } from "./query"
+
+function order(rows: Record<string, unknown>[], column: string, direction: "asc" | "desc" = "asc") {
+  return applyQuery(rows, { orderBy: { column, direction } }).rows.map((row) => row.id)
+}
+
+describe("query", () => {
+  it("sorts numbers by value, not as years", () => {
+    const rows = [
+      { id: "a", amount: "1500" },
+      { id: "b", amount: 200 },
+      { id: "c", amount: "30" },
+      { id: "d", amount: "2024" },
+    ]
+    expect(order(rows, "amount")).toEqual(["c", "b", "a", "d"])
+    expect(order(rows, "amount", "desc")).toEqual(["d", "a", "b", "c"])
+  })
+
+  it("sorts ISO dates as instants and everything else as text", () => {
+    const dates = [
+      { id: "manila", timestamp: "2026-05-01T02:00:00+08:00" },
+      { id: "utc", timestamp: "2026-04-30T20:00:00Z" },
+      { id: "first", timestamp: new Date("2025-01-01T00:00:00Z") },
+    ]
+    expect(order(dates, "timestamp")).toEqual(["first", "manila", "utc"])
+
+    const names = [{ id: "b", name: "Mar 3" }, { id: "a", name: "Feb 10" }, { id: "c", name: "" }]
+    expect(order(names, "name")).toEqual(["c", "a", "b"])
+  })
+
+  it("filters, ranges and pages before counting", () => {
+    const rows = [
+      { id: "1", user_id: "7", timestamp: "2026-01-01T00:00:00Z" },
+      { id: "2", user_id: "7", timestamp: "2026-02-01T00:00:00Z" },
+      { id: "3", user_id: "7", timestamp: "2026-03-01T00:00:00Z" },
+      { id: "4", user_id: "8", timestamp: "2026-02-01T00:00:00Z" },
+    ]
+    const options = parseQueryOptions("scan_logs", {
+      where: { user_id: 7 },
+      range: { column: "timestamp", from: "2026-01-15" },
+      orderBy: { column: "timestamp", direction: "desc" },
+      limit: 1,
+    })
+    const { rows: page, total } = applyQuery(rows, options)
+    expect(total).toBe(2)
+    expect(page.map((row) => row.id)).toEqual(["3"])
+  })
+
+  it("rejects unknown columns and bad bounds", () => {
+    expect(() => parseQueryOptions("scan_logs", { orderBy: { column: "nope" } })).toThrow(/Unknown column/)
+    expect(() => parseQueryOptions("scan_logs", { limit: -1 })).toThrow(/non-negative/)
+    expect(() => parseQueryOptions("scan_logs", { range: { column: "timestamp", from: "soon" } })).toThrow(/valid date/)
+  })
+})
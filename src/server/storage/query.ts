@@ -0,0 +1,158 @@
+import { tableConfigs, type Row, type TableName } from "./tables"
+import { StorageError } from "./types"
+
+export type SortDirection = "asc" | "desc"
+
+/**
+ * Server-side filter for the `query` action.
+ *
+ * - `where`: column equality; an array value matches any of its items.
+ * - `range`: inclusive bounds on a date column (ISO strings).
+ * - `orderBy`: applied before `offset`/`limit`.
+ */
+export interface QueryOptions {
+  where?: Record<string, unknown>
+  range?: { column: string; from?: string; to?: string }
+  orderBy?: { column: string; direction: SortDirection }
+  limit?: number
+  offset?: number
+}
+
+export interface QueryResult {
+  rows: Row[]
+  total: number
+}
+
+function assertColumn(tableName: TableName, column: unknown): string {
+  if (typeof column !== "string" || !tableConfigs[tableName].columns.includes(column)) {
+    throw new StorageError(`Unknown column for ${tableName}: ${String(column)}`, 400)
+  }
+  return column
+}
+
+function asCount(value: unknown, label: string): number | undefined {
+  if (value === undefined || value === null) return undefined
+  const count = Number(value)
+  if (!Number.isInteger(count) || count < 0) {
+    throw new StorageError(`${label} must be a non-negative integer`, 400)
+  }
+  return count
+}
+
+function asDateBound(value: unknown, label: string): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined
+  const time = new Date(String(value)).getTime()
+  if (Number.isNaN(time)) throw new StorageError(`${label} must be a valid date`, 400)
+  return new Date(time).toISOString()
+}
+
+function asObject(value: unknown): Record<string, unknown> {
+  return value && typeof value === "object" ? (value as Record<string, unknown>) : {}
+}
+
+/** Validates a client-supplied query against the table's known columns. */
+export function parseQueryOptions(tableName: TableName, raw: unknown): QueryOptions {
+  const input = asObject(raw)
+  const where = asObject(input.where)
+  const range = asObject(input.range)
+  const orderBy = asObject(input.orderBy)
+  const options: QueryOptions = {}
+
+  if (input.where && typeof input.where === "object") {
+    options.where = {}
+    for (const [column, value] of Object.entries(where)) {
+      options.where[assertColumn(tableName, column)] = value
+    }
+  }
+
+  if (input.range && typeof input.range === "object") {
+    options.range = {
+      column: assertColumn(tableName, range.column),
+      from: asDateBound(range.from, "range.from"),
+      to: asDateBound(range.to, "range.to"),
+    }
+  }
+
+  if (input.orderBy && typeof input.orderBy === "object") {
+    options.orderBy = {
+      column: assertColumn(tableName, orderBy.column),
+      direction: orderBy.direction === "desc" ? "desc" : "asc",
+    }
+  }
+
+  options.limit = asCount(input.limit, "limit")
+  options.offset = asCount(input.offset, "offset")
+  return options
+}
+
+function toTime(value: unknown): number {
+  const time = new Date(String(value ?? "")).getTime()
+  return Number.isNaN(time) ? Number.NaN : time
+}
+
+// Only ISO-looking strings sort as dates, so amounts and ids are never read as years.
+const isoDatePattern = /^\d{4}-\d{2}-\d{2}/
+
+function toNumber(value: unknown): number {
+  if (typeof value === "number") return value
+  return typeof value === "string" && value.trim() !== "" ? Number(value) : Number.NaN
+}
+
+function toSortTime(value: unknown): number {
+  if (value instanceof Date) return value.getTime()
+  return typeof value === "string" && isoDatePattern.test(value) ? toTime(value) : Number.NaN
+}
+
+function compareValues(left: unknown, right: unknown): number {
+  const leftNumber = toNumber(left)
+  const rightNumber = toNumber(right)
+  if (Number.isFinite(leftNumber) && Number.isFinite(rightNumber)) return leftNumber - rightNumber
+
+  const leftTime = toSortTime(left)
+  const rightTime = toSortTime(right)
+  if (!Number.isNaN(leftTime) && !Number.isNaN(rightTime)) return leftTime - rightTime
+  return String(left ?? "").localeCompare(String(right ?? ""))
+}
+
+function matchesWhere(row: Row, where: Record<string, unknown>): boolean {
+  return Object.entries(where).every(([column, expected]) => {
+    const actual = String(row[column] ?? "")
+    return Array.isArray(expected)
+      ? expected.some((item) => String(item ?? "") === actual)
+      : String(expected ?? "") === actual
+  })
+}
+
+/**
+ * In-memory implementation of `query` for backends that can only return
+ * whole tables (XLSX workbook, Google Sheets).
+ */
+export function applyQuery(rows: Row[], options: QueryOptions): QueryResult {
+  let result = rows
+
+  if (options.where) {
+    const where = options.where
+    result = result.filter((row) => matchesWhere(row, where))
+  }
+
+  if (options.range) {
+    const { column, from, to } = options.range
+    const fromTime = from ? toTime(from) : Number.NEGATIVE_INFINITY
+    const toTimeBound = to ? toTime(to) : Number.POSITIVE_INFINITY
+    result = result.filter((row) => {
+      const time = toTime(row[column])
+      return !Number.isNaN(time) && time >= fromTime && time <= toTimeBound
+    })
+  }
+
+  if (options.orderBy) {
+    const { column, direction } = options.orderBy
+    const sign = direction === "desc" ? -1 : 1
+    result = [...result].sort((left, right) => sign * compareValues(left[column], right[column]))
+  }
+
+  const total = result.length
+  const offset = options.offset || 0
+  const end = options.limit === undefined ? undefined : offset + options.limit
+  return { rows: result.slice(offset, end), total }
+}
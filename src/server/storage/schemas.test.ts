@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest"
+import { dateColumns, validateOperations, validateRow } from "./schemas"
+import { ValidationError } from "./types"
+
+function fieldErrors(run: () => unknown): Record<string, string> {
+  try {
+    run()
+  } catch (error) {
+    if (error instanceof ValidationError) return error.fieldErrors
+    throw error
+  }
+  throw new Error("Expected a ValidationError")
+}
+
+const payment = {
+  user_id: "1",
+  amount: "500",
+  payment_method: "cash",
+  payment_date: "2026-10-19T02:00:00.000Z",
+  payment_for: "membership",
+}
+
+describe("schemas", () => {
+  it("accepts rows the way every backend stores them", () => {
+    expect(validateRow("payment", payment, "insert")).toBe(payment)
+    expect(() => validateRow("users", { user_id: 1001, name: "Ana", age: "31", height_cm: 160.5 }, "insert")).not.toThrow()
+    expect(() => validateRow("medical_history", { user_id: "1", smoking: "FALSE" }, "insert")).not.toThrow()
+  })
+
+  it("reports one readable message per bad field", () => {
+    const invalid = { ...payment, amount: "0", payment_method: "card", payment_date: "soon" }
+    expect(() => validateRow("payment", invalid, "insert")).toThrow(
+      expect.objectContaining({ status: 400, message: "Invalid payment insert", table: "payment" }),
+    )
+    expect(fieldErrors(() => validateRow("payment", invalid, "insert"))).toEqual({
+      amount: "Amount must be greater than 0",
+      payment_method: "Must be one of: cash, gcash, paymaya, banktransfer",
+      payment_date: "Must be a valid date",
+    })
+  })
+
+  it("names missing required columns and unknown ones", () => {
+    expect(fieldErrors(() => validateRow("users", { user_id: "1", nickname: "A" }, "insert"))).toEqual({
+      name: "Name is required",
+      nickname: "Unknown column",
+    })
+    expect(fieldErrors(() => validateRow("users", { user_id: "1", age: "thirty" }, "insert"))).toMatchObject({
+      age: "Must be a number",
+    })
+  })
+
+  it("only checks the columns an update sets", () => {
+    expect(() => validateRow("users", { name: "Renamed" }, "update")).not.toThrow()
+    expect(fieldErrors(() => validateRow("users", { name: " " }, "update"))).toEqual({ name: "Name is required" })
+  })
+
+  it("validates every row of every operation", () => {
+    expect(() =>
+      validateOperations([
+        { table: "payment", action: "insert", rows: [payment, { ...payment, amount: -5 }] },
+      ]),
+    ).toThrow("Invalid payment insert")
+    expect(() =>
+      validateOperations([
+        { table: "users", action: "delete", id: "1" },
+        { table: "scan_logs", action: "update", id: "s1", updates: { action: "teleport" } },
+      ]),
+    ).toThrow("Invalid scan_logs update")
+  })
+
+  it("lists the date columns of a table", () => {
+    expect(dateColumns("subscriptions")).toEqual(
+      expect.arrayContaining([
+        { column: "start_date", required: true },
+        { column: "payment_date", required: false },
+      ]),
+    )
+  })
+})
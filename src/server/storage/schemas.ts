@@ -0,0 +1,235 @@
+import { z } from "zod"
+import { tableConfigs, tableNames, type Row, type TableName } from "./tables"
+import { ValidationError, type StorageOperation } from "./types"
+
+// Enum values match the CHECK constraints in scripts/migrate_database.sql.
+export const subscriptionStatuses = ["active", "expired", "cancelled"] as const
+export const paymentStatuses = ["paid", "not paid"] as const
+export const scanActions = ["check-in", "check-out", "not-applicable"] as const
+export const scanStatuses = ["success", "expired", "invalid"] as const
+export const paymentMethods = ["cash", "gcash", "paymaya", "banktransfer"] as const
+export const paymentPurposes = ["membership", "coaching", "both", "other"] as const
+export const auditActions = ["insert", "update", "delete"] as const
+export const staffRoles = ["owner", "manager", "front_desk", "coach"] as const
+
+const id = z.union([z.string().trim().min(1), z.number()])
+const text = z.union([z.string(), z.number()])
+const numeric = z.union(
+  [z.number(), z.string().trim().regex(/^-?\d+(\.\d+)?$/, "Must be a number")],
+  { errorMap: () => ({ message: "Must be a number" }) },
+)
+const nonNegative = numeric.refine((value) => Number(value) >= 0, "Must not be negative")
+const integer = numeric.refine((value) => Number.isInteger(Number(value)), "Must be a whole number")
+const boolean = z.union(
+  [z.boolean(), z.string().regex(/^(true|false)$/i, "Must be true or false")],
+  { errorMap: () => ({ message: "Must be true or false" }) },
+)
+const timestamp = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), "Must be a valid date")
+const oneOf = (values: readonly [string, ...string[]]) =>
+  z.string().refine((value) => values.includes(value), `Must be one of: ${values.join(", ")}`)
+
+interface ColumnRule {
+  schema: z.ZodTypeAny
+  required?: boolean
+}
+
+const required = (schema: z.ZodTypeAny): ColumnRule => ({ schema, required: true })
+const optional = (schema: z.ZodTypeAny): ColumnRule => ({ schema })
+
+const scanLogRules: Record<string, ColumnRule> = {
+  id: optional(id),
+  user_id: required(id),
+  user_name: required(text),
+  timestamp: required(timestamp),
+  action: required(oneOf(scanActions)),
+  status: required(oneOf(scanStatuses)),
+}
+
+const paymentRules: Record<string, ColumnRule> = {
+  payment_id: optional(id),
+  user_id: required(id),
+  amount: required(numeric.refine((value) => Number(value) > 0, "Amount must be greater than 0")),
+  payment_method: required(oneOf(paymentMethods)),
+  payment_date: required(timestamp),
+  payment_for: required(oneOf(paymentPurposes)),
+  created_at: optional(timestamp),
+  updated_at: optional(timestamp),
+}
+
+/**
+ * Column types per table. Columns in `tableConfigs` without a rule are
+ * treated as optional text; primary keys the backends generate (`id`,
+ * `payment_id`) are optional on insert.
+ */
+const columnRules: Record<TableName, Record<string, ColumnRule>> = {
+  users: {
+    user_id: required(id),
+    name: required(z.string().trim().min(1, "Name is required")),
+    birthday: optional(timestamp),
+    age: optional(integer.refine((value) => Number(value) >= 0, "Must not be negative")),
+    height_cm: optional(nonNegative),
+    weight_kg: optional(nonNegative),
+    created_at: optional(timestamp),
+    updated_at: optional(timestamp),
+    archived_at: optional(timestamp),
+  },
+  subscriptions: {
+    user_id: required(id),
+    start_date: required(timestamp),
+    end_date: required(timestamp),
+    status: required(oneOf(subscriptionStatuses)),
+    coaching_preference: optional(boolean),
+    payment_status: optional(oneOf(paymentStatuses)),
+    payment_date: optional(timestamp),
+    created_at: optional(timestamp),
+  },
+  medical_history: {
+    user_id: required(id),
+    heart_problems: optional(boolean),
+    blood_pressure_problems: optional(boolean),
+    chest_pain_exercising: optional(boolean),
+    asthma_breathing_problems: optional(boolean),
+    joint_problems: optional(boolean),
+    neck_back_problems: optional(boolean),
+    pregnant_recent_birth: optional(boolean),
+    other_medical_conditions: optional(boolean),
+    smoking: optional(boolean),
+    medication: optional(boolean),
+    created_at: optional(timestamp),
+    updated_at: optional(timestamp),
+  },
+  emergency_contacts: {
+    user_id: required(id),
+    contact_name: required(z.string().trim().min(1, "Contact name is required")),
+    contact_number: required(text),
+    created_at: optional(timestamp),
+    updated_at: optional(timestamp),
+  },
+  liability_waivers: {
+    user_id: required(id),
+    signature_name: required(z.string().trim().min(1, "Signature is required")),
+    signed_date: optional(timestamp),
+    waiver_accepted: optional(boolean),
+    created_at: optional(timestamp),
+  },
+  scan_logs: scanLogRules,
+  active_sessions: {
+    user_id: required(id),
+    user_name: required(text),
+    check_in_time: required(timestamp),
+  },
+  subscription_history: {
+    id: optional(id),
+    user_id: required(id),
+    start_date: required(timestamp),
+    end_date: required(timestamp),
+    status: required(oneOf(subscriptionStatuses)),
+    created_at: optional(timestamp),
+    updated_at: optional(timestamp),
+  },
+  user_id_counter: {
+    id: required(integer),
+    last_number: required(integer),
+  },
+  payment: paymentRules,
+  audit_log: {
+    id: required(id),
+    at: required(timestamp),
+    table_name: required(oneOf(tableNames)),
+    record_id: required(id),
+    action: required(oneOf(auditActions)),
+  },
+  scan_logs_archive: { ...scanLogRules, id: required(id), archive_year: required(integer) },
+  payment_archive: { ...paymentRules, payment_id: required(id), archive_year: required(integer) },
+  staff: {
+    staff_id: required(id),
+    email: required(z.string().trim().email("Must be an email address")),
+    name: required(z.string().trim().min(1, "Name is required")),
+    role: required(oneOf(staffRoles)),
+    password_hash: required(z.string().min(1)),
+    created_at: optional(timestamp),
+    updated_at: optional(timestamp),
+    last_login_at: optional(timestamp),
+    disabled_at: optional(timestamp),
+    session_version: optional(integer),
+  },
+}
+
+/** Columns of `tableName` that hold dates, and whether each is required. */
+export function dateColumns(tableName: TableName): { column: string; required: boolean }[] {
+  return Object.entries(columnRules[tableName])
+    .filter(([, rule]) => rule.schema === timestamp)
+    .map(([column, rule]) => ({ column, required: !!rule.required }))
+}
+
+// Blank cells are stored as null everywhere, so treat "" the same way.
+const emptyToNull = (value: unknown) => (value === "" ? null : value)
+
+function buildSchema(tableName: TableName): z.ZodObject<Record<string, z.ZodTypeAny>> {
+  const rules = columnRules[tableName]
+  const shape: Record<string, z.ZodTypeAny> = {}
+
+  for (const column of tableConfigs[tableName].columns) {
+    const rule = rules[column] || optional(text)
+    shape[column] = z.preprocess(
+      emptyToNull,
+      rule.required ? rule.schema : rule.schema.nullable().optional(),
+    )
+  }
+  return z.object(shape).strict()
+}
+
+/** Insert schemas; `.partial()` of each is used for updates. */
+export const rowSchemas = Object.fromEntries(
+  tableNames.map((tableName) => [tableName, buildSchema(tableName)]),
+) as Record<TableName, z.ZodObject<Record<string, z.ZodTypeAny>>>
+
+function humanize(column: string): string {
+  const label = column.replace(/_/g, " ")
+  return label.charAt(0).toUpperCase() + label.slice(1)
+}
+
+function toFieldErrors(error: z.ZodError): Record<string, string> {
+  const fieldErrors: Record<string, string> = {}
+  for (const issue of error.issues) {
+    if (issue.code === "unrecognized_keys") {
+      for (const key of issue.keys) fieldErrors[key] ??= "Unknown column"
+      continue
+    }
+
+    const column = String(issue.path[0] ?? "")
+    const missing =
+      issue.code === "invalid_type" && (issue.received === "undefined" || issue.received === "null")
+    fieldErrors[column] ??= missing ? `${humanize(column)} is required` : issue.message
+  }
+  return fieldErrors
+}
+
+/**
+ * Checks a row about to be written. Returns the row unchanged; validation
+ * never rewrites values, it only rejects them.
+ */
+export function validateRow(tableName: TableName, row: Row, mode: "insert" | "update"): Row {
+  const schema = mode === "insert" ? rowSchemas[tableName] : rowSchemas[tableName].partial()
+  const result = schema.safeParse(row)
+  if (!result.success) {
+    throw new ValidationError(
+      `Invalid ${tableName} ${mode}`,
+      tableName,
+      toFieldErrors(result.error),
+    )
+  }
+  return row
+}
+
+export function validateOperations(operations: StorageOperation[]): void {
+  for (const operation of operations) {
+    if (operation.action === "insert") {
+      for (const row of operation.rows) validateRow(operation.table, row, "insert")
+    } else if (operation.action === "update") {
+      validateRow(operation.table, operation.updates, "update")
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import Database from "better-sqlite3"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import type { StorageAdapter } from "./types"
+
+describe("sqlite adapter", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "bacas-sqlite-"))
+  const sqlitePath = path.join(directory, "db.sqlite")
+  let adapter: StorageAdapter
+
+  beforeAll(async () => {
+    vi.stubEnv("EXCEL_DATABASE_PATH", path.join(directory, "db.xlsx"))
+    vi.stubEnv("EXCEL_BACKUP_INTERVAL_MS", "-1")
+    vi.stubEnv("SQLITE_DATABASE_PATH", sqlitePath)
+    vi.spyOn(console, "info").mockImplementation(() => {})
+    vi.resetModules()
+    // The workbook a gym switching to SQLite already has.
+    const workbook = (await import("./excel.adapter")).createExcelAdapter()
+    await workbook.insert("users", [
+      { user_id: "1", name: "Ana" },
+      { user_id: "2", name: "Ben" },
+    ])
+    adapter = (await import("./sqlite.adapter")).createSqliteAdapter()
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+    ;(globalThis as typeof globalThis & { __bacasWorkbookCache?: unknown }).__bacasWorkbookCache = null
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("imports the existing workbook into a new database file", async () => {
+    expect((await adapter.list("users")).map((row) => row.name).sort()).toEqual(["Ana", "Ben"])
+    // Seed rows come along as well.
+    expect(await adapter.list("user_id_counter")).toHaveLength(1)
+  })
+
+  it("rolls back every operation of a failed transaction", async () => {
+    await expect(
+      adapter.transaction([
+        { table: "users", action: "update", id: "1", updates: { name: "Renamed" } },
+        { table: "users", action: "insert", rows: [{ user_id: "3", name: "Cy" }] },
+        { table: "users", action: "insert", rows: [{ user_id: "2", name: "Duplicate" }] },
+      ]),
+    ).rejects.toMatchObject({ status: 409, message: "Duplicate user_id in users" })
+
+    expect(await adapter.get("users", "1")).toMatchObject({ name: "Ana" })
+    expect(await adapter.get("users", "3")).toBeNull()
+  })
+
+  it("stores every value as text, the way the workbook does", async () => {
+    const [row] = await adapter.insert("users", [{ user_id: "4", name: "Dee", age: 31, archived_at: "" }])
+    expect(row.user_id).toBe("4")
+    expect(await adapter.get("users", 4)).toMatchObject({ age: "31", archived_at: null })
+  })
+
+  it("filters, orders and pages in SQL while counting every match", async () => {
+    await adapter.insert("scan_logs", [
+      { id: "a", user_id: "1", timestamp: "2026-01-01T00:00:00.000Z", action: "check-in" },
+      { id: "b", user_id: "1", timestamp: "2026-02-01T00:00:00.000Z", action: "check-in" },
+      { id: "c", user_id: "2", timestamp: "2026-03-01T00:00:00.000Z", action: "check-in" },
+    ])
+    const { rows, total } = await adapter.query("scan_logs", {
+      where: { user_id: ["1", "2"] },
+      range: { column: "timestamp", from: "2026-01-15T00:00:00.000Z" },
+      orderBy: { column: "timestamp", direction: "desc" },
+      limit: 1,
+    })
+    expect(total).toBe(2)
+    expect(rows.map((row) => row.id)).toEqual(["c"])
+    expect((await adapter.query("scan_logs", { where: { user_id: [] } })).total).toBe(0)
+  })
+
+  it("records the schema version in the file", () => {
+    const db = new Database(sqlitePath, { readonly: true })
+    expect(db.pragma("user_version", { simple: true })).toBeGreaterThan(0)
+    db.close()
+  })
+})
@@ -0,0 +1,328 @@
+import fs from "fs"
+import path from "path"
+import Database from "better-sqlite3"
+import * as XLSX from "xlsx"
+import { databasePath as workbookPath, getRows } from "./excel.adapter"
+import { createMigrationContext, runMigrations, schemaVersion } from "./migrations"
+import type { QueryOptions } from "./query"
+import { createId, tableConfigs, tableNames, type Row, type TableName } from "./tables"
+import {
+  StorageError,
+  type OperationResult,
+  type StorageAdapter,
+  type StorageOperation,
+  type TableRows,
+} from "./types"
+
+export const sqliteDatabasePath =
+  process.env.SQLITE_DATABASE_PATH ||
+  path.join(process.cwd(), "data", "bacas-database.sqlite")
+
+const indexes = [
+  `CREATE INDEX IF NOT EXISTS "idx_scan_logs_user_id" ON "scan_logs" ("user_id")`,
+  `CREATE INDEX IF NOT EXISTS "idx_scan_logs_timestamp" ON "scan_logs" ("timestamp")`,
+  `CREATE INDEX IF NOT EXISTS "idx_payment_user_id" ON "payment" ("user_id")`,
+  `CREATE INDEX IF NOT EXISTS "idx_subscription_history_user_id" ON "subscription_history" ("user_id")`,
+  `CREATE INDEX IF NOT EXISTS "idx_audit_log_at" ON "audit_log" ("at")`,
+  `CREATE INDEX IF NOT EXISTS "idx_audit_log_member_id" ON "audit_log" ("member_id")`,
+  `CREATE INDEX IF NOT EXISTS "idx_scan_logs_archive_user_id" ON "scan_logs_archive" ("user_id")`,
+  `CREATE INDEX IF NOT EXISTS "idx_scan_logs_archive_timestamp" ON "scan_logs_archive" ("timestamp")`,
+  `CREATE INDEX IF NOT EXISTS "idx_payment_archive_user_id" ON "payment_archive" ("user_id")`,
+  `CREATE UNIQUE INDEX IF NOT EXISTS "idx_staff_email" ON "staff" ("email")`,
+]
+
+let connection: Database.Database | null = null
+
+function quote(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`
+}
+
+/**
+ * Every column is TEXT so values round-trip the same way they do through the
+ * XLSX sheets: numbers come back as strings and booleans as "true"/"false".
+ */
+function toSqliteValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === "") return null
+  if (typeof value === "boolean") return value ? "true" : "false"
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === "object") return JSON.stringify(value)
+  return String(value)
+}
+
+function createTables(db: Database.Database): void {
+  for (const tableName of tableNames) {
+    const table = tableConfigs[tableName]
+    const columns = table.columns.map((column) =>
+      column === table.primaryKey ? `${quote(column)} TEXT PRIMARY KEY` : `${quote(column)} TEXT`,
+    )
+    db.exec(`CREATE TABLE IF NOT EXISTS ${quote(tableName)} (${columns.join(", ")})`)
+
+    const existing = new Set(
+      (db.prepare(`PRAGMA table_info(${quote(tableName)})`).all() as { name: string }[]).map(
+        (column) => column.name,
+      ),
+    )
+    for (const column of table.columns) {
+      if (!existing.has(column)) {
+        db.exec(`ALTER TABLE ${quote(tableName)} ADD COLUMN ${quote(column)} TEXT`)
+      }
+    }
+  }
+  for (const statement of indexes) db.exec(statement)
+}
+
+/**
+ * Runs the migrations the file has not had yet; SQLite's `user_version`
+ * holds the schema version. createTables has already added any new columns,
+ * so this only fills them in for existing rows.
+ */
+function migrateDatabase(db: Database.Database): void {
+  const currentVersion = db.pragma("user_version", { simple: true }) as number
+  if (currentVersion === schemaVersion) return
+
+  const context = createMigrationContext(
+    (tableName) => db.prepare(`SELECT * FROM ${quote(tableName)}`).all() as Row[],
+    (tableName, rows) => {
+      db.prepare(`DELETE FROM ${quote(tableName)}`).run()
+      insertRows(db, tableName, rows)
+    },
+  )
+  const applied = db.transaction(() => {
+    const pending = runMigrations(context, currentVersion)
+    db.pragma(`user_version = ${schemaVersion}`)
+    return pending
+  })()
+  console.info(
+    `Migrated ${sqliteDatabasePath} from schema ${currentVersion} to ${schemaVersion}:`,
+    applied.map((migration) => migration.name),
+  )
+}
+
+function seedTables(db: Database.Database): void {
+  for (const tableName of tableNames) {
+    const table = tableConfigs[tableName]
+    if (!table.seedRows?.length) continue
+    const count = db.prepare(`SELECT COUNT(*) AS count FROM ${quote(tableName)}`).get() as {
+      count: number
+    }
+    if (count.count === 0) insertRows(db, tableName, table.seedRows, "OR IGNORE")
+  }
+}
+
+function insertRows(
+  db: Database.Database,
+  tableName: TableName,
+  rows: Row[],
+  conflict: "" | "OR IGNORE" = "",
+): Row[] {
+  const table = tableConfigs[tableName]
+  const statement = db.prepare(
+    `INSERT ${conflict} INTO ${quote(tableName)} (${table.columns.map(quote).join(", ")}) ` +
+      `VALUES (${table.columns.map(() => "?").join(", ")})`,
+  )
+
+  return rows.map((row) => {
+    const nextRow = { ...row }
+    if (!nextRow[table.primaryKey]) nextRow[table.primaryKey] = createId()
+    statement.run(table.columns.map((column) => toSqliteValue(nextRow[column])))
+    return nextRow
+  })
+}
+
+/**
+ * Copies every table from an existing `bacas-database.xlsx` into SQLite.
+ * Rows whose primary key already exists are skipped, so running it twice is
+ * harmless. Returns the number of rows imported per table.
+ */
+export function importWorkbookIntoSqlite(
+  db: Database.Database,
+  sourcePath: string = workbookPath,
+): Record<TableName, number> {
+  const workbook = XLSX.read(fs.readFileSync(sourcePath), { cellDates: false, type: "buffer" })
+  const imported = {} as Record<TableName, number>
+
+  db.transaction(() => {
+    for (const tableName of tableNames) {
+      const rows = getRows(workbook, tableConfigs[tableName])
+      const before = db.prepare(`SELECT COUNT(*) AS count FROM ${quote(tableName)}`).get() as {
+        count: number
+      }
+      insertRows(db, tableName, rows, "OR IGNORE")
+      const after = db.prepare(`SELECT COUNT(*) AS count FROM ${quote(tableName)}`).get() as {
+        count: number
+      }
+      imported[tableName] = after.count - before.count
+    }
+  })()
+
+  return imported
+}
+
+function openDatabase(): Database.Database {
+  if (connection) return connection
+
+  fs.mkdirSync(path.dirname(sqliteDatabasePath), { recursive: true })
+  const isNew = !fs.existsSync(sqliteDatabasePath)
+  const db = new Database(sqliteDatabasePath)
+  db.pragma("journal_mode = WAL")
+  createTables(db)
+
+  // One-shot import: a brand-new SQLite file picks up the existing workbook.
+  if (isNew && process.env.SQLITE_IMPORT_XLSX !== "false" && fs.existsSync(workbookPath)) {
+    const imported = importWorkbookIntoSqlite(db)
+    console.info(`Imported ${workbookPath} into ${sqliteDatabasePath}:`, imported)
+  } else if (isNew) {
+    db.pragma(`user_version = ${schemaVersion}`)
+  }
+  // Imported rows may come from an older workbook, so they are migrated too.
+  migrateDatabase(db)
+  seedTables(db)
+
+  connection = db
+  return db
+}
+
+function selectRow(db: Database.Database, tableName: TableName, id: unknown): Row | null {
+  const primaryKey = quote(tableConfigs[tableName].primaryKey)
+  const row = db
+    .prepare(`SELECT * FROM ${quote(tableName)} WHERE ${primaryKey} = ?`)
+    .get(toSqliteValue(id))
+  return (row as Row | undefined) || null
+}
+
+function runOperation(db: Database.Database, operation: StorageOperation): OperationResult {
+  const table = tableConfigs[operation.table]
+  const base = { table: operation.table, action: operation.action }
+
+  if (operation.action === "insert") {
+    return { ...base, data: insertRows(db, operation.table, operation.rows) }
+  }
+
+  if (operation.action === "update") {
+    const columns = Object.keys(operation.updates).filter((column) => table.columns.includes(column))
+    if (columns.length) {
+      db.prepare(
+        `UPDATE ${quote(operation.table)} SET ${columns.map((column) => `${quote(column)} = ?`).join(", ")} ` +
+          `WHERE ${quote(table.primaryKey)} = ?`,
+      ).run([
+        ...columns.map((column) => toSqliteValue(operation.updates[column])),
+        toSqliteValue(operation.id),
+      ])
+    }
+    return { ...base, data: selectRow(db, operation.table, operation.id) }
+  }
+
+  const result = db
+    .prepare(`DELETE FROM ${quote(operation.table)} WHERE ${quote(table.primaryKey)} = ?`)
+    .run(toSqliteValue(operation.id))
+  return { ...base, deleted: result.changes }
+}
+
+function buildWhere(options: QueryOptions): { sql: string; params: (string | null)[] } {
+  const clauses: string[] = []
+  const params: (string | null)[] = []
+
+  for (const [column, value] of Object.entries(options.where || {})) {
+    if (Array.isArray(value)) {
+      if (!value.length) {
+        clauses.push("0")
+        continue
+      }
+      clauses.push(`${quote(column)} IN (${value.map(() => "?").join(", ")})`)
+      params.push(...value.map(toSqliteValue))
+    } else if (toSqliteValue(value) === null) {
+      clauses.push(`${quote(column)} IS NULL`)
+    } else {
+      clauses.push(`${quote(column)} = ?`)
+      params.push(toSqliteValue(value))
+    }
+  }
+
+  // Timestamps are stored as ISO strings, which sort lexicographically.
+  if (options.range?.from) {
+    clauses.push(`${quote(options.range.column)} >= ?`)
+    params.push(options.range.from)
+  }
+  if (options.range?.to) {
+    clauses.push(`${quote(options.range.column)} <= ?`)
+    params.push(options.range.to)
+  }
+
+  return { sql: clauses.length ? ` WHERE ${clauses.join(" AND ")}` : "", params }
+}
+
+function translateError(error: unknown, tableName: TableName): never {
+  if (error instanceof Database.SqliteError && error.code.startsWith("SQLITE_CONSTRAINT")) {
+    throw new StorageError(`Duplicate ${tableConfigs[tableName].primaryKey} in ${tableName}`, 409)
+  }
+  throw error
+}
+
+export function createSqliteAdapter(): StorageAdapter {
+  return {
+    source: "local-sqlite",
+    local: true,
+    details: { databasePath: sqliteDatabasePath },
+
+    async list(tableName) {
+      return openDatabase().prepare(`SELECT * FROM ${quote(tableName)}`).all() as Row[]
+    },
+
+    async get(tableName, id) {
+      return selectRow(openDatabase(), tableName, id)
+    },
+
+    async insert(tableName, rows) {
+      const [result] = await this.transaction([{ table: tableName, action: "insert", rows }])
+      return result.data as Row[]
+    },
+
+    async update(tableName, id, updates) {
+      const [result] = await this.transaction([{ table: tableName, action: "update", id, updates }])
+      return result.data as Row | null
+    },
+
+    async delete(tableName, id) {
+      const [result] = await this.transaction([{ table: tableName, action: "delete", id }])
+      return result.deleted || 0
+    },
+
+    async batchList(requestedTables) {
+      const data = {} as TableRows
+      for (const tableName of requestedTables) data[tableName] = await this.list(tableName)
+      return data
+    },
+
+    async query(tableName, options) {
+      const db = openDatabase()
+      const where = buildWhere(options)
+      const total = db
+        .prepare(`SELECT COUNT(*) AS count FROM ${quote(tableName)}${where.sql}`)
+        .get(where.params) as { count: number }
+
+      let sql = `SELECT * FROM ${quote(tableName)}${where.sql}`
+      if (options.orderBy) {
+        sql += ` ORDER BY ${quote(options.orderBy.column)} ${options.orderBy.direction === "desc" ? "DESC" : "ASC"}`
+      }
+      sql += ` LIMIT ${options.limit ?? -1} OFFSET ${options.offset ?? 0}`
+
+      return { rows: db.prepare(sql).all(where.params) as Row[], total: total.count }
+    },
+
+    async transaction(operations) {
+      if (!operations.length) return []
+      const db = openDatabase()
+      let current = operations[0].table
+      try {
+        return db.transaction(() =>
+          operations.map((operation) => {
+            current = operation.table
+            return runOperation(db, operation)
+          }),
+        )()
+      } catch (error) {
+        translateError(error, current)
+      }
+    },
+  }
+}
@@ -0,0 +1,162 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import { applyOperation } from "./operations"
+import { applyQuery } from "./query"
+import { sameValue, tableConfigs, type Row, type TableName } from "./tables"
+import type { StorageAdapter, TableRows } from "./types"
+
+type Sync = typeof import("./sync")
+type Types = typeof import("./types")
+
+/** Stands in for Google Sheets; `offline` makes every call fail like an outage. */
+function createRemote({ BackendUnavailableError }: Types) {
+  const tables: Partial<Record<TableName, Row[]>> = {}
+  const state = { offline: false }
+  const reach = () => {
+    if (state.offline) throw new BackendUnavailableError("Google Sheets is unreachable")
+  }
+  const rows = (table: TableName) => {
+    reach()
+    return tables[table] ?? []
+  }
+
+  const adapter: StorageAdapter = {
+    source: "google-sheets",
+    local: false,
+    list: async (table) => rows(table),
+    get: async (table, id) =>
+      rows(table).find((row) => sameValue(row[tableConfigs[table].primaryKey], id)) ?? null,
+    batchList: async (requested) =>
+      Object.fromEntries(requested.map((table) => [table, rows(table)])) as TableRows,
+    query: async (table, options) => applyQuery(rows(table), options),
+    insert: async (table, inserted) =>
+      (await adapter.transaction([{ table, action: "insert", rows: inserted }]))[0].data as Row[],
+    update: async (table, id, updates) =>
+      (await adapter.transaction([{ table, action: "update", id, updates }]))[0].data as Row | null,
+    delete: async (table, id) => (await adapter.transaction([{ table, action: "delete", id }]))[0].deleted || 0,
+    async transaction(operations) {
+      reach()
+      const staged = { ...tables }
+      const results = operations.map((operation) => {
+        const applied = applyOperation(staged[operation.table] ?? [], operation)
+        staged[operation.table] = applied.rows
+        return applied.result
+      })
+      Object.assign(tables, staged)
+      return results
+    },
+  }
+  return { adapter, state, tables }
+}
+
+describe("sync adapter", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "bacas-sync-"))
+  let remote: ReturnType<typeof createRemote>
+  let sync: Sync
+  let local: StorageAdapter
+  let adapter: ReturnType<Sync["createSyncAdapter"]>
+
+  const remoteName = (userId: string) => remote.tables.users?.find((row) => row.user_id === userId)?.name
+
+  beforeAll(async () => {
+    vi.stubEnv("EXCEL_DATABASE_PATH", path.join(directory, "db.xlsx"))
+    vi.stubEnv("EXCEL_BACKUP_INTERVAL_MS", "-1")
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    vi.resetModules()
+    sync = await import("./sync")
+    // The sync adapter only journals outages of its own error class.
+    remote = createRemote(await import("./types"))
+    local = (await import("./excel.adapter")).createExcelAdapter()
+    adapter = sync.createSyncAdapter(remote.adapter, local)
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+    ;(globalThis as typeof globalThis & { __bacasWorkbookCache?: unknown }).__bacasWorkbookCache = null
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("writes to the remote and mirrors the write locally", async () => {
+    await adapter.insert("users", [
+      { user_id: "1", name: "Ana" },
+      { user_id: "2", name: "Ben" },
+    ])
+    expect(remoteName("1")).toBe("Ana")
+    expect(await local.get("users", "2")).toMatchObject({ name: "Ben" })
+    expect(adapter.syncStatus()).toMatchObject({ pending: 0, conflicts: [], remoteError: null })
+  })
+
+  it("journals writes during an outage and serves reads from the workbook", async () => {
+    remote.state.offline = true
+    await adapter.update("users", "1", { name: "Ana Offline" })
+    await adapter.insert("users", [{ user_id: "3", name: "Cy" }])
+
+    expect(adapter.syncStatus()).toMatchObject({ pending: 2, remoteError: "Google Sheets is unreachable" })
+    expect(fs.existsSync(sync.syncJournalPath)).toBe(true)
+    // Even once Sheets answers again, the journal has to drain first.
+    remote.state.offline = false
+    expect(await adapter.get("users", "1")).toMatchObject({ name: "Ana Offline" })
+    expect(remoteName("1")).toBe("Ana")
+  })
+
+  it("keeps the journal when the remote is still down", async () => {
+    remote.state.offline = true
+    const result = await adapter.reconcile()
+    expect(result).toMatchObject({ replayed: 0, pending: 2, error: "Google Sheets is unreachable" })
+    remote.state.offline = false
+  })
+
+  it("replays the journal in order once the remote is back", async () => {
+    const result = await adapter.reconcile()
+    expect(result).toMatchObject({ replayed: 2, conflicted: 0, pending: 0 })
+    expect(remoteName("1")).toBe("Ana Offline")
+    expect(remoteName("3")).toBe("Cy")
+    expect(fs.existsSync(sync.syncJournalPath)).toBe(false)
+  })
+
+  it("holds back an offline edit that clashes with a remote one", async () => {
+    remote.state.offline = true
+    await adapter.update("users", "2", { name: "Ben (front desk)" })
+    remote.state.offline = false
+    await remote.adapter.update("users", "2", { name: "Ben (phone app)" })
+
+    const result = await adapter.reconcile()
+    expect(result).toMatchObject({ replayed: 0, conflicted: 1, pending: 0 })
+    const [conflict] = adapter.syncStatus().conflicts
+    expect(conflict.reasons).toEqual([
+      expect.objectContaining({
+        table: "users",
+        recordId: "2",
+        message: "Edited both remotely and here",
+        columns: ["name"],
+      }),
+    ])
+    // The pull afterwards brings the workbook in line with the remote.
+    expect(result.pulled).toContain("users")
+    expect(await local.get("users", "2")).toMatchObject({ name: "Ben (phone app)" })
+  })
+
+  it("forces the held-back change through when the local copy is kept", async () => {
+    const [conflict] = adapter.syncStatus().conflicts
+    await adapter.resolveConflict(conflict.id, "local")
+
+    expect(remoteName("2")).toBe("Ben (front desk)")
+    expect(await local.get("users", "2")).toMatchObject({ name: "Ben (front desk)" })
+    expect(adapter.syncStatus().conflicts).toEqual([])
+    await expect(adapter.resolveConflict(conflict.id, "remote")).rejects.toMatchObject({ status: 404 })
+  })
+
+  it("does not replay a write whose response was lost", async () => {
+    remote.state.offline = true
+    await adapter.insert("users", [{ user_id: "4", name: "Dee" }])
+    remote.state.offline = false
+    // The insert had reached the remote before the connection dropped.
+    remote.tables.users = [...(remote.tables.users ?? []), { user_id: "4", name: "Dee" }]
+
+    expect(await adapter.reconcile()).toMatchObject({ replayed: 1, conflicted: 0 })
+    expect(remote.tables.users.filter((row) => row.user_id === "4")).toHaveLength(1)
+  })
+})
@@ -0,0 +1,525 @@
+import fs from "fs"
+import path from "path"
+import { databasePath, replaceTables } from "./excel.adapter"
+import { reserveFromCounterRow } from "./ids"
+import { applyOperation, sameStoredValue } from "./operations"
+import { createId, sameValue, tableConfigs, tableNames, type Row, type TableName } from "./tables"
+import {
+  BackendUnavailableError,
+  StorageError,
+  type OperationResult,
+  type StorageAdapter,
+  type StorageOperation,
+  type TableRows,
+} from "./types"
+import { writeFileAtomic } from "./write-ahead-log"
+
+export const syncJournalPath =
+  process.env.SYNC_JOURNAL_PATH || path.join(path.dirname(databasePath), "sync-journal.jsonl")
+export const syncConflictsPath =
+  process.env.SYNC_CONFLICTS_PATH || path.join(path.dirname(databasePath), "sync-conflicts.json")
+
+/** A write that was applied locally while the remote backend was unreachable. */
+export interface JournalEntry {
+  id: string
+  at: string
+  operations: StorageOperation[]
+  /** Local rows as they were before the write, keyed `table:id`. */
+  base: Record<string, Row | null>
+}
+
+export interface ConflictReason {
+  table: TableName
+  recordId: unknown
+  message: string
+  /** Columns both sides changed, empty when the whole row is affected. */
+  columns: string[]
+  local: Row | null
+  remote: Row | null
+}
+
+/** A journal entry held back from replay until someone reviews it. */
+export interface SyncConflict {
+  id: string
+  detectedAt: string
+  entry: JournalEntry
+  reasons: ConflictReason[]
+}
+
+export interface ReconcileResult {
+  at: string
+  replayed: number
+  conflicted: number
+  pending: number
+  /** Tables whose local copy was replaced with the remote one. */
+  pulled: TableName[]
+  /** Set when the remote backend was still unreachable. */
+  error?: string
+}
+
+export interface SyncStatus {
+  enabled: true
+  pending: number
+  conflicts: SyncConflict[]
+  lastReconcile: ReconcileResult | null
+  /** Message of the last failed remote call, cleared by the next success. */
+  remoteError: string | null
+}
+
+export interface SyncedStorageAdapter extends StorageAdapter {
+  syncStatus(): SyncStatus
+  reconcile(): Promise<ReconcileResult>
+  resolveConflict(id: string, keep: "local" | "remote"): Promise<ReconcileResult>
+}
+
+export function isSyncedAdapter(adapter: StorageAdapter): adapter is SyncedStorageAdapter {
+  return "reconcile" in adapter
+}
+
+function readJournal(): JournalEntry[] {
+  if (!fs.existsSync(syncJournalPath)) return []
+  return fs
+    .readFileSync(syncJournalPath, "utf8")
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => JSON.parse(line) as JournalEntry)
+}
+
+function appendJournal(entry: JournalEntry): void {
+  fs.mkdirSync(path.dirname(syncJournalPath), { recursive: true })
+  fs.appendFileSync(syncJournalPath, `${JSON.stringify(entry)}\n`)
+}
+
+function writeJournal(entries: JournalEntry[]): void {
+  if (!entries.length) {
+    fs.rmSync(syncJournalPath, { force: true })
+    return
+  }
+  writeFileAtomic(syncJournalPath, entries.map((entry) => `${JSON.stringify(entry)}\n`).join(""))
+}
+
+function readConflicts(): SyncConflict[] {
+  if (!fs.existsSync(syncConflictsPath)) return []
+  return JSON.parse(fs.readFileSync(syncConflictsPath, "utf8")) as SyncConflict[]
+}
+
+function writeConflicts(conflicts: SyncConflict[]): void {
+  if (!conflicts.length) {
+    fs.rmSync(syncConflictsPath, { force: true })
+    return
+  }
+  fs.mkdirSync(path.dirname(syncConflictsPath), { recursive: true })
+  writeFileAtomic(syncConflictsPath, JSON.stringify(conflicts, null, 2))
+}
+
+function rowKey(table: TableName, id: unknown): string {
+  return `${table}:${String(id)}`
+}
+
+/**
+ * Sheets and the workbook format the same value differently (`TRUE` vs
+ * `true`, `100` vs `"100"`, reformatted timestamps), so compare loosely.
+ */
+function sameCell(left: unknown, right: unknown): boolean {
+  if (sameStoredValue(left, right)) return true
+  const leftText = String(left ?? "").trim()
+  const rightText = String(right ?? "").trim()
+  if (leftText.toLowerCase() === rightText.toLowerCase()) return true
+  return leftText !== "" && rightText !== "" && Number(leftText) === Number(rightText)
+}
+
+function findRow(rows: Row[] | undefined, table: TableName, id: unknown): Row | null {
+  const { primaryKey } = tableConfigs[table]
+  return rows?.find((row) => sameValue(row[primaryKey], id)) || null
+}
+
+/** The audit trail only ever grows, so it is never checked for conflicts. */
+function checkedOperations(entry: JournalEntry): StorageOperation[] {
+  return entry.operations.filter((operation) => operation.table !== "audit_log")
+}
+
+/**
+ * Counter bumps merge instead of conflicting: replay keeps whichever side
+ * got further, so the counter never moves backwards. Duplicate member ids
+ * still surface as conflicts on the inserted rows themselves.
+ */
+function mergeCounters(entry: JournalEntry, remote: Partial<TableRows>): StorageOperation[] {
+  return entry.operations.map((operation) => {
+    if (operation.table !== "user_id_counter" || operation.action !== "update") return operation
+    const current = findRow(remote.user_id_counter, operation.table, operation.id)
+    const lastNumber = Math.max(
+      Number(operation.updates.last_number) || 0,
+      Number(current?.last_number) || 0,
+    )
+    return { ...operation, updates: { ...operation.updates, last_number: lastNumber } }
+  })
+}
+
+/**
+ * Compares a journal entry with the current remote rows. Returns why it can
+ * no longer be replayed as-is, and whether it already reached the remote
+ * (a write whose response was lost looks like an outage too).
+ */
+function findConflicts(
+  entry: JournalEntry,
+  remote: Partial<TableRows>,
+): { reasons: ConflictReason[]; alreadyApplied: boolean } {
+  const reasons: ConflictReason[] = []
+  let insertedRows = 0
+  let presentRows = 0
+
+  for (const operation of checkedOperations(entry)) {
+    if (operation.table === "user_id_counter") continue
+    const { primaryKey } = tableConfigs[operation.table]
+    const rows = remote[operation.table]
+
+    if (operation.action === "insert") {
+      for (const row of operation.rows) {
+        insertedRows++
+        const existing = findRow(rows, operation.table, row[primaryKey])
+        if (!existing) continue
+        const columns = Object.keys(row).filter((column) => !sameCell(existing[column], row[column]))
+        if (columns.length) {
+          reasons.push({
+            table: operation.table,
+            recordId: row[primaryKey],
+            message: "A different record with this id was added remotely",
+            columns,
+            local: row,
+            remote: existing,
+          })
+        } else {
+          presentRows++
+        }
+      }
+      continue
+    }
+
+    const base = entry.base[rowKey(operation.table, operation.id)] ?? null
+    const existing = findRow(rows, operation.table, operation.id)
+
+    if (operation.action === "update") {
+      if (!existing) {
+        if (base) {
+          reasons.push({
+            table: operation.table,
+            recordId: operation.id,
+            message: "Deleted remotely but edited here",
+            columns: [],
+            local: { ...base, ...operation.updates },
+            remote: null,
+          })
+        }
+        continue
+      }
+      // Only columns this write changed count, and only if the remote moved
+      // them away from what this device saw, to something other than ours.
+      const columns = Object.keys(operation.updates).filter(
+        (column) =>
+          !sameCell(existing[column], base?.[column]) &&
+          !sameCell(existing[column], operation.updates[column]),
+      )
+      if (columns.length) {
+        reasons.push({
+          table: operation.table,
+          recordId: operation.id,
+          message: "Edited both remotely and here",
+          columns,
+          local: operation.updates,
+          remote: existing,
+        })
+      }
+      continue
+    }
+
+    if (existing && base && "updated_at" in base && !sameCell(existing.updated_at, base.updated_at)) {
+      reasons.push({
+        table: operation.table,
+        recordId: operation.id,
+        message: "Edited remotely but deleted here",
+        columns: [],
+        local: null,
+        remote: existing,
+      })
+    }
+  }
+
+  const alreadyApplied = insertedRows > 0 && presentRows === insertedRows
+  if (presentRows > 0 && !alreadyApplied && !reasons.length) {
+    reasons.push({
+      table: checkedOperations(entry)[0].table,
+      recordId: null,
+      message: "Only part of this change reached the remote",
+      columns: [],
+      local: null,
+      remote: null,
+    })
+  }
+  return { reasons, alreadyApplied }
+}
+
+function touchedTables(entries: JournalEntry[]): TableName[] {
+  return Array.from(
+    new Set(entries.flatMap((entry) => checkedOperations(entry).map((operation) => operation.table))),
+  )
+}
+
+function sameTable(table: TableName, left: Row[], right: Row[]): boolean {
+  if (left.length !== right.length) return false
+  const { columns, primaryKey } = tableConfigs[table]
+  return left.every((row) => {
+    const other = findRow(right, table, row[primaryKey])
+    return !!other && columns.every((column) => sameCell(row[column], other[column]))
+  })
+}
+
+/**
+ * Storage for the Google Sheets backend that keeps working through outages.
+ * Writes go to Sheets and are mirrored into the local workbook; while Sheets
+ * is unreachable they are applied to the workbook and appended to a journal
+ * instead. `reconcile` replays the journal, holds back entries that clash
+ * with remote edits for review, and then pulls Sheets into the workbook.
+ */
+export function createSyncAdapter(
+  remote: StorageAdapter,
+  local: StorageAdapter,
+): SyncedStorageAdapter {
+  let lastReconcile: ReconcileResult | null = null
+  let remoteError: string | null = null
+
+  const noteRemoteFailure = (error: unknown) => {
+    if (!(error instanceof BackendUnavailableError)) throw error
+    remoteError = error.message
+    console.warn(`${remote.source} unavailable, using ${local.source}:`, error.message)
+  }
+
+  // Until the journal is empty the workbook is the only complete copy.
+  const read = async <T>(operation: (adapter: StorageAdapter) => Promise<T>): Promise<T> => {
+    if (readJournal().length) return operation(local)
+    try {
+      const data = await operation(remote)
+      remoteError = null
+      return data
+    } catch (error) {
+      noteRemoteFailure(error)
+      return operation(local)
+    }
+  }
+
+  const journalWrite = async (operations: StorageOperation[]): Promise<OperationResult[]> => {
+    const base: Record<string, Row | null> = {}
+    for (const operation of operations) {
+      if (operation.action === "insert") continue
+      const key = rowKey(operation.table, operation.id)
+      if (!(key in base)) base[key] = await local.get(operation.table, operation.id)
+    }
+
+    const results = await local.transaction(operations)
+    appendJournal({
+      id: createId(),
+      at: new Date().toISOString(),
+      // Preconditions were checked against the local copy before journaling.
+      operations: operations.map((operation) =>
+        operation.action === "update" ? { ...operation, expected: undefined } : operation,
+      ),
+      base,
+    })
+    return results
+  }
+
+  const pull = async (): Promise<TableName[]> => {
+    const remoteTables = await remote.batchList([...tableNames])
+    const localTables = await local.batchList([...tableNames])
+    const changed: Partial<TableRows> = {}
+
+    for (const table of tableNames) {
+      const rows = remoteTables[table] || []
+      // An empty answer is far more likely a missing sheet than a wiped table.
+      if (!rows.length && localTables[table].length) continue
+      if (!sameTable(table, rows, localTables[table])) changed[table] = rows
+    }
+
+    if (Object.keys(changed).length) replaceTables(changed)
+    return Object.keys(changed) as TableName[]
+  }
+
+  const reconcile = async (): Promise<ReconcileResult> => {
+    const remaining = readJournal()
+    const conflicts = readConflicts()
+    const result: ReconcileResult = {
+      at: new Date().toISOString(),
+      replayed: 0,
+      conflicted: 0,
+      pending: remaining.length,
+      pulled: [],
+    }
+
+    try {
+      if (remaining.length) {
+        const snapshot = await remote.batchList(touchedTables(remaining))
+
+        while (remaining.length) {
+          const entry = remaining[0]
+          const { reasons, alreadyApplied } = findConflicts(entry, snapshot)
+          const operations = mergeCounters(entry, snapshot)
+
+          if (!reasons.length && !alreadyApplied) {
+            try {
+              await remote.transaction(operations)
+            } catch (error) {
+              if (error instanceof BackendUnavailableError) throw error
+              reasons.push({
+                table: entry.operations[0].table,
+                recordId: null,
+                message: `Rejected remotely: ${error instanceof Error ? error.message : String(error)}`,
+                columns: [],
+                local: null,
+                remote: null,
+              })
+            }
+          }
+
+          if (reasons.length) {
+            conflicts.push({ id: entry.id, detectedAt: result.at, entry, reasons })
+            result.conflicted++
+          } else {
+            result.replayed++
+            for (const operation of checkedOperations({ ...entry, operations })) {
+              const rows = snapshot[operation.table] || []
+              snapshot[operation.table] = applyOperation(rows, operation).rows
+            }
+          }
+
+          // Persist progress after every entry so a crash never replays twice.
+          remaining.shift()
+          writeJournal(remaining)
+          writeConflicts(conflicts)
+        }
+      }
+
+      result.pulled = await pull()
+      remoteError = null
+    } catch (error) {
+      if (!(error instanceof BackendUnavailableError)) throw error
+      remoteError = error.message
+      result.error = error.message
+    }
+
+    result.pending = remaining.length
+    lastReconcile = result
+    return result
+  }
+
+  return {
+    source: remote.source,
+    local: false,
+    details: { databasePath, syncJournalPath },
+
+    list: (table) => read((adapter) => adapter.list(table)),
+    get: (table, id) => read((adapter) => adapter.get(table, id)),
+    batchList: (tables) => read((adapter) => adapter.batchList(tables)),
+    query: (table, options) => read((adapter) => adapter.query(table, options)),
+
+    async insert(table, rows) {
+      const [result] = await this.transaction([{ table, action: "insert", rows }])
+      return result.data as Row[]
+    },
+
+    async update(table, id, updates) {
+      const [result] = await this.transaction([{ table, action: "update", id, updates }])
+      return result.data as Row | null
+    },
+
+    async delete(table, id) {
+      const [result] = await this.transaction([{ table, action: "delete", id }])
+      return result.deleted || 0
+    },
+
+    // Once anything is journaled, later writes queue behind it so they reach
+    // the remote in the order they happened.
+    async transaction(operations) {
+      if (!readJournal().length) {
+        try {
+          const results = await remote.transaction(operations)
+          remoteError = null
+          await local.transaction(operations).catch((error: unknown) => {
+            console.warn(`Could not mirror write into ${local.source}:`, error)
+          })
+          return results
+        } catch (error) {
+          noteRemoteFailure(error)
+        }
+      }
+      return journalWrite(operations)
+    },
+
+    // While offline the workbook counter is used; if another desk took the
+    // same numbers, the journaled inserts show up as sync conflicts.
+    async reserveCounter(count) {
+      if (!readJournal().length && remote.reserveCounter) {
+        try {
+          const first = await remote.reserveCounter(count)
+          remoteError = null
+          await local
+            .update("user_id_counter", 1, { last_number: first + count - 1 })
+            .catch((error: unknown) => console.warn("Could not mirror id counter:", error))
+          return first
+        } catch (error) {
+          noteRemoteFailure(error)
+        }
+      }
+      return reserveFromCounterRow(this, count)
+    },
+
+    syncStatus() {
+      return {
+        enabled: true,
+        pending: readJournal().length,
+        conflicts: readConflicts(),
+        lastReconcile,
+        remoteError,
+      }
+    },
+
+    reconcile,
+
+    /**
+     * `remote` drops the held-back change; `local` forces it onto the remote,
+     * recreating or overwriting rows as needed. Either way the workbook is
+     * then refreshed from the remote.
+     */
+    async resolveConflict(id, keep) {
+      const conflicts = readConflicts()
+      const conflict = conflicts.find((item) => item.id === id)
+      if (!conflict) throw new StorageError(`Sync conflict not found: ${id}`, 404)
+
+      if (keep === "local") {
+        const snapshot = await remote.batchList(touchedTables([conflict.entry]))
+        const forced = mergeCounters(conflict.entry, snapshot).flatMap((operation): StorageOperation[] => {
+          if (operation.table === "audit_log") return [operation]
+          const { primaryKey } = tableConfigs[operation.table]
+
+          if (operation.action === "insert") {
+            return operation.rows.map((row): StorageOperation =>
+              findRow(snapshot[operation.table], operation.table, row[primaryKey])
+                ? { table: operation.table, action: "update", id: row[primaryKey], updates: row }
+                : { table: operation.table, action: "insert", rows: [row] },
+            )
+          }
+          if (
+            operation.action === "update" &&
+            !findRow(snapshot[operation.table], operation.table, operation.id)
+          ) {
+            const base = conflict.entry.base[rowKey(operation.table, operation.id)] ?? {}
+            return [{ table: operation.table, action: "insert", rows: [{ ...base, ...operation.updates }] }]
+          }
+          return [operation]
+        })
+        await remote.transaction(forced)
+      }
+
+      writeConflicts(conflicts.filter((item) => item.id !== id))
+      return reconcile()
+    },
+  }
+}
@@ -0,0 +1,222 @@
+export type Row = Record<string, unknown>
+
+export type TableName =
+  | "users"
+  | "subscriptions"
+  | "medical_history"
+  | "emergency_contacts"
+  | "liability_waivers"
+  | "scan_logs"
+  | "active_sessions"
+  | "subscription_history"
+  | "user_id_counter"
+  | "payment"
+  | "audit_log"
+  | "scan_logs_archive"
+  | "payment_archive"
+  | "staff"
+
+export const tableNames = [
+  "users",
+  "subscriptions",
+  "medical_history",
+  "emergency_contacts",
+  "liability_waivers",
+  "scan_logs",
+  "active_sessions",
+  "subscription_history",
+  "user_id_counter",
+  "payment",
+  "audit_log",
+  "scan_logs_archive",
+  "payment_archive",
+  "staff",
+] as const
+
+export interface TableConfig {
+  sheetName: string
+  primaryKey: string
+  columns: string[]
+  seedRows?: Row[]
+}
+
+const scanLogColumns = ["id", "user_id", "user_name", "timestamp", "action", "status", "device_id"]
+
+const paymentColumns = [
+  "payment_id",
+  "user_id",
+  "amount",
+  "payment_method",
+  "payment_date",
+  "reference_number",
+  "notes",
+  "payment_for",
+  "created_at",
+  "updated_at",
+]
+
+export const tableConfigs: Record<TableName, TableConfig> = {
+  users: {
+    sheetName: "Users",
+    primaryKey: "user_id",
+    columns: [
+      "user_id",
+      "name",
+      "email",
+      "phone",
+      "birthday",
+      "age",
+      "address",
+      "goal",
+      "program_type",
+      "height_cm",
+      "weight_kg",
+      "created_at",
+      "updated_at",
+      "archived_at",
+    ],
+  },
+  subscriptions: {
+    sheetName: "Subscriptions",
+    primaryKey: "user_id",
+    columns: [
+      "user_id",
+      "start_date",
+      "end_date",
+      "status",
+      "plan_duration",
+      "membership_type",
+      "coaching_preference",
+      "payment_status",
+      "payment_date",
+      "created_at",
+    ],
+  },
+  medical_history: {
+    sheetName: "Medical History",
+    primaryKey: "user_id",
+    columns: [
+      "user_id",
+      "heart_problems",
+      "blood_pressure_problems",
+      "chest_pain_exercising",
+      "asthma_breathing_problems",
+      "joint_problems",
+      "neck_back_problems",
+      "pregnant_recent_birth",
+      "other_medical_conditions",
+      "other_medical_details",
+      "smoking",
+      "medication",
+      "medication_details",
+      "created_at",
+      "updated_at",
+    ],
+  },
+  emergency_contacts: {
+    sheetName: "Emergency Contacts",
+    primaryKey: "user_id",
+    columns: ["user_id", "contact_name", "contact_number", "created_at", "updated_at"],
+  },
+  liability_waivers: {
+    sheetName: "Liability Waivers",
+    primaryKey: "user_id",
+    columns: ["user_id", "signature_name", "signed_date", "waiver_accepted", "created_at"],
+  },
+  scan_logs: {
+    sheetName: "Scan Logs",
+    primaryKey: "id",
+    columns: scanLogColumns,
+  },
+  active_sessions: {
+    sheetName: "Active Sessions",
+    primaryKey: "user_id",
+    columns: ["user_id", "user_name", "check_in_time"],
+  },
+  subscription_history: {
+    sheetName: "Subscription History",
+    primaryKey: "id",
+    columns: ["id", "user_id", "start_date", "end_date", "status", "created_at", "updated_at"],
+  },
+  user_id_counter: {
+    sheetName: "User ID Counter",
+    primaryKey: "id",
+    columns: ["id", "last_number"],
+    seedRows: [{ id: 1, last_number: 1000 }],
+  },
+  payment: {
+    sheetName: "Payments",
+    primaryKey: "payment_id",
+    columns: paymentColumns,
+  },
+  // Written by the API route alongside every insert, update and delete.
+  // `before`/`after` hold JSON; `member_id` is deliberately not `user_id` so
+  // purging a member keeps their history.
+  audit_log: {
+    sheetName: "Audit Log",
+    primaryKey: "id",
+    columns: [
+      "id",
+      "at",
+      "table_name",
+      "record_id",
+      "member_id",
+      "action",
+      "before",
+      "after",
+      "actor",
+      "device_id",
+    ],
+  },
+  // Older scan logs and payments, moved out of the hot tables by
+  // `archiveOldRecords`. `archive_year` is the partition a row belongs to.
+  scan_logs_archive: {
+    sheetName: "Scan Logs Archive",
+    primaryKey: "id",
+    columns: [...scanLogColumns, "archive_year"],
+  },
+  payment_archive: {
+    sheetName: "Payments Archive",
+    primaryKey: "payment_id",
+    columns: [...paymentColumns, "archive_year"],
+  },
+  // Accounts that can sign in to the admin app. `password_hash` is written
+  // by `hashPassword` and never leaves the server; `role` picks the
+  // permissions in src/lib/permissions.ts. Raising `session_version` ends
+  // every session signed before it.
+  staff: {
+    sheetName: "Staff",
+    primaryKey: "staff_id",
+    columns: [
+      "staff_id",
+      "email",
+      "name",
+      "role",
+      "password_hash",
+      "created_at",
+      "updated_at",
+      "last_login_at",
+      "disabled_at",
+      "session_version",
+    ],
+  },
+}
+
+export function sameValue(left: unknown, right: unknown): boolean {
+  return String(left ?? "") === String(right ?? "")
+}
+
+export function createId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`
+}
+
+export function asTableName(value: unknown): TableName | null {
+  if (typeof value !== "string") return null
+  return value in tableConfigs ? (value as TableName) : null
+}
+
+export function asTableNames(value: unknown): TableName[] {
+  if (!Array.isArray(value)) return [...tableNames]
+  const names = value.map(asTableName).filter((name): name is TableName => !!name)
+  return names.length ? names : [...tableNames]
+}
@@ -0,0 +1,92 @@
+import type { QueryOptions, QueryResult } from "./query"
+import type { Row, TableName } from "./tables"
+
+export type TableRows = Record<TableName, Row[]>
+
+export type StorageOperation =
+  | { table: TableName; action: "insert"; rows: Row[] }
+  | { table: TableName; action: "update"; id: unknown; updates: Row; expected?: Row }
+  | { table: TableName; action: "delete"; id: unknown }
+
+export interface OperationResult {
+  table: TableName
+  action: StorageOperation["action"]
+  data?: Row[] | Row | null
+  deleted?: number
+}
+
+/**
+ * A storage backend for the gym database. Every backend stores the tables
+ * from `tableConfigs` as snake_case rows keyed by the table's primary key.
+ */
+export interface StorageAdapter {
+  /** Reported to the client as `source` on every response. */
+  readonly source: string
+  /** True when the data lives on this machine (used by `preferLocal`). */
+  readonly local: boolean
+  /** Extra fields merged into API responses, e.g. the workbook path. */
+  readonly details?: Record<string, unknown>
+
+  list(table: TableName): Promise<Row[]>
+  get(table: TableName, id: unknown): Promise<Row | null>
+  insert(table: TableName, rows: Row[]): Promise<Row[]>
+  update(table: TableName, id: unknown, updates: Row): Promise<Row | null>
+  delete(table: TableName, id: unknown): Promise<number>
+  batchList(tables: TableName[]): Promise<TableRows>
+  query(table: TableName, options: QueryOptions): Promise<QueryResult>
+  /** Applies every operation or none of them. */
+  transaction(operations: StorageOperation[]): Promise<OperationResult[]>
+  /**
+   * Atomically adds `count` to `user_id_counter` and returns the first number
+   * of the reserved block. Optional: without it the route updates the counter
+   * row itself under its lock, which only guards a single server.
+   */
+  reserveCounter?(count: number): Promise<number>
+}
+
+export class StorageError extends Error {
+  constructor(
+    message: string,
+    readonly status = 500,
+  ) {
+    super(message)
+    this.name = "StorageError"
+  }
+}
+
+/**
+ * The backend could not be reached at all, as opposed to rejecting the
+ * request. Only these failures are safe to retry later from a journal.
+ */
+export class BackendUnavailableError extends StorageError {
+  constructor(message: string) {
+    super(message, 503)
+    this.name = "BackendUnavailableError"
+  }
+}
+
+/** A row that failed its table schema; `fieldErrors` is keyed by column. */
+export class ValidationError extends StorageError {
+  constructor(
+    message: string,
+    readonly table: TableName,
+    readonly fieldErrors: Record<string, string>,
+  ) {
+    super(message, 400)
+    this.name = "ValidationError"
+  }
+}
+
+/**
+ * An update whose `expected` values no longer match the stored row. Carries
+ * the current row so the client can show what changed.
+ */
+export class ConflictError extends StorageError {
+  constructor(
+    message: string,
+    readonly current: Row | null,
+  ) {
+    super(message, 409)
+    this.name = "ConflictError"
+  }
+}
@@ -0,0 +1,118 @@
+import fs from "fs"
+import os from "os"
+import path from "path"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import type { StorageAdapter } from "./types"
+import {
+  appendWriteAhead,
+  clearWriteAhead,
+  discardPartialWrite,
+  readWriteAhead,
+  writeAheadLogPath,
+  writeFileAtomic,
+  type WriteAheadEntry,
+} from "./write-ahead-log"
+
+function insertUser(sequence: number, userId: string): WriteAheadEntry {
+  return {
+    sequence,
+    at: new Date().toISOString(),
+    operations: [{ table: "users", action: "insert", rows: [{ user_id: userId, name: `Member ${userId}` }] }],
+  }
+}
+
+describe("write-ahead log", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "bacas-wal-"))
+  const databasePath = path.join(directory, "log-only.xlsx")
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("reads entries back and skips a line cut short by a crash", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    appendWriteAhead(databasePath, insertUser(1, "1"))
+    appendWriteAhead(databasePath, insertUser(2, "2"))
+    fs.appendFileSync(writeAheadLogPath(databasePath), '{"sequence":3,"at":"')
+
+    expect(readWriteAhead(databasePath).map((entry) => entry.sequence)).toEqual([1, 2])
+    clearWriteAhead(databasePath)
+    expect(readWriteAhead(databasePath)).toEqual([])
+  })
+
+  it("replaces files whole and cleans up a write that never finished", () => {
+    const filePath = path.join(directory, "atomic.txt")
+    writeFileAtomic(filePath, "first")
+    writeFileAtomic(filePath, "second")
+    expect(fs.readFileSync(filePath, "utf8")).toBe("second")
+    expect(fs.existsSync(`${filePath}.tmp`)).toBe(false)
+
+    fs.writeFileSync(`${filePath}.tmp`, "half")
+    discardPartialWrite(filePath)
+    expect(fs.existsSync(`${filePath}.tmp`)).toBe(false)
+    expect(fs.readFileSync(filePath, "utf8")).toBe("second")
+  })
+})
+
+describe("write-ahead recovery", () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), "bacas-recovery-"))
+  const databasePath = path.join(directory, "db.xlsx")
+  const global = globalThis as typeof globalThis & { __bacasWorkbookCache?: unknown }
+  let adapter: StorageAdapter
+
+  // What the next request sees after a restart: no cache, only the files.
+  const restart = () => {
+    global.__bacasWorkbookCache = null
+  }
+
+  beforeAll(async () => {
+    vi.stubEnv("EXCEL_DATABASE_PATH", databasePath)
+    vi.stubEnv("EXCEL_BACKUP_INTERVAL_MS", "-1")
+    vi.spyOn(console, "info").mockImplementation(() => {})
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+    vi.resetModules()
+    adapter = (await import("./excel.adapter")).createExcelAdapter()
+    // Sequence 1 reaches the workbook and clears the log.
+    await adapter.insert("users", [{ user_id: "1", name: "Member 1" }])
+  })
+
+  afterAll(() => {
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+    restart()
+    fs.rmSync(directory, { recursive: true, force: true })
+  })
+
+  it("clears the log once the workbook is written", () => {
+    expect(readWriteAhead(databasePath)).toEqual([])
+  })
+
+  it("replays writes that were logged but never reached the workbook", async () => {
+    appendWriteAhead(databasePath, insertUser(2, "2"))
+    appendWriteAhead(databasePath, insertUser(3, "3"))
+    restart()
+
+    expect((await adapter.list("users")).map((row) => row.user_id)).toEqual(["1", "2", "3"])
+    expect(readWriteAhead(databasePath)).toEqual([])
+
+    // The replay was saved, so it is not applied a second time.
+    restart()
+    expect(await adapter.list("users")).toHaveLength(3)
+  })
+
+  it("skips entries the workbook already holds", async () => {
+    appendWriteAhead(databasePath, insertUser(3, "duplicate"))
+    appendWriteAhead(databasePath, insertUser(4, "4"))
+    restart()
+
+    expect((await adapter.list("users")).map((row) => row.user_id)).toEqual(["1", "2", "3", "4"])
+  })
+
+  it("drops the rest of a log that does not continue the workbook", async () => {
+    appendWriteAhead(databasePath, insertUser(7, "7"))
+    restart()
+
+    expect((await adapter.list("users")).map((row) => row.user_id)).toEqual(["1", "2", "3", "4"])
+    expect(readWriteAhead(databasePath)).toEqual([])
+  })
+})
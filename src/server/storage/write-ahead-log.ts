@@ -0,0 +1,73 @@
+import fs from "fs"
+import path from "path"
+import type { StorageOperation } from "./types"
+
+/**
+ * One workbook transaction, logged before the workbook is written. The
+ * workbook records the last sequence it contains, so an entry with a higher
+ * sequence never made it into the file.
+ */
+export interface WriteAheadEntry {
+  sequence: number
+  at: string
+  operations: StorageOperation[]
+}
+
+export function writeAheadLogPath(databasePath: string): string {
+  return process.env.EXCEL_WAL_PATH || `${databasePath}.wal`
+}
+
+/**
+ * Replaces `filePath` without ever leaving it half written: the data goes to
+ * a temporary file that is flushed to disk and then renamed over the target.
+ */
+export function writeFileAtomic(filePath: string, data: string | Buffer): void {
+  const temporaryPath = `${filePath}.tmp`
+  const descriptor = fs.openSync(temporaryPath, "w")
+  try {
+    fs.writeFileSync(descriptor, data)
+    fs.fsyncSync(descriptor)
+  } finally {
+    fs.closeSync(descriptor)
+  }
+  fs.renameSync(temporaryPath, filePath)
+}
+
+/** Removes a temporary file left behind by a write that never reached its rename. */
+export function discardPartialWrite(filePath: string): void {
+  fs.rmSync(`${filePath}.tmp`, { force: true })
+}
+
+export function appendWriteAhead(databasePath: string, entry: WriteAheadEntry): void {
+  const logPath = writeAheadLogPath(databasePath)
+  fs.mkdirSync(path.dirname(logPath), { recursive: true })
+  const descriptor = fs.openSync(logPath, "a")
+  try {
+    fs.writeFileSync(descriptor, `${JSON.stringify(entry)}\n`)
+    fs.fsyncSync(descriptor)
+  } finally {
+    fs.closeSync(descriptor)
+  }
+}
+
+/** Reads the log, ignoring a final line cut short by a crash mid-append. */
+export function readWriteAhead(databasePath: string): WriteAheadEntry[] {
+  const logPath = writeAheadLogPath(databasePath)
+  if (!fs.existsSync(logPath)) return []
+
+  const entries: WriteAheadEntry[] = []
+  for (const line of fs.readFileSync(logPath, "utf8").split("\n")) {
+    if (!line.trim()) continue
+    try {
+      entries.push(JSON.parse(line) as WriteAheadEntry)
+    } catch {
+      console.warn(`Skipping unreadable write-ahead log line in ${logPath}`)
+    }
+  }
+  return entries
+}
+
+/** Drops entries once the workbook holding them is safely on disk. */
+export function clearWriteAhead(databasePath: string): void {
+  fs.rmSync(writeAheadLogPath(databasePath), { force: true })
+}
@@ -0,0 +1,43 @@
+"use client"
+
+import type { ArchiveRunResult, ArchiveSummary } from "@/src/server/storage/archive"
+import { notifyChange, requestHeaders } from "./storage.service"
+import { handleUnauthorized } from "./auth.service"
+
+export type { ArchiveRunResult, ArchiveSummary }
+
+async function archiveRequest<T>(action: "archiveSummary" | "archiveOldRecords"): Promise<T> {
+  const response = await fetch("/api/excel-db", {
+    method: "POST",
+    headers: requestHeaders(),
+    body: JSON.stringify({ action }),
+  })
+  handleUnauthorized(response)
+
+  const result = await response.json().catch(() => null)
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.message || `Archive request failed: ${action}`)
+  }
+  return result.data as T
+}
+
+/** Rows left in the hot tables and in each archived year. */
+export async function getArchiveSummary(): Promise<ArchiveSummary[]> {
+  return archiveRequest<ArchiveSummary[]>("archiveSummary")
+}
+
+/** Moves rows from before the current period into the archive now. */
+export async function archiveOldRecords(): Promise<ArchiveRunResult[]> {
+  const results = await archiveRequest<ArchiveRunResult[]>("archiveOldRecords")
+  for (const result of results) {
+    if (result.moved === 0) continue
+    notifyChange(result.table, "archive")
+    notifyChange(result.archive, "archive")
+  }
+  return results
+}
+
+export const archiveService = {
+  getArchiveSummary,
+  archiveOldRecords,
+}
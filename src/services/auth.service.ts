@@ -0,0 +1,94 @@
+"use client"
+
+import type { StaffSession } from "@/src/server/auth"
+
+export type { StaffSession }
+
+// Not a credential: the session itself is the HTTP-only cookie. This copy
+// only lets the app open while offline until the session would expire.
+const sessionKey = "bacasfitness_session"
+
+let current: StaffSession | null = null
+
+function rememberSession(session: StaffSession | null): void {
+  current = session
+  if (session) localStorage.setItem(sessionKey, JSON.stringify(session))
+  else localStorage.removeItem(sessionKey)
+}
+
+/** The session from the last check, for code outside React. */
+export function currentSession(): StaffSession | null {
+  return current
+}
+
+function rememberedSession(): StaffSession | null {
+  try {
+    const session = JSON.parse(localStorage.getItem(sessionKey) || "null") as StaffSession | null
+    return session && Date.parse(session.expiresAt) > Date.now() ? session : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Asks the server who is signed in. When the server cannot be reached the
+ * last known session is used until it expires.
+ */
+export async function getSession(): Promise<StaffSession | null> {
+  let response: Response
+  try {
+    response = await fetch("/api/auth", { cache: "no-store" })
+  } catch {
+    current = rememberedSession()
+    return current
+  }
+
+  const result = await response.json().catch(() => null)
+  const session = response.ok && result?.success ? (result.data as StaffSession) : null
+  rememberSession(session)
+  return session
+}
+
+export async function signIn(email: string, password: string): Promise<StaffSession> {
+  const response = await fetch("/api/auth", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ email, password }),
+  })
+
+  const result = await response.json().catch(() => null)
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.message || "Sign in failed")
+  }
+  rememberSession(result.data)
+  return result.data as StaffSession
+}
+
+/** Fired when the server no longer accepts the session; `App` returns to sign-in. */
+export const sessionExpiredEvent = "session-expired"
+
+/**
+ * Call with any API response. A 401 means the session expired, was revoked
+ * or the account was disabled, so the local copy is dropped and the app is
+ * sent back to the sign-in page.
+ */
+export function handleUnauthorized(response: Response): void {
+  if (response.status !== 401 || typeof window === "undefined") return
+  rememberSession(null)
+  window.dispatchEvent(new CustomEvent(sessionExpiredEvent))
+}
+
+/** Signs this device out; `everywhere` ends the account's other sessions too. */
+export async function signOut(options: { everywhere?: boolean } = {}): Promise<void> {
+  rememberSession(null)
+  const query = options.everywhere ? "?everywhere=true" : ""
+  await fetch(`/api/auth${query}`, { method: "DELETE" }).catch(() => null)
+}
+
+export const authService = {
+  currentSession,
+  getSession,
+  handleUnauthorized,
+  signIn,
+  signOut,
+}
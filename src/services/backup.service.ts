@@ -0,0 +1,47 @@
+"use client"
+
+import type { BackupInfo, RestorePreview } from "@/src/server/storage/backups"
+import { handleUnauthorized } from "./auth.service"
+
+export type { BackupInfo, RestorePreview }
+
+async function backupRequest<T>(
+  action: "listBackups" | "createBackup" | "previewRestore" | "restoreBackup",
+  payload: Record<string, unknown> = {},
+): Promise<T> {
+  const response = await fetch("/api/excel-db", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action, ...payload }),
+  })
+  handleUnauthorized(response)
+
+  const result = await response.json().catch(() => null)
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.message || `Backup request failed: ${action}`)
+  }
+  return result.data as T
+}
+
+export async function listBackups(): Promise<BackupInfo[]> {
+  return backupRequest<BackupInfo[]>("listBackups")
+}
+
+export async function createBackup(): Promise<BackupInfo> {
+  return backupRequest<BackupInfo>("createBackup")
+}
+
+export async function previewRestore(name: string): Promise<RestorePreview> {
+  return backupRequest<RestorePreview>("previewRestore", { name })
+}
+
+export async function restoreBackup(name: string): Promise<BackupInfo> {
+  return backupRequest<BackupInfo>("restoreBackup", { name })
+}
+
+export const backupService = {
+  listBackups,
+  createBackup,
+  previewRestore,
+  restoreBackup,
+}
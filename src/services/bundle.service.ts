@@ -0,0 +1,63 @@
+"use client"
+
+import type { BundleImportMode, BundleImportResult } from "@/src/server/storage/bundle"
+import { notifyChange, requestHeaders } from "./storage.service"
+import { handleUnauthorized } from "./auth.service"
+
+export type { BundleImportMode, BundleImportResult }
+
+async function failureMessage(response: Response, fallback: string): Promise<string> {
+  const result = await response.json().catch(() => null)
+  return result?.message || fallback
+}
+
+/** Downloads every table as a zip bundle. */
+export async function exportBundle(): Promise<void> {
+  const response = await fetch("/api/bundle", { headers: requestHeaders() })
+  handleUnauthorized(response)
+  if (!response.ok) throw new Error(await failureMessage(response, "Export failed"))
+
+  const fileName =
+    /filename="([^"]+)"/.exec(response.headers.get("Content-Disposition") || "")?.[1] || "bacas-export.zip"
+  const url = URL.createObjectURL(await response.blob())
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+async function importRequest(file: File, mode: BundleImportMode, dryRun: boolean): Promise<BundleImportResult> {
+  const params = new URLSearchParams({ mode, dryRun: String(dryRun) })
+  const response = await fetch(`/api/bundle?${params}`, {
+    method: "POST",
+    headers: { ...requestHeaders(), "Content-Type": "application/zip" },
+    body: file,
+  })
+  handleUnauthorized(response)
+
+  const result = await response.json().catch(() => null)
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.message || "Import failed")
+  }
+  return result.data as BundleImportResult
+}
+
+/** Checks `file` and reports what importing it would change, without writing anything. */
+export async function previewBundleImport(file: File, mode: BundleImportMode): Promise<BundleImportResult> {
+  return importRequest(file, mode, true)
+}
+
+export async function importBundle(file: File, mode: BundleImportMode): Promise<BundleImportResult> {
+  const result = await importRequest(file, mode, false)
+  for (const report of result.tables) {
+    if (report.inserted + report.updated + report.deleted > 0) notifyChange(report.table, "restore")
+  }
+  return result
+}
+
+export const bundleService = {
+  exportBundle,
+  previewBundleImport,
+  importBundle,
+}
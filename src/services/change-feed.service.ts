@@ -0,0 +1,77 @@
+"use client"
+
+import type { ChangeEvent } from "@/src/server/storage/changes"
+import { clientId, notifyChange, type TableName } from "./storage.service"
+
+const allTables: TableName[] = [
+  "users",
+  "subscriptions",
+  "medical_history",
+  "emergency_contacts",
+  "liability_waivers",
+  "scan_logs",
+  "active_sessions",
+  "subscription_history",
+  "user_id_counter",
+  "payment",
+  "audit_log",
+  "scan_logs_archive",
+  "payment_archive",
+  "staff",
+]
+
+let source: EventSource | null = null
+let subscribers = 0
+let hasConnected = false
+
+function handleChange(message: MessageEvent<string>): void {
+  let event: ChangeEvent
+  try {
+    event = JSON.parse(message.data)
+  } catch {
+    return
+  }
+  // This tab already announced its own writes when they succeeded.
+  if (event.origin === clientId) return
+  for (const change of event.changes) notifyChange(change.table, change.action)
+}
+
+function handleOpen(): void {
+  // Anything written while the stream was down was missed; refresh everything.
+  if (hasConnected) {
+    for (const table of allTables) notifyChange(table, "resync")
+  }
+  hasConnected = true
+}
+
+/**
+ * Opens the shared server-sent events stream from /api/excel-db/changes and
+ * replays other devices' writes as local `excel-db-change` events. Returns a
+ * function that releases this subscriber; the stream closes with the last one.
+ */
+export function connectChangeFeed(): () => void {
+  if (typeof window === "undefined" || typeof EventSource === "undefined") return () => {}
+
+  subscribers++
+  if (!source) {
+    source = new EventSource("/api/excel-db/changes")
+    source.addEventListener("change", handleChange as EventListener)
+    source.addEventListener("open", handleOpen)
+  }
+
+  let released = false
+  return () => {
+    if (released) return
+    released = true
+    subscribers--
+    if (subscribers === 0 && source) {
+      source.close()
+      source = null
+      hasConnected = false
+    }
+  }
+}
+
+export const changeFeedService = {
+  connectChangeFeed,
+}
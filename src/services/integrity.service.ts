@@ -0,0 +1,46 @@
+"use client"
+
+import type { IntegrityIssue, IntegrityReport } from "@/src/server/storage/integrity"
+import { notifyChange, requestHeaders } from "./storage.service"
+import { handleUnauthorized } from "./auth.service"
+
+export type { IntegrityIssue, IntegrityReport }
+
+async function integrityRequest<T>(body: Record<string, unknown>): Promise<T> {
+  const response = await fetch("/api/excel-db", {
+    method: "POST",
+    headers: requestHeaders(),
+    body: JSON.stringify(body),
+  })
+  handleUnauthorized(response)
+
+  const result = await response.json().catch(() => null)
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.message || "Integrity check failed")
+  }
+  return result.data as T
+}
+
+/** Scans every table; nothing is changed. */
+export async function checkIntegrity(): Promise<IntegrityReport> {
+  return integrityRequest({ action: "checkIntegrity" })
+}
+
+/** Applies the suggested repairs for `issueIds` and returns a fresh report. */
+export async function repairIntegrity(
+  issueIds: string[],
+): Promise<{ repaired: IntegrityIssue[]; report: IntegrityReport }> {
+  const result = await integrityRequest<{ repaired: IntegrityIssue[]; report: IntegrityReport }>({
+    action: "repairIntegrity",
+    ids: issueIds,
+  })
+  for (const table of new Set(result.repaired.map((issue) => issue.table))) {
+    notifyChange(table, "update")
+  }
+  return result
+}
+
+export const integrityService = {
+  checkIntegrity,
+  repairIntegrity,
+}
@@ -0,0 +1,45 @@
+"use client"
+
+import type { LegacyFile, LegacyImportResult } from "@/src/server/storage/legacy-import"
+import { notifyChange, requestHeaders } from "./storage.service"
+import { handleUnauthorized } from "./auth.service"
+
+export type { LegacyImportResult }
+
+async function readFiles(files: File[]): Promise<LegacyFile[]> {
+  return Promise.all(files.map(async (file) => ({ name: file.name, content: await file.text() })))
+}
+
+async function importRequest(files: File[], dryRun: boolean): Promise<LegacyImportResult> {
+  const response = await fetch("/api/excel-db", {
+    method: "POST",
+    headers: requestHeaders(),
+    body: JSON.stringify({ action: "importLegacy", files: await readFiles(files), dryRun }),
+  })
+  handleUnauthorized(response)
+
+  const result = await response.json().catch(() => null)
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.message || "Legacy import failed")
+  }
+  return result.data as LegacyImportResult
+}
+
+/** Reports what importing `files` would do without writing anything. */
+export async function previewLegacyImport(files: File[]): Promise<LegacyImportResult> {
+  return importRequest(files, true)
+}
+
+export async function importLegacy(files: File[]): Promise<LegacyImportResult> {
+  const result = await importRequest(files, false)
+  for (const report of result.tables) {
+    if (report.imported > 0) notifyChange(report.table, "insert")
+  }
+  if (result.counterAdvanced) notifyChange("user_id_counter", "update")
+  return result
+}
+
+export const legacyImportService = {
+  previewLegacyImport,
+  importLegacy,
+}
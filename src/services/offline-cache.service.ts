@@ -6,6 +6,7 @@ const KEYS = {
   users: "offline_cache_users",
   subscriptions: "offline_cache_subscriptions",
   activeSessions: "offline_cache_active_sessions",
+  deviceId: "bacasfitness_device_id",
 }
 
 function getItem<T>(key: string): T | null {
@@ -107,6 +108,18 @@ export function updateCachedSession(userId: string, session: ActiveSession | nul
   setItem(KEYS.activeSessions, map)
 }
 
+// ==============================
+// DEVICE
+// ==============================
+/** Stable id for this browser, stamped on the scan logs it records. */
+export function getDeviceId(): string {
+  const existing = getItem<string>(KEYS.deviceId)
+  if (existing) return existing
+  const deviceId = crypto.randomUUID()
+  setItem(KEYS.deviceId, deviceId)
+  return deviceId
+}
+
 export const offlineCache = {
   cacheUsers,
   cacheUser,
@@ -120,4 +133,5 @@ export const offlineCache = {
   getCachedActiveSession,
   getCachedActiveSessions,
   updateCachedSession,
+  getDeviceId,
 }
@@ -1,5 +1,7 @@
 "use client"
 
+import { handleUnauthorized } from "./auth.service"
+
 const QUEUE_KEY = "offline_queue"
 const MAX_RETRIES = 5
 
@@ -76,6 +78,7 @@ async function processItem(item: OfflineQueueItem): Promise<boolean> {
           row: item.data,
         }),
       })
+      handleUnauthorized(response)
       if (!response.ok) throw new Error(`Insert failed: HTTP ${response.status}`)
     } else if (item.operation === "delete") {
       const deleteKey = item.data._deleteKey as string
@@ -90,6 +93,7 @@ async function processItem(item: OfflineQueueItem): Promise<boolean> {
             id: deleteValue,
           }),
         })
+        handleUnauthorized(response)
         if (!response.ok) throw new Error(`Delete failed: HTTP ${response.status}`)
       }
     }
@@ -0,0 +1,59 @@
+"use client"
+
+import type { StaffMember, StaffRole } from "@/src/types"
+import { requestHeaders } from "./storage.service"
+import { handleUnauthorized } from "./auth.service"
+
+export interface StaffInput {
+  email?: string
+  name?: string
+  role?: StaffRole
+  password?: string
+  disabled?: boolean
+}
+
+async function staffRequest<T>(path: string, init: RequestInit, fallback: string): Promise<T> {
+  const response = await fetch(path, { ...init, headers: requestHeaders() })
+  handleUnauthorized(response)
+
+  const result = await response.json().catch(() => null)
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.message || fallback)
+  }
+  return result.data as T
+}
+
+export async function listStaff(): Promise<StaffMember[]> {
+  return staffRequest<StaffMember[]>("/api/staff", { cache: "no-store" }, "Could not load staff accounts")
+}
+
+export async function createStaff(input: StaffInput): Promise<StaffMember> {
+  return staffRequest<StaffMember>(
+    "/api/staff",
+    { method: "POST", body: JSON.stringify(input) },
+    "Could not create the staff account",
+  )
+}
+
+export async function updateStaff(staffId: string, input: StaffInput): Promise<StaffMember> {
+  return staffRequest<StaffMember>(
+    `/api/staff/${encodeURIComponent(staffId)}`,
+    { method: "PATCH", body: JSON.stringify(input) },
+    "Could not update the staff account",
+  )
+}
+
+export async function deleteStaff(staffId: string): Promise<void> {
+  await staffRequest(
+    `/api/staff/${encodeURIComponent(staffId)}`,
+    { method: "DELETE" },
+    "Could not delete the staff account",
+  )
+}
+
+export const staffService = {
+  listStaff,
+  createStaff,
+  updateStaff,
+  deleteStaff,
+}
@@ -10,11 +10,37 @@ import type {
   EmergencyContact,
   LiabilityWaiver,
   Payment,
+  AuditEntry,
 } from "@/src/types"
+import type { QueryOptions } from "@/src/server/storage/query"
+import { can, tablePermission } from "@/src/lib/permissions"
+import { currentSession, handleUnauthorized } from "./auth.service"
+import {
+  userFromRow,
+  userToRow,
+  subscriptionFromRow,
+  subscriptionToRow,
+  medicalHistoryFromRow,
+  medicalHistoryToRow,
+  emergencyContactFromRow,
+  emergencyContactToRow,
+  liabilityWaiverFromRow,
+  liabilityWaiverToRow,
+  scanLogFromRow,
+  scanLogToRow,
+  activeSessionFromRow,
+  activeSessionToRow,
+  subscriptionHistoryFromRow,
+  subscriptionHistoryToRow,
+  paymentFromRow,
+  auditEntryFromRow,
+  paymentToRow,
+  type DbRow,
+} from "@/src/lib/row-mappers"
 import { offlineCache } from "./offline-cache.service"
 import { offlineQueue } from "./offline-queue.service"
 
-type TableName =
+export type TableName =
   | "users"
   | "subscriptions"
   | "medical_history"
@@ -25,10 +51,28 @@ type TableName =
   | "subscription_history"
   | "user_id_counter"
   | "payment"
+  | "audit_log"
+  | "scan_logs_archive"
+  | "payment_archive"
+  | "staff"
 
-type DbRow = Record<string, any>
 type ListCacheEntry = { expiresAt: number; rows: DbRow[] }
-
+type QueryResult = { rows: DbRow[]; total: number }
+type TransactionOperation =
+  | { table: TableName; action: "insert"; row: DbRow }
+  | { table: TableName; action: "update"; id: string | number; updates: DbRow }
+  | { table: TableName; action: "delete"; id: string | number }
+
+export interface MemberEnrollment {
+  user: User
+  subscription: Subscription
+  payment?: Payment
+  medicalHistory: MedicalHistory
+  emergencyContact: EmergencyContact
+  liabilityWaiver: LiabilityWaiver
+}
+
+// Member data tables; `audit_log` and the archives are only ever queried.
 const tableNames: TableName[] = [
   "users",
   "subscriptions",
@@ -41,38 +85,164 @@ const tableNames: TableName[] = [
   "user_id_counter",
   "payment",
 ]
+// Scan logs and payments grow with every visit, so the startup snapshot
+// leaves them out; read them with a ranged query where possible.
+const unboundedTables: TableName[] = ["scan_logs", "payment"]
+const snapshotTableNames = tableNames.filter((table) => !unboundedTables.includes(table))
 const listCacheTtlMs = 30_000
+/** Identifies this tab to the change feed so it can skip its own writes. */
+export const clientId = crypto.randomUUID()
+
+/**
+ * Headers for every API call: the device and tab a write comes from. Who is
+ * writing comes from the session cookie.
+ */
+export function requestHeaders(): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    "X-Client-Id": clientId,
+    "X-Device-Id": offlineCache.getDeviceId(),
+  }
+}
 const listCache = new Map<TableName, ListCacheEntry>()
 let snapshotRequest: Promise<Record<TableName, DbRow[]>> | null = null
 
+/**
+ * Thrown when an update was based on an outdated copy of a record. `current`
+ * holds the stored record so the caller can show and merge the differences.
+ */
+export class UpdateConflictError<T = DbRow> extends Error {
+  constructor(
+    message: string,
+    readonly current: T | null,
+  ) {
+    super(message)
+    this.name = "UpdateConflictError"
+  }
+}
+
+/**
+ * Thrown when the server rejects a row against its table schema.
+ * `fieldErrors` is keyed by the camelCase field names used in `src/types`.
+ */
+export class ValidationError extends Error {
+  constructor(
+    message: string,
+    readonly table: TableName,
+    readonly fieldErrors: Record<string, string>,
+  ) {
+    super(message)
+    this.name = "ValidationError"
+  }
+}
+
+function toCamelCase(column: string): string {
+  return column.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase())
+}
+
+/** Failure body from the server's `errorResponse`. */
+interface ErrorBody {
+  success?: false
+  message?: string
+  table?: TableName
+  errors?: Record<string, unknown>
+  conflict?: boolean
+  current?: DbRow | null
+}
+
+function toValidationError(result: ErrorBody | null): ValidationError | null {
+  if (!result?.errors || typeof result.errors !== "object" || !result.table) return null
+  const fieldErrors: Record<string, string> = {}
+  for (const [column, message] of Object.entries(result.errors)) {
+    fieldErrors[toCamelCase(column)] = String(message)
+  }
+  const summary = Object.values(fieldErrors).join("; ")
+  return new ValidationError(`${result.message}: ${summary}`, result.table, fieldErrors)
+}
+
 async function excelRequest<T>(
   table: TableName,
-  action: "list" | "get" | "insert" | "update" | "delete",
+  action: "list" | "get" | "query" | "insert" | "update" | "delete",
   payload: Record<string, unknown> = {},
 ): Promise<T> {
   const response = await fetch("/api/excel-db", {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: requestHeaders(),
     body: JSON.stringify({ table, action, ...payload }),
   })
+  handleUnauthorized(response)
 
   const result = await response.json().catch(() => null)
-  if (!response.ok || !result?.success) {
-    throw new Error(result?.message || `Excel database request failed: ${table}.${action}`)
+  if (response.status === 409 && result?.conflict) {
+    throw new UpdateConflictError<DbRow>(result.message, result.current || null)
   }
-
-  if (typeof window !== "undefined" && ["insert", "update", "delete"].includes(action)) {
-    clearListCache(table)
-    window.dispatchEvent(
-      new CustomEvent("excel-db-change", {
-        detail: { table, action, triggeredAt: new Date().toISOString() },
-      }),
+  if (!response.ok || !result?.success) {
+    throw (
+      toValidationError(result) ||
+      new Error(result?.message || `Excel database request failed: ${table}.${action}`)
     )
   }
 
+  if (["insert", "update", "delete"].includes(action)) notifyChange(table, action)
+
   return result.data as T
 }
 
+export function notifyChange(table: TableName, action: string): void {
+  if (typeof window === "undefined") return
+  clearListCache(table)
+  window.dispatchEvent(
+    new CustomEvent("excel-db-change", {
+      detail: { table, action, triggeredAt: new Date().toISOString() },
+    }),
+  )
+}
+
+/**
+ * Member lifecycle actions run server-side so archive and cascade delete see
+ * the same set of tables as the storage backend.
+ */
+async function memberRequest<T>(
+  action: "archiveMember" | "restoreMember" | "purgeMember",
+  userId: string,
+  changes: [TableName, string][],
+): Promise<T> {
+  const response = await fetch("/api/excel-db", {
+    method: "POST",
+    headers: requestHeaders(),
+    body: JSON.stringify({ action, id: userId }),
+  })
+  handleUnauthorized(response)
+
+  const result = await response.json().catch(() => null)
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.message || `Excel database request failed: ${action}`)
+  }
+
+  for (const [table, change] of changes) notifyChange(table, change)
+  return (action === "purgeMember" ? result.deleted : result.data) as T
+}
+
+async function runTransaction(operations: TransactionOperation[]): Promise<void> {
+  const response = await fetch("/api/excel-db", {
+    method: "POST",
+    headers: requestHeaders(),
+    body: JSON.stringify({ action: "transaction", operations }),
+  })
+  handleUnauthorized(response)
+
+  const result = await response.json().catch(() => null)
+  if (!response.ok || !result?.success) {
+    throw toValidationError(result) || new Error(result?.message || "Excel database transaction failed")
+  }
+
+  const changes = new Set(operations.map((operation) => `${operation.table}:${operation.action}`))
+  for (const change of changes) {
+    const [table, action] = change.split(":")
+    notifyChange(table as TableName, action)
+  }
+}
+
 function getCachedRows(table: TableName): DbRow[] | null {
   const cached = listCache.get(table)
   if (!cached || cached.expiresAt < Date.now()) {
@@ -98,14 +268,29 @@ function clearListCache(table?: TableName): void {
   snapshotRequest = null
 }
 
+/** Drops every cached table, e.g. when a different staff member signs in. */
+export function clearCache(): void {
+  clearListCache()
+}
+
+// Tables the signed-in role cannot read are left out and read as empty.
+function snapshotTables(): TableName[] {
+  const role = currentSession()?.role
+  return snapshotTableNames.filter((table) => {
+    const permission = tablePermission(table, "read")
+    return !permission || can(role, permission)
+  })
+}
+
 async function loadSnapshot(): Promise<Record<TableName, DbRow[]>> {
   if (!snapshotRequest) {
     snapshotRequest = fetch("/api/excel-db", {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ action: "batchList", tables: tableNames }),
+      headers: requestHeaders(),
+      body: JSON.stringify({ action: "batchList", tables: snapshotTables() }),
     })
       .then(async (response) => {
+        handleUnauthorized(response)
         const result = await response.json().catch(() => null)
         if (!response.ok || !result?.success) {
           throw new Error(result?.message || "Excel database batch request failed")
@@ -113,7 +298,7 @@ async function loadSnapshot(): Promise<Record<TableName, DbRow[]>> {
         return result.data as Record<TableName, DbRow[]>
       })
       .then((snapshot) => {
-        for (const table of tableNames) {
+        for (const table of snapshotTableNames) {
           setCachedRows(table, Array.isArray(snapshot[table]) ? snapshot[table] : [])
         }
         return snapshot
@@ -130,6 +315,12 @@ async function listRows(table: TableName): Promise<DbRow[]> {
   const cached = getCachedRows(table)
   if (cached) return cached
 
+  if (unboundedTables.includes(table)) {
+    const rows = await excelRequest<DbRow[]>(table, "list")
+    setCachedRows(table, rows)
+    return rows
+  }
+
   try {
     const snapshot = await loadSnapshot()
     return Array.isArray(snapshot[table]) ? snapshot[table] : []
@@ -155,16 +346,39 @@ async function getRow(table: TableName, id: string | number): Promise<DbRow | nu
   return excelRequest<DbRow | null>(table, "get", { id })
 }
 
-function toNumber(value: unknown): number | undefined {
-  if (value === null || value === undefined || value === "") return undefined
-  const numberValue = Number(value)
-  return Number.isFinite(numberValue) ? numberValue : undefined
+/**
+ * Sends an update, optionally only if the stored `updated_at` still equals
+ * `expectedUpdatedAt`. Conflicts are rethrown with the current record mapped
+ * through `fromRow`.
+ */
+async function updateRow<T>(
+  table: TableName,
+  id: string,
+  updates: DbRow,
+  expectedUpdatedAt: string | undefined,
+  fromRow: (row: DbRow) => T,
+): Promise<void> {
+  try {
+    await excelRequest(table, "update", {
+      id,
+      updates,
+      expected: expectedUpdatedAt ? { updated_at: expectedUpdatedAt } : undefined,
+    })
+  } catch (error) {
+    if (error instanceof UpdateConflictError) {
+      throw new UpdateConflictError<T>(error.message, error.current ? fromRow(error.current) : null)
+    }
+    throw error
+  }
 }
 
-function toBoolean(value: unknown): boolean {
-  if (typeof value === "boolean") return value
-  if (typeof value === "number") return value !== 0
-  return String(value ?? "").toLowerCase() === "true"
+/** `includeArchive` also searches the archived years of scan logs and payments. */
+async function queryRows(
+  table: TableName,
+  query: QueryOptions,
+  options: { includeArchive?: boolean } = {},
+): Promise<QueryResult> {
+  return excelRequest<QueryResult>(table, "query", { query, includeArchive: options.includeArchive })
 }
 
 function byDateDesc(field: string) {
@@ -172,255 +386,28 @@ function byDateDesc(field: string) {
     new Date(right[field] || 0).getTime() - new Date(left[field] || 0).getTime()
 }
 
-function userFromRow(row: DbRow): User {
-  return {
-    userId: String(row.user_id),
-    name: row.name || "",
-    email: row.email || undefined,
-    phone: row.phone || undefined,
-    birthday: row.birthday || undefined,
-    age: toNumber(row.age),
-    address: row.address || undefined,
-    goal: row.goal || undefined,
-    programType: row.program_type || undefined,
-    heightCm: toNumber(row.height_cm),
-    weightKg: toNumber(row.weight_kg),
-    createdAt: row.created_at || new Date().toISOString(),
-    updatedAt: row.updated_at || row.created_at || new Date().toISOString(),
-  }
-}
-
-function userToRow(user: User): DbRow {
-  return {
-    user_id: user.userId,
-    name: user.name,
-    email: user.email || null,
-    phone: user.phone || null,
-    birthday: user.birthday || null,
-    age: user.age || null,
-    address: user.address || null,
-    goal: user.goal || null,
-    program_type: user.programType || null,
-    height_cm: user.heightCm || null,
-    weight_kg: user.weightKg || null,
-    created_at: user.createdAt,
-    updated_at: user.updatedAt,
-  }
-}
-
-function subscriptionFromRow(row: DbRow): Subscription {
-  return {
-    userId: String(row.user_id),
-    startDate: row.start_date,
-    endDate: row.end_date,
-    status: row.status,
-    planDuration: row.plan_duration || null,
-    membershipType: row.membership_type || undefined,
-    coachingPreference: toBoolean(row.coaching_preference),
-    paymentStatus: row.payment_status || undefined,
-    paymentDate: row.payment_date || undefined,
-    createdAt: row.created_at || new Date().toISOString(),
-  }
-}
-
-function subscriptionToRow(subscription: Subscription): DbRow {
-  return {
-    user_id: subscription.userId,
-    start_date: subscription.startDate,
-    end_date: subscription.endDate,
-    status: subscription.status,
-    plan_duration: subscription.planDuration || null,
-    membership_type: subscription.membershipType || null,
-    coaching_preference: subscription.coachingPreference ?? false,
-    payment_status: subscription.paymentStatus ?? "not paid",
-    payment_date: subscription.paymentDate || null,
-    created_at: subscription.createdAt,
-  }
-}
-
-function medicalHistoryFromRow(row: DbRow): MedicalHistory {
-  return {
-    userId: String(row.user_id),
-    heartProblems: toBoolean(row.heart_problems),
-    bloodPressureProblems: toBoolean(row.blood_pressure_problems),
-    chestPainExercising: toBoolean(row.chest_pain_exercising),
-    asthmaBreathingProblems: toBoolean(row.asthma_breathing_problems),
-    jointProblems: toBoolean(row.joint_problems),
-    neckBackProblems: toBoolean(row.neck_back_problems),
-    pregnantRecentBirth: toBoolean(row.pregnant_recent_birth),
-    otherMedicalConditions: toBoolean(row.other_medical_conditions),
-    otherMedicalDetails: row.other_medical_details || undefined,
-    smoking: toBoolean(row.smoking),
-    medication: toBoolean(row.medication),
-    medicationDetails: row.medication_details || undefined,
-    createdAt: row.created_at || new Date().toISOString(),
-    updatedAt: row.updated_at || row.created_at || new Date().toISOString(),
-  }
-}
-
-function medicalHistoryToRow(medicalHistory: MedicalHistory): DbRow {
-  return {
-    user_id: medicalHistory.userId,
-    heart_problems: medicalHistory.heartProblems,
-    blood_pressure_problems: medicalHistory.bloodPressureProblems,
-    chest_pain_exercising: medicalHistory.chestPainExercising,
-    asthma_breathing_problems: medicalHistory.asthmaBreathingProblems,
-    joint_problems: medicalHistory.jointProblems,
-    neck_back_problems: medicalHistory.neckBackProblems,
-    pregnant_recent_birth: medicalHistory.pregnantRecentBirth,
-    other_medical_conditions: medicalHistory.otherMedicalConditions,
-    other_medical_details: medicalHistory.otherMedicalDetails || null,
-    smoking: medicalHistory.smoking,
-    medication: medicalHistory.medication,
-    medication_details: medicalHistory.medicationDetails || null,
-    created_at: medicalHistory.createdAt,
-    updated_at: medicalHistory.updatedAt,
-  }
-}
-
-function emergencyContactFromRow(row: DbRow): EmergencyContact {
-  return {
-    userId: String(row.user_id),
-    contactName: row.contact_name || "",
-    contactNumber: row.contact_number || "",
-    createdAt: row.created_at || new Date().toISOString(),
-    updatedAt: row.updated_at || row.created_at || new Date().toISOString(),
-  }
-}
-
-function emergencyContactToRow(contact: EmergencyContact): DbRow {
-  return {
-    user_id: contact.userId,
-    contact_name: contact.contactName,
-    contact_number: contact.contactNumber,
-    created_at: contact.createdAt,
-    updated_at: contact.updatedAt,
-  }
-}
-
-function liabilityWaiverFromRow(row: DbRow): LiabilityWaiver {
-  return {
-    userId: String(row.user_id),
-    signatureName: row.signature_name || "",
-    signedDate: row.signed_date || "",
-    waiverAccepted: toBoolean(row.waiver_accepted),
-    createdAt: row.created_at || new Date().toISOString(),
-  }
-}
-
-function liabilityWaiverToRow(waiver: LiabilityWaiver): DbRow {
-  return {
-    user_id: waiver.userId,
-    signature_name: waiver.signatureName,
-    signed_date: waiver.signedDate,
-    waiver_accepted: waiver.waiverAccepted,
-    created_at: waiver.createdAt,
-  }
-}
-
-function scanLogFromRow(row: DbRow): ScanLog {
-  return {
-    id: String(row.id),
-    userId: String(row.user_id),
-    userName: row.user_name || "",
-    timestamp: row.timestamp || "",
-    action: row.action,
-    status: row.status,
-  }
-}
-
-function scanLogToRow(log: ScanLog): DbRow {
-  return {
-    id: log.id || `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`,
-    user_id: log.userId,
-    user_name: log.userName,
-    timestamp: log.timestamp,
-    action: log.action,
-    status: log.status,
-  }
-}
-
-function activeSessionFromRow(row: DbRow): ActiveSession {
-  return {
-    userId: String(row.user_id),
-    userName: row.user_name || "",
-    checkInTime: row.check_in_time || "",
-  }
-}
-
-function activeSessionToRow(session: ActiveSession): DbRow {
-  return {
-    user_id: session.userId,
-    user_name: session.userName,
-    check_in_time: session.checkInTime,
-  }
-}
+/** Lists members. Archived members are left out unless `includeArchived` is set. */
+export async function getUsers(
+  options: { includeArchived?: boolean } = {},
+): Promise<User[]> {
+  const visible = (users: User[]) =>
+    options.includeArchived ? users : users.filter((user) => !user.archivedAt)
 
-function subscriptionHistoryFromRow(row: DbRow): SubscriptionHistory {
-  return {
-    id: String(row.id),
-    userId: String(row.user_id),
-    startDate: row.start_date,
-    endDate: row.end_date,
-    status: row.status,
-    createdAt: row.created_at || new Date().toISOString(),
-    updatedAt: row.updated_at || row.created_at || new Date().toISOString(),
-  }
-}
-
-function subscriptionHistoryToRow(history: SubscriptionHistory): DbRow {
-  return {
-    id: history.id,
-    user_id: history.userId,
-    start_date: history.startDate,
-    end_date: history.endDate,
-    status: history.status,
-    created_at: history.createdAt,
-    updated_at: history.updatedAt,
-  }
-}
-
-function paymentFromRow(row: DbRow): Payment {
-  return {
-    paymentId: String(row.payment_id),
-    userId: String(row.user_id),
-    amount: Number(row.amount || 0),
-    paymentMethod: row.payment_method,
-    paymentDate: row.payment_date,
-    referenceNumber: row.reference_number || undefined,
-    notes: row.notes || undefined,
-    paymentFor: row.payment_for,
-    createdAt: row.created_at || new Date().toISOString(),
-    updatedAt: row.updated_at || row.created_at || new Date().toISOString(),
-  }
-}
-
-function paymentToRow(payment: Payment): DbRow {
-  return {
-    payment_id: payment.paymentId,
-    user_id: payment.userId,
-    amount: payment.amount,
-    payment_method: payment.paymentMethod,
-    payment_date: payment.paymentDate,
-    reference_number: payment.referenceNumber || null,
-    notes: payment.notes || null,
-    payment_for: payment.paymentFor,
-    created_at: payment.createdAt,
-    updated_at: payment.updatedAt,
-  }
-}
-
-export async function getUsers(): Promise<User[]> {
   try {
     const users = (await listRows("users")).sort(byDateDesc("created_at")).map(userFromRow)
     offlineCache.cacheUsers(users)
-    return users
+    return visible(users)
   } catch (error) {
     console.error("Error fetching users:", error)
-    return offlineCache.getCachedUsers()
+    return visible(offlineCache.getCachedUsers())
   }
 }
 
+export async function getArchivedUsers(): Promise<User[]> {
+  const users = await getUsers({ includeArchived: true })
+  return users.filter((user) => !!user.archivedAt)
+}
+
 export async function getUserById(userId: string): Promise<User | null> {
   try {
     const row = await getRow("users", userId)
@@ -438,16 +425,76 @@ export async function addUser(user: User): Promise<void> {
   offlineCache.cacheUser(user)
 }
 
-export async function updateUser(userId: string, updates: Partial<User>): Promise<void> {
+/**
+ * Pass the `updatedAt` of the copy being edited as `expectedUpdatedAt` to
+ * reject the save with an `UpdateConflictError` if someone else changed the
+ * member in the meantime.
+ */
+export async function updateUser(
+  userId: string,
+  updates: Partial<User>,
+  expectedUpdatedAt?: string,
+): Promise<void> {
   const current = await getUserById(userId)
   if (!current) return
   const updated = { ...current, ...updates, updatedAt: new Date().toISOString() }
-  await excelRequest("users", "update", { id: userId, updates: userToRow(updated) })
+  // Archiving and restoring are their own actions with their own permission.
+  const row = userToRow(updated)
+  delete row.archived_at
+  await updateRow("users", userId, row, expectedUpdatedAt, userFromRow)
   offlineCache.cacheUser(updated)
 }
 
-export async function deleteUser(userId: string): Promise<void> {
-  await excelRequest("users", "delete", { id: userId })
+/**
+ * Soft-deletes a member: they disappear from the member list and can no
+ * longer scan in, but payments, scans and subscription history are kept.
+ */
+export async function archiveUser(userId: string): Promise<void> {
+  const row = await memberRequest<DbRow | null>("archiveMember", userId, [
+    ["users", "update"],
+    ["active_sessions", "delete"],
+  ])
+  if (row) offlineCache.cacheUser(userFromRow(row))
+}
+
+export async function restoreUser(userId: string): Promise<void> {
+  const row = await memberRequest<DbRow | null>("restoreMember", userId, [["users", "update"]])
+  if (row) offlineCache.cacheUser(userFromRow(row))
+}
+
+/**
+ * Permanently removes a member and every row that references them, across
+ * all tables, in one transaction. Returns the rows removed per table.
+ */
+export async function deleteUser(userId: string): Promise<Partial<Record<TableName, number>>> {
+  const changes = tableNames
+    .filter((table) => table !== "user_id_counter")
+    .map((table): [TableName, string] => [table, "delete"])
+  return memberRequest("purgeMember", userId, changes)
+}
+
+/**
+ * Creates a member together with their subscription, optional first payment,
+ * medical history, emergency contact and waiver in a single transaction, so
+ * a failure never leaves a half-registered member behind.
+ */
+export async function enrollMember(enrollment: MemberEnrollment): Promise<void> {
+  const operations: TransactionOperation[] = [
+    { table: "users", action: "insert", row: userToRow(enrollment.user) },
+    { table: "subscriptions", action: "insert", row: subscriptionToRow(enrollment.subscription) },
+  ]
+  if (enrollment.payment) {
+    operations.push({ table: "payment", action: "insert", row: paymentToRow(enrollment.payment) })
+  }
+  operations.push(
+    { table: "medical_history", action: "insert", row: medicalHistoryToRow(enrollment.medicalHistory) },
+    { table: "emergency_contacts", action: "insert", row: emergencyContactToRow(enrollment.emergencyContact) },
+    { table: "liability_waivers", action: "insert", row: liabilityWaiverToRow(enrollment.liabilityWaiver) },
+  )
+
+  await runTransaction(operations)
+  offlineCache.cacheUser(enrollment.user)
+  offlineCache.cacheSubscription(enrollment.subscription)
 }
 
 export async function getSubscriptions(): Promise<Subscription[]> {
@@ -500,14 +547,18 @@ export async function addMedicalHistory(medicalHistory: MedicalHistory): Promise
 export async function updateMedicalHistory(
   userId: string,
   updates: Partial<MedicalHistory>,
+  expectedUpdatedAt?: string,
 ): Promise<void> {
   const current = await getMedicalHistory(userId)
   if (!current) return
   const updated = { ...current, ...updates, updatedAt: new Date().toISOString() }
-  await excelRequest("medical_history", "update", {
-    id: userId,
-    updates: medicalHistoryToRow(updated),
-  })
+  await updateRow(
+    "medical_history",
+    userId,
+    medicalHistoryToRow(updated),
+    expectedUpdatedAt,
+    medicalHistoryFromRow,
+  )
 }
 
 export async function getEmergencyContact(userId: string): Promise<EmergencyContact | null> {
@@ -524,14 +575,18 @@ export async function addEmergencyContact(emergencyContact: EmergencyContact): P
 export async function updateEmergencyContact(
   userId: string,
   updates: Partial<EmergencyContact>,
+  expectedUpdatedAt?: string,
 ): Promise<void> {
   const current = await getEmergencyContact(userId)
   if (!current) return
   const updated = { ...current, ...updates, updatedAt: new Date().toISOString() }
-  await excelRequest("emergency_contacts", "update", {
-    id: userId,
-    updates: emergencyContactToRow(updated),
-  })
+  await updateRow(
+    "emergency_contacts",
+    userId,
+    emergencyContactToRow(updated),
+    expectedUpdatedAt,
+    emergencyContactFromRow,
+  )
 }
 
 export async function getLiabilityWaiver(userId: string): Promise<LiabilityWaiver | null> {
@@ -552,7 +607,7 @@ export async function getScanLogs(): Promise<ScanLog[]> {
 export async function addScanLog(log: ScanLog): Promise<void> {
   if (!log.userId || !log.action || !log.status || !log.timestamp) return
 
-  const row = scanLogToRow(log)
+  const row = scanLogToRow({ ...log, deviceId: log.deviceId || offlineCache.getDeviceId() })
   try {
     await excelRequest("scan_logs", "insert", { row })
   } catch (error) {
@@ -561,22 +616,70 @@ export async function addScanLog(log: ScanLog): Promise<void> {
   }
 }
 
-export async function getTodayScanLogs(): Promise<ScanLog[]> {
+/** Reaches into the archive when the range starts before the current period. */
+export async function getScanLogsBetween(from: Date, to: Date): Promise<ScanLog[]> {
+  const { rows } = await queryRows(
+    "scan_logs",
+    {
+      range: { column: "timestamp", from: from.toISOString(), to: to.toISOString() },
+      orderBy: { column: "timestamp", direction: "desc" },
+    },
+    { includeArchive: true },
+  )
+  return rows.map(scanLogFromRow)
+}
+
+/**
+ * Scan logs including archived years, newest first. `getScanLogs` only
+ * returns the current period.
+ */
+export async function getScanLogHistory(from?: Date): Promise<ScanLog[]> {
+  const { rows } = await queryRows(
+    "scan_logs",
+    {
+      range: from ? { column: "timestamp", from: from.toISOString() } : undefined,
+      orderBy: { column: "timestamp", direction: "desc" },
+    },
+    { includeArchive: true },
+  )
+  return rows.map(scanLogFromRow)
+}
+
+function todayRangePH(): [Date, Date] {
   const nowPH = new Date().toLocaleString("en-US", { timeZone: "Asia/Manila" })
   const todayPH = new Date(nowPH)
   const startOfDayPH = new Date(todayPH)
   startOfDayPH.setHours(0, 0, 0, 0)
   const endOfDayPH = new Date(todayPH)
   endOfDayPH.setHours(23, 59, 59, 999)
+  return [startOfDayPH, endOfDayPH]
+}
+
+export async function getTodayScanLogs(): Promise<ScanLog[]> {
+  return getScanLogsBetween(...todayRangePH())
+}
 
-  return (await getScanLogs()).filter((log) => {
-    const timestamp = new Date(log.timestamp).getTime()
-    return timestamp >= startOfDayPH.getTime() && timestamp <= endOfDayPH.getTime()
+/** How many of today's scans were `action`, without downloading the logs. */
+export async function countTodayScanLogs(action: ScanLog["action"]): Promise<number> {
+  const [from, to] = todayRangePH()
+  const { total } = await queryRows("scan_logs", {
+    where: { action },
+    range: { column: "timestamp", from: from.toISOString(), to: to.toISOString() },
+    limit: 0,
   })
+  return total
 }
 
 export async function getScanLogsByUserId(userId: string): Promise<ScanLog[]> {
-  return (await getScanLogs()).filter((log) => log.userId === userId)
+  const { rows } = await queryRows(
+    "scan_logs",
+    {
+      where: { user_id: userId },
+      orderBy: { column: "timestamp", direction: "desc" },
+    },
+    { includeArchive: true },
+  )
+  return rows.map(scanLogFromRow)
 }
 
 export async function getActiveSessionByUserId(userId: string): Promise<ActiveSession | null> {
@@ -636,18 +739,39 @@ export async function endSession(userId: string): Promise<ActiveSession | null>
   return session
 }
 
-export async function generateUserId(): Promise<string> {
-  const counter = await getUserIdCounter()
-  const currentLastNumber = counter?.lastNumber || 1000
-  const next = currentLastNumber + 1
+// Matches maxIdBlock on the server.
+const maxIdBlock = 500
 
-  if (counter) {
-    await excelRequest("user_id_counter", "update", { id: counter.id, updates: { last_number: next } })
-  } else {
-    await excelRequest("user_id_counter", "insert", { row: { id: 1, last_number: next } })
+/**
+ * Reserves `count` member ids on the server, which hands out each number once
+ * even when several desks enroll at the same time. Each block of up to
+ * `maxIdBlock` ids is consecutive.
+ */
+export async function reserveUserIds(count: number): Promise<string[]> {
+  if (count <= 0) return []
+  const ids: string[] = []
+  while (ids.length < count) {
+    const response = await fetch("/api/excel-db", {
+      method: "POST",
+      headers: requestHeaders(),
+      body: JSON.stringify({ action: "nextId", count: Math.min(count - ids.length, maxIdBlock) }),
+    })
+    handleUnauthorized(response)
+
+    const result = await response.json().catch(() => null)
+    if (!response.ok || !result?.success) {
+      throw new Error(result?.message || "Could not reserve member ids")
+    }
+    ids.push(...(result.data as string[]))
   }
 
-  return `BCF-${next}`
+  notifyChange("user_id_counter", "update")
+  return ids
+}
+
+export async function generateUserId(): Promise<string> {
+  const [userId] = await reserveUserIds(1)
+  return userId
 }
 
 export async function getSubscriptionHistory(
@@ -712,7 +836,28 @@ export async function getPayments(): Promise<Payment[]> {
 }
 
 export async function getPaymentsByUserId(userId: string): Promise<Payment[]> {
-  return (await getPayments()).filter((payment) => payment.userId === userId)
+  const { rows } = await queryRows(
+    "payment",
+    {
+      where: { user_id: userId },
+      orderBy: { column: "created_at", direction: "desc" },
+    },
+    { includeArchive: true },
+  )
+  return rows.map(paymentFromRow)
+}
+
+/** Payments including archived years, optionally only those paid from `from` on. */
+export async function getPaymentHistory(from?: Date): Promise<Payment[]> {
+  const { rows } = await queryRows(
+    "payment",
+    {
+      range: from ? { column: "payment_date", from: from.toISOString() } : undefined,
+      orderBy: { column: "created_at", direction: "desc" },
+    },
+    { includeArchive: true },
+  )
+  return rows.map(paymentFromRow)
 }
 
 export async function getPaymentById(paymentId: string): Promise<Payment | null> {
@@ -724,23 +869,57 @@ export async function addPayment(payment: Payment): Promise<void> {
   await excelRequest("payment", "insert", { row: paymentToRow(payment) })
 }
 
-export async function updatePayment(paymentId: string, updates: Partial<Payment>): Promise<void> {
+export async function updatePayment(
+  paymentId: string,
+  updates: Partial<Payment>,
+  expectedUpdatedAt?: string,
+): Promise<void> {
   const current = await getPaymentById(paymentId)
   if (!current) return
   const updated = { ...current, ...updates, updatedAt: new Date().toISOString() }
-  await excelRequest("payment", "update", { id: paymentId, updates: paymentToRow(updated) })
+  await updateRow("payment", paymentId, paymentToRow(updated), expectedUpdatedAt, paymentFromRow)
 }
 
 export async function deletePayment(paymentId: string): Promise<void> {
   await excelRequest("payment", "delete", { id: paymentId })
 }
 
+export interface AuditLogFilters {
+  memberId?: string
+  tableName?: TableName
+  actor?: string
+  limit?: number
+  offset?: number
+}
+
+/** Newest audit entries first, filtered on the server. */
+export async function getAuditLog(
+  filters: AuditLogFilters = {},
+): Promise<{ entries: AuditEntry[]; total: number }> {
+  const where: Record<string, unknown> = {}
+  if (filters.memberId) where.member_id = filters.memberId
+  if (filters.tableName) where.table_name = filters.tableName
+  if (filters.actor) where.actor = filters.actor
+
+  const { rows, total } = await queryRows("audit_log", {
+    where,
+    orderBy: { column: "at", direction: "desc" },
+    limit: filters.limit,
+    offset: filters.offset,
+  })
+  return { entries: rows.map(auditEntryFromRow), total }
+}
+
 export const storageService = {
   getUsers,
   getUserById,
   addUser,
   updateUser,
   deleteUser,
+  archiveUser,
+  restoreUser,
+  getArchivedUsers,
+  enrollMember,
   getSubscriptions,
   getSubscriptionByUserId,
   addOrUpdateSubscription,
@@ -754,7 +933,10 @@ export const storageService = {
   addLiabilityWaiver,
   getScanLogs,
   addScanLog,
+  getScanLogsBetween,
+  getScanLogHistory,
   getTodayScanLogs,
+  countTodayScanLogs,
   getScanLogsByUserId,
   getActiveSessions,
   getActiveSessionByUserId,
@@ -762,6 +944,7 @@ export const storageService = {
   startSession,
   endSession,
   generateUserId,
+  reserveUserIds,
   getSubscriptionHistory,
   archiveSubscription,
   addUsers,
@@ -771,11 +954,14 @@ export const storageService = {
   getUserIdCounter,
   generatePaymentId,
   getPayments,
+  getPaymentHistory,
   getPaymentsByUserId,
   getPaymentById,
   addPayment,
   updatePayment,
   deletePayment,
+  getAuditLog,
+  clearCache,
 }
 
 export * as storage from "./storage.service"
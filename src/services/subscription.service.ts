@@ -77,6 +77,15 @@ export async function validateAccess(
     }
   }
 
+  if (user.archivedAt) {
+    return {
+      isValid: false,
+      status: "invalid",
+      message: "Membership Archived",
+      user,
+    }
+  }
+
   const subscription = await storage.getSubscriptionByUserId(userId)
 
   if (!isSubscriptionActive(subscription)) {
@@ -0,0 +1,44 @@
+"use client"
+
+import type { ReconcileResult, SyncConflict, SyncStatus } from "@/src/server/storage/sync"
+import { handleUnauthorized } from "./auth.service"
+
+export type { ReconcileResult, SyncConflict }
+export type SyncState = SyncStatus | { enabled: false }
+
+async function syncRequest<T>(
+  action: "syncStatus" | "reconcile" | "resolveConflict",
+  payload: Record<string, unknown> = {},
+): Promise<T> {
+  const response = await fetch("/api/excel-db", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ action, ...payload }),
+  })
+  handleUnauthorized(response)
+
+  const result = await response.json().catch(() => null)
+  if (!response.ok || !result?.success) {
+    throw new Error(result?.message || `Sync request failed: ${action}`)
+  }
+  return result.data as T
+}
+
+export async function getSyncStatus(): Promise<SyncState> {
+  return syncRequest<SyncState>("syncStatus")
+}
+
+export async function reconcile(): Promise<ReconcileResult> {
+  return syncRequest<ReconcileResult>("reconcile")
+}
+
+/** `local` pushes the held-back change to Google Sheets; `remote` discards it. */
+export async function resolveConflict(id: string, keep: "local" | "remote"): Promise<ReconcileResult> {
+  return syncRequest<ReconcileResult>("resolveConflict", { id, keep })
+}
+
+export const syncService = {
+  getSyncStatus,
+  reconcile,
+  resolveConflict,
+}
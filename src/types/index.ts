@@ -14,6 +14,7 @@ export interface User {
   weightKg?: number
   createdAt: string
   updatedAt: string
+  archivedAt?: string // Set when the member is archived (soft-deleted)
 }
 
 export interface Subscription {
@@ -93,6 +94,21 @@ export type ScanLog = {
   timestamp: string
   action: "check-in" | "check-out" | "not-applicable"  // include not-applicable
   status: "success" | "expired" | "invalid"
+  deviceId?: string // Scanner device that recorded the log
+}
+
+/** One change recorded in `audit_log`; `before`/`after` use database column names. */
+export interface AuditEntry {
+  id: string
+  at: string
+  tableName: string
+  recordId: string
+  memberId?: string
+  action: "insert" | "update" | "delete"
+  before: Record<string, unknown> | null
+  after: Record<string, unknown> | null
+  actor?: string
+  deviceId?: string
 }
 
 export interface ActiveSession {
@@ -107,4 +123,17 @@ export interface AccessValidation {
   message: string
   user?: User
   subscription?: Subscription
-}
\ No newline at end of file
+}
+export type StaffRole = "owner" | "manager" | "front_desk" | "coach"
+
+/** A staff account as shown to owners; the password hash never leaves the server. */
+export interface StaffMember {
+  staffId: string
+  email: string
+  name: string
+  role: StaffRole
+  createdAt: string
+  updatedAt: string
+  lastLoginAt?: string
+  disabledAt?: string // Set when the account may no longer sign in
+}